@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { 
   Download, 
   Settings, 
@@ -14,6 +14,17 @@ import {
 } from 'lucide-react';
 import { cadAI } from '../services/cadAI';
 import type { CADModelData, CADExportOptions } from '../types/architectural';
+import { useUnitPreference } from '../hooks/useUnitPreference';
+import {
+  DEFAULT_MODEL_UNITS,
+  formatArea,
+  formatDimensions,
+  formatVolume,
+  LENGTH_UNIT_NAMES,
+  LENGTH_UNITS,
+  type LengthUnit
+} from '../services/units';
+import { exportService, type ExportProgress } from '../services/exportService';
 
 interface CADExportPanelProps {
   cadModel: CADModelData;
@@ -24,13 +35,20 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
   cadModel, 
   className = '' 
 }) => {
+  const { displayUnits } = useUnitPreference();
+  const modelUnits = cadModel.units || DEFAULT_MODEL_UNITS;
   const [exportOptions, setExportOptions] = useState<CADExportOptions>({
     format: 'gltf',
-    units: 'mm',
+    units: displayUnits,
     quality: 'high',
     scale: 1
   });
+
+  useEffect(() => {
+    setExportOptions(prev => ({ ...prev, units: displayUnits }));
+  }, [displayUnits]);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
   const [exportHistory, setExportHistory] = useState<Array<{
     format: string;
     timestamp: Date;
@@ -39,6 +57,11 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
   }>>([]);
   const [showCostEstimate, setShowCostEstimate] = useState(false);
   const [costEstimate, setCostEstimate] = useState<any>(null);
+  const [costError, setCostError] = useState<string | null>(null);
+  const measured = !cadModel.properties.analysisFailed;
+
+  // Writer of the selected format, when it is converted in the browser
+  const exportFormat = exportService.get(exportOptions.format);
 
   // Format configurations
   const formatInfo = {
@@ -56,6 +79,13 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
       color: 'bg-green-500',
       useCases: ['3D printing', 'Rapid prototyping']
     },
+    '3mf': {
+      name: '3MF',
+      description: 'Print-ready with units & colors',
+      icon: <Printer className="w-5 h-5" />,
+      color: 'bg-teal-500',
+      useCases: ['3D printing', 'Multi-part prints', 'Print shops']
+    },
     obj: {
       name: 'OBJ',
       description: 'Universal 3D format',
@@ -92,7 +122,7 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
 
     setIsExporting(true);
     try {
-      const exportResult = await cadAI.exportCADModel(cadModel, exportOptions);
+      const exportResult = await cadAI.exportCADModel(cadModel, exportOptions, setExportProgress);
       
       // Add to export history
       const newExport = {
@@ -116,17 +146,21 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
       // You might want to show an error toast here
     } finally {
       setIsExporting(false);
+      setExportProgress(null);
     }
   }, [cadModel, exportOptions, isExporting]);
 
   // Estimate manufacturing cost
   const estimateCost = useCallback(async (material: string = 'PLA') => {
     setShowCostEstimate(true);
+    setCostError(null);
     try {
       const estimate = await cadAI.estimateManufacturingCost(cadModel, material);
       setCostEstimate(estimate);
     } catch (error) {
       console.error('Cost estimation failed:', error);
+      setCostEstimate(null);
+      setCostError(error instanceof Error ? error.message : 'Cost estimate unavailable');
     }
   }, [cadModel]);
 
@@ -140,8 +174,8 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
             <p className="text-gray-300 text-sm">Download in professional CAD formats</p>
           </div>
           <div className="text-right text-sm text-gray-400">
-            <div>Volume: {cadModel.properties.volume.toLocaleString()} mm³</div>
-            <div>Complexity: {cadModel.properties.complexity}</div>
+            <div>Volume: {measured ? formatVolume(cadModel.properties.volume, modelUnits, displayUnits) : 'unavailable'}</div>
+            <div>Complexity: {measured ? cadModel.properties.complexity : 'unavailable'}</div>
           </div>
         </div>
 
@@ -185,15 +219,13 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
               value={exportOptions.units}
               onChange={(e) => setExportOptions(prev => ({ 
                 ...prev, 
-                units: e.target.value as any 
+                units: e.target.value as LengthUnit
               }))}
               className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
             >
-              <option value="mm">Millimeters</option>
-              <option value="cm">Centimeters</option>
-              <option value="m">Meters</option>
-              <option value="in">Inches</option>
-              <option value="ft">Feet</option>
+              {LENGTH_UNITS.map(unit => (
+                <option key={unit} value={unit}>{LENGTH_UNIT_NAMES[unit]}</option>
+              ))}
             </select>
           </div>
 
@@ -270,6 +302,43 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
           </div>
         </div>
 
+        {/* Format Options (from the format's writer) */}
+        {exportFormat && exportFormat.options.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {exportFormat.options.map(option => {
+              const value = exportOptions.formatOptions?.[option.key] ?? option.default;
+              const setValue = (next: string | boolean) => setExportOptions(prev => ({
+                ...prev,
+                formatOptions: { ...prev.formatOptions, [option.key]: next }
+              }));
+              return option.type === 'select' ? (
+                <div key={option.key}>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">{option.label}</label>
+                  <select
+                    value={String(value)}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                  >
+                    {option.choices?.map(choice => (
+                      <option key={choice.value} value={choice.value}>{choice.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <label key={option.key} className="flex items-center gap-3 cursor-pointer text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(e) => setValue(e.target.checked)}
+                    className="text-cyan-500 focus:ring-cyan-500/50"
+                  />
+                  {option.label}
+                </label>
+              );
+            })}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center gap-4">
           <button
@@ -280,7 +349,9 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
             {isExporting ? (
               <>
                 <Loader2 className="w-5 h-5 animate-spin" />
-                Exporting...
+                {exportProgress?.stage === 'writing'
+                  ? `Writing ${Math.round(exportProgress.fraction * 100)}%...`
+                  : exportProgress?.stage === 'loading' ? 'Loading model...' : 'Exporting...'}
               </>
             ) : (
               <>
@@ -298,7 +369,21 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
           </button>
         </div>
 
+        {exportProgress?.stage === 'writing' && (
+          <div className="w-full bg-white/10 rounded-full h-1.5 -mt-3">
+            <div
+              className="bg-cyan-500 h-1.5 rounded-full transition-all"
+              style={{ width: `${Math.round(exportProgress.fraction * 100)}%` }}
+            />
+          </div>
+        )}
+
         {/* Manufacturing Cost Estimate */}
+        {showCostEstimate && costError && (
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-sm text-gray-300">
+            {costError}
+          </div>
+        )}
         {showCostEstimate && costEstimate && (
           <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4">
             <h4 className="text-green-400 font-medium mb-3">Manufacturing Cost Estimate</h4>
@@ -364,12 +449,12 @@ const CADExportPanel: React.FC<CADExportPanelProps> = ({
             <div>
               <div className="text-gray-400">Dimensions</div>
               <div className="text-white">
-                {cadModel.properties.dimensions.width} × {cadModel.properties.dimensions.height} × {cadModel.properties.dimensions.depth} mm
+                {measured ? formatDimensions(cadModel.properties.dimensions, modelUnits, displayUnits) : 'Unavailable'}
               </div>
             </div>
             <div>
               <div className="text-gray-400">Surface Area</div>
-              <div className="text-white">{cadModel.properties.surfaceArea.toLocaleString()} mm²</div>
+              <div className="text-white">{measured ? formatArea(cadModel.properties.surfaceArea, modelUnits, displayUnits) : 'Unavailable'}</div>
             </div>
             <div>
               <div className="text-gray-400">Available Formats</div>
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
   Send, 
   Wand2, 
@@ -14,11 +14,59 @@ import {
   ToggleLeft,
   ToggleRight,
   Zap,
-  ZapOff
+  ZapOff,
+  History,
+  XCircle,
+  Copy,
+  Languages
 } from 'lucide-react';
-import { cadAI } from '../services/cadAI';
+import {
+  cadAI,
+  createIdempotencyKey,
+  DEFAULT_FALLBACK_POLICY,
+  GenerationCancelledError,
+  MAX_CAD_VARIANTS,
+  type CADFallbackPolicy,
+  type CADFallbackProposal,
+  type CADModel,
+  type CADVariantOptions,
+  type CADVariantResult,
+  type GenerationJob,
+  type GenerationProgressDetails
+} from '../services/cadAI';
+import {
+  AuthFailedError,
+  describeGenerationError,
+  GenerationError,
+  QuotaExceededError,
+  RateLimitedError,
+  toGenerationError
+} from '../services/generationErrors';
+import { supabase } from '../lib/supabase';
+import VariantComparison from './VariantComparison';
+import FallbackProposalPrompt from './FallbackProposalPrompt';
+import SubstitutedModelConfirmation from './SubstitutedModelConfirmation';
+import DimensionCheckNotice from './DimensionCheckNotice';
+import QueueStatusNotice from './QueueStatusNotice';
+import ClarifyingQuestions from './ClarifyingQuestions';
+import EnhancementRulePreview from './EnhancementRulePreview';
+import EnhancementStatsView from './EnhancementStatsView';
 import { useUsage } from '../hooks/useUsage';
 import { useAuth } from '../hooks/useAuth';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
+import { useUnitPreference } from '../hooks/useUnitPreference';
+import { convertVolume, DEFAULT_MODEL_UNITS, type LengthUnit } from '../services/units';
+import { parsePromptSpec } from '../services/promptSpecs';
+import { findMissingDetails, type ClarifyingQuestion } from '../services/promptClarification';
+import type { QueueStatus } from '../services/requestScheduler';
+import {
+  detectLanguage,
+  LANGUAGE_NAMES,
+  PROMPT_LANGUAGES,
+  translationService,
+  type PromptLanguage,
+  type PromptTranslation
+} from '../services/translation';
 import type { CADGenerationRequest, CADExportOptions, ArchitecturalModel } from '../types/architectural';
 
 interface CADInputPanelProps {
@@ -27,6 +75,53 @@ interface CADInputPanelProps {
   className?: string;
 }
 
+// Wrap a generated CAD model in the ArchitecturalModel shape the wizard steps consume
+const toArchitecturalModel = (cadModel: CADModel, fallbackPrompt: string) => ({
+  id: cadModel.id,
+  name: `CAD Model - ${cadModel.prompt.substring(0, 30)}...`,
+  description: cadModel.prompt,
+  type: 'cad' as const,
+  rooms: [],
+  doors: [],
+  windows: [],
+  totalArea: cadModel.properties.volume,
+  style: 'modern',
+  created: new Date(),
+  modified: new Date(),
+  cadModel,
+  // Add productSpecs for proper display
+  productSpecs: {
+    name: cadModel.originalPrompt ? `${cadModel.originalPrompt.substring(0, 50)}...` : `CAD Model ${cadModel.id.substring(0, 8)}`,
+    description: cadModel.prompt || fallbackPrompt,
+    components: [
+      {
+        name: "Main Body",
+        material: "Engineering Plastic",
+        dimensions: {
+          width: cadModel.properties.dimensions.width,
+          length: cadModel.properties.dimensions.depth,
+          height: cadModel.properties.dimensions.height
+        },
+        function: "Primary structural component"
+      }
+    ],
+    manufacturing: {
+      method: "3D Printing / CNC Machining",
+      materials: ["ABS Plastic", "PLA", "Aluminum"],
+      complexity: cadModel.properties.complexity,
+      estimated_cost: "15-45 USD"
+    },
+    specifications: {
+      weight: cadModel.properties.analysisFailed
+        ? 'unavailable'
+        : `${Math.round(convertVolume(cadModel.properties.volume, cadModel.units || DEFAULT_MODEL_UNITS, 'cm') * 1.2 * 100) / 100} g`, // Estimate based on volume
+      durability: "High"
+    },
+    totalVolume: Math.round(cadModel.properties.volume),
+    style: "modern"
+  }
+});
+
 const CADInputPanel: React.FC<CADInputPanelProps> = ({
   onCADGenerated,
   isGenerating,
@@ -36,7 +131,7 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [advancedOptions, setAdvancedOptions] = useState<{
     outputFormat?: 'gltf' | 'stl' | 'obj' | 'ply' | 'step' | 'fbx';
-    units?: 'mm' | 'cm' | 'm' | 'in' | 'ft';
+    units?: LengthUnit;
     scale?: number;
   }>({
     outputFormat: 'gltf',
@@ -46,13 +141,29 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
   const [validation, setValidation] = useState<{ valid: boolean; suggestions?: string[] }>({ valid: true });
   const [showExamples, setShowExamples] = useState(false);
   const [showTips, setShowTips] = useState(false);
-  const [lastError, setLastError] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<GenerationError | null>(null);
+  // When a rate-limited generation may be retried
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retrySecondsLeft = useRetryCountdown(retryAt);
   const [enhancementInfo, setEnhancementInfo] = useState<{
     original: string;
     enhanced: string;
     source: string;
     confidence: number;
   } | null>(null);
+  // Set when the last result came from the prompt cache rather than a new generation
+  const [cachedResultAt, setCachedResultAt] = useState<string | null>(null);
+  // Last result when its measured size did not match the sizes in its prompt
+  const [dimensionMismatch, setDimensionMismatch] = useState<{ model: CADModel; prompt: string } | null>(null);
+  // Questions about details missing from the prompt, asked before generating it
+  const [clarifyingQuestions, setClarifyingQuestions] = useState<ClarifyingQuestion[] | null>(null);
+  // Prompt whose questions were answered or skipped, so they are not asked again
+  const clarifiedPromptRef = useRef<string | null>(null);
+  // Language picked by the user for the prompt; detected from the text when null
+  const [languageOverride, setLanguageOverride] = useState<PromptLanguage | null>(null);
+  // English translation now in the prompt box, kept while the prompt still starts with it
+  const [translation, setTranslation] = useState<PromptTranslation | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [lastGeneratedModel, setLastGeneratedModel] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<any | null>(null);
@@ -65,11 +176,132 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
   const [isLocallyGenerating, setIsLocallyGenerating] = useState(false);
   const [processingSteps, setProcessingSteps] = useState<string[]>([]);
   const [currentStep, setCurrentStep] = useState<string>('');
+  // Set while the submission waits for its turn at the generation service
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
 
-  // Add usage tracking hooks
-  const { canUseDesign, incrementDesignUsage } = useUsage();
+  // Jobs left running or unclaimed by a previous page load
+  const [resumableJobs, setResumableJobs] = useState<GenerationJob[]>([]);
+
+  // Aborts the running generation when the user presses Cancel
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Variant batch: how many to generate, how to vary them, and the results being compared
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantStrategy, setVariantStrategy] = useState<CADVariantOptions['strategy']>('repeat');
+  const [variantResults, setVariantResults] = useState<CADVariantResult[] | null>(null);
+  const [variantProgress, setVariantProgress] = useState<Record<number, string>>({});
+  const [isGeneratingVariants, setIsGeneratingVariants] = useState(false);
+
+  // What to do when the AI rejects the prompt, and the pending question under the 'ask' policy
+  const [fallbackPolicy, setFallbackPolicy] = useState<CADFallbackPolicy>(DEFAULT_FALLBACK_POLICY);
+  const [fallbackProposal, setFallbackProposal] = useState<CADFallbackProposal | null>(null);
+  const fallbackResolverRef = useRef<((accepted: boolean) => void) | null>(null);
+
+  // A model generated from a substitute prompt, held back until the user accepts it
+  const [substitutedModel, setSubstitutedModel] = useState<{ model: CADModel; prompt: string } | null>(null);
+  const [isDecliningSubstitute, setIsDecliningSubstitute] = useState(false);
+
+  // Idempotency key of the current attempt. Retrying the same request after a retryable failure
+  // reuses it, so a job that was created despite the error is returned instead of charged twice.
+  const attemptRef = useRef<{ key: string; fingerprint: string } | null>(null);
+
+  const idempotencyKeyFor = useCallback((attempt: unknown) => {
+    const fingerprint = JSON.stringify(attempt);
+    if (attemptRef.current?.fingerprint !== fingerprint) {
+      attemptRef.current = { key: createIdempotencyKey(), fingerprint };
+    }
+    return attemptRef.current.key;
+  }, []);
+
+  // The attempt reached a definite outcome; the next click is a new generation
+  const settleAttempt = useCallback((error?: unknown) => {
+    if (!(error instanceof GenerationError && error.retryable)) attemptRef.current = null;
+  }, []);
+
+  // Usage is charged by the generation endpoint; the hook only reflects it
+  const { canUseDesign, refreshUsage, incrementDesignUsage } = useUsage();
   const { user } = useAuth();
+  const { displayUnits } = useUnitPreference();
+
+  // Generate in the user's units unless they pick others
+  useEffect(() => {
+    setAdvancedOptions(prev => ({ ...prev, units: displayUnits }));
+  }, [displayUnits]);
+
+  // Sizes and counts read from the prompt, checked against the model once it is generated
+  const promptSpec = useMemo(
+    () => parsePromptSpec(prompt, advancedOptions.units || DEFAULT_MODEL_UNITS),
+    [prompt, advancedOptions.units]
+  );
+
+  const detectedLanguage = useMemo(() => detectLanguage(prompt), [prompt]);
+  const promptLanguage = languageOverride ?? detectedLanguage.language;
+
+  // Look for generations that were still running when the page was last closed
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setResumableJobs([]);
+      return;
+    }
+
+    let cancelled = false;
+    cadAI.listGenerationJobs()
+      .then(jobs => {
+        if (!cancelled) setResumableJobs(jobs);
+      })
+      .catch(error => console.warn('Could not load generation jobs:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Show a failed generation; rate limits also start the retry countdown
+  const reportError = useCallback((error: unknown) => {
+    const typed = toGenerationError(error);
+    // The server refused to charge another design
+    if (typed instanceof QuotaExceededError) {
+      setShowUpgradePrompt(true);
+      setLastError(null);
+      return;
+    }
+    setLastError(typed);
+    setRetryAt(typed instanceof RateLimitedError ? Date.now() + typed.retryAfterMs : null);
+  }, []);
+
+  // Ask the user about a fallback prompt; resolved by the buttons in the loading overlay
+  const confirmFallback = useCallback((proposal: CADFallbackProposal) =>
+    new Promise<boolean>(resolve => {
+      fallbackResolverRef.current = resolve;
+      setFallbackProposal(proposal);
+    }), []);
+
+  const respondToFallback = useCallback((accepted: boolean) => {
+    fallbackResolverRef.current?.(accepted);
+    fallbackResolverRef.current = null;
+    setFallbackProposal(null);
+  }, []);
+
+  // Ask before using a substituted model; discarding it refunds its design credit
+  const holdSubstitutedModel = useCallback((cadModel: CADModel, originalPrompt: string) => {
+    setSubstitutedModel({ model: cadModel, prompt: originalPrompt });
+    setCurrentStep('Review the substituted model');
+  }, []);
+
+  const handleDiscardSubstitute = useCallback(async () => {
+    if (!substitutedModel) return;
+    setIsDecliningSubstitute(true);
+    try {
+      await cadAI.declineSubstitutedModel(substitutedModel.model);
+      setSubstitutedModel(null);
+      await refreshUsage();
+    } finally {
+      setIsDecliningSubstitute(false);
+    }
+  }, [substitutedModel, refreshUsage]);
 
   // Enhanced prompt validation based on AgenticadML's best practices
   const validatePromptEnhanced = useCallback((value: string) => {
@@ -141,11 +373,41 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
     const validationResult = validatePromptEnhanced(value);
     setValidation(validationResult);
     setLastError(null); // Clear previous errors when user types
+    setCachedResultAt(null);
+    setDimensionMismatch(null);
+    setClarifyingQuestions(null);
+    setTranslation(prev => (prev && value.trim().startsWith(prev.text) ? prev : null));
   }, [validatePromptEnhanced]);
 
-  // Handle CAD generation with better error handling, usage tracking, and loading screen
-  const handleGenerate = useCallback(async () => {
-    if (!prompt.trim() || !validation.valid || isGenerating || isLocallyGenerating) return;
+  // English version of a prompt to generate from, translating it and showing the translation in
+  // the prompt box when it is written in another language
+  const toEnglishPrompt = useCallback(async (text: string): Promise<{
+    prompt: string;
+    translatedFrom?: CADGenerationRequest['translatedFrom'];
+  }> => {
+    if (translation && text.startsWith(translation.text)) {
+      return { prompt: text, translatedFrom: { language: translation.language, prompt: translation.original } };
+    }
+    if (promptLanguage === 'en') return { prompt: text };
+
+    setIsTranslating(true);
+    try {
+      const translated = await translationService.toEnglish(text, promptLanguage);
+      handlePromptChange(translated.text);
+      setTranslation(translated);
+      setLanguageOverride(null);
+      return { prompt: translated.text, translatedFrom: { language: translated.language, prompt: translated.original } };
+    } finally {
+      setIsTranslating(false);
+    }
+  }, [translation, promptLanguage, handlePromptChange]);
+
+  // Handle CAD generation with better error handling, usage tracking, and loading screen.
+  // A fresh generation bypasses the prompt cache. promptText is the prompt with clarifying
+  // answers added, passed directly since the prompt state has not caught up yet.
+  const handleGenerate = useCallback(async (fresh: boolean = false, promptText?: string) => {
+    const typedPrompt = (promptText ?? prompt).trim();
+    if (!typedPrompt || !validation.valid || isGenerating || isLocallyGenerating || isTranslating) return;
 
     // Check if user can create more designs
     if (!canUseDesign()) {
@@ -153,32 +415,55 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
       return;
     }
 
+    // Questions, enhancement and generation all work on English prompts
+    const { prompt: generationPrompt, translatedFrom } = await toEnglishPrompt(typedPrompt);
+
+    // Ask about missing details first; regenerating the same prompt does not ask again
+    if (!fresh && generationPrompt !== clarifiedPromptRef.current) {
+      const questions = findMissingDetails(
+        generationPrompt,
+        parsePromptSpec(generationPrompt, advancedOptions.units || DEFAULT_MODEL_UNITS)
+      );
+      if (questions.length > 0) {
+        setClarifyingQuestions(questions);
+        return;
+      }
+    }
+    setClarifyingQuestions(null);
+
     setLastError(null);
     setEnhancementInfo(null);
+    setCachedResultAt(null);
+    setDimensionMismatch(null);
+    // Starting over discards a substituted model that was never accepted
+    if (substitutedModel) {
+      cadAI.declineSubstitutedModel(substitutedModel.model);
+      setSubstitutedModel(null);
+    }
     setIsLocallyGenerating(true);
     setProcessingSteps([]);
     setCurrentStep('Starting generation...');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     try {
-      // Increment design usage before generation
-      const canProceed = await incrementDesignUsage();
-      
-      if (!canProceed) {
-        setShowUpgradePrompt(true);
-        return;
-      }
-
+      const attempt = { prompt: generationPrompt, ...advancedOptions };
       const request: CADGenerationRequest = {
-        prompt: prompt.trim(),
-        ...advancedOptions
+        ...attempt,
+        idempotencyKey: idempotencyKeyFor({ attempt, skipEnhancement, fallbackPolicy }),
+        translatedFrom
       };
 
       // Pass the skipEnhancement flag and progress callback to the CAD generation function
       const cadModel = await cadAI.generateAndWaitForCAD(
         request, 
         skipEnhancement,
-        (step: string, details?: any) => {
+        (step: string, details?: GenerationProgressDetails) => {
           setCurrentStep(step);
+          // Waiting is shown on its own, not as a step
+          setQueueStatus(details?.queue ?? null);
+          if (details?.queue) return;
           setProcessingSteps(prev => {
             const newSteps = [...prev];
             if (!newSteps.includes(step)) {
@@ -186,13 +471,26 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             }
             return newSteps;
           });
+        },
+        abortController.signal,
+        {
+          fallbackPolicy,
+          confirmFallback,
+          fresh,
+          chargeCacheHit: () => incrementDesignUsage()
         }
       );
+      settleAttempt();
+
+      if (cadModel.fallback?.substituted) {
+        holdSubstitutedModel(cadModel, generationPrompt);
+        return;
+      }
       
       // Show enhancement info if prompt was enhanced
       if (cadModel.enhancementInfo?.wasEnhanced) {
         setEnhancementInfo({
-          original: cadModel.originalPrompt || prompt.trim(),
+          original: cadModel.originalPrompt || generationPrompt,
           enhanced: cadModel.prompt,
           source: cadModel.enhancementInfo.source,
           confidence: cadModel.enhancementInfo.confidence
@@ -200,79 +498,220 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
       }
       
       // Transform CAD model to ArchitecturalModel format for compatibility
-      const architecturalModel = {
-        id: cadModel.id,
-        name: `CAD Model - ${cadModel.prompt.substring(0, 30)}...`,
-        description: cadModel.prompt,
-        type: 'cad' as const,
-        rooms: [],
-        doors: [],
-        windows: [],
-        totalArea: cadModel.properties.volume,
-        style: 'modern',
-        created: new Date(),
-        modified: new Date(),
-        cadModel,
-        // Add productSpecs for proper display
-        productSpecs: {
-          name: cadModel.originalPrompt ? `${cadModel.originalPrompt.substring(0, 50)}...` : `CAD Model ${cadModel.id.substring(0, 8)}`,
-          description: cadModel.prompt,
-          components: [
-            {
-              name: "Main Body",
-              material: "Engineering Plastic",
-              dimensions: {
-                width: cadModel.properties.dimensions.width,
-                length: cadModel.properties.dimensions.depth,
-                height: cadModel.properties.dimensions.height
-              },
-              function: "Primary structural component"
-            }
-          ],
-          manufacturing: {
-            method: "3D Printing / CNC Machining",
-            materials: ["ABS Plastic", "PLA", "Aluminum"],
-            complexity: cadModel.properties.complexity,
-            estimated_cost: "15-45 USD"
-          },
-          specifications: {
-            weight: `${Math.round(cadModel.properties.volume / 1000 * 1.2 * 100) / 100} g`, // Estimate based on volume
-            durability: "High"
-          },
-          totalVolume: Math.round(cadModel.properties.volume),
-          style: "modern"
-        }
-      };
+      const architecturalModel = toArchitecturalModel(cadModel, generationPrompt);
 
       setCurrentStep('Generation complete!');
       onCADGenerated(architecturalModel);
-      setPrompt('');
       setLastGeneratedModel(architecturalModel);
+      if (cadModel.dimensionCheck?.mismatched) {
+        setDimensionMismatch({ model: cadModel, prompt: generationPrompt });
+      }
+      // Keep the prompt of a cached or wrongly sized result so it can be generated again
+      if (cadModel.cachedAt) {
+        setCachedResultAt(cadModel.cachedAt);
+      } else if (!cadModel.dimensionCheck?.mismatched) {
+        setPrompt('');
+      }
     } catch (error) {
-      console.error('CAD generation failed:', error);
-      
-      // Enhanced error handling for AgenticadML API specific errors
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (errorMessage.includes('422') || errorMessage.includes('Unprocessable Entity')) {
-        setLastError('agenticad_422');
-      } else if (errorMessage.includes('timeout')) {
-        setLastError('timeout');
-      } else if (errorMessage.includes('rate limit')) {
-        setLastError('rate_limit');
-      } else {
-        setLastError('general');
+      settleAttempt(error);
+      if (error instanceof GenerationCancelledError) {
+        setCurrentStep('Generation cancelled');
+        return;
       }
+
+      console.error('CAD generation failed:', error);
+      reportError(error);
       setCurrentStep('Generation failed');
     } finally {
+      abortControllerRef.current = null;
+      setIsCancelling(false);
       setIsLocallyGenerating(false);
+      setQueueStatus(null);
+      // Pick up the charge (or the refund of a cancelled or failed job) made by the server
+      refreshUsage();
       // Clear processing steps after a delay
       setTimeout(() => {
         setProcessingSteps([]);
         setCurrentStep('');
       }, 3000);
     }
-  }, [prompt, validation.valid, isGenerating, isLocallyGenerating, advancedOptions, onCADGenerated, skipEnhancement, canUseDesign, incrementDesignUsage]);
+  }, [prompt, validation.valid, isGenerating, isLocallyGenerating, isTranslating, advancedOptions, onCADGenerated, skipEnhancement, canUseDesign, refreshUsage, reportError, fallbackPolicy, confirmFallback, holdSubstitutedModel, substitutedModel, idempotencyKeyFor, settleAttempt, incrementDesignUsage, toEnglishPrompt]);
+
+  // Generate the prompt with the clarifying answers added, showing it in the prompt box
+  const handleClarifiedGenerate = useCallback((clarifiedPrompt: string) => {
+    clarifiedPromptRef.current = clarifiedPrompt;
+    handlePromptChange(clarifiedPrompt);
+    handleGenerate(false, clarifiedPrompt);
+  }, [handlePromptChange, handleGenerate]);
+
+  const handleSkipClarification = useCallback(() => {
+    clarifiedPromptRef.current = prompt.trim();
+    handleGenerate();
+  }, [prompt, handleGenerate]);
+
+  // Scale the mismatched model to the size the prompt asked for and show it instead
+  const handleRescaleToPrompt = useCallback((factor: number) => {
+    if (!dimensionMismatch) return;
+    const rescaled = cadAI.checkDimensions(cadAI.rescaleModel(dimensionMismatch.model, factor), dimensionMismatch.prompt);
+    const architecturalModel = toArchitecturalModel(rescaled, dimensionMismatch.prompt);
+    onCADGenerated(architecturalModel);
+    setLastGeneratedModel(architecturalModel);
+    setDimensionMismatch(null);
+    setPrompt('');
+  }, [dimensionMismatch, onCADGenerated]);
+
+  // The user keeps the substituted model, so its design credit stays spent
+  const handleAcceptSubstitute = useCallback(() => {
+    if (!substitutedModel) return;
+    cadAI.acceptSubstitutedModel(substitutedModel.model);
+    const architecturalModel = toArchitecturalModel(substitutedModel.model, substitutedModel.prompt);
+    onCADGenerated(architecturalModel);
+    setLastGeneratedModel(architecturalModel);
+    setSubstitutedModel(null);
+    setPrompt('');
+  }, [substitutedModel, onCADGenerated]);
+
+  // Generate several variants in parallel and show them side by side; each variant costs a design credit
+  const handleGenerateVariants = useCallback(async () => {
+    if (!prompt.trim() || !validation.valid || isGenerating || isLocallyGenerating || isGeneratingVariants || isTranslating) return;
+
+    // Every variant is charged by the server as it is submitted
+    if (!canUseDesign(variantCount)) {
+      setShowUpgradePrompt(true);
+      return;
+    }
+
+    const { prompt: generationPrompt, translatedFrom } = await toEnglishPrompt(prompt.trim());
+
+    setLastError(null);
+    setEnhancementInfo(null);
+    setIsGeneratingVariants(true);
+    setVariantProgress({});
+    setVariantResults(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const attempt = { prompt: generationPrompt, ...advancedOptions };
+      const variantOptions: CADVariantOptions = { count: variantCount, strategy: variantStrategy, skipEnhancement };
+      const results = await cadAI.generateVariants(
+        { ...attempt, idempotencyKey: idempotencyKeyFor({ attempt, variantOptions }), translatedFrom },
+        variantOptions,
+        (index, step) => setVariantProgress(prev => ({ ...prev, [index]: step })),
+        abortController.signal
+      );
+      settleAttempt();
+
+      setVariantResults(results);
+      if (!results.some(r => r.status === 'completed') && !results.every(r => r.status === 'cancelled')) {
+        reportError(new GenerationError('internal', 'No variant could be generated'));
+      }
+    } catch (error) {
+      settleAttempt(error);
+      console.error('Variant generation failed:', error);
+      reportError(error);
+    } finally {
+      abortControllerRef.current = null;
+      setIsCancelling(false);
+      setIsGeneratingVariants(false);
+      refreshUsage();
+    }
+  }, [prompt, validation.valid, isGenerating, isLocallyGenerating, isGeneratingVariants, isTranslating, advancedOptions, variantCount, variantStrategy, skipEnhancement, canUseDesign, refreshUsage, reportError, idempotencyKeyFor, settleAttempt, toEnglishPrompt]);
+
+  // Move the chosen variant into the wizard
+  const handlePromoteVariant = useCallback((cadModel: CADModel) => {
+    const architecturalModel = toArchitecturalModel(cadModel, prompt.trim());
+    onCADGenerated(architecturalModel);
+    setLastGeneratedModel(architecturalModel);
+    setVariantResults(null);
+    setPrompt('');
+  }, [prompt, onCADGenerated]);
+
+  // Stop the running generation; the service cancels the Zoo job and refunds the credit
+  const handleCancelGeneration = useCallback(() => {
+    if (!abortControllerRef.current || isCancelling) return;
+    setIsCancelling(true);
+    setCurrentStep('Cancelling generation...');
+    abortControllerRef.current.abort();
+    // A pending fallback question would otherwise keep the generation waiting
+    respondToFallback(false);
+  }, [isCancelling, respondToFallback]);
+
+  // Reattach to a job from a previous page load; its design credit was already spent
+  const handleResumeJob = useCallback(async (job: GenerationJob) => {
+    if (isGenerating || isLocallyGenerating) return;
+
+    setLastError(null);
+    setIsLocallyGenerating(true);
+    setProcessingSteps([]);
+    setCurrentStep('Reconnecting to your generation...');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const cadModel = await cadAI.resumeGenerationJob(job, (step: string) => {
+        setCurrentStep(step);
+        setProcessingSteps(prev => prev.includes(step) ? prev : [...prev, step]);
+      }, abortController.signal);
+
+      setResumableJobs(prev => prev.filter(j => j.id !== job.id));
+      if (cadModel.fallback?.substituted) {
+        holdSubstitutedModel(cadModel, job.originalPrompt);
+        return;
+      }
+
+      const architecturalModel = toArchitecturalModel(cadModel, job.originalPrompt);
+      setCurrentStep('Generation complete!');
+      onCADGenerated(architecturalModel);
+      setLastGeneratedModel(architecturalModel);
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        if (error.creditRefunded) refreshUsage();
+        setResumableJobs(prev => prev.filter(j => j.id !== job.id));
+        setCurrentStep('Generation cancelled');
+        return;
+      }
+
+      console.error('Resuming generation failed:', error);
+      reportError(error);
+      setResumableJobs(prev => prev.filter(j => j.id !== job.id));
+      setCurrentStep('Generation failed');
+    } finally {
+      abortControllerRef.current = null;
+      setIsCancelling(false);
+      setIsLocallyGenerating(false);
+      setTimeout(() => {
+        setProcessingSteps([]);
+        setCurrentStep('');
+      }, 3000);
+    }
+  }, [isGenerating, isLocallyGenerating, onCADGenerated, refreshUsage, reportError, holdSubstitutedModel]);
+
+  // Recovery for an expired session: refresh it and try the same prompt again
+  const handleRefreshSessionAndRetry = useCallback(async () => {
+    const { error } = await supabase.auth.refreshSession();
+    if (error) {
+      console.error('Session refresh failed:', error);
+      setLastError(new AuthFailedError(error.message, { details: 'Your session could not be refreshed. Please sign out and sign in again.' }));
+      return;
+    }
+    setLastError(null);
+    await handleGenerate();
+  }, [handleGenerate]);
+
+  // Recovery for a timeout: the job may have finished server-side since
+  const handleCheckRecentJobs = useCallback(async () => {
+    try {
+      const jobs = await cadAI.listGenerationJobs();
+      setResumableJobs(jobs);
+      setLastError(jobs.length > 0 ? null : new GenerationError('timeout', 'No recent generations were found'));
+    } catch (error) {
+      console.warn('Could not load generation jobs:', error);
+      reportError(error);
+    }
+  }, [reportError]);
 
   // Insert example prompt
   const insertExample = useCallback((example: string) => {
@@ -300,7 +739,8 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
         units: 'mm'
       };
 
-      const cadModel = await cadAI.generateAndWaitForCAD(request, true); // Skip enhancement for test
+      // Skip enhancement and the prompt cache for the test
+      const cadModel = await cadAI.generateAndWaitForCAD(request, true, undefined, undefined, { fresh: true });
       
       // Transform to architectural model format
       const architecturalModel = {
@@ -339,7 +779,9 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             estimated_cost: "10-30 USD"
           },
           specifications: {
-            weight: `${Math.round(cadModel.properties.volume / 1000 * 1.2 * 100) / 100} g`,
+            weight: cadModel.properties.analysisFailed
+              ? 'unavailable'
+              : `${Math.round(convertVolume(cadModel.properties.volume, cadModel.units || DEFAULT_MODEL_UNITS, 'cm') * 1.2 * 100) / 100} g`,
             durability: "High"
           },
           totalVolume: Math.round(cadModel.properties.volume),
@@ -353,9 +795,9 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
       
     } catch (error) {
       console.error('❌ AgenticadML test failed:', error);
-      setLastError('general');
+      reportError(error);
     }
-  }, [isGenerating, isLocallyGenerating, onCADGenerated]);
+  }, [isGenerating, isLocallyGenerating, onCADGenerated, reportError]);
 
   // Enhanced example prompts based on AgenticadML's research
   const getAgenticadExamplePrompts = () => [
@@ -374,14 +816,17 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
   const renderErrorMessage = () => {
     if (!lastError) return null;
 
-    switch (lastError) {
-      case 'agenticad_422':
+    const recovery = describeGenerationError(lastError);
+    const retryButtonClass = 'flex items-center gap-1 text-xs px-3 py-1 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+    switch (recovery.action) {
+      case 'rephrase':
         return (
           <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
             <div className="flex items-start gap-3">
               <AlertCircle className="w-5 h-5 text-yellow-400 mt-0.5" />
               <div>
-                <h4 className="text-yellow-400 font-medium text-sm mb-2">Prompt Needs More Detail</h4>
+                <h4 className="text-yellow-400 font-medium text-sm mb-2">{recovery.title}</h4>
                 <p className="text-yellow-300 text-sm mb-3">
                   Our AgenticadML AI works best with specific, technical descriptions. Try being more detailed about:
                 </p>
@@ -411,40 +856,95 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
           </div>
         );
 
-      case 'timeout':
+      case 'wait_and_retry':
         return (
-          <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4">
-            <div className="flex items-center gap-3">
-              <AlertCircle className="w-5 h-5 text-orange-400" />
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-400 mt-0.5" />
               <div>
-                <h4 className="text-orange-400 font-medium text-sm">Generation Timeout</h4>
-                <p className="text-orange-300 text-sm">The CAD generation took too long. Try a simpler design or try again.</p>
+                <h4 className="text-red-400 font-medium text-sm">{recovery.title}</h4>
+                <p className="text-red-300 text-sm mb-3">{recovery.message}</p>
+                <button
+                  onClick={() => handleGenerate()}
+                  disabled={retrySecondsLeft > 0}
+                  className={`${retryButtonClass} bg-red-500/20 text-red-200 hover:bg-red-500/30`}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  {retrySecondsLeft > 0 ? `Retry in ${retrySecondsLeft}s` : 'Retry Now'}
+                </button>
               </div>
             </div>
           </div>
         );
 
-      case 'rate_limit':
+      case 'sign_in':
         return (
           <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
-            <div className="flex items-center gap-3">
-              <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-400 mt-0.5" />
               <div>
-                <h4 className="text-red-400 font-medium text-sm">Rate Limit Exceeded</h4>
-                <p className="text-red-300 text-sm">Too many requests. Please wait a moment before trying again.</p>
+                <h4 className="text-red-400 font-medium text-sm">{recovery.title}</h4>
+                <p className="text-red-300 text-sm mb-3">{recovery.message}</p>
+                {lastError.details && <p className="text-red-300/70 text-xs -mt-2 mb-3">{lastError.details}</p>}
+                <button
+                  onClick={handleRefreshSessionAndRetry}
+                  className={`${retryButtonClass} bg-red-500/20 text-red-200 hover:bg-red-500/30`}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Refresh Session &amp; Retry
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+
+      case 'check_jobs':
+        return (
+          <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-orange-400 mt-0.5" />
+              <div>
+                <h4 className="text-orange-400 font-medium text-sm">{recovery.title}</h4>
+                <p className="text-orange-300 text-sm mb-3">{recovery.message}</p>
+                <div className="flex gap-2">
+                  {user && (
+                    <button
+                      onClick={handleCheckRecentJobs}
+                      className={`${retryButtonClass} bg-orange-500/20 text-orange-200 hover:bg-orange-500/30`}
+                    >
+                      <History className="w-3 h-3" />
+                      Check Recent Generations
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleGenerate()}
+                    className={`${retryButtonClass} bg-orange-500/20 text-orange-200 hover:bg-orange-500/30`}
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Try Again
+                  </button>
+                </div>
               </div>
             </div>
           </div>
         );
 
       default:
+        // Service outages, missing outputs and anything unclassified: try the same prompt again
         return (
           <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
-            <div className="flex items-center gap-3">
-              <AlertCircle className="w-5 h-5 text-red-400" />
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-400 mt-0.5" />
               <div>
-                <h4 className="text-red-400 font-medium text-sm">Generation Failed</h4>
-                <p className="text-red-300 text-sm">Unable to generate CAD model. Please try again with a different prompt.</p>
+                <h4 className="text-red-400 font-medium text-sm">{recovery.title}</h4>
+                <p className="text-red-300 text-sm mb-3">{recovery.message}</p>
+                <button
+                  onClick={() => handleGenerate()}
+                  className={`${retryButtonClass} bg-red-500/20 text-red-200 hover:bg-red-500/30`}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  {recovery.action === 'regenerate' ? 'Generate Again' : 'Try Again'}
+                </button>
               </div>
             </div>
           </div>
@@ -494,6 +994,61 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             </div>
           </div>
 
+          {/* Prompt language, and the original of a translated prompt */}
+          {prompt.trim() && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Languages className="w-4 h-4 text-gray-400" />
+              <select
+                value={languageOverride ?? 'auto'}
+                onChange={(e) => setLanguageOverride(e.target.value === 'auto' ? null : e.target.value as PromptLanguage)}
+                disabled={isGenerating || isLocallyGenerating || isTranslating}
+                className="bg-black/20 border border-purple-400/30 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-400/50"
+              >
+                <option value="auto">Auto ({LANGUAGE_NAMES[detectedLanguage.language]} detected)</option>
+                {PROMPT_LANGUAGES.map(language => (
+                  <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>
+                ))}
+              </select>
+              {isTranslating && (
+                <span className="flex items-center gap-1 text-cyan-300">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Translating to English...
+                </span>
+              )}
+              {!isTranslating && promptLanguage !== 'en' && !translation && (
+                <span className="text-gray-400">Translated to English before generating</span>
+              )}
+              {translation && (
+                <span className="text-gray-400" title={`Translated with ${translation.provider}`}>
+                  Translated from {LANGUAGE_NAMES[translation.language]}: <span className="text-gray-300 italic">{translation.original}</span>
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Sizes and counts read from the prompt */}
+          {(promptSpec.dimensions.length > 0 || promptSpec.counts.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-gray-400">Detected:</span>
+              {promptSpec.dimensions.map((dimension, index) => (
+                <span
+                  key={`d${index}`}
+                  title={dimension.role === 'extent' ? 'Checked against the generated model' : 'Feature size (not checked)'}
+                  className={`px-2 py-1 rounded-md ${
+                    dimension.role === 'extent' ? 'bg-cyan-500/20 text-cyan-200' : 'bg-white/10 text-gray-300'
+                  }`}
+                >
+                  {dimension.value} {dimension.unit}{dimension.label !== 'size' && ` ${dimension.label}`}
+                </span>
+              ))}
+              {promptSpec.counts.map(count => (
+                <span key={count.feature} className="px-2 py-1 rounded-md bg-purple-500/20 text-purple-200">
+                  {count.count} × {count.feature}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Validation Feedback */}
           {!validation.valid && validation.suggestions && (
             <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4">
@@ -509,9 +1064,76 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             </div>
           )}
 
+          {/* Details missing from the prompt, asked before generating */}
+          {clarifyingQuestions && (
+            <ClarifyingQuestions
+              prompt={prompt}
+              questions={clarifyingQuestions}
+              unit={advancedOptions.units || DEFAULT_MODEL_UNITS}
+              onSubmit={handleClarifiedGenerate}
+              onSkip={handleSkipClarification}
+              isGenerating={isLocallyGenerating}
+            />
+          )}
+
           {/* Error Messages */}
           {renderErrorMessage()}
 
+          {/* Generated model whose size differs from the prompt */}
+          {dimensionMismatch?.model.dimensionCheck && (
+            <DimensionCheckNotice
+              verification={dimensionMismatch.model.dimensionCheck}
+              onRescale={handleRescaleToPrompt}
+              onRegenerate={() => handleGenerate(true)}
+              onDismiss={() => {
+                setDimensionMismatch(null);
+                setPrompt('');
+              }}
+              isRegenerating={isLocallyGenerating}
+            />
+          )}
+
+          {/* Model from a substitute prompt, waiting for the user's decision */}
+          {substitutedModel && (
+            <SubstitutedModelConfirmation
+              model={substitutedModel.model}
+              originalPrompt={substitutedModel.prompt}
+              onAccept={handleAcceptSubstitute}
+              onDiscard={handleDiscardSubstitute}
+              isDiscarding={isDecliningSubstitute}
+              displayUnits={displayUnits}
+            />
+          )}
+
+          {/* Resumable Generations */}
+          {resumableJobs.length > 0 && (
+            <div className="bg-cyan-500/10 border border-cyan-500/30 rounded-xl p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <History className="w-5 h-5 text-cyan-400" />
+                <h4 className="text-cyan-400 font-medium text-sm">Generations from your last session</h4>
+              </div>
+              <div className="space-y-2">
+                {resumableJobs.map(job => (
+                  <div key={job.id} className="flex items-center justify-between gap-4 bg-black/20 rounded-lg p-3">
+                    <div className="min-w-0">
+                      <p className="text-gray-200 text-sm truncate">{job.originalPrompt}</p>
+                      <p className="text-gray-400 text-xs">
+                        {job.status === 'completed' ? 'Ready' : 'Still generating'} • started {new Date(job.createdAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleResumeJob(job)}
+                      disabled={isGenerating || isLocallyGenerating}
+                      className="flex-shrink-0 text-xs px-3 py-1 bg-cyan-500/20 text-cyan-200 rounded-lg hover:bg-cyan-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {job.status === 'completed' ? 'Open' : 'Resume'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Upgrade Prompt Modal */}
           {showUpgradePrompt && (
             <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4">
@@ -543,6 +1165,8 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
                   <p className="text-blue-300 text-sm">Your prompts will be enhanced for better AgenticadML compatibility</p>
                 </div>
               </div>
+              <EnhancementRulePreview prompt={prompt} className="mt-3" />
+              <EnhancementStatsView className="mt-2" />
             </div>
           )}
           
@@ -558,6 +1182,37 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             </div>
           )}
 
+          {/* Cached Result Info */}
+          {cachedResultAt && (
+            <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-4">
+              <div className="flex items-start gap-3">
+                <History className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+                <div className="flex-1">
+                  <h4 className="text-blue-400 font-medium text-sm">Loaded your previous result for this prompt</h4>
+                  <p className="text-blue-300 text-sm mt-1">
+                    Generated {new Date(cachedResultAt).toLocaleString()}. Generate fresh to get a new model from the AI.
+                  </p>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => handleGenerate(true)}
+                      disabled={isGenerating || isLocallyGenerating}
+                      className="flex items-center gap-1 text-xs px-3 py-1.5 bg-blue-500/20 text-blue-200 rounded-lg hover:bg-blue-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      Generate Fresh (1 design credit)
+                    </button>
+                    <button
+                      onClick={() => setCachedResultAt(null)}
+                      className="text-xs px-3 py-1.5 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Prompt Enhancement Info */}
           {enhancementInfo && (
             <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-6">
@@ -679,15 +1334,44 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
               <Settings className="w-4 h-4" />
               Advanced
             </button> */}
+
+            {/* Variant Batch */}
+            <div className="flex items-center gap-2 px-4 py-2 bg-cyan-500/10 text-cyan-300 rounded-xl border border-cyan-500/30">
+              <Copy className="w-4 h-4" />
+              <select
+                value={variantCount}
+                onChange={(e) => setVariantCount(parseInt(e.target.value, 10))}
+                disabled={isGeneratingVariants}
+                className="bg-transparent text-cyan-200 font-medium focus:outline-none"
+                title="Generate several variants and compare them side by side"
+              >
+                {Array.from({ length: MAX_CAD_VARIANTS }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n} className="bg-gray-900">
+                    {n === 1 ? 'Single model' : `${n} variants`}
+                  </option>
+                ))}
+              </select>
+              {variantCount > 1 && (
+                <select
+                  value={variantStrategy}
+                  onChange={(e) => setVariantStrategy(e.target.value as CADVariantOptions['strategy'])}
+                  disabled={isGeneratingVariants}
+                  className="bg-transparent text-cyan-200 text-sm focus:outline-none"
+                >
+                  <option value="repeat" className="bg-gray-900">Same prompt</option>
+                  <option value="phrasings" className="bg-gray-900">Different phrasings</option>
+                </select>
+              )}
+            </div>
             
             <div className="flex-1" />
             
             <button
-              onClick={handleGenerate}
-              disabled={!prompt.trim() || !validation.valid || isGenerating || isLocallyGenerating}
+              onClick={variantCount > 1 ? handleGenerateVariants : () => handleGenerate()}
+              disabled={!prompt.trim() || !validation.valid || isGenerating || isLocallyGenerating || isGeneratingVariants}
               className="flex items-center gap-3 px-10 py-4 bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-semibold rounded-xl hover:from-cyan-600 hover:to-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-xl shadow-cyan-500/30"
             >
-              {isGenerating || isLocallyGenerating ? (
+              {isGenerating || isLocallyGenerating || isGeneratingVariants ? (
                 <>
                   <Loader2 className="w-5 h-5 animate-spin" />
                   Generating...
@@ -695,12 +1379,25 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
               ) : (
                 <>
                   <Wand2 className="w-5 h-5" />
-                  Generate CAD Model
+                  {variantCount > 1 ? `Generate ${variantCount} Variants` : 'Generate CAD Model'}
                 </>
               )}
             </button>
           </div>
 
+          {/* Variant Comparison */}
+          {(isGeneratingVariants || variantResults) && (
+            <VariantComparison
+              count={variantCount}
+              results={isGeneratingVariants ? null : variantResults}
+              progress={variantProgress}
+              onPromote={handlePromoteVariant}
+              onDiscard={() => setVariantResults(null)}
+              onCancel={handleCancelGeneration}
+              displayUnits={displayUnits}
+            />
+          )}
+
           {/* Loading Overlay */}
           {isLocallyGenerating && (
             <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-50 flex items-center justify-center">
@@ -759,6 +1456,8 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
                     ))}
                   </div>
                   
+                  {queueStatus && <QueueStatusNotice status={queueStatus} className="mt-6" />}
+
                   {/* Enhancement Status */}
                   {skipEnhancement && (
                     <div className="mt-6 flex items-center justify-center gap-2 text-orange-400">
@@ -778,10 +1477,33 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
                     </div>
                   )}
                   
+                  {/* Fallback question under the 'ask' policy */}
+                  {fallbackProposal && (
+                    <FallbackProposalPrompt
+                      proposal={fallbackProposal}
+                      onRespond={respondToFallback}
+                      className="mt-6"
+                    />
+                  )}
+
                   {/* Status Message */}
                   <div className="mt-8 text-gray-300">
                     <p className="text-sm">Using AgenticadML AI with {skipEnhancement ? 'direct prompt processing' : 'enhanced prompt processing'}...</p>
                   </div>
+
+                  {/* Cancel */}
+                  <button
+                    onClick={handleCancelGeneration}
+                    disabled={isCancelling}
+                    className="mt-6 inline-flex items-center gap-2 px-6 py-2 bg-red-500/20 text-red-200 border border-red-500/30 rounded-xl hover:bg-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isCancelling ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <XCircle className="w-4 h-4" />
+                    )}
+                    {isCancelling ? 'Cancelling...' : 'Cancel Generation'}
+                  </button>
                 </div>
               </div>
             </div>
@@ -846,7 +1568,7 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
             <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-4">
               <h4 className="text-white font-medium">Advanced Options</h4>
               
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">Output Format</label>
                   <select
@@ -872,7 +1594,7 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
                     value={advancedOptions.units || 'mm'}
                     onChange={(e) => setAdvancedOptions(prev => ({ 
                       ...prev, 
-                      units: e.target.value as any 
+                      units: e.target.value as LengthUnit
                     }))}
                     className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
                   >
@@ -899,6 +1621,20 @@ const CADInputPanel: React.FC<CADInputPanelProps> = ({
                     className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">If the Prompt Is Rejected</label>
+                  <select
+                    value={fallbackPolicy}
+                    onChange={(e) => setFallbackPolicy(e.target.value as CADFallbackPolicy)}
+                    className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                  >
+                    <option value="ask">Ask me first</option>
+                    <option value="design_prefix">Retry rephrased only</option>
+                    <option value="template">Fall back to a template</option>
+                    <option value="fail">Stop and show the error</option>
+                  </select>
+                </div>
               </div>
             </div>
           )}
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { HelpCircle, Sparkles } from 'lucide-react';
+import {
+  composeClarifiedPrompt,
+  type ClarificationAnswers,
+  type ClarifyingQuestion,
+  type SizeAnswer
+} from '../services/promptClarification';
+import type { LengthUnit } from '../services/units';
+
+interface ClarifyingQuestionsProps {
+  prompt: string;
+  questions: ClarifyingQuestion[];
+  unit: LengthUnit;
+  onSubmit: (clarifiedPrompt: string) => void;
+  onSkip: () => void;
+  isGenerating?: boolean;
+  className?: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/**
+ * Asks for the details a prompt leaves out before it is generated. Unanswered questions are
+ * left out of the composed prompt, which is previewed as the user types.
+ */
+const ClarifyingQuestions: React.FC<ClarifyingQuestionsProps> = ({
+  prompt,
+  questions,
+  unit,
+  onSubmit,
+  onSkip,
+  isGenerating = false,
+  className = ''
+}) => {
+  const [answers, setAnswers] = useState<ClarificationAnswers>({});
+  const clarifiedPrompt = composeClarifiedPrompt(prompt, answers, unit);
+
+  const setSize = (side: keyof SizeAnswer, value: string) =>
+    setAnswers(prev => ({ ...prev, overall_size: { ...prev.overall_size, [side]: toNumber(value) } }));
+
+  const renderField = (question: ClarifyingQuestion) => {
+    switch (question.field) {
+      case 'size':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            {(['width', 'length', 'height'] as const).map(side => (
+              <label key={side} className="text-xs text-gray-400 space-y-1">
+                <span className="capitalize">{side} ({unit})</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={answers.overall_size?.[side] ?? ''}
+                  onChange={(e) => setSize(side, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        );
+      case 'length': {
+        const topic = question.topic as 'wall_thickness' | 'hole_size';
+        return (
+          <label className="text-xs text-gray-400 space-y-1 block max-w-[12rem]">
+            <span>{topic === 'hole_size' ? 'Diameter' : 'Thickness'} ({unit})</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={answers[topic] ?? ''}
+              onChange={(e) => setAnswers(prev => ({ ...prev, [topic]: toNumber(e.target.value) }))}
+              className={inputClass}
+            />
+          </label>
+        );
+      }
+      case 'choice':
+        return (
+          <select
+            value={answers.mounting ?? ''}
+            onChange={(e) => setAnswers(prev => ({ ...prev, mounting: e.target.value || undefined }))}
+            className={`${inputClass} max-w-xs`}
+          >
+            <option value="" className="bg-gray-900">Not sure</option>
+            {question.options?.map(option => (
+              <option key={option} value={option} className="bg-gray-900">{option}</option>
+            ))}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className={`bg-cyan-500/10 border border-cyan-500/30 rounded-xl p-4 ${className}`}>
+      <div className="flex items-start gap-3">
+        <HelpCircle className="w-5 h-5 text-cyan-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 space-y-4">
+          <div>
+            <h4 className="text-cyan-300 font-medium text-sm">A few details before generating</h4>
+            <p className="text-gray-400 text-sm mt-1">Answer what you know; anything left blank is up to the AI.</p>
+          </div>
+
+          {questions.map(question => (
+            <div key={question.topic} className="space-y-2">
+              <div>
+                <p className="text-white text-sm font-medium">{question.question}</p>
+                <p className="text-gray-500 text-xs">{question.reason}</p>
+              </div>
+              {renderField(question)}
+            </div>
+          ))}
+
+          <div className="bg-black/20 rounded-lg p-3 text-sm">
+            <span className="text-gray-400">Prompt to generate: </span>
+            <span className="text-gray-200">{clarifiedPrompt}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onSubmit(clarifiedPrompt)}
+              disabled={isGenerating}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 bg-cyan-500/20 text-cyan-200 rounded-lg hover:bg-cyan-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Sparkles className="w-3 h-3" />
+              Generate with Answers
+            </button>
+            <button
+              onClick={onSkip}
+              disabled={isGenerating}
+              className="text-xs px-3 py-1.5 text-gray-400 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+            >
+              Skip Questions
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClarifyingQuestions;
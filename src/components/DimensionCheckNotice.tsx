@@ -0,0 +1,88 @@
+import React from 'react';
+import { CheckCircle, Loader2, Maximize2, RefreshCw, Ruler, XCircle } from 'lucide-react';
+import type { DimensionVerification } from '../services/promptSpecs';
+import { formatLength } from '../services/units';
+
+interface DimensionCheckNoticeProps {
+  verification: DimensionVerification;
+  onRescale: (factor: number) => void;
+  onRegenerate: () => void;
+  onDismiss: () => void;
+  isRegenerating?: boolean;
+  className?: string;
+}
+
+/**
+ * Shown when a generated model's measured size does not match the sizes in its prompt.
+ * Rescaling is offered only when one uniform factor fixes every size.
+ */
+const DimensionCheckNotice: React.FC<DimensionCheckNoticeProps> = ({
+  verification,
+  onRescale,
+  onRegenerate,
+  onDismiss,
+  isRegenerating = false,
+  className = ''
+}) => {
+  const { checks, suggestedScale, tolerance } = verification;
+
+  return (
+    <div className={`bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 ${className}`}>
+      <div className="flex items-start gap-3">
+        <Ruler className="w-5 h-5 text-amber-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h4 className="text-amber-400 font-medium text-sm">The model's size does not match your prompt</h4>
+            <p className="text-amber-300 text-sm mt-1">
+              Sizes more than {Math.round(tolerance * 100)}% off what you asked for are marked.
+            </p>
+          </div>
+
+          <ul className="text-sm space-y-1">
+            {checks.map((check, index) => (
+              <li key={index} className="flex items-center gap-2 text-gray-300">
+                {check.ok
+                  ? <CheckCircle className="w-4 h-4 text-green-400" />
+                  : <XCircle className="w-4 h-4 text-red-400" />}
+                <span className="text-gray-400 capitalize w-20">{check.label}</span>
+                <span>asked {formatLength(check.requested, check.unit)}</span>
+                <span className="text-gray-500">•</span>
+                <span className={check.ok ? '' : 'text-red-300'}>got {formatLength(check.measured, check.unit)}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap gap-2">
+            {suggestedScale !== null && (
+              <button
+                onClick={() => onRescale(suggestedScale)}
+                disabled={isRegenerating}
+                className="flex items-center gap-1 text-xs px-3 py-1.5 bg-amber-500/20 text-amber-200 rounded-lg hover:bg-amber-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Maximize2 className="w-3 h-3" />
+                Rescale to Match (×{suggestedScale.toLocaleString(undefined, { maximumFractionDigits: 3 })})
+              </button>
+            )}
+            <button
+              onClick={onRegenerate}
+              disabled={isRegenerating}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRegenerating ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+              Regenerate (1 design credit)
+            </button>
+            <button
+              onClick={onDismiss}
+              disabled={isRegenerating}
+              className="text-xs px-3 py-1.5 text-gray-400 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+            >
+              Keep As Is
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DimensionCheckNotice;
@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ListChecks } from 'lucide-react';
+import { enhanceWithRules, PROMPT_RULE_STAGES } from '../services/promptRules';
+
+interface EnhancementRulePreviewProps {
+  prompt: string;
+  className?: string;
+}
+
+const STAGE_NAMES: Record<string, string> = {
+  specialized: 'Specialized terms',
+  pattern: 'Object patterns',
+  template: 'Verified templates'
+};
+
+/**
+ * Which enhancer rules match the current prompt and what they rewrite it to. The AI enhancer
+ * runs before the rules for non-specialized prompts, so this is the result when it is unavailable.
+ */
+const EnhancementRulePreview: React.FC<EnhancementRulePreviewProps> = ({ prompt, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const result = useMemo(() => (prompt.trim() ? enhanceWithRules(prompt) : null), [prompt]);
+
+  if (!result) return null;
+
+  const descriptions = new Map(PROMPT_RULE_STAGES.flatMap(stage => stage.rules).map(rule => [rule.id, rule.description]));
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-blue-300 hover:text-blue-200 transition-colors"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <ListChecks className="w-4 h-4" />
+        Rule preview: {result.rules.join(', ') || 'no rule'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 pl-5">
+          <p className="text-gray-400 text-xs">
+            {result.skipsAI
+              ? 'Specialized terms found: the rules below are used instead of AI enhancement.'
+              : 'Used when AI enhancement is unavailable.'}{' '}
+            Rule set v{result.version}.
+          </p>
+
+          {result.trace.map(stage => (
+            <div key={stage.stage}>
+              <p className="text-gray-300 text-xs font-medium">
+                {STAGE_NAMES[stage.stage] ?? stage.stage}
+                {stage.applied && !stage.accepted && (
+                  <span className="text-gray-500 font-normal"> — confidence too low, falling through</span>
+                )}
+              </p>
+              <ul className="mt-1 space-y-1">
+                {stage.matched.map(id => {
+                  const applied = stage.applied?.id === id;
+                  return (
+                    <li key={id} className={`text-xs ${applied ? (stage.accepted ? 'text-green-300' : 'text-amber-300') : 'text-gray-500'}`}>
+                      <code>{id}</code> {descriptions.get(id)}
+                      {applied && stage.applied && ` (confidence ${stage.applied.confidence})`}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+
+          <div className="bg-black/20 rounded-lg p-2 text-xs">
+            <span className="text-gray-400">Result: </span>
+            <span className="text-gray-200">{result.enhancedPrompt}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnhancementRulePreview;
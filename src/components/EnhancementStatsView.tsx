@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react';
+import {
+  ENHANCEMENT_STRATEGIES,
+  MIN_STRATEGY_ATTEMPTS,
+  enhancementStats,
+  pickStrategy,
+  type StrategyStats
+} from '../services/enhancementStats';
+
+interface EnhancementStatsViewProps {
+  className?: string;
+}
+
+const STRATEGY_NAMES: Record<string, string> = {
+  ai: 'AI',
+  rules: 'Rules',
+  original: 'Original'
+};
+
+/**
+ * Success rates of each enhancement strategy per kind of prompt over the last 30 days, marking
+ * the strategy enhancement currently picks where the numbers favor one over AI
+ */
+const EnhancementStatsView: React.FC<EnhancementStatsViewProps> = ({ className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<StrategyStats[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async (force: boolean) => {
+    setIsLoading(true);
+    try {
+      setStats(await enhancementStats.getStats(force));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen && !stats) load(false);
+  }, [isOpen, stats, load]);
+
+  const categories = [...new Set((stats || []).map(row => row.category))].sort();
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-blue-300 hover:text-blue-200 transition-colors"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <BarChart3 className="w-4 h-4" />
+        Strategy success rates
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 pl-5 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-gray-400 text-xs">
+              Share of enhanced prompts the generator completed, last 30 days. Strategies need {MIN_STRATEGY_ATTEMPTS} attempts to count.
+            </p>
+            <button
+              onClick={() => load(true)}
+              disabled={isLoading}
+              className="p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+              title="Refresh"
+            >
+              {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+            </button>
+          </div>
+
+          {stats && categories.length === 0 && (
+            <p className="text-gray-500 text-xs">No generations recorded yet.</p>
+          )}
+
+          {categories.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 font-medium">Prompt kind</th>
+                  {ENHANCEMENT_STRATEGIES.map(strategy => (
+                    <th key={strategy} className="py-1 font-medium">{STRATEGY_NAMES[strategy]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(category => {
+                  const chosen = pickStrategy(stats || [], category)?.strategy ?? 'ai';
+                  return (
+                    <tr key={category} className="border-t border-white/10">
+                      <td className="py-1 text-gray-300 capitalize">{category.replace(/-/g, ' ')}</td>
+                      {ENHANCEMENT_STRATEGIES.map(strategy => {
+                        const row = stats?.find(r => r.category === category && r.source === strategy);
+                        if (!row) return <td key={strategy} className="py-1 text-gray-600">—</td>;
+                        return (
+                          <td
+                            key={strategy}
+                            className={`py-1 ${strategy === chosen ? 'text-green-300 font-medium' : 'text-gray-300'}`}
+                            title={`${row.completed} completed, ${row.rejected} rejected (${row.rescued} rescued by a fallback), ${row.failed} failed`}
+                          >
+                            {Math.round(row.successRate * 100)}%
+                            <span className="text-gray-500"> ({row.attempts})</span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnhancementStatsView;
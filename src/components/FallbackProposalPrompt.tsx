@@ -0,0 +1,48 @@
+import React from 'react';
+import { HelpCircle } from 'lucide-react';
+import type { CADFallbackProposal } from '../services/cadAI';
+
+interface FallbackProposalPromptProps {
+  proposal: CADFallbackProposal;
+  onRespond: (accepted: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Question asked under the 'ask' fallback policy after the user's prompt was rejected:
+ * whether to try the proposed fallback prompt or stop
+ */
+const FallbackProposalPrompt: React.FC<FallbackProposalPromptProps> = ({ proposal, onRespond, className = '' }) => (
+  <div className={`bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4 text-left ${className}`}>
+    <div className="flex items-start gap-3">
+      <HelpCircle className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-yellow-400 font-medium text-sm">The AI could not generate this prompt</h4>
+          <p className="text-yellow-300 text-sm mt-1">
+            {proposal.strategy === 'design_prefix'
+              ? 'Retry with your description rephrased as:'
+              : 'Generate a generic template part instead? It will not match your description:'}
+          </p>
+          <p className="text-white text-sm mt-1">"{proposal.prompt}"</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onRespond(true)}
+            className="text-xs px-3 py-1.5 bg-yellow-500/20 text-yellow-200 rounded-lg hover:bg-yellow-500/30 transition-colors"
+          >
+            {proposal.strategy === 'design_prefix' ? 'Retry' : 'Use Template'}
+          </button>
+          <button
+            onClick={() => onRespond(false)}
+            className="text-xs px-3 py-1.5 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors"
+          >
+            Stop
+          </button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default FallbackProposalPrompt;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { AlertCircle, Download, Loader2, Package } from 'lucide-react';
+import {
+  DEFAULT_ORDER,
+  PACKAGE_MATERIALS,
+  TOLERANCE_CLASSES,
+  manufacturerPackageService,
+  type ManufacturerOrder,
+  type ManufacturerPackageVersion,
+  type ManufacturingEstimate
+} from '../services/manufacturerPackage';
+import { LENGTH_UNITS } from '../services/units';
+import type { ArchitecturalModel } from '../types/architectural';
+
+interface ManufacturerPackagePanelProps {
+  model: ArchitecturalModel;
+  onModelUpdate?: (model: ArchitecturalModel) => void;
+  onCostEstimated?: (estimate: ManufacturingEstimate) => void;
+  className?: string;
+}
+
+const triggerDownload = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Order details and "Send to Manufacturer": builds the next version of the design's
+ * manufacturer package (see services/manufacturerPackage.ts), downloads it and lists earlier
+ * versions for downloading again
+ */
+const ManufacturerPackagePanel: React.FC<ManufacturerPackagePanelProps> = ({
+  model,
+  onModelUpdate,
+  onCostEstimated,
+  className = ''
+}) => {
+  const [order, setOrder] = useState<ManufacturerOrder>(DEFAULT_ORDER);
+  const [step, setStep] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<number | null>(null);
+  const versions = [...(model.cadModel?.manufacturerPackages ?? [])].reverse();
+
+  const updateOrder = (changes: Partial<ManufacturerOrder>) => setOrder(prev => ({ ...prev, ...changes }));
+
+  const handleSend = async () => {
+    if (!model.cadModel) {
+      setError('No CAD model available');
+      return;
+    }
+
+    setStep('Preparing...');
+    setError(null);
+    try {
+      const { blob, record, estimate } = await manufacturerPackageService.createPackage(model, order, setStep);
+      onCostEstimated?.(estimate);
+
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, record.filename);
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+
+      onModelUpdate?.({
+        ...model,
+        cadModel: {
+          ...model.cadModel,
+          manufacturerPackages: [...(model.cadModel.manufacturerPackages ?? []), record]
+        }
+      });
+    } catch (err) {
+      console.error('❌ Manufacturer package failed:', err);
+      setError(`Failed to prepare manufacturer package: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleRedownload = async (record: ManufacturerPackageVersion) => {
+    if (!model.cadModel) return;
+    setDownloading(record.version);
+    setError(null);
+    try {
+      const url = await manufacturerPackageService.downloadUrl(model.cadModel, record);
+      if (!url) {
+        setError(`Package v${record.version} was not stored; send the design again to rebuild it.`);
+        return;
+      }
+      triggerDownload(url, record.filename);
+    } catch (err) {
+      console.error('❌ Package download failed:', err);
+      setError(`Failed to download package v${record.version}`);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const fieldClass = 'bg-white/10 border border-white/20 rounded px-2 py-1 text-white text-sm w-full';
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Quantity</span>
+          <input
+            type="number"
+            min={1}
+            value={order.quantity}
+            onChange={(e) => updateOrder({ quantity: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Material</span>
+          <select value={order.material} onChange={(e) => updateOrder({ material: e.target.value })} className={fieldClass}>
+            {PACKAGE_MATERIALS.map(material => (
+              <option key={material} value={material} className="bg-gray-900">{material}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Tolerance</span>
+          <select value={order.tolerance} onChange={(e) => updateOrder({ tolerance: e.target.value })} className={fieldClass}>
+            {TOLERANCE_CLASSES.map(tolerance => (
+              <option key={tolerance.id} value={tolerance.id} className="bg-gray-900">{tolerance.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-300 space-y-1">
+          <span>Units</span>
+          <select
+            value={order.units}
+            onChange={(e) => updateOrder({ units: e.target.value as ManufacturerOrder['units'] })}
+            className={fieldClass}
+          >
+            {LENGTH_UNITS.map(unit => (
+              <option key={unit} value={unit} className="bg-gray-900">{unit}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={handleSend}
+        disabled={step !== null}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium shadow-lg shadow-purple-500/25"
+      >
+        {step ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+        {step ?? 'Send to Manufacturer'}
+      </button>
+
+      {error && (
+        <div className="flex items-start gap-2 text-red-300 text-xs">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-medium text-gray-400">Package history</h5>
+          {versions.map(record => (
+            <div key={record.version} className="flex items-center justify-between gap-2 text-xs text-gray-300 bg-white/5 rounded px-2 py-1">
+              <span>
+                <span className="text-white font-medium">v{record.version}</span>
+                {' · '}{new Date(record.createdAt).toLocaleDateString()}
+                {' · '}{record.order.quantity} × {record.order.material}
+                {' · '}{record.estimatedCost.totalCost.toFixed(2)} {record.estimatedCost.currency}
+              </span>
+              <button
+                onClick={() => handleRedownload(record)}
+                disabled={downloading !== null}
+                className="p-1 text-cyan-300 hover:text-cyan-200 disabled:opacity-50"
+                title={`Download ${record.filename}`}
+              >
+                {downloading === record.version ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManufacturerPackagePanel;
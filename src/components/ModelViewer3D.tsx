@@ -15,9 +15,7 @@ import {
   Share2,
   Settings,
   Layers,
-  AlertTriangle,
-  ChevronDown,
-  Loader2
+  AlertTriangle
 } from 'lucide-react';
 import type { 
   ArchitecturalModel, 
@@ -29,6 +27,9 @@ import type {
   ARSession,
   ARPlacement
 } from '../types/architectural';
+import { useStoredModelUrls } from '../hooks/useStoredModelUrls';
+import { useUnitPreference } from '../hooks/useUnitPreference';
+import { DEFAULT_MODEL_UNITS, formatDimensions, formatVolume, unitSystemOf } from '../services/units';
 // GLTFLoader is already imported via @react-three/drei
 
 interface ModelViewer3DProps {
@@ -39,263 +40,6 @@ interface ModelViewer3DProps {
   onGLTFDataLoaded?: (gltfData: any) => void;
 }
 
-// CAD Export Types
-type CADFormat = 'gltf' | 'stl' | 'obj' | 'ply' | 'fbx' | 'dae';
-type ExportStatus = 'ready' | 'loading' | 'failed';
-
-interface CADExportProps {
-  gltfUrl: string;
-  modelName: string;
-  className?: string;
-}
-
-// CAD Format definitions
-const CADFormats: Record<CADFormat, { 
-  name: string; 
-  extension: string; 
-  mimeType: string; 
-  description: string;
-}> = {
-  gltf: { name: 'GLTF', extension: '.gltf', mimeType: 'model/gltf+json', description: '3D Graphics Language' },
-  stl: { name: 'STL', extension: '.stl', mimeType: 'application/vnd.ms-pki.stl', description: '3D Printing Format' },
-  obj: { name: 'OBJ', extension: '.obj', mimeType: 'text/plain', description: 'Wavefront OBJ' },
-  ply: { name: 'PLY', extension: '.ply', mimeType: 'application/octet-stream', description: 'Polygon File Format' },
-  fbx: { name: 'FBX', extension: '.fbx', mimeType: 'application/octet-stream', description: 'Autodesk FBX' },
-  dae: { name: 'DAE', extension: '.dae', mimeType: 'model/vnd.collada+xml', description: 'COLLADA' }
-};
-
-// Multi-Format CAD Export Component
-const CADExportComponent: React.FC<CADExportProps> = ({ 
-  gltfUrl, 
-  modelName, 
-  className = '' 
-}) => {
-  const [currentFormat, setCurrentFormat] = useState<CADFormat>('gltf');
-  const [status, setStatus] = useState<ExportStatus>('ready');
-  const [cachedFormats, setCachedFormats] = useState<Partial<Record<CADFormat, string>>>(() => ({ gltf: gltfUrl }));
-  const [dropdownOpen, setDropdownOpen] = useState(false);
-  const downloadLinkRef = useRef<HTMLAnchorElement>(null);
-
-  // Client-side conversion using Three.js exporters
-  const convertToSTL = async (gltfUrl: string): Promise<string> => {
-    const { STLExporter } = await import('three/examples/jsm/exporters/STLExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new STLExporter();
-    const stlString = exporter.parse(gltf.scene);
-    
-    const blob = new Blob([stlString], { type: 'application/vnd.ms-pki.stl' });
-    return URL.createObjectURL(blob);
-  };
-
-  const convertToOBJ = async (gltfUrl: string): Promise<string> => {
-    const { OBJExporter } = await import('three/examples/jsm/exporters/OBJExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new OBJExporter();
-    const objString = exporter.parse(gltf.scene);
-    
-    const blob = new Blob([objString], { type: 'text/plain' });
-    return URL.createObjectURL(blob);
-  };
-
-  const convertToPLY = async (gltfUrl: string): Promise<string> => {
-    const { PLYExporter } = await import('three/examples/jsm/exporters/PLYExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new PLYExporter();
-    
-    // PLY exporter uses a callback pattern
-    return new Promise<string>((resolve, reject) => {
-      try {
-        exporter.parse(gltf.scene, (result: string) => {
-          const blob = new Blob([result], { type: 'application/octet-stream' });
-          resolve(URL.createObjectURL(blob));
-        }, { binary: false });
-      } catch (error) {
-        reject(error);
-      }
-    });
-  };
-
-  // Convert GLTF to other formats (client-side implementation)
-  const convertFormat = async (targetFormat: CADFormat): Promise<string> => {
-    if (cachedFormats[targetFormat]) {
-      return cachedFormats[targetFormat];
-    }
-
-    setStatus('loading');
-    
-    try {
-      let convertedUrl: string;
-      
-      switch (targetFormat) {
-        case 'gltf':
-          convertedUrl = gltfUrl;
-          break;
-        case 'stl':
-          convertedUrl = await convertToSTL(gltfUrl);
-          break;
-        case 'obj':
-          convertedUrl = await convertToOBJ(gltfUrl);
-          break;
-        case 'ply':
-          convertedUrl = await convertToPLY(gltfUrl);
-          break;
-        case 'fbx':
-        case 'dae':
-          throw new Error(`${targetFormat.toUpperCase()} format not yet supported in client-side conversion`);
-        default:
-          throw new Error(`Unsupported format: ${targetFormat}`);
-      }
-      
-      // Cache the converted format
-      setCachedFormats(prev => ({
-        ...prev,
-        [targetFormat]: convertedUrl
-      }));
-      
-      setStatus('ready');
-      return convertedUrl;
-    } catch (error) {
-      console.error('Format conversion failed:', error);
-      setStatus('failed');
-      throw error;
-    }
-  };
-
-  const handleFormatChange = async (format: CADFormat) => {
-    setCurrentFormat(format);
-    setDropdownOpen(false);
-    
-    try {
-      const downloadUrl = await convertFormat(format);
-      
-      // Trigger download
-      if (downloadLinkRef.current) {
-        downloadLinkRef.current.href = downloadUrl;
-        downloadLinkRef.current.download = `${modelName.replace(/\.[^/.]+$/, '')}${CADFormats[format].extension}`;
-        downloadLinkRef.current.click();
-      }
-    } catch (error) {
-      console.error('Download failed:', error);
-      setStatus('failed');
-      setTimeout(() => setStatus('ready'), 3000);
-    }
-  };
-
-  // Only show supported formats for client-side conversion
-  const supportedFormats = ['gltf', 'stl', 'obj', 'ply'] as CADFormat[];
-  const formatOptions = supportedFormats.map(format => ({
-    value: format,
-    label: CADFormats[format].name,
-    description: CADFormats[format].description
-  }));
-
-  return (
-    <div className={`relative ${className}`}>
-      <div className={`flex items-center bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg overflow-hidden shadow-lg ${
-        status === 'loading' ? 'animate-pulse' : ''
-      } ${status === 'failed' ? 'from-red-500 to-red-600' : ''}`}>
-        
-        {/* Download Button */}
-        <button
-          disabled={status === 'loading'}
-          className={`flex items-center gap-2 px-4 py-3 text-white font-semibold transition-all ${
-            status === 'loading' ? 'cursor-not-allowed opacity-70' : 'hover:bg-white/10'
-          }`}
-          onClick={() => handleFormatChange(currentFormat)}
-        >
-          {status === 'loading' ? (
-            <Loader2 className="w-4 h-4 animate-spin" />
-          ) : status === 'failed' ? (
-            <AlertTriangle className="w-4 h-4" />
-          ) : (
-            <Download className="w-4 h-4" />
-          )}
-          
-          <span>
-            {status === 'loading' ? 'Converting...' : status === 'failed' ? 'Failed' : 'Export'}
-          </span>
-        </button>
-
-        {/* Format Dropdown */}
-        <div className="relative">
-          <button
-            onClick={() => setDropdownOpen(!dropdownOpen)}
-            disabled={status === 'loading'}
-            className={`flex items-center gap-1 px-3 py-3 text-white border-l border-white/20 transition-all ${
-              status === 'loading' ? 'cursor-not-allowed opacity-70' : 'hover:bg-white/10'
-            }`}
-          >
-            <span className="text-sm font-mono uppercase">
-              {CADFormats[currentFormat].name}
-            </span>
-            <ChevronDown className={`w-4 h-4 transition-transform ${
-              dropdownOpen ? 'rotate-180' : ''
-            }`} />
-          </button>
-
-          {/* Dropdown Menu */}
-          {dropdownOpen && (
-            <div className="absolute top-full right-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50">
-              <div className="py-2">
-                {formatOptions.map((option) => (
-                  <button
-                    key={option.value}
-                    onClick={() => handleFormatChange(option.value)}
-                    className={`w-full text-left px-4 py-2 text-sm transition-colors ${
-                      currentFormat === option.value 
-                        ? 'bg-cyan-500/20 text-cyan-300' 
-                        : 'text-gray-300 hover:bg-gray-800 hover:text-white'
-                    }`}
-                  >
-                    <div className="font-mono font-semibold">{option.label}</div>
-                    <div className="text-xs text-gray-400">{option.description}</div>
-                  </button>
-                ))}
-              </div>
-              
-              {/* Info about unsupported formats */}
-              <div className="border-t border-gray-700 p-3 text-xs text-gray-400">
-                <div className="font-medium text-gray-300 mb-1">Coming Soon:</div>
-                <div>FBX, DAE formats require server conversion</div>
-              </div>
-            </div>
-          )}
-        </div>
-      </div>
-
-      {/* Hidden download link */}
-      <a
-        ref={downloadLinkRef}
-        className="hidden"
-        href="#"
-        download=""
-      >
-        Download
-      </a>
-
-      {/* Click outside to close dropdown */}
-      {dropdownOpen && (
-        <div 
-          className="fixed inset-0 z-40" 
-          onClick={() => setDropdownOpen(false)}
-        />
-      )}
-    </div>
-  );
-};
-
 // Error Boundary Component
 class ThreeJSErrorBoundary extends React.Component<
   { children: React.ReactNode; fallback: React.ReactNode },
@@ -1180,12 +924,15 @@ const ModelViewer3D: React.FC<{
   onModelUpdate?: (model: ArchitecturalModel) => void;
   onGLTFDataLoaded?: (gltfData: any) => void;
 }> = ({
-  model,
+  model: providedModel,
   className = '',
   onARModeToggle,
   onModelUpdate,
   onGLTFDataLoaded
 }) => {
+  // Saved models may carry expired signed URLs
+  const model = useStoredModelUrls(providedModel);
+  const { displayUnits } = useUnitPreference();
   const [viewerState, setViewerState] = useState<ViewerState>({
     mode: '3d',
     model: model || undefined,
@@ -1458,8 +1205,21 @@ const ModelViewer3D: React.FC<{
         {model.cadModel ? (
           <>
             <p className="text-gray-300">
-              CAD Model • {model.cadModel.properties?.volume?.toLocaleString() || 'N/A'} mm³
+              CAD Model • {model.cadModel.properties?.analysisFailed
+                ? 'dimensions unavailable'
+                : model.cadModel.properties
+                ? formatDimensions(model.cadModel.properties.dimensions, model.cadModel.units || DEFAULT_MODEL_UNITS, displayUnits)
+                : 'N/A'}
             </p>
+            {model.cadModel.properties && !model.cadModel.properties.analysisFailed && (
+              <p className="text-gray-300 text-xs">
+                {formatVolume(
+                  model.cadModel.properties.volume,
+                  model.cadModel.units || DEFAULT_MODEL_UNITS,
+                  unitSystemOf(displayUnits) === 'imperial' ? 'in' : 'cm'
+                )}
+              </p>
+            )}
             <p className="text-gray-400 text-xs">
               {model.cadModel.properties?.complexity || 'Professional'} • AgenticadML Engine
             </p>
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { 
   Mic, 
   MicOff, 
@@ -15,7 +15,8 @@ import {
   Pause,
   Trash2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Languages
 } from 'lucide-react';
 import type { 
   MultimodalInput, 
@@ -26,6 +27,13 @@ import type {
   SketchStroke,
   InputPanelState
 } from '../types/architectural';
+import {
+  detectLanguage,
+  LANGUAGE_NAMES,
+  PROMPT_LANGUAGES,
+  SPEECH_LOCALES,
+  type PromptLanguage
+} from '../services/translation';
 
 interface MultimodalInputPanelProps {
   onSubmit: (input: MultimodalInput) => void;
@@ -50,11 +58,18 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
 
   // Text input state
   const [textContent, setTextContent] = useState('');
+  // Language picked for the text; detected from it when null
+  const [textLanguageOverride, setTextLanguageOverride] = useState<PromptLanguage | null>(null);
+  const detectedTextLanguage = useMemo(() => detectLanguage(textContent).language, [textContent]);
+  const textLanguage = textLanguageOverride ?? detectedTextLanguage;
   
   // Voice input state
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [transcript, setTranscript] = useState('');
   const [recordingDuration, setRecordingDuration] = useState(0);
+  // Language speech is recognized in; chosen before recording
+  const [speechLanguage, setSpeechLanguage] = useState<PromptLanguage>('en');
+  const detectedTranscriptLanguage = useMemo(() => detectLanguage(transcript).language, [transcript]);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recognitionRef = useRef<any>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -88,11 +103,12 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
     const textInput: TextInput = {
       type: 'text',
       content: textContent.trim(),
+      language: textLanguage,
       timestamp: new Date()
     };
     
     updateInputs({ text: textInput });
-  }, [textContent, updateInputs]);
+  }, [textContent, textLanguage, updateInputs]);
 
   // Voice Input Handlers
   const startRecording = useCallback(async () => {
@@ -120,7 +136,7 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
         const recognition = new SpeechRecognition();
         recognition.continuous = true;
         recognition.interimResults = true;
-        recognition.lang = 'en-US';
+        recognition.lang = SPEECH_LOCALES[speechLanguage];
 
         recognition.onresult = (event: any) => {
           let finalTranscript = '';
@@ -149,7 +165,7 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
     } catch (error) {
       console.error('Error starting recording:', error);
     }
-  }, []);
+  }, [speechLanguage]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording) {
@@ -172,12 +188,13 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
       type: 'voice',
       audioBlob,
       transcript,
+      language: speechLanguage,
       duration: recordingDuration,
       timestamp: new Date()
     };
 
     updateInputs({ voice: voiceInput });
-  }, [audioBlob, transcript, recordingDuration, updateInputs]);
+  }, [audioBlob, transcript, speechLanguage, recordingDuration, updateInputs]);
 
   // Sketch Input Handlers
   const startDrawing = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -397,7 +414,25 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
               className="w-full h-48 p-6 bg-black/20 border border-purple-400/30 rounded-xl text-white placeholder-gray-400 resize-none focus:outline-none focus:border-cyan-400 focus:ring-2 focus:ring-cyan-400/20 transition-all"
             />
             <div className="flex justify-between items-center">
-              <span className="text-gray-400 text-sm">{textContent.length} characters</span>
+              <div className="flex items-center gap-3 text-sm text-gray-400">
+                <span>{textContent.length} characters</span>
+                {textContent.trim() && (
+                  <span className="flex items-center gap-2">
+                    <Languages className="w-4 h-4" />
+                    <select
+                      value={textLanguageOverride ?? 'auto'}
+                      onChange={(e) => setTextLanguageOverride(e.target.value === 'auto' ? null : e.target.value as PromptLanguage)}
+                      className="bg-black/20 border border-purple-400/30 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:border-cyan-400"
+                    >
+                      <option value="auto">Auto ({LANGUAGE_NAMES[detectedTextLanguage]} detected)</option>
+                      {PROMPT_LANGUAGES.map(language => (
+                        <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>
+                      ))}
+                    </select>
+                    {textLanguage !== 'en' && <span>Translated to English before generating</span>}
+                  </span>
+                )}
+              </div>
               <button
                 onClick={handleTextSubmit}
                 disabled={!textContent.trim()}
@@ -412,6 +447,21 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
         {/* Voice Input */}
         {state.activeTab === 'voice' && (
           <div className="space-y-6">
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-400">
+              <Languages className="w-4 h-4" />
+              <span>Spoken language:</span>
+              <select
+                value={speechLanguage}
+                onChange={(e) => setSpeechLanguage(e.target.value as PromptLanguage)}
+                disabled={state.isRecording}
+                className="bg-black/20 border border-purple-400/30 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:border-cyan-400"
+              >
+                {PROMPT_LANGUAGES.map(language => (
+                  <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="text-center">
               {!state.isRecording ? (
                 <button
@@ -440,6 +490,11 @@ const MultimodalInputPanel: React.FC<MultimodalInputPanelProps> = ({
               <div className="p-6 bg-black/20 border border-purple-400/30 rounded-xl">
                 <h4 className="text-white font-semibold mb-3">Live Transcript:</h4>
                 <p className="text-gray-300 leading-relaxed">{transcript}</p>
+                {detectedTranscriptLanguage !== speechLanguage && (
+                  <p className="mt-3 text-amber-300 text-sm">
+                    This sounds like {LANGUAGE_NAMES[detectedTranscriptLanguage]}. Pick it as the spoken language and record again for a better transcript.
+                  </p>
+                )}
               </div>
             )}
 
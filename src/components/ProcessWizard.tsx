@@ -32,9 +32,25 @@ import ModelViewer3D from './ModelViewer3D';
 import MultimodalInputPanel from './MultimodalInputPanel';
 import CADInputPanel from './CADInputPanel';
 import CompletionCelebration from './CompletionCelebration';
+import FallbackProposalPrompt from './FallbackProposalPrompt';
+import SubstitutedModelConfirmation from './SubstitutedModelConfirmation';
+import QueueStatusNotice from './QueueStatusNotice';
+import ManufacturerPackagePanel from './ManufacturerPackagePanel';
 import { voiceService } from '../services/voiceService';
 import { architecturalAI } from '../services/architecturalAI';
-import { cadAI, type CADExportOptions } from '../services/cadAI';
+import { modelStorage } from '../services/modelStorage';
+import { exportService, type ExportResult } from '../services/exportService';
+import { LENGTH_UNITS, type LengthUnit } from '../services/units';
+import { cadAI, createIdempotencyKey, type CADFallbackProposal, type CADModel, type GenerationProgressDetails } from '../services/cadAI';
+import type { QueueStatus } from '../services/requestScheduler';
+import { LANGUAGE_NAMES, translationService, type PromptLanguage } from '../services/translation';
+import {
+  describeGenerationError,
+  QuotaExceededError,
+  RateLimitedError,
+  toGenerationError,
+  type GenerationError
+} from '../services/generationErrors';
 import type { 
   ArchitecturalModel, 
   MultimodalInput, 
@@ -47,7 +63,9 @@ import DesignIteration from './steps/DesignIteration';
 import ManufacturingConnect from './steps/ManufacturingConnect';
 import PatentSearch from './steps/PatentSearch';
 import { useUsage } from '../hooks/useUsage';
+import { useUnitPreference } from '../hooks/useUnitPreference';
 import { useAuth } from '../hooks/useAuth';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
 import { supabase } from '../lib/supabase';
 
 interface ProcessWizardProps {
@@ -55,99 +73,33 @@ interface ProcessWizardProps {
 }
 
 // CAD Export Types and Component
-type CADFormat = 'gltf' | 'stl' | 'obj' | 'ply' | 'fbx' | 'dae';
 type ExportStatus = 'ready' | 'loading' | 'failed';
 
 interface CADExportProps {
   model: ArchitecturalModel;
+  onModelUpdate?: (model: ArchitecturalModel) => void;
   className?: string;
 }
 
-// CAD Format definitions
-const CADFormats: Record<CADFormat, { 
-  name: string; 
-  extension: string; 
-  mimeType: string; 
-  description: string;
-}> = {
-  gltf: { name: 'GLTF', extension: '.gltf', mimeType: 'model/gltf+json', description: '3D Graphics Language' },
-  stl: { name: 'STL', extension: '.stl', mimeType: 'application/vnd.ms-pki.stl', description: '3D Printing Format' },
-  obj: { name: 'OBJ', extension: '.obj', mimeType: 'text/plain', description: 'Wavefront OBJ' },
-  ply: { name: 'PLY', extension: '.ply', mimeType: 'application/octet-stream', description: 'Polygon File Format' },
-  fbx: { name: 'FBX', extension: '.fbx', mimeType: 'application/octet-stream', description: 'Autodesk FBX' },
-  dae: { name: 'DAE', extension: '.dae', mimeType: 'model/vnd.collada+xml', description: 'COLLADA' }
-};
-
-// Enhanced CAD Export Component with Zoo CLI consideration
-const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' }) => {
-  const [currentFormat, setCurrentFormat] = useState<CADFormat>('stl');
+// CAD export dropdown: every format registered with the export service
+const CADExportComponent: React.FC<CADExportProps> = ({ model, onModelUpdate, className = '' }) => {
+  const [currentFormat, setCurrentFormat] = useState('stl');
   const [status, setStatus] = useState<ExportStatus>('ready');
-  const [cachedFormats, setCachedFormats] = useState<Partial<Record<CADFormat, string>>>({});
+  // Exports by format and units, e.g. 'stl_in'
+  const [cachedExports, setCachedExports] = useState<Record<string, ExportResult>>({});
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const downloadLinkRef = useRef<HTMLAnchorElement>(null);
+  const { displayUnits } = useUnitPreference();
+  const [exportUnits, setExportUnits] = useState<LengthUnit>(displayUnits);
 
-  // Client-side conversion using Three.js exporters
-  const convertToSTL = async (gltfUrl: string): Promise<string> => {
-    const { STLExporter } = await import('three/examples/jsm/exporters/STLExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new STLExporter();
-    const stlString = exporter.parse(gltf.scene);
-    
-    const blob = new Blob([stlString], { type: 'application/vnd.ms-pki.stl' });
-    return URL.createObjectURL(blob);
-  };
-
-  const convertToOBJ = async (gltfUrl: string): Promise<string> => {
-    const { OBJExporter } = await import('three/examples/jsm/exporters/OBJExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new OBJExporter();
-    const objString = exporter.parse(gltf.scene);
-    
-    const blob = new Blob([objString], { type: 'text/plain' });
-    return URL.createObjectURL(blob);
-  };
-
-  const convertToPLY = async (gltfUrl: string): Promise<string> => {
-    const { PLYExporter } = await import('three/examples/jsm/exporters/PLYExporter.js');
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(gltfUrl);
-    
-    const exporter = new PLYExporter();
-    
-    // PLY exporter uses a callback pattern
-    return new Promise<string>((resolve, reject) => {
-      try {
-        exporter.parse(gltf.scene, (result: string) => {
-          const blob = new Blob([result], { type: 'application/octet-stream' });
-          resolve(URL.createObjectURL(blob));
-        }, { binary: false });
-      } catch (error) {
-        reject(error);
-      }
-    });
-  };
+  useEffect(() => {
+    setExportUnits(displayUnits);
+  }, [displayUnits]);
 
-  // Future: Zoo CLI integration approach
-  const convertWithZooCLI = async (targetFormat: CADFormat, gltfUrl: string): Promise<string> => {
-    // This would be implemented later with Zoo's CLI conversion service
-    // For now, throwing an error for unsupported formats
-    throw new Error(`${targetFormat.toUpperCase()} conversion via Zoo CLI not yet implemented. Consider using Zoo's conversion service: https://zoo.dev/docs/developer-tools/cli/manual/zoo_file_convert`);
-  };
-
-  // Convert GLTF to other formats
-  const convertFormat = async (targetFormat: CADFormat): Promise<string> => {
-    if (cachedFormats[targetFormat]) {
-      return cachedFormats[targetFormat];
+  const exportFormat = async (formatId: string): Promise<ExportResult> => {
+    const cacheKey = `${formatId}_${exportUnits}`;
+    if (cachedExports[cacheKey]) {
+      return cachedExports[cacheKey];
     }
 
     if (!model?.cadModel?.gltfUrl) {
@@ -157,39 +109,29 @@ const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' })
     setStatus('loading');
     
     try {
-      let convertedUrl: string;
-      const gltfUrl = model.cadModel.gltfUrl;
-      
-      switch (targetFormat) {
-        case 'gltf':
-          convertedUrl = gltfUrl;
-          break;
-        case 'stl':
-          convertedUrl = await convertToSTL(gltfUrl);
-          break;
-        case 'obj':
-          convertedUrl = await convertToOBJ(gltfUrl);
-          break;
-        case 'ply':
-          convertedUrl = await convertToPLY(gltfUrl);
-          break;
-        case 'fbx':
-        case 'dae':
-          // Future: Use Zoo CLI for professional formats
-          convertedUrl = await convertWithZooCLI(targetFormat, gltfUrl);
-          break;
-        default:
-          throw new Error(`Unsupported format: ${targetFormat}`);
+      const cadModel = await modelStorage.refreshUrls(model.cadModel);
+      const result = await exportService.exportModel(cadModel, formatId, {
+        units: exportUnits,
+        title: model.productSpecs?.name || model.name,
+        components: model.productSpecs?.components,
+        baseName: model.name || model.productSpecs?.name || 'cad-model'
+      });
+
+      // Keep converted exports next to the stored model; the download uses the local copy
+      if (result.blob && model.cadModel.storage) {
+        const exportedModel = model.cadModel;
+        modelStorage.persistExport(exportedModel, formatId, exportUnits, result.blob).then(stored => {
+          if (stored) onModelUpdate?.({ ...model, cadModel: { ...exportedModel, storage: stored.storage } });
+        });
       }
       
-      // Cache the converted format
-      setCachedFormats(prev => ({
+      setCachedExports(prev => ({
         ...prev,
-        [targetFormat]: convertedUrl
+        [cacheKey]: result
       }));
       
       setStatus('ready');
-      return convertedUrl;
+      return result;
     } catch (error) {
       console.error('Format conversion failed:', error);
       setStatus('failed');
@@ -201,18 +143,17 @@ const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' })
     setDropdownOpen(!dropdownOpen);
   };
 
-  const handleFormatChange = async (format: CADFormat) => {
-    setCurrentFormat(format);
+  const handleFormatChange = async (formatId: string) => {
+    setCurrentFormat(formatId);
     setDropdownOpen(false);
     
     try {
-      const downloadUrl = await convertFormat(format);
+      const { downloadUrl, filename } = await exportFormat(formatId);
       
       // Trigger download
       if (downloadLinkRef.current) {
-        const modelName = model.name || model.productSpecs?.name || 'cad-model';
         downloadLinkRef.current.href = downloadUrl;
-        downloadLinkRef.current.download = `${modelName.replace(/\.[^/.]+$/, '')}${CADFormats[format].extension}`;
+        downloadLinkRef.current.download = filename;
         downloadLinkRef.current.click();
       }
     } catch (error) {
@@ -222,12 +163,10 @@ const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' })
     }
   };
 
-  // Only show supported formats for client-side conversion
-  const supportedFormats = ['gltf', 'stl', 'obj', 'ply'] as CADFormat[];
-  const formatOptions = supportedFormats.map(format => ({
-    value: format,
-    label: CADFormats[format].name,
-    description: CADFormats[format].description
+  const formatOptions = exportService.formats.map(format => ({
+    value: format.id,
+    label: format.name,
+    description: format.description
   }));
 
   return (
@@ -257,7 +196,7 @@ const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' })
               ? 'Converting...' 
               : status === 'failed' 
               ? 'Try Again' 
-              : `Export ${CADFormats[currentFormat].name}`}
+              : `Export ${exportService.get(currentFormat)?.name ?? currentFormat.toUpperCase()}`}
           </span>
         </button>
 
@@ -314,6 +253,24 @@ const CADExportComponent: React.FC<CADExportProps> = ({ model, className = '' })
               </button>
             ))}
           </div>
+          <div className="border-t border-gray-700 px-4 py-2">
+            <div className="text-xs text-gray-400 mb-1">Export units</div>
+            <div className="flex gap-1">
+              {LENGTH_UNITS.map(unit => (
+                <button
+                  key={unit}
+                  onClick={() => setExportUnits(unit)}
+                  className={`flex-1 py-1 text-xs font-mono rounded transition-colors ${
+                    exportUnits === unit
+                      ? 'bg-cyan-500/20 text-cyan-300'
+                      : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+                  }`}
+                >
+                  {unit}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -411,20 +368,132 @@ const CADGenerationStep: React.FC<{
   );
 };
 
+// Convert a CAD model to ArchitecturalModel format
+const cadModelToArchitecturalModel = (cadModel: CADModel, cadPrompt: string): ArchitecturalModel => {
+  // Map CAD dimensions (width, height, depth) to architectural dimensions (width, length, height)
+  const mappedDimensions = {
+    width: cadModel.properties.dimensions.width,
+    length: cadModel.properties.dimensions.depth, // Map depth to length
+    height: cadModel.properties.dimensions.height
+  };
+
+  return {
+    id: cadModel.id,
+    name: `CAD Model - ${cadPrompt.substring(0, 30)}...`,
+    description: `3D model generated from: "${cadPrompt}"`,
+    rooms: [{
+      id: 'cad_component',
+      name: 'CAD Model',
+      dimensions: mappedDimensions,
+      position: { x: 0, y: 0, z: 0 },
+      connections: [],
+      features: ['cad_generated'],
+      materials: { walls: '#cccccc', floor: '#999999', ceiling: '#ffffff' }
+    }],
+    doors: [],
+    windows: [],
+    totalArea: cadModel.properties.volume,
+    style: 'modern',
+    created: new Date(),
+    modified: new Date(),
+    // Store the CAD model data
+    cadModel: cadModel,
+    productSpecs: {
+      name: `CAD Product`,
+      description: `3D model generated from user input`,
+      style: 'modern',
+      components: [{
+        name: 'main_component',
+        dimensions: mappedDimensions,
+        material: 'Generated material',
+        function: 'Primary structure',
+        features: ['cad_generated'],
+        connections: []
+      }],
+      totalVolume: cadModel.properties.volume,
+      manufacturing: {
+        method: '3D printing',
+        materials: ['PLA plastic'],
+        complexity: cadModel.properties.complexity,
+        estimated_cost: '$25-75'
+      },
+      specifications: {
+        weight: '200g',
+        dimensions: {
+          length: mappedDimensions.length,
+          width: mappedDimensions.width,
+          height: mappedDimensions.height
+        },
+        color_options: ['natural'],
+        durability: 'medium'
+      }
+    }
+  };
+};
+
 // Step 2: Multimodal Input Component (Legacy)
 const MultimodalDesignInput: React.FC<{
   onComplete: (model: ArchitecturalModel) => void;
 }> = ({ onComplete }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingSteps, setProcessingSteps] = useState<string[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [error, setError] = useState<GenerationError | null>(null);
   const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
-
-  // Add usage tracking hooks
-  const { canUseDesign, incrementDesignUsage } = useUsage();
+  // When a rate-limited generation may be retried
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retrySecondsLeft = useRetryCountdown(retryAt);
+  // Input of the last submission, for the retry actions
+  const lastInputRef = useRef<MultimodalInput | null>(null);
+  // Idempotency key of the current prompt, kept while retries of it may find an existing job
+  const attemptRef = useRef<{ key: string; prompt: string } | null>(null);
+  // Pending fallback question, and a substituted model waiting to be accepted before it is charged
+  const [fallbackProposal, setFallbackProposal] = useState<CADFallbackProposal | null>(null);
+  const fallbackResolverRef = useRef<((accepted: boolean) => void) | null>(null);
+  const [substitutedModel, setSubstitutedModel] = useState<{ model: CADModel; prompt: string } | null>(null);
+  const [isDecliningSubstitute, setIsDecliningSubstitute] = useState(false);
+
+  // Usage is charged by the generation endpoint; the hook only reflects it
+  const { canUseDesign, refreshUsage, incrementDesignUsage } = useUsage();
   const { user } = useAuth();
+  const { displayUnits } = useUnitPreference();
+
+  const confirmFallback = (proposal: CADFallbackProposal) =>
+    new Promise<boolean>(resolve => {
+      fallbackResolverRef.current = resolve;
+      setFallbackProposal(proposal);
+    });
+
+  const respondToFallback = (accepted: boolean) => {
+    fallbackResolverRef.current?.(accepted);
+    fallbackResolverRef.current = null;
+    setFallbackProposal(null);
+  };
+
+  // Keeping the substituted model keeps its design credit spent
+  const handleAcceptSubstitute = () => {
+    if (!substitutedModel) return;
+    cadAI.acceptSubstitutedModel(substitutedModel.model);
+    onComplete(cadModelToArchitecturalModel(substitutedModel.model, substitutedModel.prompt));
+    setSubstitutedModel(null);
+  };
+
+  // Discarding a substituted model gives its design credit back
+  const handleDiscardSubstitute = async () => {
+    if (!substitutedModel) return;
+    setIsDecliningSubstitute(true);
+    try {
+      await cadAI.declineSubstitutedModel(substitutedModel.model);
+      setSubstitutedModel(null);
+      await refreshUsage();
+    } finally {
+      setIsDecliningSubstitute(false);
+    }
+  };
 
   const handleInputSubmit = async (input: MultimodalInput) => {
+    lastInputRef.current = input;
+
     // Check if user can create more designs
     if (!canUseDesign()) {
       setShowUpgradePrompt(true);
@@ -435,31 +504,40 @@ const MultimodalDesignInput: React.FC<{
     setError(null);
     setProcessingSteps([]);
     setShowUpgradePrompt(false);
+    if (substitutedModel) {
+      cadAI.declineSubstitutedModel(substitutedModel.model);
+      setSubstitutedModel(null);
+    }
 
     try {
-      // Increment design usage before generation
-      const canProceed = await incrementDesignUsage();
-      
-      if (!canProceed) {
-        setShowUpgradePrompt(true);
-        setIsProcessing(false);
-        return;
-      }
-
       // Use the AgenticadML AI via cadAI service instead of architecturalAI
       setProcessingSteps(['Analyzing your product concept...']);
       await new Promise(resolve => setTimeout(resolve, 1000));
       
       // Convert multimodal input to CAD prompt
       let cadPrompt = '';
+      let language: PromptLanguage | undefined;
       if (input.text) {
         cadPrompt = input.text.content;
+        language = input.text.language;
       } else if (input.voice?.transcript) {
         cadPrompt = input.voice.transcript;
+        language = input.voice.language;
       } else {
         cadPrompt = 'Create a modern product design';
+        language = 'en';
+      }
+
+      // The generator works on English prompts; keep the user's wording alongside
+      const translated = await translationService.toEnglish(cadPrompt, language);
+      const translatedFrom = translated.language !== 'en'
+        ? { language: translated.language, prompt: translated.original }
+        : undefined;
+      if (translatedFrom) {
+        setProcessingSteps(prev => [...prev, `Translated prompt from ${LANGUAGE_NAMES[translatedFrom.language]}...`]);
       }
       
+
       setProcessingSteps(prev => [...prev, 'Generating 3D CAD model...']);
       await new Promise(resolve => setTimeout(resolve, 1500));
       
@@ -470,13 +548,22 @@ const MultimodalDesignInput: React.FC<{
       
       // Import cadAI dynamically to avoid circular dependencies
       const { cadAI } = await import('../services/cadAI');
+
+      if (attemptRef.current?.prompt !== cadPrompt) {
+        attemptRef.current = { key: createIdempotencyKey(), prompt: cadPrompt };
+      }
       
       // Generate CAD model using AgenticadML AI with progress tracking
       const cadModel = await cadAI.generateAndWaitForCAD({
-        prompt: cadPrompt,
+        prompt: translated.text,
         outputFormat: 'gltf',
-        units: 'mm'
-      }, false, (step: string, details?: any) => {
+        units: displayUnits,
+        idempotencyKey: attemptRef.current.key,
+        translatedFrom
+      }, false, (step: string, details?: GenerationProgressDetails) => {
+        // Waiting for a turn at the generation service is shown on its own, not as a step
+        setQueueStatus(details?.queue ?? null);
+        if (details?.queue) return;
         // Update processing steps based on actual progress
         setProcessingSteps(prev => {
           const newSteps = [...prev];
@@ -485,95 +572,53 @@ const MultimodalDesignInput: React.FC<{
           }
           return newSteps;
         });
-      });
+      }, undefined, { confirmFallback, chargeCacheHit: () => incrementDesignUsage() });
+      attemptRef.current = null;
 
-      // Convert CAD model to ArchitecturalModel format
-      // Map CAD dimensions (width, height, depth) to architectural dimensions (width, length, height)
-      const mappedDimensions = {
-        width: cadModel.properties.dimensions.width,
-        length: cadModel.properties.dimensions.depth, // Map depth to length
-        height: cadModel.properties.dimensions.height
-      };
+      // Ask before using a model that was not generated from the user's prompt
+      if (cadModel.fallback?.substituted) {
+        setSubstitutedModel({ model: cadModel, prompt: cadPrompt });
+        return;
+      }
 
-      const architecturalModel: ArchitecturalModel = {
-        id: cadModel.id,
-        name: `CAD Model - ${cadPrompt.substring(0, 30)}...`,
-        description: `3D model generated from: "${cadPrompt}"`,
-        rooms: [{
-          id: 'cad_component',
-          name: 'CAD Model',
-          dimensions: mappedDimensions,
-          position: { x: 0, y: 0, z: 0 },
-          connections: [],
-          features: ['cad_generated'],
-          materials: { walls: '#cccccc', floor: '#999999', ceiling: '#ffffff' }
-        }],
-        doors: [],
-        windows: [],
-        totalArea: cadModel.properties.volume,
-        style: 'modern',
-        created: new Date(),
-        modified: new Date(),
-        // Store the CAD model data
-        cadModel: cadModel,
-        productSpecs: {
-          name: `CAD Product`,
-          description: `3D model generated from user input`,
-          style: 'modern',
-          components: [{
-            name: 'main_component',
-            dimensions: mappedDimensions,
-            material: 'Generated material',
-            function: 'Primary structure',
-            features: ['cad_generated'],
-            connections: []
-          }],
-          totalVolume: cadModel.properties.volume,
-          manufacturing: {
-            method: '3D printing',
-            materials: ['PLA plastic'],
-            complexity: cadModel.properties.complexity,
-            estimated_cost: '$25-75'
-          },
-          specifications: {
-            weight: '200g',
-            dimensions: {
-              length: mappedDimensions.length,
-              width: mappedDimensions.width,
-              height: mappedDimensions.height
-            },
-            color_options: ['natural'],
-            durability: 'medium'
-          }
-        }
-      };
+      const architecturalModel = cadModelToArchitecturalModel(cadModel, cadPrompt);
       
       setProcessingSteps(prev => [...prev, 'Complete!']);
       onComplete(architecturalModel);
       
     } catch (error) {
       console.error('Error generating CAD model:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Enhanced error messaging for common issues
-      let userFriendlyMessage = 'Failed to generate product model. Please try again.';
-      
-      if (errorMessage.includes('422')) {
-        userFriendlyMessage = 'The AI had trouble understanding your description. Try being more specific about the shape, size, or function of your product.';
-      } else if (errorMessage.includes('429')) {
-        userFriendlyMessage = 'Too many requests. Please wait a moment before trying again.';
-      } else if (errorMessage.includes('AgenticadML API')) {
-        userFriendlyMessage = 'The 3D modeling service is temporarily unavailable. Please try again in a few minutes.';
-      } else if (errorMessage.includes('404')) {
-        userFriendlyMessage = 'The 3D modeling service is not properly configured. Please contact support.';
+      const typed = toGenerationError(error);
+      if (!typed.retryable) attemptRef.current = null;
+      if (typed instanceof QuotaExceededError) {
+        setShowUpgradePrompt(true);
+        return;
       }
-      
-      setError(userFriendlyMessage);
+      setError(typed);
+      setRetryAt(typed instanceof RateLimitedError ? Date.now() + typed.retryAfterMs : null);
     } finally {
       setIsProcessing(false);
+      setQueueStatus(null);
+      refreshUsage();
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!lastInputRef.current) return;
+
+    // An expired session has to be refreshed before the retry can be authorized
+    if (error?.code === 'auth_failed') {
+      const { error: refreshError } = await supabase.auth.refreshSession();
+      if (refreshError) {
+        console.error('Session refresh failed:', refreshError);
+        return;
+      }
     }
+    await handleInputSubmit(lastInputRef.current);
   };
 
+  const recovery = error ? describeGenerationError(error) : null;
+
   return (
     <div className="space-y-6">
       <div className="text-center mb-8">
@@ -663,6 +708,17 @@ const MultimodalDesignInput: React.FC<{
                 ))}
               </div>
               
+              {queueStatus && <QueueStatusNotice status={queueStatus} className="mt-6" />}
+
+              {/* Fallback question under the 'ask' policy */}
+              {fallbackProposal && (
+                <FallbackProposalPrompt
+                  proposal={fallbackProposal}
+                  onRespond={respondToFallback}
+                  className="mt-6"
+                />
+              )}
+
               {/* Status Message */}
               <div className="mt-8 text-gray-300">
                 {processingSteps.length === 0 && (
@@ -681,20 +737,50 @@ const MultimodalDesignInput: React.FC<{
       )}
 
       {/* Error Message */}
-      {error && (
+      {recovery && (
         <div className="max-w-6xl mx-auto p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
           <div className="flex items-center gap-3">
             <AlertCircle className="w-5 h-5 text-red-400" />
             <div>
-              <p className="text-red-400 font-medium">CAD Generation Error</p>
-              <p className="text-red-300 text-sm mt-1">{error}</p>
-              <p className="text-gray-400 text-xs mt-2">
-                💡 Tip: Try describing a simple mechanical object like "a bracket with mounting holes" or "a cylindrical container with a lid"
-              </p>
+              <p className="text-red-400 font-medium">{recovery.title}</p>
+              <p className="text-red-300 text-sm mt-1">{recovery.message}</p>
+              {recovery.action === 'rephrase' ? (
+                <p className="text-gray-400 text-xs mt-2">
+                  💡 Tip: Try describing a simple mechanical object like "a bracket with mounting holes" or "a cylindrical container with a lid"
+                </p>
+              ) : (
+                <button
+                  onClick={handleRetry}
+                  disabled={isProcessing || (recovery.action === 'wait_and_retry' && retrySecondsLeft > 0)}
+                  className="mt-3 flex items-center gap-1 text-xs px-3 py-1 bg-red-500/20 text-red-200 rounded-lg hover:bg-red-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  {recovery.action === 'wait_and_retry' && retrySecondsLeft > 0
+                    ? `Retry in ${retrySecondsLeft}s`
+                    : recovery.action === 'sign_in'
+                    ? 'Refresh Session & Retry'
+                    : recovery.action === 'regenerate'
+                    ? 'Generate Again'
+                    : 'Try Again'}
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
+
+      {/* Model from a substitute prompt, waiting for the user's decision */}
+      {substitutedModel && (
+        <SubstitutedModelConfirmation
+          model={substitutedModel.model}
+          originalPrompt={substitutedModel.prompt}
+          onAccept={handleAcceptSubstitute}
+          onDiscard={handleDiscardSubstitute}
+          isDiscarding={isDecliningSubstitute}
+          displayUnits={displayUnits}
+          className="max-w-6xl mx-auto"
+        />
+      )}
     </div>
   );
 };
@@ -706,8 +792,6 @@ const ThreeDModelViewer: React.FC<{
 }> = ({ model, onModelUpdate }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
-  const [exportError, setExportError] = useState<string | null>(null);
   const [manufacturingCost, setManufacturingCost] = useState<any>(null);
   const [gltfData, setGltfData] = useState<any>(null); // NEW: Store captured GLTF data
   const [viewMode, setViewMode] = useState<'3d' | 'ar'>('3d'); // Keep for AR mode toggle
@@ -869,80 +953,6 @@ const ThreeDModelViewer: React.FC<{
     setIsEditing(false);
   };
 
-  // Note: STL export functionality moved to CADExportComponent
-
-  // Handle Send to Manufacturer
-  const handleSendToManufacturer = async () => {
-    if (!model?.cadModel) {
-      alert('No CAD model available');
-      return;
-    }
-
-    setIsExporting(true);
-    setExportError(null);
-
-    try {
-      // Estimate manufacturing cost first
-      const cost = await cadAI.estimateManufacturingCost(model.cadModel, 'PLA');
-      setManufacturingCost(cost);
-
-      // Generate multiple export formats for manufacturer
-      const formats: Array<'stl' | 'step' | 'obj'> = ['stl', 'step', 'obj'];
-      const exportPromises = formats.map(async (format) => {
-        try {
-          const exportOptions: CADExportOptions = {
-            format,
-            units: 'mm',
-            quality: 'high'
-          };
-          const result = await cadAI.exportCADModel(model.cadModel!, exportOptions);
-          return { format, ...result };
-        } catch (error) {
-          console.warn(`Export failed for ${format}:`, error);
-          return null;
-        }
-      });
-
-      const exportResults = await Promise.all(exportPromises);
-      const successfulExports = exportResults.filter(result => result !== null);
-
-      if (successfulExports.length === 0) {
-        throw new Error('No export formats were successful');
-      }
-
-      // Create a summary for the manufacturer
-      const manufacturerPackage = {
-        modelId: model.cadModel.id,
-        description: model.productSpecs?.description || model.description,
-        specifications: model.productSpecs?.specifications,
-        manufacturing: model.productSpecs?.manufacturing,
-        estimatedCost: cost,
-        availableFiles: successfulExports
-      };
-
-      console.log('📦 Manufacturer package prepared:', manufacturerPackage);
-      
-      // For now, download the STL file and show manufacturer info
-      const stlExport = successfulExports.find(exp => exp?.format === 'stl');
-      if (stlExport) {
-        const link = document.createElement('a');
-        link.href = stlExport.downloadUrl;
-        link.download = stlExport.filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
-
-      alert(`Manufacturing package prepared!\n\nEstimated cost: $${cost.cost} USD\nMaterial: ${cost.material}\nVolume: ${cost.volume.toFixed(2)} cm³\n\nSTL file downloaded for manufacturer review.`);
-
-    } catch (error) {
-      console.error('❌ Manufacturer export failed:', error);
-      setExportError('Failed to prepare manufacturer package. Please try again.');
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="text-center mb-8">
@@ -961,19 +971,6 @@ const ThreeDModelViewer: React.FC<{
         className="max-w-6xl mx-auto h-[600px]"
       />
 
-      {/* Export Error Message */}
-      {exportError && (
-        <div className="max-w-6xl mx-auto bg-red-500/10 border border-red-500/20 rounded-xl p-4">
-          <div className="flex items-center gap-3">
-            <AlertCircle className="w-5 h-5 text-red-400" />
-            <div>
-              <p className="text-red-400 font-medium">Export Error</p>
-              <p className="text-red-300 text-sm">{exportError}</p>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* Model Information Panel */}
       {model && (
         <div className="max-w-6xl mx-auto bg-gradient-to-br from-purple-900/90 to-purple-800/90 backdrop-blur-sm border border-purple-500/30 rounded-2xl p-8">
@@ -1331,15 +1328,14 @@ const ThreeDModelViewer: React.FC<{
                   {/* Enhanced CAD Export with Multiple Formats */}
                   <CADExportComponent 
                     model={model}
+                    onModelUpdate={onModelUpdate}
                     className="w-full"
                   />
-                  <button 
-                    onClick={handleSendToManufacturer}
-                    disabled={isExporting}
-                    className="w-full px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium shadow-lg shadow-purple-500/25"
-                  >
-                    {isExporting ? 'Preparing...' : 'Send to Manufacturer'}
-                  </button>
+                  <ManufacturerPackagePanel
+                    model={model}
+                    onModelUpdate={onModelUpdate}
+                    onCostEstimated={setManufacturingCost}
+                  />
                 </div>
               </div>
             </div>
@@ -1371,15 +1367,14 @@ const ThreeDModelViewer: React.FC<{
                   {/* Enhanced CAD Export with Multiple Formats */}
                   <CADExportComponent 
                     model={model}
+                    onModelUpdate={onModelUpdate}
                     className="w-full"
                   />
-                  <button 
-                    onClick={handleSendToManufacturer}
-                    disabled={isExporting}
-                    className="w-full px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium shadow-lg shadow-purple-500/25"
-                  >
-                    {isExporting ? 'Preparing...' : 'Send to Manufacturer'}
-                  </button>
+                  <ManufacturerPackagePanel
+                    model={model}
+                    onModelUpdate={onModelUpdate}
+                    onCostEstimated={setManufacturingCost}
+                  />
                 </div>
               </div>
             </div>
@@ -1626,6 +1621,7 @@ const ProcessWizard: React.FC<ProcessWizardProps> = ({ onBack }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [modelGenerated, setModelGenerated] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { unitSystem, setUnitSystem } = useUnitPreference();
 
   const steps = [
     { 
@@ -1728,7 +1724,7 @@ const ProcessWizard: React.FC<ProcessWizardProps> = ({ onBack }) => {
         inputs,
         preferences: {
           style: 'modern',
-          units: 'metric',
+          units: unitSystem,
           complexity: 'detailed'
         }
       };
@@ -1835,8 +1831,24 @@ const ProcessWizard: React.FC<ProcessWizardProps> = ({ onBack }) => {
             <ArrowLeft className="w-5 h-5 mr-2" />
             Back to Home
           </button>
-          <div className="text-white font-semibold">
-            Step {currentStep + 1} of {steps.length}
+          <div className="flex items-center gap-4">
+            {/* Unit system for dimensions and exports */}
+            <div className="flex bg-white/10 rounded-lg p-1 text-xs">
+              {(['metric', 'imperial'] as const).map(system => (
+                <button
+                  key={system}
+                  onClick={() => setUnitSystem(system)}
+                  className={`px-3 py-1 rounded-md capitalize transition-colors ${
+                    unitSystem === system ? 'bg-cyan-500/30 text-cyan-200' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {system}
+                </button>
+              ))}
+            </div>
+            <div className="text-white font-semibold">
+              Step {currentStep + 1} of {steps.length}
+            </div>
           </div>
         </div>
       </header>
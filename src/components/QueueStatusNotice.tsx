@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
+import type { QueueStatus } from '../services/requestScheduler';
+
+// Names of the priority lanes (generation_lanes), by subscription tier
+const LANE_NAMES: Record<string, string> = {
+  pro: 'Pro priority lane',
+  plus: 'Plus priority lane',
+  free: 'standard lane'
+};
+
+// "about 3 min" / "under a minute"
+const formatWait = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'under a minute' : `about ${minutes} min`;
+};
+
+interface QueueStatusNoticeProps {
+  status: QueueStatus;
+  className?: string;
+}
+
+/**
+ * Where a submission waits before the generation service takes it: behind the user's own
+ * earlier submissions, in their tier's lane of the shared queue (with the expected wait), or
+ * until a rate limit passes
+ */
+const QueueStatusNotice: React.FC<QueueStatusNoticeProps> = ({ status, className = '' }) => {
+  // A new status object arrives with every answer, restarting the countdown
+  const retryAt = useMemo(() => (status.retryAfterMs > 0 ? Date.now() + status.retryAfterMs : null), [status]);
+  const secondsLeft = useRetryCountdown(retryAt);
+
+  let title: string;
+  let detail: string | null = null;
+  if (status.reason === 'local') {
+    const ahead = (status.position ?? 1) - 1;
+    title = `Waiting for ${ahead} earlier submission${ahead === 1 ? '' : 's'} of yours`;
+  } else if (status.reason === 'queued') {
+    const lane = status.lane ? LANE_NAMES[status.lane] ?? `${status.lane} lane` : 'generation queue';
+    title = `Position ${status.position ?? '?'} in the ${lane}`;
+    const notes = [
+      status.estimatedWaitMs !== undefined && `Expected wait: ${formatWait(status.estimatedWaitMs)}`,
+      status.userPosition && status.userPosition > 1 && `${status.userPosition - 1} of your own submissions go first`
+    ].filter(Boolean);
+    if (notes.length > 0) detail = notes.join(' · ');
+  } else {
+    title = 'The generation service is busy';
+  }
+
+  return (
+    <div className={`bg-cyan-500/10 border border-cyan-500/30 rounded-xl p-4 text-left ${className}`}>
+      <div className="flex items-start gap-3">
+        <Clock className="w-5 h-5 text-cyan-400 mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="text-cyan-300 font-medium text-sm">{title}</p>
+          {detail && <p className="text-cyan-200/80 text-xs mt-1">{detail}</p>}
+          {secondsLeft > 0 && (
+            <p className="text-gray-400 text-xs mt-1">
+              {status.reason === 'rate_limited' ? 'Retrying' : 'Checking again'} in {secondsLeft}s
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueueStatusNotice;
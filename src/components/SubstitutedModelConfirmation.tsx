@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Loader2, Trash2 } from 'lucide-react';
+import type { CADModel } from '../services/cadAI';
+import { DEFAULT_MODEL_UNITS, formatDimensions, type LengthUnit } from '../services/units';
+
+interface SubstitutedModelConfirmationProps {
+  model: CADModel;
+  // Prompt the user actually typed
+  originalPrompt: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+  isDiscarding?: boolean;
+  // Unit dimensions are shown in (millimeters by default)
+  displayUnits?: LengthUnit;
+  className?: string;
+}
+
+/**
+ * Shown when a generation produced a model from a substitute prompt instead of the user's.
+ * Its design credit is only kept once the user accepts the model; discarding it, or leaving it
+ * unanswered, refunds the credit.
+ */
+const SubstitutedModelConfirmation: React.FC<SubstitutedModelConfirmationProps> = ({
+  model,
+  originalPrompt,
+  onAccept,
+  onDiscard,
+  isDiscarding = false,
+  displayUnits = 'mm',
+  className = ''
+}) => {
+  return (
+    <div className={`bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 ${className}`}>
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-orange-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h4 className="text-orange-400 font-medium text-sm">This model was not generated from your prompt</h4>
+            <p className="text-orange-300 text-sm mt-1">
+              {model.fallback?.reason || 'Your prompt could not be generated, so a substitute prompt was used.'}
+            </p>
+          </div>
+
+          <div className="text-sm space-y-1">
+            <p className="text-gray-300">
+              <span className="text-gray-400">You asked for:</span> "{originalPrompt}"
+            </p>
+            <p className="text-gray-300">
+              <span className="text-gray-400">Generated instead:</span> "{model.fallback?.prompt || model.prompt}"
+            </p>
+            <p className="text-gray-400 text-xs">
+              {model.properties.analysisFailed
+                ? 'Dimensions unavailable'
+                : `${formatDimensions(model.properties.dimensions, model.units || DEFAULT_MODEL_UNITS, displayUnits)} • ${model.properties.complexity}`}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={onAccept}
+              disabled={isDiscarding}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 bg-orange-500/20 text-orange-200 rounded-lg hover:bg-orange-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircle className="w-3 h-3" />
+              Keep This Model (1 design credit)
+            </button>
+            <button
+              onClick={onDiscard}
+              disabled={isDiscarding}
+              className="flex items-center gap-1 text-xs px-3 py-1.5 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDiscarding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              Discard
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubstitutedModelConfirmation;
@@ -0,0 +1,270 @@
+import React, { Suspense, useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, Stage, useGLTF } from '@react-three/drei';
+import {
+  CheckCircle,
+  XCircle,
+  Loader2,
+  Ruler,
+  Box,
+  DollarSign,
+  Layers,
+  ArrowRight,
+  Ban
+} from 'lucide-react';
+import type { CADModel, CADVariantResult } from '../services/cadAI';
+import {
+  DEFAULT_MODEL_UNITS,
+  formatArea,
+  formatDimensions,
+  formatVolume,
+  unitSystemOf,
+  type LengthUnit
+} from '../services/units';
+
+interface VariantComparisonProps {
+  count: number;
+  // null while the batch is still running
+  results: CADVariantResult[] | null;
+  // Latest progress step per variant while the batch is running
+  progress?: Record<number, string>;
+  onPromote: (model: CADModel) => void;
+  onDiscard: () => void;
+  onCancel?: () => void;
+  // Unit dimensions are shown in (millimeters by default)
+  displayUnits?: LengthUnit;
+  className?: string;
+}
+
+// Placeholder card shown while the batch is running
+interface PendingVariant {
+  index: number;
+  status: 'pending';
+  prompt?: undefined;
+  model?: undefined;
+  error?: undefined;
+}
+
+// Keeps a broken model from taking the whole comparison down with it
+class PreviewErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { hasError: boolean }
+> {
+  constructor(props: { children: React.ReactNode }) {
+    super(props);
+    this.state = { hasError: false };
+  }
+
+  static getDerivedStateFromError() {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.warn('Variant preview failed to load:', error);
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return (
+        <div className="h-full flex items-center justify-center text-gray-400 text-sm">
+          Preview unavailable
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+const VariantModel: React.FC<{ url: string }> = ({ url }) => {
+  const { scene } = useGLTF(url);
+  // Each card needs its own copy; one three.js object cannot sit in several scenes
+  const clone = useMemo(() => scene.clone(true), [scene]);
+  return <primitive object={clone} />;
+};
+
+const VariantPreview: React.FC<{ url: string }> = ({ url }) => (
+  <PreviewErrorBoundary>
+    <Canvas camera={{ position: [4, 3, 4], fov: 45 }} dpr={[1, 1.5]}>
+      <Suspense fallback={null}>
+        <Stage adjustCamera intensity={0.6} environment={null} shadows={false}>
+          <VariantModel url={url} />
+        </Stage>
+      </Suspense>
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[5, 5, 5]} intensity={0.8} />
+      <OrbitControls enablePan={false} autoRotate autoRotateSpeed={1.5} />
+    </Canvas>
+  </PreviewErrorBoundary>
+);
+
+/**
+ * Side-by-side view of a variant batch: preview, measured dimensions, volume and cost per
+ * variant, with the cheapest and smallest completed variants highlighted
+ */
+const VariantComparison: React.FC<VariantComparisonProps> = ({
+  count,
+  results,
+  progress = {},
+  onPromote,
+  onDiscard,
+  onCancel,
+  displayUnits = 'mm',
+  className = ''
+}) => {
+  // Volume and area read better in cm or inches than in mm
+  const bulkUnits: LengthUnit = unitSystemOf(displayUnits) === 'imperial' ? 'in' : 'cm';
+
+  const isRunning = results === null;
+  const variants: Array<CADVariantResult | PendingVariant> =
+    results ?? Array.from({ length: count }, (_, index) => ({ index, status: 'pending' as const }));
+
+  const { completed, cheapestIndex, smallestIndex } = useMemo(() => {
+    const done = (results ?? []).filter(v => v.status === 'completed' && v.model);
+    const priced = done.filter(v => v.model?.manufacturingCost);
+    const measured = done.filter(v => !v.model?.properties.analysisFailed);
+    return {
+      completed: done,
+      // Badges only make sense with something to compare against
+      cheapestIndex: priced.length < 2 ? null : priced.reduce((best, v) =>
+        v.model!.manufacturingCost!.cost < best.model!.manufacturingCost!.cost ? v : best
+      ).index,
+      smallestIndex: measured.length < 2 ? null : measured.reduce((best, v) =>
+        v.model!.properties.volume < best.model!.properties.volume ? v : best
+      ).index
+    };
+  }, [results]);
+
+  return (
+    <div className={`bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Compare Variants</h3>
+          <p className="text-gray-400 text-sm">
+            {isRunning
+              ? 'Variants are generating in parallel...'
+              : `${completed.length} of ${variants.length} variants generated. Pick one to continue with.`}
+          </p>
+        </div>
+        {isRunning ? (
+          onCancel && (
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-2 text-sm px-4 py-2 bg-red-500/20 text-red-200 border border-red-500/30 rounded-lg hover:bg-red-500/30 transition-colors"
+            >
+              <XCircle className="w-4 h-4" />
+              Cancel All
+            </button>
+          )
+        ) : (
+          <button
+            onClick={onDiscard}
+            className="text-sm px-4 py-2 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors"
+          >
+            Discard All
+          </button>
+        )}
+      </div>
+
+      <div className={`grid gap-4 grid-cols-1 md:grid-cols-2 ${variants.length > 2 ? 'xl:grid-cols-4' : ''}`}>
+        {variants.map(variant => {
+          const model = variant.model;
+          return (
+            <div
+              key={variant.index}
+              className="flex flex-col bg-black/20 border border-white/10 rounded-xl overflow-hidden"
+            >
+              {/* Preview */}
+              <div className="h-48 bg-gradient-to-br from-purple-900/40 to-slate-900/60">
+                {model ? (
+                  <VariantPreview url={model.gltfUrl} />
+                ) : variant.status === 'failed' ? (
+                  <div className="h-full flex flex-col items-center justify-center gap-2 text-red-300 text-sm">
+                    <XCircle className="w-8 h-8" />
+                    Generation failed
+                  </div>
+                ) : variant.status === 'cancelled' ? (
+                  <div className="h-full flex flex-col items-center justify-center gap-2 text-gray-400 text-sm">
+                    <Ban className="w-8 h-8" />
+                    Cancelled
+                  </div>
+                ) : (
+                  <div className="h-full flex flex-col items-center justify-center gap-2 text-cyan-300 text-sm">
+                    <Loader2 className="w-8 h-8 animate-spin" />
+                    {progress[variant.index] || 'Waiting...'}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 flex flex-col p-4 gap-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">Variant {variant.index + 1}</span>
+                  <div className="flex gap-1">
+                    {variant.index === cheapestIndex && (
+                      <span className="text-xs px-2 py-0.5 bg-green-500/20 text-green-300 rounded-full">Lowest cost</span>
+                    )}
+                    {variant.index === smallestIndex && (
+                      <span className="text-xs px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full">Smallest</span>
+                    )}
+                    {model?.fallback?.substituted && (
+                      <span
+                        className="text-xs px-2 py-0.5 bg-orange-500/20 text-orange-300 rounded-full"
+                        title={model.fallback.reason}
+                      >
+                        Template
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {variant.prompt && (
+                  <p className="text-gray-400 text-xs line-clamp-2" title={variant.prompt}>{variant.prompt}</p>
+                )}
+
+                {model?.properties.analysisFailed ? (
+                  <p className="text-gray-400 text-sm">Measurements and cost estimate unavailable</p>
+                ) : model ? (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center gap-2 text-gray-300">
+                      <Ruler className="w-4 h-4 text-cyan-400" />
+                      {formatDimensions(model.properties.dimensions, model.units || DEFAULT_MODEL_UNITS, displayUnits)}
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-300">
+                      <Box className="w-4 h-4 text-cyan-400" />
+                      {formatVolume(model.properties.volume, model.units || DEFAULT_MODEL_UNITS, bulkUnits)} • {formatArea(model.properties.surfaceArea, model.units || DEFAULT_MODEL_UNITS, bulkUnits)}
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-300">
+                      <Layers className="w-4 h-4 text-cyan-400" />
+                      {model.properties.triangleCount.toLocaleString()} triangles • {model.properties.complexity}
+                    </div>
+                    {model.manufacturingCost && (
+                      <div className="flex items-center gap-2 text-gray-300">
+                        <DollarSign className="w-4 h-4 text-green-400" />
+                        {model.manufacturingCost.cost.toFixed(2)} {model.manufacturingCost.currency} ({model.manufacturingCost.material})
+                      </div>
+                    )}
+                  </div>
+                ) : variant.error ? (
+                  <p className="text-red-300 text-xs line-clamp-3">{variant.error}</p>
+                ) : null}
+
+                {model && (
+                  <button
+                    onClick={() => onPromote(model)}
+                    disabled={isRunning}
+                    className="mt-auto flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white text-sm font-medium rounded-lg hover:from-cyan-600 hover:to-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    Use This Design
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantComparison;
@@ -21,7 +21,7 @@ const DesignIteration: React.FC<DesignIterationProps> = ({ onNext }) => {
   ]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
-  const { canUseRefine, incrementRefineUsage } = useUsage();
+  const { canUseRefine, startRefineChat } = useUsage();
   const { user } = useAuth();
 
   const suggestions = [
@@ -47,17 +47,18 @@ const DesignIteration: React.FC<DesignIterationProps> = ({ onNext }) => {
     setIsProcessing(true);
 
     try {
-      // Increment refine usage
-      const canProceed = await incrementRefineUsage();
-      
-      if (!canProceed) {
+      // Get current design context
+      const designSessionId = sessionStorage.getItem('currentDesignSessionId');
+
+      // The refine-chat function records the message and charges it; refused once the tier limit is reached
+      const chatId = await startRefineChat(message, designSessionId);
+
+      if (!chatId) {
         setShowUpgradePrompt(true);
         setIsProcessing(false);
         return;
       }
 
-      // Get current design context
-      const designSessionId = sessionStorage.getItem('currentDesignSessionId');
       let currentModel = null;
       let designData = null;
 
@@ -114,17 +115,11 @@ const DesignIteration: React.FC<DesignIterationProps> = ({ onNext }) => {
         aiResponse = `I understand your feedback: "${message}". To make specific design changes, please first generate a 3D model from the initial design step. Then I can help you refine and iterate on the design with detailed AI-powered modifications.`;
       }
 
-      // Save refine chat to database with AI response
-      if (designSessionId) {
-        await supabase
-          .from('refine_chats')
-          .insert({
-            user_id: user.id,
-            design_session_id: designSessionId,
-            message: message,
-            response: aiResponse
-          });
-      }
+      // Save the AI response on the recorded refine chat
+      await supabase
+        .from('refine_chats')
+        .update({ response: aiResponse })
+        .eq('id', chatId);
       
       // Add AI response to chat history
       setChatHistory([...newHistory, { type: 'ai', message: aiResponse }]);
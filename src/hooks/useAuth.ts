@@ -13,6 +13,8 @@ export interface UserProfile {
   current_period_end: string | null
   created_at: string | null
   updated_at: string | null
+  // Unit system dimensions are shown in (see useUnitPreference)
+  preferred_units?: 'metric' | 'imperial'
 }
 
 export function useAuth() {
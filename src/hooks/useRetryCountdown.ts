@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react'
+
+// Whole seconds left until the given time (0 once it has passed)
+const secondsUntil = (retryAt: number | null) =>
+  retryAt === null ? 0 : Math.max(0, Math.ceil((retryAt - Date.now()) / 1000))
+
+/**
+ * Seconds remaining until a rate-limited request may be retried, ticking down once a second.
+ * Pass null when nothing is waiting.
+ */
+export function useRetryCountdown(retryAt: number | null) {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(retryAt))
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(retryAt))
+    if (retryAt === null) return
+
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(retryAt)
+      setSecondsLeft(remaining)
+      if (remaining === 0) clearInterval(interval)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [retryAt])
+
+  return secondsLeft
+}
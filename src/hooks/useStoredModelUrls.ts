@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react'
+import { modelStorage } from '../services/modelStorage'
+import type { ArchitecturalModel } from '../types/architectural'
+
+/**
+ * The model with live URLs for its stored files. Models saved in an earlier session (or whose
+ * signed URLs expired) are re-signed from their storage paths; others are returned unchanged.
+ */
+export function useStoredModelUrls(model: ArchitecturalModel | null) {
+  const [resolved, setResolved] = useState(model)
+
+  useEffect(() => {
+    setResolved(model)
+    const cadModel = model?.cadModel
+    if (!model || !cadModel?.storage || modelStorage.isLive(cadModel.gltfUrl)) return
+
+    let cancelled = false
+    modelStorage.refreshUrls(cadModel).then(fresh => {
+      if (!cancelled && fresh !== cadModel) setResolved({ ...model, cadModel: fresh })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [model])
+
+  return resolved
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from './useAuth'
+import { DISPLAY_UNITS, type UnitSystem } from '../services/units'
+
+// Lets every mounted component pick up a change made in another one
+const UNIT_SYSTEM_EVENT = 'agenticad:unit-system'
+
+/**
+ * The signed-in user's unit system (user_profiles.preferred_units, metric until set) and the
+ * length unit dimensions are shown in. Changing it is saved to the profile.
+ */
+export function useUnitPreference() {
+  const { user, profile } = useAuth()
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(profile?.preferred_units || 'metric')
+
+  useEffect(() => {
+    if (profile?.preferred_units) setUnitSystemState(profile.preferred_units)
+  }, [profile?.preferred_units])
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setUnitSystemState((event as CustomEvent<UnitSystem>).detail)
+    window.addEventListener(UNIT_SYSTEM_EVENT, handleChange)
+    return () => window.removeEventListener(UNIT_SYSTEM_EVENT, handleChange)
+  }, [])
+
+  const setUnitSystem = useCallback(async (system: UnitSystem) => {
+    window.dispatchEvent(new CustomEvent(UNIT_SYSTEM_EVENT, { detail: system }))
+    if (!user) return
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ preferred_units: system })
+      .eq('id', user.id)
+    if (error) console.error('Failed to save unit preference:', error)
+  }, [user])
+
+  return {
+    unitSystem,
+    displayUnits: DISPLAY_UNITS[unitSystem],
+    setUnitSystem
+  }
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from './useAuth'
+import { QuotaExceededError, errorFromResponse } from '../services/generationErrors'
 
 export interface UsageData {
   id: string
@@ -21,6 +22,7 @@ export function useUsage() {
   const [loading, setLoading] = useState(true)
   const [hasInitialized, setHasInitialized] = useState(false)
 
+  // Mirrors public.usage_limit in the usage metering migration
   const getUsageLimits = (tier: string): UsageLimits => {
     switch (tier) {
       case 'plus':
@@ -48,6 +50,19 @@ export function useUsage() {
     }
   }, [user?.id, profile?.id, hasInitialized]) // Removed usage and loading from dependencies
 
+  const defaultUsage = (): UsageData => {
+    const now = new Date()
+    return {
+      id: 'default',
+      designs_used: 0,
+      refine_chats_used: 0,
+      period_start: new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString(),
+      period_end: new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999)).toISOString(),
+    }
+  }
+
+  // The current period's record is read (and created when missing) by the get_current_usage RPC;
+  // the browser can no longer write usage_tracking itself
   const fetchCurrentUsage = async () => {
     if (!user) {
       console.log('📊 UseUsage: No user, skipping fetch')
@@ -58,193 +73,83 @@ export function useUsage() {
     try {
       console.log('📊 UseUsage: Starting usage fetch for user:', user.id)
       setLoading(true)
-      
-      // Get current month period to match database records
-      const now = new Date()
-      const year = now.getFullYear()
-      const month = now.getMonth() // 0-based month
-      
-      // Create month boundaries to match how database creates records
-      // Database uses: DATE_TRUNC('month', NOW()) for period_start
-      const currentMonthStart = new Date(Date.UTC(year, month, 1))
-      const currentMonthEnd = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999))
-      
-      console.log('🔍 Looking for usage record for month starting:', currentMonthStart.toISOString())
 
-      // Look for usage record where current date falls within the period range
-      const { data, error } = await supabase
-        .from('usage_tracking')
-        .select('*')
-        .eq('user_id', user.id)
-        .lte('period_start', now.toISOString()) // period_start <= now
-        .gte('period_end', now.toISOString())   // period_end >= now
-        .order('period_start', { ascending: false })
-        .limit(1)
-        .maybeSingle() // Use maybeSingle instead of single to avoid errors when no data
+      const { data, error } = await supabase.rpc('get_current_usage')
 
       if (error) {
-        console.error('❌ Usage tracking table error:', error)
-        
-        // If table doesn't exist or access is denied, create a default usage object
-        if (error.code === 'PGRST301' || error.message?.includes('relation') || error.code === '42P01') {
-          console.log('📊 Usage tracking table not available, using default limits')
-          setUsage({
-            id: 'default',
-            designs_used: 0,
-            refine_chats_used: 0,
-            period_start: currentMonthStart.toISOString(),
-            period_end: currentMonthEnd.toISOString(),
-          })
-          return
-        }
-        
-        throw error
+        console.error('❌ Usage tracking error:', error)
+        // Usage metering not deployed: show an empty period (the server still decides what is allowed)
+        setUsage(defaultUsage())
+        return
       }
 
-      if (!data) {
-        console.log('📊 No usage record found, creating new one')
-        // Create new usage record for this period
-        const newUsage = {
-          user_id: user.id,
-          designs_used: 0,
-          refine_chats_used: 0,
-          period_start: currentMonthStart.toISOString(),
-          period_end: currentMonthEnd.toISOString(),
-        }
-
-        const { data: created, error: createError } = await supabase
-          .from('usage_tracking')
-          .insert(newUsage)
-          .select()
-          .single()
-
-        if (createError) {
-          console.error('❌ Error creating usage record:', createError)
-          // Fall back to default usage object
-          setUsage({
-            id: 'default',
-            designs_used: 0,
-            refine_chats_used: 0,
-            period_start: currentMonthStart.toISOString(),
-            period_end: currentMonthEnd.toISOString(),
-          })
-          return
-        }
-        
-        console.log('✅ Created new usage record:', created)
-        setUsage(created)
-      } else {
-        console.log('✅ Found existing usage record:', data)
-        setUsage(data)
-      }
+      console.log('✅ Found usage record:', data)
+      setUsage(data as UsageData)
     } catch (error) {
       console.error('❌ Error fetching usage:', error)
-      
-      // Provide default usage limits as fallback
-      const nowFallback = new Date()
-      const fallbackStart = new Date(Date.UTC(nowFallback.getFullYear(), nowFallback.getMonth(), 1))
-      const fallbackEnd = new Date(Date.UTC(nowFallback.getFullYear(), nowFallback.getMonth() + 1, 0, 23, 59, 59, 999))
-      
-      setUsage({
-        id: 'default',
-        designs_used: 0,
-        refine_chats_used: 0,
-        period_start: fallbackStart.toISOString(),
-        period_end: fallbackEnd.toISOString(),
-      })
+      setUsage(defaultUsage())
     } finally {
       setLoading(false)
     }
   }
 
-  const incrementDesignUsage = async () => {
-    if (!user || !usage || !profile) return false
-
-    const limits = getUsageLimits(profile.subscription_tier)
-    
-    if (usage.designs_used >= limits.designs) {
-      return false // Usage limit exceeded
-    }
+  // POST to an edge function as the signed-in user; failures are thrown as typed errors
+  const callFunction = async <T,>(name: string, body: Record<string, unknown>): Promise<T> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    })
+    const data = await response.json().catch(() => null)
+    if (!response.ok) throw errorFromResponse(response.status, data, response.headers.get('Retry-After'))
+    return data as T
+  }
 
-    // If using default usage (table not available), just update local state
-    if (usage.id === 'default') {
-      console.log('📊 Using default usage tracking, updating locally')
-      setUsage(prev => prev ? { ...prev, designs_used: prev.designs_used + 1 } : null)
-      return true
-    }
+  /**
+   * Charge one design served without a Zoo job (a cached result or a design session) through
+   * the zoo-text-to-cad function, which generations are charged by too. Returns false when the
+   * limit is reached or the charge fails.
+   */
+  const incrementDesignUsage = async () => {
+    if (!user) return false
 
     try {
-      const { error } = await supabase
-        .from('usage_tracking')
-        .update({ 
-          designs_used: usage.designs_used + 1,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', usage.id)
-
-      if (error) {
-        console.error('❌ Error incrementing design usage:', error)
-        // Still increment locally if database fails
-        setUsage(prev => prev ? { ...prev, designs_used: prev.designs_used + 1 } : null)
-        return true
-      }
-
+      await callFunction('zoo-text-to-cad', { action: 'charge_design' })
       setUsage(prev => prev ? { ...prev, designs_used: prev.designs_used + 1 } : null)
       return true
     } catch (error) {
-      console.error('❌ Error incrementing design usage:', error)
-      // Still increment locally if database fails
-      setUsage(prev => prev ? { ...prev, designs_used: prev.designs_used + 1 } : null)
-      return true
+      console.error('❌ Error recording design usage:', error)
+      return false
     }
   }
 
-  const incrementRefineUsage = async () => {
-    if (!user || !usage || !profile) return false
-
-    const limits = getUsageLimits(profile.subscription_tier)
-    
-    if (usage.refine_chats_used >= limits.refine_chats) {
-      return false // Usage limit exceeded
-    }
-
-    // If using default usage (table not available), just update local state
-    if (usage.id === 'default') {
-      console.log('📊 Using default usage tracking, updating locally')
-      setUsage(prev => prev ? { ...prev, refine_chats_used: prev.refine_chats_used + 1 } : null)
-      return true
-    }
+  /**
+   * Start a refine chat turn through the refine-chat function, which records the message and
+   * charges it to the user's tier limit. Returns the chat id, or null when the limit is reached;
+   * other failures are thrown.
+   */
+  const startRefineChat = async (message: string, designSessionId: string | null): Promise<string | null> => {
+    if (!user) return null
 
     try {
-      const { error } = await supabase
-        .from('usage_tracking')
-        .update({ 
-          refine_chats_used: usage.refine_chats_used + 1,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', usage.id)
-
-      if (error) {
-        console.error('❌ Error incrementing refine usage:', error)
-        // Still increment locally if database fails
-        setUsage(prev => prev ? { ...prev, refine_chats_used: prev.refine_chats_used + 1 } : null)
-        return true
-      }
-
-      setUsage(prev => prev ? { ...prev, refine_chats_used: prev.refine_chats_used + 1 } : null)
-      return true
+      const result = await callFunction<{ chat_id: string; used: number }>('refine-chat', { message, designSessionId })
+      setUsage(prev => prev ? { ...prev, refine_chats_used: result.used } : null)
+      return result.chat_id
     } catch (error) {
-      console.error('❌ Error incrementing refine usage:', error)
-      // Still increment locally if database fails
-      setUsage(prev => prev ? { ...prev, refine_chats_used: prev.refine_chats_used + 1 } : null)
-      return true
+      if (error instanceof QuotaExceededError) return null
+      throw error
     }
   }
 
-  const canUseDesign = () => {
+  // Display-side checks only; the server enforces the limits
+  const canUseDesign = (count: number = 1) => {
     if (!usage || !profile) return false
     const limits = getUsageLimits(profile.subscription_tier)
-    return usage.designs_used < limits.designs
+    return usage.designs_used + count <= limits.designs
   }
 
   const canUseRefine = () => {
@@ -258,7 +163,7 @@ export function useUsage() {
     loading,
     getUsageLimits,
     incrementDesignUsage,
-    incrementRefineUsage,
+    startRefineChat,
     canUseDesign,
     canUseRefine,
     refreshUsage: fetchCurrentUsage,
@@ -64,11 +64,15 @@ class CacheService {
    * Generate cache key from input parameters
    */
   private generateKey(type: string, params: any): string {
-    const paramsString = JSON.stringify(params, Object.keys(params).sort());
-    const hash = this.simpleHash(paramsString);
+    const hash = this.simpleHash(this.stableStringify(params));
     return `${type}_${hash}`;
   }
 
+  // Parameters as a string that does not depend on key order
+  private stableStringify(params: Record<string, unknown>): string {
+    return JSON.stringify(params, Object.keys(params).sort());
+  }
+
   /**
    * Simple hash function for cache keys
    */
@@ -163,6 +167,32 @@ class CacheService {
     return this.get(key);
   }
 
+  /**
+   * Cache a generated CAD model under the (normalized) request that produced it. Entries are
+   * scoped to the signed-in user, whose storage folder the model's files live in, and keep the
+   * request itself, since different requests can share a key.
+   */
+  async cacheGeneratedModel(request: Record<string, unknown>, modelData: unknown, options: CacheOptions = {}): Promise<void> {
+    const scoped = { ...request, userId: await this.getCurrentUserId() ?? null };
+    const key = this.generateKey('generated_model', scoped);
+    await this.set(key, { request: this.stableStringify(scoped), model: modelData }, {
+      ...options,
+      type: 'model_data',
+      ttl: options.ttl || 7 * 24 * 60 * 60 * 1000 // 7 days
+    });
+  }
+
+  /**
+   * Get the cached model generated for a request; null when the entry under its key was
+   * generated for another request
+   */
+  async getCachedGeneratedModel(request: Record<string, unknown>): Promise<unknown> {
+    const scoped = { ...request, userId: await this.getCurrentUserId() ?? null };
+    const cached = await this.get(this.generateKey('generated_model', scoped));
+    if (!cached || cached.request !== this.stableStringify(scoped)) return null;
+    return cached.model;
+  }
+
   /**
    * Store data in cache (browser first, then cloud)
    */
@@ -1,4 +1,48 @@
-import { supabase } from '../lib/supabase';
+import { analyzeGeometryFromUrl } from './geometryAnalysis';
+import {
+  createGenerationError,
+  GenerationError,
+  GenerationTimeoutError,
+  OutputMissingError,
+  PromptRejectedError,
+  QuotaExceededError,
+  RateLimitedError,
+  toGenerationError,
+  type GenerationErrorCode
+} from './generationErrors';
+import { createCADGenerationProvider, type CADGenerationProvider, type GenerationContext, type GenerationJobRow } from './cadProviders';
+import {
+  DEFAULT_WAIT_OPTIONS,
+  localProgressChannel,
+  nextPollInterval,
+  toGenerationStatus,
+  type GenerationProgressChannel,
+  type GenerationStatus,
+  type GenerationStatusEvent,
+  type WaitOptions
+} from './generationProgress';
+import { modelStorage, type StoredModelFiles } from './modelStorage';
+import { cacheService } from './cacheService';
+import { convertVolume, DEFAULT_MODEL_UNITS, type LengthUnit } from './units';
+import { parsePromptSpec, verifyDimensions, type DimensionVerification, type PromptSpec } from './promptSpecs';
+import {
+  enhanceWithRules,
+  FALLBACK_TEMPLATE_PROMPT,
+  PROMPT_RULE_STAGES,
+  PROMPT_RULES_VERSION,
+  withDesignPrefix
+} from './promptRules';
+import type { PromptLanguage } from './translation';
+import type { QueueStatus, QueueStatusListener } from './requestScheduler';
+import { exportService, type ExportOptionValue, type ExportProgressListener } from './exportService';
+import type { ThreeMFComponent } from './threeMFWriter';
+import {
+  ADAPTIVE_ENHANCEMENT,
+  categorizePrompt,
+  enhancementStats,
+  type EnhancementStrategy,
+  type EnhancementTracking
+} from './enhancementStats';
 
 // Pica configuration for prompt enhancement
 interface PicaConfig {
@@ -11,25 +55,21 @@ const getPicaConfig = (): PicaConfig => ({
   openaiConnectionKey: import.meta.env.VITE_PICA_OPENAI_CONNECTION_KEY || ''
 });
 
-  // Use Supabase Edge Function as proxy to AgenticadML API
-const getSupabaseFunction = () => {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-  
-  return {
-    url: `${supabaseUrl}/functions/v1/zoo-text-to-cad`,
-    headers: {
-      'Authorization': `Bearer ${supabaseAnonKey}`,
-      'Content-Type': 'application/json'
-    }
-  };
-};
-
 export interface CADGenerationRequest {
   prompt: string;
   outputFormat?: 'gltf' | 'stl' | 'obj' | 'ply' | 'step' | 'fbx';
-  units?: 'mm' | 'cm' | 'm' | 'in' | 'ft';
+  units?: LengthUnit;
   scale?: number;
+  // Sent with the submission; a repeat with the same key returns the first job instead of
+  // starting (and charging) another one
+  idempotencyKey?: string;
+  // The prompt as the user wrote it, when `prompt` is its English translation
+  translatedFrom?: TranslatedPrompt;
+}
+
+export interface TranslatedPrompt {
+  language: PromptLanguage;
+  prompt: string;
 }
 
 export interface CADGenerationResponse {
@@ -76,22 +116,46 @@ export interface CADGenerationResponse {
     [key: string]: string | undefined;
   };
   error?: string;
+  // Kind of failure for failed jobs
+  error_code?: GenerationErrorCode;
   created_at: string;
   completed_at?: string;
+  // Id of the persisted generation_jobs record for this Zoo job
+  job_id?: string;
 }
 
 export interface CADModel {
   id: string;
   prompt: string;
   originalPrompt?: string;
+  // originalPrompt as written in another language, before translation
+  translatedFrom?: TranslatedPrompt;
   enhancementInfo?: {
     source: string;
     confidence: number;
     wasEnhanced: boolean;
+    // Ids of the enhancer rules that rewrote the prompt
+    rules?: string[];
+    // Sent with generate requests so the server can record the outcome (see enhancementStats)
+    tracking?: EnhancementTracking;
   };
+  // Set when the user's prompt was rejected and a fallback prompt produced this geometry
+  fallback?: CADModelFallback;
+  // Signed URL of the stored model file (a temporary object URL when it could not be stored)
   gltfUrl: string;
   thumbnailUrl?: string;
   formats: Record<string, string>;
+  // Storage paths of the model's files; URLs above are re-signed from these
+  storage?: StoredModelFiles;
+  // Units of the model file's coordinates and of properties below (millimeters when unset)
+  units?: LengthUnit;
+  // Uniform scale applied to the file's coordinates on export, set by rescaleModel; properties
+  // below are already scaled
+  scale?: number;
+  // How the measured size compares with the sizes the prompt asked for
+  dimensionCheck?: DimensionVerification;
+  // When the model was served from the prompt cache instead of a new job, the time it was cached
+  cachedAt?: string;
   manufacturingCost?: {
     material: string;
     volume: number;
@@ -106,29 +170,206 @@ export interface CADModel {
     };
     volume: number;
     surfaceArea: number;
+    triangleCount: number;
+    complexityScore: number;
     complexity: 'simple' | 'moderate' | 'complex';
+    // Set when the geometry could not be measured; the numbers above are zeros and must be shown as unavailable
+    analysisFailed?: boolean;
   };
 }
 
+export interface GenerationJob {
+  id: string;
+  zooJobId: string;
+  status: 'queued' | 'uploaded' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  prompt: string;
+  originalPrompt: string;
+  enhancement?: CADModel['enhancementInfo'];
+  outputFormat: NonNullable<CADGenerationRequest['outputFormat']>;
+  units: NonNullable<CADGenerationRequest['units']>;
+  scale: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Extra information passed along with generation progress steps
+export interface GenerationProgressDetails {
+  statusEvent?: GenerationStatusEvent;
+  // Set while the submission waits for its turn
+  queue?: QueueStatus;
+  enhancementSource?: string;
+  confidence?: number;
+}
+
+export type GenerationProgressCallback = (step: string, details?: GenerationProgressDetails) => void;
+
+type EnhancementResult = { enhancedPrompt: string; confidence: number; source: string; rules?: string[] };
+
+/**
+ * What to do when the generator rejects the user's prompt:
+ * - 'ask': ask the user before each fallback attempt
+ * - 'design_prefix': retry once with the prompt rephrased as "design ..."
+ * - 'template': retry with the design prefix, then with a generic template part
+ * - 'fail': report the rejection
+ */
+export type CADFallbackPolicy = 'ask' | 'design_prefix' | 'template' | 'fail';
+
+export const CAD_FALLBACK_POLICIES: CADFallbackPolicy[] = ['ask', 'design_prefix', 'template', 'fail'];
+
+export { FALLBACK_TEMPLATE_PROMPT };
+
+export interface CADFallbackProposal {
+  strategy: 'design_prefix' | 'template';
+  prompt: string;
+  // True when the geometry would not describe what the user asked for
+  substituted: boolean;
+}
+
+export interface CADModelFallback extends CADFallbackProposal {
+  // Why the user's own prompt was not used
+  reason: string;
+}
+
+export interface CADGenerationOptions {
+  fallbackPolicy?: CADFallbackPolicy;
+  // Asked before each fallback attempt under the 'ask' policy; without it 'ask' behaves like 'fail'
+  confirmFallback?: (proposal: CADFallbackProposal) => Promise<boolean>;
+  // Skip the prompt cache and start a new job; the new result replaces the cached one
+  fresh?: boolean;
+  cacheHitUsage?: CacheHitUsagePolicy;
+  // Charges one design for a cache hit under the 'charge' policy, resolving false when over the
+  // limit; without it cache hits are not served under that policy
+  chargeCacheHit?: () => Promise<boolean>;
+}
+
+// Whether serving a cached result uses a design credit ('charge') or not ('free')
+export type CacheHitUsagePolicy = 'free' | 'charge';
+
+export const DEFAULT_CACHE_HIT_USAGE: CacheHitUsagePolicy =
+  import.meta.env.VITE_CACHE_HIT_USAGE === 'charge' ? 'charge' : 'free';
+
+// Changes when prompt enhancement changes enough that cached results no longer match what a fresh
+// generation of the same prompt would produce; follows the rule set's version
+export const PROMPT_ENHANCER_VERSION = PROMPT_RULES_VERSION;
+
+// Prompts differing only in case, spacing or trailing punctuation share a cache entry
+export const normalizePromptForCache = (prompt: string): string =>
+  prompt.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?]+$/, '');
+
+interface CachedGeneration {
+  model: CADModel;
+  cachedAt: string;
+}
+
+const isFallbackPolicy = (value: unknown): value is CADFallbackPolicy =>
+  CAD_FALLBACK_POLICIES.includes(value as CADFallbackPolicy);
+
+/** New idempotency key for a generation attempt */
+export const createIdempotencyKey = (): string => crypto.randomUUID();
+
+// Jobs started for one request (fallback steps, variants) each need a key of their own
+const withDerivedIdempotencyKey = (request: CADGenerationRequest, suffix: string): CADGenerationRequest =>
+  request.idempotencyKey ? { ...request, idempotencyKey: `${request.idempotencyKey}:${suffix}` } : request;
+
+export const DEFAULT_FALLBACK_POLICY: CADFallbackPolicy = isFallbackPolicy(import.meta.env.VITE_CAD_FALLBACK_POLICY)
+  ? import.meta.env.VITE_CAD_FALLBACK_POLICY
+  : 'ask';
+
+// Upper bound on variants per batch; each variant is a separate Zoo job and design credit
+export const MAX_CAD_VARIANTS = 4;
+
+export interface CADVariantOptions {
+  count: number;
+  // 'repeat' submits the same prompt N times, 'phrasings' submits N different phrasings of it
+  strategy: 'repeat' | 'phrasings';
+  skipEnhancement?: boolean;
+}
+
+export interface CADVariantResult {
+  index: number;
+  prompt: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  model?: CADModel;
+  error?: string;
+  // Whether the variant reached Zoo, and whether its credit was refunded after cancellation
+  submitted: boolean;
+  creditRefunded: boolean;
+}
+
 export interface CADExportOptions {
-  format: 'stl' | 'obj' | 'ply' | 'step' | 'fbx' | 'gltf';
-  units: 'mm' | 'cm' | 'm' | 'in' | 'ft';
+  format: 'stl' | '3mf' | 'obj' | 'ply' | 'step' | 'fbx' | 'gltf';
+  units: LengthUnit;
   quality: 'low' | 'medium' | 'high';
   scale?: number;
   // NEW FIX: Add viewer scale option
   useViewerScale?: boolean;
+  // Options of the format's writer (see exportService), defaults where unset
+  formatOptions?: Record<string, ExportOptionValue>;
+  // 3MF only: the design's parts (productSpecs.components) its objects are named and colored after
+  components?: ThreeMFComponent[];
 }
 
+/**
+ * Thrown when a generation is stopped through its AbortSignal.
+ * jobSubmitted tells whether a Zoo job had been started (and so charged server-side);
+ * creditRefunded whether the server gave the design credit back.
+ */
+export class GenerationCancelledError extends Error {
+  constructor(public jobSubmitted: boolean, public creditRefunded: boolean) {
+    super('CAD generation cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// setTimeout as a promise that rejects as soon as the signal aborts
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
 class CADAIService {
+  // Backend that runs text-to-CAD jobs (Zoo by default, VITE_CAD_PROVIDER=local for offline use)
+  private provider: CADGenerationProvider = createCADGenerationProvider(import.meta.env.VITE_CAD_PROVIDER);
+
   /**
-   * Enhanced prompt enhancement using AgenticadML's proven patterns and user intent mapping
+   * Swap the generation backend, e.g. to the offline provider in demos and development
    */
-  async enhancePromptForCAD(originalPrompt: string): Promise<{ enhancedPrompt: string; confidence: number; source: 'ai' | 'rules' | 'original' }> {
+  setProvider(provider: CADGenerationProvider): void {
+    console.log(`🔌 CAD generation provider: ${provider.name}`);
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Enhanced prompt enhancement using AgenticadML's proven patterns and user intent mapping.
+   * Specialized prompts go straight to the rules; others try the AI enhancer first unless the
+   * recorded outcomes show another strategy doing clearly better for this kind of part.
+   */
+  async enhancePromptForCAD(
+    originalPrompt: string,
+    adaptive: boolean = ADAPTIVE_ENHANCEMENT
+  ): Promise<{ enhancedPrompt: string; confidence: number; source: EnhancementStrategy; rules?: string[] }> {
     try {
       if (!originalPrompt || originalPrompt.trim().length === 0) {
         console.error('❌ Empty prompt provided to enhancePromptForCAD')
         return {
-          enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
+          enhancedPrompt: FALLBACK_TEMPLATE_PROMPT,
           confidence: 0.3,
           source: 'rules'
         }
@@ -137,19 +378,29 @@ class CADAIService {
       const trimmedPrompt = originalPrompt.trim()
       console.log('🚀 Starting enhancement for prompt:', trimmedPrompt)
 
-      // Check for specialized/medical terms that our AI might not understand
-      const specializedTerms = [
-        'surgical', 'medical', 'prosthetic', 'orthopedic', 'dental', 'implant',
-        'catheter', 'stent', 'biopsy', 'endoscopic', 'laparoscopic', 'drill guide',
-        'jig', 'fixture', 'template', 'gauge'
-      ];
-      const hasSpecializedTerms = specializedTerms.some(term => 
-        trimmedPrompt.toLowerCase().includes(term)
-      );
+      const ruleResult = enhanceWithRules(trimmedPrompt);
+      const fromRules = {
+        enhancedPrompt: ruleResult.enhancedPrompt,
+        confidence: ruleResult.confidence,
+        source: ruleResult.source,
+        rules: ruleResult.rules
+      };
 
-      if (hasSpecializedTerms) {
-        console.log('⚠️  Specialized/medical terms detected - using conservative enhancement');
-        return this.handleSpecializedPrompt(trimmedPrompt);
+      if (ruleResult.skipsAI) {
+        console.log('⚠️  Specialized/medical terms detected - using conservative enhancement:', ruleResult.rules);
+        return fromRules;
+      }
+
+      if (adaptive) {
+        const choice = await enhancementStats.chooseStrategy(categorizePrompt(trimmedPrompt));
+        if (choice) {
+          const rate = `${Math.round(choice.stats.successRate * 100)}% of ${choice.stats.attempts}`;
+          console.log(`📊 Using ${choice.strategy} enhancement for ${choice.stats.category} prompts (${rate} succeeded)`);
+          if (choice.strategy === 'original') {
+            return { enhancedPrompt: trimmedPrompt, confidence: choice.stats.successRate, source: 'original' };
+          }
+          return fromRules;
+        }
       }
 
       // First try AI enhancement to create relevant mechanical objects
@@ -158,334 +409,27 @@ class CADAIService {
       
       if (aiEnhancement) {
         console.log('✅ AI enhancement successful:', aiEnhancement);
-        const enhancedWithDesign = this.ensureDesignPrefix(aiEnhancement);
         return {
-          enhancedPrompt: enhancedWithDesign,
+          enhancedPrompt: withDesignPrefix(aiEnhancement),
           confidence: 0.8,
           source: 'ai'
         };
       }
       
-      // If AI enhancement fails, try pattern-based enhancement
-      console.log('⚠️ AI enhancement failed, trying pattern-based enhancement...');
-      const patternResult = this.enhanceWithAgenticadPatterns(trimmedPrompt);
-      if (patternResult.confidence > 0.7) {
-        console.log('🎯 Pattern-based enhancement successful:', patternResult.prompt);
-        const enhancedWithDesign = this.ensureDesignPrefix(patternResult.prompt);
-        return {
-          enhancedPrompt: enhancedWithDesign,
-          confidence: patternResult.confidence,
-          source: 'rules'
-        };
-      }
-      
-      // Final fallback to verified templates
-      console.log('🔧 Using verified template fallback');
-      const fallbackResult = this.fallbackEnhancement(trimmedPrompt);
-      console.log('🔧 Using verified template:', fallbackResult);
-      return fallbackResult;
+      console.log(`🔧 AI enhancement failed, using ${ruleResult.stage} rule ${ruleResult.rules.join(', ')}:`, ruleResult.enhancedPrompt);
+      return fromRules;
       
     } catch (error) {
       console.error('❌ Error in AI enhancement:', error)
       console.log('🔧 Using emergency fallback enhancement')
       return {
-        enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
+        enhancedPrompt: FALLBACK_TEMPLATE_PROMPT,
         confidence: 0.5,
         source: 'rules'
       };
     }
   }
 
-  /**
-   * Ensure enhanced prompt starts with "design" for better results
-   */
-  private ensureDesignPrefix(prompt: string): string {
-    const trimmed = prompt.trim();
-    const lowered = trimmed.toLowerCase();
-    
-    // Check if it already starts with "design"
-    if (lowered.startsWith('design ')) {
-      return trimmed;
-    }
-    
-    // Check if it starts with "create", "make", "a", "an", or similar
-    if (lowered.startsWith('create ') || lowered.startsWith('make ')) {
-      return trimmed.replace(/^(create|make)\s+/i, 'design ');
-    }
-    
-    // Check if it starts with an article
-    if (lowered.startsWith('a ') || lowered.startsWith('an ')) {
-      return 'design ' + trimmed;
-    }
-    
-    // Otherwise, just prepend "design"
-    return 'design ' + trimmed;
-  }
-
-  /**
-   * Create a design-prefixed prompt from original prompt for fallback
-   */
-  private createDesignPrompt(originalPrompt: string): string {
-    const trimmed = originalPrompt.trim();
-    const lowered = trimmed.toLowerCase();
-    
-    // If already starts with design, return as-is
-    if (lowered.startsWith('design ')) {
-      return trimmed;
-    }
-    
-    // Grammar fixes for common patterns
-    if (lowered.startsWith('create ') || lowered.startsWith('make ')) {
-      return trimmed.replace(/^(create|make)\s+/i, 'design ');
-    }
-    
-    // Handle articles properly
-    if (lowered.match(/^(a|an)\s+/)) {
-      return 'design ' + trimmed;
-    }
-    
-    // Handle direct object names
-    if (lowered.match(/^[a-z]+\s+(with|that|having|for)/)) {
-      return 'design ' + trimmed;
-    }
-    
-    // Default: prepend design
-    return 'design ' + trimmed;
-  }
-
-  /**
-   * Check if prompt follows AgenticadML's proven working patterns
-   */
-  private isAgenticadCompatiblePrompt(prompt: string): boolean {
-    // Check for specific technical indicators that our AI expects
-    const hasDimensions = /\b\d+\s*(mm|cm|m|inch|inches|")\b/.test(prompt.toLowerCase())
-    const hasThickness = /\b(thick|thickness|wall)\b/.test(prompt.toLowerCase()) && /\b\d+/.test(prompt)
-    const hasSpecificMeasurements = /\b\d+\s*x\s*\d+\s*x?\s*\d*/.test(prompt.toLowerCase())
-    
-    // Check for geometric terms that indicate technical knowledge
-    const technicalTerms = [
-      'diameter', 'radius', 'chamfer', 'fillet', 'countersunk', 'thread',
-      'flange', 'bearing', 'shaft', 'gasket', 'bracket', 'mount',
-      'cutout', 'hole', 'slot', 'groove', 'ridge', 'boss'
-    ]
-    const hasTechnicalTerms = technicalTerms.some(term => prompt.toLowerCase().includes(term))
-    
-    // Check for specific object types that are inherently technical
-    const technicalObjects = [
-      'bearing', 'gasket', 'bracket', 'mount', 'flange', 'connector',
-      'adapter', 'spacer', 'washer', 'bushing', 'coupling'
-    ]
-    const hasTechnicalObjects = technicalObjects.some(obj => prompt.toLowerCase().includes(obj))
-    
-    // Exclude vague terms that our AI can't handle well
-    const vagueTerms = ['ribbons', 'decorative', 'pretty', 'beautiful', 'long edges', 'short edges', 'elegant', 'stylish']
-    const hasVagueTerms = vagueTerms.some(term => prompt.toLowerCase().includes(term))
-    
-    // Must have dimensions OR (technical terms AND some measurement) AND no vague terms
-    const isReasonablyTechnical = (hasDimensions || hasSpecificMeasurements || 
-      (hasTechnicalTerms && /\b\d+/.test(prompt)) || 
-      (hasTechnicalObjects && /\b\d+/.test(prompt))) && !hasVagueTerms
-    
-    console.log('🔍 Prompt compatibility check:', {
-      prompt: prompt.substring(0, 50) + '...',
-      hasDimensions,
-      hasThickness,
-      hasSpecificMeasurements,
-      hasTechnicalTerms,
-      hasTechnicalObjects,
-      hasVagueTerms,
-      isReasonablyTechnical
-    })
-    
-    return isReasonablyTechnical
-  }
-
-  private simplifyEnhancement(overComplexPrompt: string, originalPrompt: string): { enhancedPrompt: string; confidence: number; source: 'rules' } {
-    // Extract basic elements and rebuild simply
-    const dimensionMatch = overComplexPrompt.match(/(\d+\s*(?:mm|cm)?\s*[×x]\s*\d+\s*(?:mm|cm)?(?:\s*[×x]\s*\d+\s*(?:mm|cm)?)?)/i)
-    const thicknessMatch = overComplexPrompt.match(/(\d+\s*(?:mm|cm)?\s*thick)/i)
-    const basicShape = originalPrompt.toLowerCase().includes('round') ? 'cylindrical' : 
-                      originalPrompt.toLowerCase().includes('l-shape') ? 'L-shaped' :
-                      'rectangular'
-    
-    let simplified = `${basicShape} ${originalPrompt.split(' ')[0]}`
-    
-    if (dimensionMatch) {
-      simplified += ` ${dimensionMatch[1]}`
-    } else {
-      // Add basic dimensions
-      simplified += ` 100mm × 50mm`
-    }
-    
-    if (thicknessMatch) {
-      simplified += ` ${thicknessMatch[1]}`
-    } else {
-      simplified += ` 5mm thick`
-    }
-    
-    // Add one simple feature if original suggests it
-    if (originalPrompt.toLowerCase().includes('hole')) {
-      simplified += ' with center hole'
-    } else if (originalPrompt.toLowerCase().includes('round')) {
-      simplified += ' with rounded corners'
-    }
-    
-    return {
-      enhancedPrompt: this.ensureDesignPrefix(simplified),
-      confidence: 0.6,
-      source: 'rules'
-    }
-  }
-
-  private handleSpecializedPrompt(originalPrompt: string): { enhancedPrompt: string; confidence: number; source: 'rules' } {
-    console.log('🏥 Handling specialized/medical prompt:', originalPrompt);
-    
-    const words = originalPrompt.toLowerCase().split(' ');
-    
-    // Convert medical/specialized terms to simple mechanical equivalents
-    if (words.some(w => ['surgical', 'drill', 'guide'].includes(w))) {
-      console.log('🔧 Converting surgical drill guide to simple cylindrical guide');
-      return {
-        enhancedPrompt: 'design a cylindrical guide with center hole, 50mm long, 15mm diameter, 3mm center hole',
-        confidence: 0.7,
-        source: 'rules'
-      };
-    }
-    
-    if (words.some(w => ['jig', 'fixture', 'template'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a rectangular plate with 4 holes near each corner and rounded corners, 100mm × 80mm × 10mm thick',
-        confidence: 0.8,
-        source: 'rules'
-      };
-    }
-    
-    if (words.some(w => ['gauge', 'measure'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a graduated measuring plate with markings, 150mm × 50mm × 5mm thick',
-        confidence: 0.7,
-        source: 'rules'
-      };
-    }
-    
-    if (words.some(w => ['prosthetic', 'implant', 'medical'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a curved anatomical piece with smooth surface, 80mm × 40mm × 15mm thick',
-        confidence: 0.6,
-        source: 'rules'
-      };
-    }
-    
-    // For any other specialized terms, use the most reliable template
-    console.log('🔧 Using verified plate template for specialized term');
-    return {
-      enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
-      confidence: 0.7,
-      source: 'rules'
-    };
-  }
-
-  private fallbackEnhancement(originalPrompt: string): { enhancedPrompt: string; confidence: number; source: 'rules' } {
-    if (!originalPrompt || originalPrompt.trim().length === 0) {
-      console.error('❌ Empty prompt provided to fallbackEnhancement')
-      return {
-        enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
-        confidence: 0.3,
-        source: 'rules'
-      }
-    }
-
-    const words = originalPrompt.toLowerCase().split(' ')
-    
-    console.log('🔧 Fallback enhancement for:', originalPrompt)
-    
-    // Smart intent mapping for different types of objects
-    
-    // Animal/character toys - convert to recognizable shapes
-    if (words.some(w => ['cat', 'dog', 'animal', 'pet', 'creature'].includes(w))) {
-      if (words.some(w => ['toy', 'wooden', 'figure', 'model'].includes(w))) {
-        return {
-          enhancedPrompt: 'design a cat-shaped ornament with curved body outline, pointed ears, 80mm tall, 60mm wide, 10mm thick',
-          confidence: 0.9,
-          source: 'rules'
-        };
-      }
-    }
-    
-    // Character/figure toys
-    if (words.some(w => ['toy', 'figure', 'character', 'doll'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a decorative figure with rounded base, 100mm tall, 40mm wide, 15mm thick',
-        confidence: 0.8,
-        source: 'rules'
-      };
-    }
-    
-    // Wooden/carved items
-    if (words.some(w => ['wooden', 'carved', 'ornament', 'decoration'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a decorative ornamental piece with curved edges, 80mm × 60mm × 12mm thick',
-        confidence: 0.8,
-        source: 'rules'
-      };
-    }
-    
-    // Use AgenticadML's VERIFIED working examples as templates for technical objects
-    const verifiedTemplates = [
-      'design a plate with 4 holes near each corner and rounded corners',
-      'design a 9 pointed star',
-      'design an involute helical gear with 36 teeth',
-      'design a sketch of a christmas tree with a star on top'
-    ];
-    
-    // Simple object type mapping to verified examples
-    if (words.some(w => ['star', 'pointed'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a 9 pointed star',
-        confidence: 0.9,
-        source: 'rules'
-      };
-    }
-    
-    if (words.some(w => ['tree', 'christmas'].includes(w))) {
-      return {
-        enhancedPrompt: 'design a sketch of a christmas tree with a star on top',
-        confidence: 0.9,
-        source: 'rules'
-      };
-    }
-    
-    if (words.some(w => ['gear', 'cog', 'tooth', 'teeth'].includes(w))) {
-      return {
-        enhancedPrompt: 'design an involute helical gear with 36 teeth',
-        confidence: 0.9,
-        source: 'rules'
-      };
-    }
-    
-    // Complex mechanical requests - use simple plate as fallback
-    const isComplexRequest = words.some(w => 
-      ['steering', 'wheel', 'spring', 'complex', 'intricate', 'moving', 'articulated'].includes(w)
-    );
-    
-    if (isComplexRequest) {
-      console.log('🔧 Complex request detected, using verified simple plate template');
-      return {
-        enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
-        confidence: 0.8,
-        source: 'rules'
-      };
-    }
-    
-    // Default to the most reliable template for everything else
-    console.log('🔧 Using default verified plate template');
-    return {
-      enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners',
-      confidence: 0.7,
-      source: 'rules'
-    };
-  }
-
   /**
    * Enhanced AI prompt enhancement with AgenticadML-specific instruction
    */
@@ -541,119 +485,6 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     return null;
   }
 
-  /**
-   * Pattern-based enhancement using AgenticadML's simplified approach
-   * Based on AgenticadML documentation preference for concise, direct descriptions
-   */
-  private enhanceWithAgenticadPatterns(prompt: string): { prompt: string; confidence: number } {
-    // Intent mapping based on AgenticadML's preference for simple object descriptions
-    // SIMPLIFIED patterns based on AgenticadML's preference for concise descriptions
-    const intentMaps = [
-      {
-        patterns: [/cat|dog|animal|pet|creature/i],
-        template: (match: string) => {
-          if (/cat/i.test(match)) {
-            return `cat-shaped figure`;
-          } else if (/dog/i.test(match)) {
-            return `dog-shaped figure`;
-          } else {
-            return `animal-shaped figure`;
-          }
-        },
-        confidence: 0.9
-      },
-      {
-        patterns: [/toy|figure|character|doll|ornament/i],
-        template: (match: string) => `decorative figure`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/board|plank/i],
-        template: (match: string) => {
-          if (/cutting|chopping/i.test(match)) {
-            return `cutting board with rounded corners`;
-          } else if (/circuit|pcb/i.test(match)) {
-            return `circuit board with mounting holes`;
-          } else if (/long|skate/i.test(match)) {
-            return `skateboard with mounting holes`;
-          } else {
-            return `rectangular board with rounded corners`;
-          }
-        },
-        confidence: 0.8
-      },
-      {
-        patterns: [/plate/i],
-        template: (match: string) => `plate with rounded corners`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/gear/i],
-        template: (match: string) => `gear with teeth`,
-        confidence: 0.9
-      },
-      {
-        patterns: [/case|cover|shell/i],
-        template: (match: string) => `protective case with rounded corners`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/holder|stand|mount/i],
-        template: (match: string) => `cylindrical holder`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/bracket|clamp/i],
-        template: (match: string) => `L-shaped bracket`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/box|container|housing/i],
-        template: (match: string) => `rectangular housing`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/clip|fastener/i],
-        template: (match: string) => `spring clip`,
-        confidence: 0.7
-      },
-      {
-        patterns: [/wheel|disc/i],
-        template: (match: string) => `circular disc with center hole`,
-        confidence: 0.8
-      },
-      {
-        patterns: [/handle|grip/i],
-        template: (match: string) => `cylindrical handle`,
-        confidence: 0.7
-      },
-      {
-        patterns: [/connector|adapter/i],
-        template: (match: string) => `cylindrical connector`,
-        confidence: 0.7
-      }
-    ];
-
-    // Try to match user intent with AgenticadML patterns
-    for (const intentMap of intentMaps) {
-      for (const pattern of intentMap.patterns) {
-        if (pattern.test(prompt)) {
-          const match = prompt; // Pass full prompt for context
-          return {
-            prompt: intentMap.template(match),
-            confidence: intentMap.confidence
-          };
-        }
-      }
-    }
-
-    // Generic fallback for unknown prompts - use AgenticadML's verified simple template
-    return {
-      prompt: `plate with rounded corners`,
-      confidence: 0.6
-    };
-  }
-
   private async callOpenAI(messages: any[]): Promise<any> {
     const config = getPicaConfig();
     const baseUrl = 'https://api.picaos.com/v1/passthrough';
@@ -681,60 +512,32 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     return response.json();
   }
 
-  private async callSupabaseFunction(action: string, payload: any): Promise<any> {
-    const { url, headers } = getSupabaseFunction();
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        action,
-        ...payload
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Supabase function error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    return response.json();
-  }
-
-  async generateCADModel(request: CADGenerationRequest): Promise<CADGenerationResponse> {
+  async generateCADModel(
+    request: CADGenerationRequest,
+    context?: GenerationContext,
+    signal?: AbortSignal,
+    onQueued?: QueueStatusListener
+  ): Promise<CADGenerationResponse> {
     try {
-      console.log('Generating CAD model via Supabase function:', request.prompt);
+      console.log(`Generating CAD model via ${this.provider.name} provider:`, request.prompt);
       
-      const data = await this.callSupabaseFunction('generate', {
-        prompt: request.prompt,
-        outputFormat: request.outputFormat || 'gltf',
-        units: request.units || 'mm',
-        scale: request.scale || 1
-      });
-      
-      return {
-        id: data.id,
-        status: data.status || 'queued',
-        prompt: request.prompt,
-        outputs: data.outputs,
-        created_at: data.created_at || new Date().toISOString()
-      };
+      return await this.provider.submit(request, context, signal, onQueued);
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('CAD generation error:', error);
-      throw new Error(`Failed to generate CAD model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toGenerationError(error, 'Failed to generate CAD model');
     }
   }
 
-  async getCADModel(id: string): Promise<CADGenerationResponse> {
+  async getCADModel(id: string, signal?: AbortSignal): Promise<CADGenerationResponse> {
     try {
-      console.log('Checking CAD model status via Supabase function:', id);
-      
-      const data = await this.callSupabaseFunction('status', { id });
+      console.log(`Checking CAD model status via ${this.provider.name} provider:`, id);
       
-      return data;
+      return await this.provider.getStatus(id, signal);
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('CAD model fetch error:', error);
-      throw new Error(`Failed to fetch CAD model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toGenerationError(error, 'Failed to fetch CAD model');
     }
   }
 
@@ -749,108 +552,393 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
         throw new Error('STL conversion requires GLTF-to-STL conversion. Use browser-based conversion instead.');
       }
       
-      // Try Zoo API conversion for other formats (may still fail)
-      console.log('Attempting Zoo API format conversion via Supabase function...');
+      // Try provider conversion for other formats (may still fail)
+      console.log(`Attempting format conversion via ${this.provider.name} provider...`);
       
-      const data = await this.callSupabaseFunction('convert', {
-        id,
-        convertFormat: outputFormat
-      });
-      
-      return data;
+      return await this.provider.convert(id, outputFormat);
     } catch (error) {
       console.error('Format conversion error:', error);
       throw new Error(`Failed to convert format: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async pollForCompletion(
-    id: string, 
-    maxAttempts: number = 60, 
-    intervalMs: number = 3000,
-    onProgress?: (step: string, attempt: number, maxAttempts: number) => void
+  /**
+   * Stop a running job through its provider; the Zoo provider also refunds the design credit
+   */
+  async cancelGenerationJob(id: string): Promise<{ cancelled: boolean; refunded: boolean }> {
+    try {
+      const result = await this.provider.cancel(id);
+      console.log(`🛑 Cancel CAD model ${id}:`, result);
+      return result;
+    } catch (error) {
+      console.error('Failed to cancel CAD generation:', error);
+      return { cancelled: false, refunded: false };
+    }
+  }
+
+  /**
+   * The user kept a model generated from the fallback template, so the Zoo provider keeps the
+   * design credit it charged; substitutions nobody accepts are refunded by the server
+   */
+  async acceptSubstitutedModel(model: CADModel): Promise<boolean> {
+    if (!model.fallback?.substituted || !this.provider.acceptSubstitute) return false;
+    try {
+      const { accepted } = await this.provider.acceptSubstitute(model.id);
+      console.log(`✅ Accepted substituted model ${model.id}`, accepted ? '' : '(not recorded)');
+      return accepted;
+    } catch (error) {
+      console.error('Failed to accept substituted model:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The user discarded a model generated from the fallback template; the Zoo provider refunds
+   * the design credit the server charged for it
+   */
+  async declineSubstitutedModel(model: CADModel): Promise<boolean> {
+    if (!model.fallback?.substituted || !this.provider.declineSubstitute) return false;
+    try {
+      const { refunded } = await this.provider.declineSubstitute(model.id);
+      console.log(`↩️ Declined substituted model ${model.id}:`, refunded ? 'refunded' : 'not refunded');
+      return refunded;
+    } catch (error) {
+      console.error('Failed to decline substituted model:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Wait for a Zoo job to finish. Status events are pushed over a progress channel when one can
+   * serve the job; otherwise (or if the channel drops) the job is polled with adaptive backoff.
+   */
+  async waitForCompletion(
+    id: string,
+    onStatus?: (event: GenerationStatusEvent, step: string) => void,
+    options: Partial<WaitOptions> = {},
+    signal?: AbortSignal
   ): Promise<CADGenerationResponse> {
-    let attempts = 0;
-    
-    console.log(`⏳ Starting polling for CAD model ${id} (max ${maxAttempts} attempts, ${intervalMs/1000}s intervals)`);
-    
-    while (attempts < maxAttempts) {
+    signal?.throwIfAborted();
+    const settings = { ...DEFAULT_WAIT_OPTIONS, ...options };
+    const deadline = Date.now() + settings.timeoutMs;
+    let lastStatus: GenerationStatus | null = null;
+
+    const report = (event: GenerationStatusEvent) => {
+      if (event.status === lastStatus) return;
+      lastStatus = event.status;
+      console.log(`📊 CAD model ${id}: ${event.status}${event.reason ? ` (${event.reason})` : ''}`);
+      if (onStatus) onStatus(event, this.describeGenerationStatus(event));
+    };
+
+    const channel = this.selectProgressChannel(id);
+    if (channel) {
+      console.log(`📡 Following CAD model ${id} over the ${channel.name} progress channel`);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+      const onAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       try {
-        const result = await this.getCADModel(id);
-        
-        console.log(`📊 Poll attempt ${attempts + 1}/${maxAttempts}: Status = ${result.status}`);
-        
-        // Provide progress updates
-        if (onProgress) {
-          if (result.status === 'queued') {
-            onProgress('Waiting in queue...', attempts + 1, maxAttempts);
-          } else if (result.status === 'in_progress') {
-            onProgress('Generating 3D model...', attempts + 1, maxAttempts);
+        // The server closes its stream periodically; reconnect until the job finishes
+        while (Date.now() < deadline) {
+          const lastEvent = await channel.watch(id, report, controller.signal);
+          if (lastEvent?.status === 'completed') {
+            return await this.provider.fetchOutputs(id, signal);
           }
-        }
-        
-        if (result.status === 'completed') {
-          console.log(`✅ CAD generation completed after ${attempts + 1} attempts (${((attempts + 1) * intervalMs / 1000)}s)`);
-          if (onProgress) {
-            onProgress('Generation complete!', attempts + 1, maxAttempts);
+          if (lastEvent?.status === 'failed') {
+            throw this.jobFailureError(lastEvent);
           }
+        }
+      } catch (channelError) {
+        signal?.throwIfAborted();
+        // Job failures and errors fetching the outputs are final; a dropped stream is not
+        if (channelError instanceof GenerationError) throw channelError;
+        if (!controller.signal.aborted) {
+          const errorMessage = channelError instanceof Error ? channelError.message : String(channelError);
+          console.warn(`⚠️  Progress channel ${channel.name} unavailable, falling back to polling:`, errorMessage);
+        }
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+
+    return this.pollForCompletion(id, report, settings, deadline, signal);
+  }
+
+  /**
+   * Poll the job status, backing off while it stays unchanged and speeding up again when it moves
+   */
+  private async pollForCompletion(
+    id: string,
+    report: (event: GenerationStatusEvent) => void,
+    settings: WaitOptions,
+    deadline: number,
+    signal?: AbortSignal
+  ): Promise<CADGenerationResponse> {
+    let intervalMs = settings.initialIntervalMs;
+    let lastStatus: GenerationStatus | null = null;
+    let attempts = 0;
+
+    console.log(`⏳ Polling CAD model ${id} (timeout ${settings.timeoutMs / 1000}s, backoff ${settings.initialIntervalMs / 1000}-${settings.maxIntervalMs / 1000}s)`);
+
+    while (Date.now() < deadline) {
+      attempts++;
+      let statusChanged = false;
+      let failure: GenerationError | null = null;
+
+      try {
+        const result = await this.getCADModel(id, signal);
+        const status = toGenerationStatus(result.status);
+        statusChanged = status !== lastStatus;
+        lastStatus = status;
+
+        const event: GenerationStatusEvent = {
+          jobId: id,
+          status,
+          reason: status === 'failed' ? result.error || 'Unknown error' : undefined,
+          code: status === 'failed' ? result.error_code : undefined,
+          timestamp: new Date().toISOString()
+        };
+        report(event);
+
+        if (status === 'completed') {
+          console.log(`✅ CAD generation completed after ${attempts} polls`);
           return result;
-        } else if (result.status === 'failed') {
-          const errorMessage = result.error || 'Unknown error';
-          console.error(`❌ CAD generation failed: ${errorMessage}`);
-          
-          // Check if it's a 422 error - don't continue polling for these
-          if (errorMessage.includes('422') || errorMessage.includes('Unprocessable Entity')) {
-            console.log('🛑 422 error detected - stopping polling immediately');
-            if (onProgress) {
-              onProgress('Prompt not understood by AI', attempts + 1, maxAttempts);
-            }
-            throw new Error(`CAD generation failed: ${errorMessage}`);
-          }
-          
-          // For other errors, also stop polling
-          throw new Error(`CAD generation failed: ${errorMessage}`);
         }
-        
-        attempts++;
-        if (attempts < maxAttempts) {
-          console.log(`⏳ Waiting ${intervalMs/1000}s before next poll...`);
-          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        if (status === 'failed') {
+          // Failed jobs (prompt rejections included) never recover - stop polling
+          console.error(`❌ CAD generation failed: ${event.reason}`);
+          failure = this.jobFailureError(event);
         }
       } catch (pollError) {
-        console.error(`❌ Error during polling attempt ${attempts + 1}:`, pollError);
-        
-        // Check if it's a 422 error from the polling response
-        const errorMessage = pollError instanceof Error ? pollError.message : String(pollError);
-        if (errorMessage.includes('422') || errorMessage.includes('Unprocessable Entity')) {
-          console.log('🛑 422 error in polling - stopping immediately');
-          if (onProgress) {
-            onProgress('Error: Prompt not understood', attempts + 1, maxAttempts);
-          }
-          throw pollError; // Re-throw to stop polling
-        }
-        
-        attempts++;
-        if (attempts < maxAttempts) {
-          console.log(`🔄 Retrying polling in ${intervalMs/1000}s...`);
-          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        signal?.throwIfAborted();
+        // Rate limits, outages and slow responses are worth another poll; anything else is final
+        if (pollError instanceof GenerationError && !pollError.retryable) throw pollError;
+        console.error(`❌ Error during polling attempt ${attempts}:`, pollError);
+        if (pollError instanceof RateLimitedError) {
+          intervalMs = Math.max(intervalMs, pollError.retryAfterMs);
         }
       }
+      if (failure) throw failure;
+
+      intervalMs = nextPollInterval(intervalMs, statusChanged, settings);
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) break;
+      await delay(Math.min(intervalMs, remainingMs), signal);
     }
-    
-    console.error(`❌ CAD generation timed out after ${maxAttempts} attempts (${(maxAttempts * intervalMs / 1000)}s total)`);
-    if (onProgress) {
-      onProgress('Generation timed out', maxAttempts, maxAttempts);
+
+    console.error(`❌ CAD generation timed out after ${settings.timeoutMs / 1000}s (${attempts} polls)`);
+    report({
+      jobId: id,
+      status: 'failed',
+      reason: 'timed out',
+      code: 'timeout',
+      timestamp: new Date().toISOString()
+    });
+    throw new GenerationTimeoutError(`CAD generation timed out after ${settings.timeoutMs / 1000} seconds`);
+  }
+
+  // Error for a job that reported 'failed'; untagged failures are treated as internal
+  private jobFailureError(event: GenerationStatusEvent): GenerationError {
+    return createGenerationError(event.code || 'internal', `CAD generation failed: ${event.reason || 'Unknown error'}`);
+  }
+
+  // Push channels first: the in-browser stand-in for jobs it produces, then the provider's own channel
+  private selectProgressChannel(id: string): GenerationProgressChannel | null {
+    const preferred = import.meta.env.VITE_GENERATION_PROGRESS_CHANNEL || 'sse';
+    if (preferred === 'polling') return null;
+
+    if (localProgressChannel.canWatch(id)) return localProgressChannel;
+    const channel = this.provider.progressChannel;
+    return channel && channel.canWatch(id) ? channel : null;
+  }
+
+  // Progress step for a submission waiting for its turn; the position travels in the details
+  private describeQueueStatus(status: QueueStatus): string {
+    if (status.reason === 'rate_limited') {
+      return `Generation service is busy, retrying in ${Math.ceil(status.retryAfterMs / 1000)}s...`;
+    }
+    return status.reason === 'local' ? 'Waiting for your earlier submissions...' : 'Waiting in queue...';
+  }
+
+  private describeGenerationStatus(event: GenerationStatusEvent): string {
+    switch (event.status) {
+      case 'queued':
+        return 'Waiting in queue...';
+      case 'in_progress':
+        return 'Generating 3D model...';
+      case 'completed':
+        return 'Generation complete!';
+      case 'failed':
+        if (event.code === 'timeout') return 'Generation timed out';
+        return event.code === 'prompt_rejected' ? 'Prompt not understood by AI' : 'Generation failed';
     }
-    throw new Error(`CAD generation timed out after ${(maxAttempts * intervalMs / 1000)} seconds`);
   }
 
+  /**
+   * List the signed-in user's in-flight and recently completed generation jobs
+   */
+  async listGenerationJobs(): Promise<GenerationJob[]> {
+    if (!this.provider.listJobs) return [];
+    const rows = await this.provider.listJobs();
+    return rows.map(row => this.toGenerationJob(row));
+  }
+
+  /**
+   * Reattach to a persisted job (e.g. after a page reload) and resolve it into a CADModel.
+   * Completed jobs are served from the stored outputs; running jobs are polled to completion.
+   */
+  async resumeGenerationJob(
+    job: GenerationJob,
+    onProgress?: GenerationProgressCallback,
+    signal?: AbortSignal
+  ): Promise<CADModel> {
+    console.log(`🔁 Reattaching to generation job ${job.id} (Zoo ${job.zooJobId}, ${job.status})`);
+    if (onProgress) onProgress('Reconnecting to your generation...');
+
+    let completedResponse: CADGenerationResponse;
+    try {
+      completedResponse = job.status === 'completed'
+        ? await this.getCADModel(job.zooJobId, signal)
+        : await this.waitForCompletion(job.zooJobId, (event, step) => {
+            if (onProgress) onProgress(step, { statusEvent: event });
+          }, {}, signal);
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+      // A finished job has nothing left to cancel
+      const { refunded } = job.status === 'completed'
+        ? { refunded: false }
+        : await this.cancelGenerationJob(job.zooJobId);
+      throw new GenerationCancelledError(true, refunded);
+    }
+
+    const enhancement: EnhancementResult = {
+      enhancedPrompt: job.prompt,
+      confidence: job.enhancement?.confidence ?? 1,
+      source: job.enhancement?.source ?? 'original'
+    };
+    const model = await this.buildCADModel(
+      completedResponse,
+      {
+        prompt: job.originalPrompt,
+        outputFormat: job.outputFormat,
+        units: job.units,
+        scale: job.scale
+      },
+      enhancement,
+      onProgress
+    );
+    model.fallback = this.enhancerSubstitution(job.originalPrompt, enhancement);
+    return model;
+  }
+
+  private toGenerationJob(row: GenerationJobRow): GenerationJob {
+    return {
+      id: row.id,
+      zooJobId: row.zoo_job_id,
+      status: row.status,
+      prompt: row.prompt,
+      originalPrompt: row.original_prompt || row.prompt,
+      enhancement: row.enhancement || undefined,
+      outputFormat: row.output_format || 'gltf',
+      units: row.units || 'mm',
+      scale: Number(row.scale) || 1,
+      error: row.error || undefined,
+      createdAt: row.created_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
+
+  /**
+   * Generate a model and wait for it. Aborting the signal stops the enhancement, submission,
+   * progress tracking and fallback retries; a job already submitted to Zoo is cancelled
+   * server-side and a GenerationCancelledError is thrown.
+   *
+   * If the prompt is rejected, options.fallbackPolicy decides whether fallback prompts are tried;
+   * a model built from one carries `fallback` describing what was used instead.
+   */
   async generateAndWaitForCAD(
     request: CADGenerationRequest, 
     skipEnhancement: boolean = false,
-    onProgress?: (step: string, details?: any) => void
+    onProgress?: GenerationProgressCallback,
+    signal?: AbortSignal,
+    options: CADGenerationOptions = {}
+  ): Promise<CADModel> {
+    let activeJobId: string | null = null;
+    const cacheRequest = {
+      prompt: normalizePromptForCache(request.prompt),
+      units: request.units || DEFAULT_MODEL_UNITS,
+      scale: request.scale ?? 1,
+      enhancerVersion: skipEnhancement ? null : PROMPT_ENHANCER_VERSION
+    };
+
+    try {
+      if (!options.fresh) {
+        const cached = await this.serveCachedModel(cacheRequest, options, onProgress);
+        // The cached model may come from the same prompt written in another language
+        if (cached) return this.checkDimensions({ ...cached, translatedFrom: request.translatedFrom }, request.prompt);
+      }
+
+      const model = await this.generateWithFallbacks(request, skipEnhancement, onProgress, signal, options, id => {
+        activeJobId = id;
+      });
+
+      // Substitutes are not what the prompt asked for, and unstored models have no lasting URL
+      if (!model.fallback && model.storage) {
+        const entry: CachedGeneration = { model, cachedAt: new Date().toISOString() };
+        cacheService.cacheGeneratedModel(cacheRequest, entry).catch(error =>
+          console.warn('Failed to cache generated model:', error)
+        );
+      }
+      return this.checkDimensions(model, request.prompt);
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+
+      console.log('🛑 CAD generation cancelled');
+      if (!activeJobId) throw new GenerationCancelledError(false, false);
+      const { refunded } = await this.cancelGenerationJob(activeJobId);
+      throw new GenerationCancelledError(true, refunded);
+    }
+  }
+
+  /**
+   * The stored model from an earlier generation of the same normalized request, or null when
+   * there is none (or its files are gone). Under the 'charge' policy the hit costs a design.
+   */
+  private async serveCachedModel(
+    cacheRequest: Record<string, unknown>,
+    options: CADGenerationOptions,
+    onProgress?: GenerationProgressCallback
+  ): Promise<CADModel | null> {
+    const cached = await cacheService.getCachedGeneratedModel(cacheRequest) as CachedGeneration | null;
+    if (!cached?.model?.storage) return null;
+
+    const model = await modelStorage.refreshUrls(cached.model);
+    if (!modelStorage.isLive(model.gltfUrl)) {
+      console.log('♻️ Cached model files are no longer available, generating a new model');
+      return null;
+    }
+
+    if ((options.cacheHitUsage ?? DEFAULT_CACHE_HIT_USAGE) === 'charge') {
+      if (!options.chargeCacheHit) return null;
+      if (!(await options.chargeCacheHit())) throw new QuotaExceededError();
+    }
+
+    console.log(`♻️ Serving cached model ${model.id} for "${cacheRequest.prompt}" (cached ${cached.cachedAt})`);
+    if (onProgress) onProgress('Loaded your previous result for this prompt');
+    return { ...model, cachedAt: cached.cachedAt };
+  }
+
+  private async generateWithFallbacks(
+    request: CADGenerationRequest,
+    skipEnhancement: boolean,
+    onProgress: GenerationProgressCallback | undefined,
+    signal: AbortSignal | undefined,
+    options: CADGenerationOptions,
+    onJobSubmitted: (id: string) => void
   ): Promise<CADModel> {
-    let enhancement = { enhancedPrompt: request.prompt, confidence: 1, source: 'original' };
+    let enhancement: EnhancementResult = { enhancedPrompt: request.prompt, confidence: 1, source: 'original' };
     
     if (!skipEnhancement) {
       // Enhance the prompt for better Zoo ML-ephant results
@@ -858,6 +946,7 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
       if (onProgress) onProgress('Enhancing prompt for better results...');
       
       enhancement = await this.enhancePromptForCAD(request.prompt);
+      signal?.throwIfAborted();
       
       console.log(`📝 Prompt enhancement: ${enhancement.source} (confidence: ${enhancement.confidence})`);
       console.log(`   Original: "${request.prompt}"`);
@@ -872,130 +961,295 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
       console.log(`   Prompt: "${request.prompt}"`);
       if (onProgress) onProgress('Starting 3D model generation...');
     }
-    
-    // Try generation with fallback logic for failed prompts
-    let completedResponse: CADGenerationResponse;
-    
+    
+    let completedResponse: CADGenerationResponse;
+    let fallback = this.enhancerSubstitution(request.prompt, enhancement);
+    // The server records how the enhanced prompt fared once its job finishes
+    const tracking: EnhancementTracking = {
+      category: categorizePrompt(request.prompt),
+      enhancerVersion: skipEnhancement ? null : PROMPT_ENHANCER_VERSION,
+      fallbackPolicy: options.fallbackPolicy ?? DEFAULT_FALLBACK_POLICY,
+      fallbackStrategy: fallback?.strategy
+    };
+    let zooJobId: string | undefined;
+
+    try {
+      if (onProgress) onProgress('Submitting request to AgenticadML API...');
+      completedResponse = await this.submitAndWait(request, enhancement, tracking, onProgress, signal, id => {
+        zooJobId = id;
+        onJobSubmitted(id);
+      });
+    } catch (error) {
+      // Only prompt rejections are worth retrying with a different prompt
+      if (!(error instanceof PromptRejectedError)) throw error;
+
+      const result = await this.runFallbacks(
+        request, enhancement.enhancedPrompt, zooJobId, error, options, onProgress, signal, onJobSubmitted
+      );
+      completedResponse = result.response;
+      enhancement = result.enhancement;
+      fallback = result.fallback;
+    }
+
+    signal?.throwIfAborted();
+    const model = await this.buildCADModel(completedResponse, request, enhancement, onProgress);
+    if (fallback) model.fallback = fallback;
+    return model;
+  }
+
+  // The enhancer itself falls back to the template for prompts it cannot map
+  private enhancerSubstitution(userPrompt: string, enhancement: EnhancementResult): CADModelFallback | undefined {
+    if (enhancement.enhancedPrompt !== FALLBACK_TEMPLATE_PROMPT ||
+        userPrompt.trim().toLowerCase() === FALLBACK_TEMPLATE_PROMPT) {
+      return undefined;
+    }
+    return {
+      strategy: 'template',
+      prompt: enhancement.enhancedPrompt,
+      substituted: true,
+      reason: 'Your description could not be mapped to a part, so a generic template was generated instead'
+    };
+  }
+
+  // Submit one prompt and follow the job to completion
+  private async submitAndWait(
+    request: CADGenerationRequest,
+    enhancement: EnhancementResult,
+    tracking: EnhancementTracking | undefined,
+    onProgress: GenerationProgressCallback | undefined,
+    signal: AbortSignal | undefined,
+    onJobSubmitted: (id: string) => void,
+    stepLabel = ''
+  ): Promise<CADGenerationResponse> {
+    const generationResponse = await this.generateCADModel({ ...request, prompt: enhancement.enhancedPrompt }, {
+      originalPrompt: request.prompt,
+      enhancement: {
+        source: enhancement.source,
+        confidence: enhancement.confidence,
+        wasEnhanced: enhancement.source !== 'original',
+        rules: enhancement.rules,
+        tracking
+      }
+    }, signal, queue => {
+      if (onProgress) onProgress(`${stepLabel}${this.describeQueueStatus(queue)}`, { queue });
+    });
+    onJobSubmitted(generationResponse.id);
+
+    if (onProgress) onProgress(`${stepLabel}Processing 3D model...`);
+    return this.waitForCompletion(
+      generationResponse.id,
+      (event, step) => {
+        if (onProgress) onProgress(`${stepLabel}${step}`, { statusEvent: event });
+      },
+      {},
+      signal
+    );
+  }
+
+  /**
+   * Try the fallback prompts the policy allows, in order: the user's prompt with a "design"
+   * prefix, then the generic template. Each attempt moves on only if it is rejected too.
+   */
+  private async runFallbacks(
+    request: CADGenerationRequest,
+    rejectedPrompt: string,
+    rejectedJobId: string | undefined,
+    rejection: PromptRejectedError,
+    options: CADGenerationOptions,
+    onProgress: GenerationProgressCallback | undefined,
+    signal: AbortSignal | undefined,
+    onJobSubmitted: (id: string) => void
+  ): Promise<{ response: CADGenerationResponse; enhancement: EnhancementResult; fallback: CADModelFallback }> {
+    const policy = options.fallbackPolicy ?? DEFAULT_FALLBACK_POLICY;
+    console.log(`⚠️  Prompt was rejected, fallback policy: ${policy}`);
+
+    const candidates: Array<CADFallbackProposal & { confidence: number; label: string }> = [];
+    if (policy !== 'fail') {
+      const designPrompt = withDesignPrefix(request.prompt);
+      // Resubmitting the prompt that was just rejected would only be rejected again
+      if (designPrompt.trim().toLowerCase() !== rejectedPrompt.trim().toLowerCase()) {
+        candidates.push({ strategy: 'design_prefix', prompt: designPrompt, substituted: false, confidence: 0.7, label: 'Design: ' });
+      }
+    }
+    if (policy === 'template' || policy === 'ask') {
+      candidates.push({ strategy: 'template', prompt: FALLBACK_TEMPLATE_PROMPT, substituted: true, confidence: 0.5, label: 'Fallback: ' });
+    }
+
+    let lastRejection = rejection;
+    for (const { confidence, label, ...proposal } of candidates) {
+      if (policy === 'ask') {
+        const accepted = options.confirmFallback ? await options.confirmFallback(proposal) : false;
+        signal?.throwIfAborted();
+        if (!accepted) {
+          console.log(`🙅 Fallback to ${proposal.strategy} declined`);
+          break;
+        }
+      }
+
+      console.log(`🔧 Trying ${proposal.strategy} fallback:`, proposal.prompt);
+      if (onProgress) onProgress(proposal.strategy === 'template' ? 'Trying with verified template...' : 'Trying with design prompt...');
+
+      const enhancement: EnhancementResult = { enhancedPrompt: proposal.prompt, confidence, source: 'rules' };
+      // Fallback jobs settle the outcome of the rejected job rather than recording their own; a
+      // prompt Zoo rejected at submission has no job to settle
+      const tracking: EnhancementTracking | undefined = rejectedJobId ? {
+        category: categorizePrompt(request.prompt),
+        enhancerVersion: PROMPT_ENHANCER_VERSION,
+        fallbackPolicy: policy,
+        fallbackStrategy: proposal.strategy,
+        fallbackOf: rejectedJobId
+      } : undefined;
+      try {
+        const response = await this.submitAndWait(
+          withDerivedIdempotencyKey(request, proposal.strategy), enhancement, tracking, onProgress, signal, onJobSubmitted, label
+        );
+        console.log(`✅ Generation successful with ${proposal.strategy} fallback`);
+        return {
+          response,
+          enhancement,
+          fallback: { ...proposal, reason: lastRejection.message }
+        };
+      } catch (fallbackError) {
+        signal?.throwIfAborted();
+        if (!(fallbackError instanceof PromptRejectedError)) throw fallbackError;
+        console.log(`⚠️  ${proposal.strategy} fallback was rejected too`);
+        lastRejection = fallbackError;
+      }
+    }
+
+    throw lastRejection;
+  }
+
+  /**
+   * Generate several variants of one request concurrently so they can be compared side by side.
+   * Variants succeed or fail independently (no fallback chain); each completed model carries its
+   * manufacturing cost estimate. Aborting cancels every variant still running.
+   */
+  async generateVariants(
+    request: CADGenerationRequest,
+    options: CADVariantOptions,
+    onProgress?: (index: number, step: string, details?: GenerationProgressDetails) => void,
+    signal?: AbortSignal
+  ): Promise<CADVariantResult[]> {
+    const count = Math.max(1, Math.min(MAX_CAD_VARIANTS, Math.floor(options.count)));
+    console.log(`🧪 Generating ${count} variants (${options.strategy}) for: "${request.prompt}"`);
+
+    let enhancements: EnhancementResult[];
     try {
-      // Use the enhanced prompt
-      const enhancedRequest = {
-        ...request,
-        prompt: enhancement.enhancedPrompt
-      };
-      
-      // Start generation
-      if (onProgress) onProgress('Submitting request to AgenticadML API...');
-      const generationResponse = await this.generateCADModel(enhancedRequest);
-      
-      // Poll for completion with progress updates
-      if (onProgress) onProgress('Processing 3D model...');
-      completedResponse = await this.pollForCompletion(
-        generationResponse.id, 
-        60, 
-        3000, 
-        (step, attempt, maxAttempts) => {
-          if (onProgress) onProgress(step, { attempt, maxAttempts });
-        }
-      );
-      
+      enhancements = await this.buildVariantPrompts(request.prompt, count, options);
+      signal?.throwIfAborted();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Check if it's a 422 prompt rejection error
-      if (errorMessage.includes('422') || errorMessage.includes('Unprocessable Entity')) {
-        console.log('⚠️  Enhanced prompt was rejected, trying with original prompt...');
-        if (onProgress) onProgress('Retrying with original prompt...');
-        
-        try {
-                  // Try original prompt with "design" prefix instead of original prompt directly
-        console.log('⚠️  Enhanced prompt failed, trying with "design" prefix...');
-        if (onProgress) onProgress('Trying with design prompt...');
-        
-        const designPrompt = this.createDesignPrompt(request.prompt);
-        console.log('🔧 Design prompt:', designPrompt);
-        
-        const designRequest = {
-          ...request,
-          prompt: designPrompt
-        };
-        
-        try {
-          const designGenerationResponse = await this.generateCADModel(designRequest);
-          completedResponse = await this.pollForCompletion(
-            designGenerationResponse.id,
-            60,
-            3000,
-            (step, attempt, maxAttempts) => {
-              if (onProgress) onProgress(`Design: ${step}`, { attempt, maxAttempts });
-            }
-          );
-          
-          console.log('✅ Generation successful with design prompt');
-          enhancement = { 
-            enhancedPrompt: designPrompt, 
-            confidence: 0.7, 
-            source: 'rules' 
-          };
-        } catch (designError) {
-          console.log('⚠️  Design prompt also failed, trying verified template...');
-          if (onProgress) onProgress('Trying with verified template...');
-          
-          // Final fallback to known working template
-          const fallbackRequest = {
-            ...request,
-            prompt: 'design a plate with 4 holes near each corner and rounded corners'
-          };
-          
-          const fallbackGenerationResponse = await this.generateCADModel(fallbackRequest);
-          completedResponse = await this.pollForCompletion(
-            fallbackGenerationResponse.id,
-            60,
-            3000,
-            (step, attempt, maxAttempts) => {
-              if (onProgress) onProgress(`Fallback: ${step}`, { attempt, maxAttempts });
+      if (!signal?.aborted) throw error;
+      return Array.from({ length: count }, (_, index) => ({
+        index,
+        prompt: request.prompt,
+        status: 'cancelled' as const,
+        submitted: false,
+        creditRefunded: false
+      }));
+    }
+
+    return Promise.all(enhancements.map(async (enhancement, index): Promise<CADVariantResult> => {
+      const report = (step: string, details?: GenerationProgressDetails) => {
+        if (onProgress) onProgress(index, step, details);
+      };
+      let zooJobId: string | null = null;
+
+      try {
+        report('Submitting request to AgenticadML API...');
+        const generationResponse = await this.generateCADModel({
+          ...withDerivedIdempotencyKey(request, `variant-${index}`),
+          prompt: enhancement.enhancedPrompt
+        }, {
+          originalPrompt: request.prompt,
+          enhancement: {
+            source: enhancement.source,
+            confidence: enhancement.confidence,
+            wasEnhanced: enhancement.source !== 'original',
+            rules: enhancement.rules,
+            // Variants are not retried with fallback prompts, so a rejection is final
+            tracking: {
+              category: categorizePrompt(request.prompt),
+              enhancerVersion: options.skipEnhancement ? null : PROMPT_ENHANCER_VERSION,
+              fallbackPolicy: 'fail',
+              fallbackStrategy: this.enhancerSubstitution(request.prompt, enhancement)?.strategy
             }
-          );
-          
-          console.log('✅ Generation successful with verified template');
-          enhancement = { 
-            enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', 
-            confidence: 0.5, 
-            source: 'rules' 
-          };
-        }
-      } catch (originalError) {
-        console.log('⚠️  Design prompt creation failed, trying verified template...');
-        if (onProgress) onProgress('Trying with verified template...');
-        
-        // Direct fallback to known working template if design prompt creation fails
-        const fallbackRequest = {
-          ...request,
-          prompt: 'design a plate with 4 holes near each corner and rounded corners'
-        };
-        
-        const fallbackGenerationResponse = await this.generateCADModel(fallbackRequest);
-        completedResponse = await this.pollForCompletion(
-          fallbackGenerationResponse.id,
-          60,
-          3000,
-          (step, attempt, maxAttempts) => {
-            if (onProgress) onProgress(`Fallback: ${step}`, { attempt, maxAttempts });
           }
+        }, signal, queue => report(this.describeQueueStatus(queue), { queue }));
+        zooJobId = generationResponse.id;
+
+        const completedResponse = await this.waitForCompletion(
+          generationResponse.id,
+          (event, step) => report(step, { statusEvent: event }),
+          {},
+          signal
         );
-        
-        console.log('✅ Generation successful with verified template');
-        enhancement = { 
-          enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', 
-          confidence: 0.5, 
-          source: 'rules' 
-        };
-      }
-      } else {
-        // Re-throw non-422 errors
-        throw error;
+        signal?.throwIfAborted();
+
+        const model = await this.buildCADModel(completedResponse, request, enhancement, report);
+        model.fallback = this.enhancerSubstitution(request.prompt, enhancement);
+        if (!model.properties.analysisFailed) {
+          model.manufacturingCost = await this.estimateManufacturingCost(model);
+        }
+        report('Variant ready');
+
+        return { index, prompt: enhancement.enhancedPrompt, status: 'completed', model, submitted: true, creditRefunded: false };
+      } catch (error) {
+        if (signal?.aborted) {
+          const { refunded } = zooJobId ? await this.cancelGenerationJob(zooJobId) : { refunded: false };
+          report('Cancelled');
+          return { index, prompt: enhancement.enhancedPrompt, status: 'cancelled', submitted: !!zooJobId, creditRefunded: refunded };
+        }
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Variant ${index + 1} failed:`, errorMessage);
+        report('Variant failed');
+        return { index, prompt: enhancement.enhancedPrompt, status: 'failed', error: errorMessage, submitted: !!zooJobId, creditRefunded: false };
       }
+    }));
+  }
+
+  /**
+   * Prompts for a variant batch: the enhanced prompt N times, or up to N distinct phrasings
+   * (enhanced, design-prefixed, rule-based, original), cycling when there are fewer than N
+   */
+  private async buildVariantPrompts(prompt: string, count: number, options: CADVariantOptions): Promise<EnhancementResult[]> {
+    const primary: EnhancementResult = options.skipEnhancement
+      ? { enhancedPrompt: prompt, confidence: 1, source: 'original' }
+      : await this.enhancePromptForCAD(prompt);
+
+    if (options.strategy === 'repeat') {
+      return Array.from({ length: count }, () => primary);
     }
-    
+
+    const candidates: EnhancementResult[] = [
+      primary,
+      { enhancedPrompt: withDesignPrefix(prompt), confidence: 0.7, source: 'rules' },
+      enhanceWithRules(prompt, PROMPT_RULE_STAGES.filter(stage => stage.id === 'template')),
+      { enhancedPrompt: prompt, confidence: 1, source: 'original' }
+    ];
+
+    const phrasings: EnhancementResult[] = [];
+    const seen = new Set<string>();
+    for (const candidate of candidates) {
+      const key = candidate.enhancedPrompt.trim().toLowerCase();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      phrasings.push(candidate);
+    }
+
+    return Array.from({ length: count }, (_, index) => phrasings[index % phrasings.length]);
+  }
+
+  /**
+   * Turn a completed Zoo job into a CADModel: locate the model output, decode it and measure it
+   */
+  private async buildCADModel(
+    completedResponse: CADGenerationResponse,
+    request: CADGenerationRequest,
+    enhancement: EnhancementResult,
+    onProgress?: GenerationProgressCallback
+  ): Promise<CADModel> {
     if (onProgress) onProgress('Processing 3D model data...');
     
     console.log('✅ Completed response:', JSON.stringify(completedResponse, null, 2));
@@ -1284,20 +1538,25 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     
     if (!gltfUrl) {
       console.error('No GLTF URL available after all attempts. Full response:', JSON.stringify(completedResponse, null, 2));
-      throw new Error(`No GLTF output available. Status: ${completedResponse.status}. Available outputs: ${Object.keys(outputs).join(', ')}. Response keys: ${Object.keys(completedResponse).join(', ')}`);
+      throw new OutputMissingError(`No GLTF output available. Status: ${completedResponse.status}. Available outputs: ${Object.keys(outputs).join(', ')}. Response keys: ${Object.keys(completedResponse).join(', ')}`);
     }
 
     console.log('✅ Final GLTF URL:', gltfUrl ? gltfUrl.substring(0, 100) + '...' : 'none');
 
+    if (onProgress) onProgress('Analyzing model geometry...');
+    const properties = await this.measureModelProperties(gltfUrl);
+
     // Transform to CADModel format
-    return {
+    const model: CADModel = {
       id: completedResponse.id,
       prompt: enhancement.enhancedPrompt, // Use enhanced prompt
       originalPrompt: request.prompt, // Keep original for reference
+      ...(request.translatedFrom && { translatedFrom: request.translatedFrom }),
       enhancementInfo: {
         source: enhancement.source,
         confidence: enhancement.confidence,
-        wasEnhanced: enhancement.source !== 'original'
+        wasEnhanced: enhancement.source !== 'original',
+        rules: enhancement.rules
       },
       gltfUrl: gltfUrl,
       thumbnailUrl: outputs.thumbnail || outputs.preview || outputs.image || completedResponse.thumbnail,
@@ -1306,43 +1565,67 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
         ...(outputs.thumbnail && { thumbnail: outputs.thumbnail }),
         ...(completedResponse.thumbnail && { thumbnail: completedResponse.thumbnail })
       },
-      properties: {
-        dimensions: { width: 100, height: 100, depth: 100 }, // Placeholder - would come from API
-        volume: 1000000, // Placeholder - would come from API
-        surfaceArea: 60000, // Placeholder - would come from API
-        complexity: 'moderate' // Placeholder - would be analyzed
-      }
+      units: request.units || DEFAULT_MODEL_UNITS,
+      properties
     };
+
+    // Object URLs die with the page, so keep the files in storage
+    if (onProgress) onProgress('Saving model files...');
+    return modelStorage.persistModel(model);
   }
 
-  async exportCADModel(model: CADModel, options: CADExportOptions): Promise<{ downloadUrl: string; filename: string }> {
+  /**
+   * Measure the generated mesh so dimensions, volume and cost estimates reflect the real geometry
+   */
+  private async measureModelProperties(gltfUrl: string): Promise<CADModel['properties']> {
     try {
-      if (options.format === 'gltf' && model.gltfUrl) {
-        // Direct download for GLTF
-        return {
-          downloadUrl: model.gltfUrl,
-          filename: `${model.id}.gltf`
-        };
-      }
+      const analysis = await analyzeGeometryFromUrl(gltfUrl);
+      console.log('📐 Geometry analysis:', {
+        dimensions: analysis.dimensions,
+        volume: analysis.volume,
+        surfaceArea: analysis.surfaceArea,
+        triangleCount: analysis.triangleCount,
+        complexityScore: analysis.complexityScore
+      });
 
-      if (options.format === 'stl') {
-        // Client-side STL conversion from GLTF
-        console.log('🔄 Converting GLTF to STL format...');
-        console.log('🔧 FIX: Using viewer scale option:', options.useViewerScale);
-        
-        // NEW FIX: Pass viewer scale option to conversion
-        const stlData = await this.convertGLTFToSTL(model.gltfUrl, options.useViewerScale);
-        
-        // Create blob URL for STL data
-        const stlBlob = new Blob([stlData], { type: 'application/vnd.ms-pki.stl' });
-        const downloadUrl = URL.createObjectURL(stlBlob);
-        
-        const scaleNote = options.useViewerScale ? '_viewer_scale' : '_original';
-        console.log('✅ STL conversion successful with scale option:', scaleNote);
-        return {
-          downloadUrl,
-          filename: `${model.id}${scaleNote}.stl`
-        };
+      return {
+        dimensions: analysis.dimensions,
+        volume: analysis.volume,
+        surfaceArea: analysis.surfaceArea,
+        triangleCount: analysis.triangleCount,
+        complexityScore: analysis.complexityScore,
+        complexity: analysis.complexity
+      };
+    } catch (error) {
+      // Report an unmeasured model rather than inventing numbers
+      console.warn('⚠️  Geometry analysis failed, model properties unavailable:', error);
+      return {
+        dimensions: { width: 0, height: 0, depth: 0 },
+        volume: 0,
+        surfaceArea: 0,
+        triangleCount: 0,
+        complexityScore: 0,
+        complexity: 'simple',
+        analysisFailed: true
+      };
+    }
+  }
+
+  async exportCADModel(
+    model: CADModel,
+    options: CADExportOptions,
+    onProgress?: ExportProgressListener
+  ): Promise<{ downloadUrl: string; filename: string }> {
+    try {
+      // Formats with a writer of their own are converted in the browser
+      if (exportService.get(options.format) && model.gltfUrl) {
+        return await exportService.exportModel(model, options.format, {
+          units: options.units,
+          scale: options.scale,
+          useViewerScale: options.useViewerScale,
+          options: options.formatOptions,
+          components: options.components
+        }, onProgress);
       }
 
       // Try Zoo API conversion for other formats
@@ -1358,277 +1641,18 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     }
   }
 
-  async convertGLTFToSTL(gltfUrl: string, useViewerScale: boolean = false): Promise<string> {
-    try {
-      console.log('🔄 Starting GLTF to STL conversion...');
-      
-      // Fetch the GLTF data
-      const response = await fetch(gltfUrl);
-      let gltfData: any;
-      
-      if (gltfUrl.includes('model/gltf-binary')) {
-        // Handle GLB (binary GLTF) format
-        console.log('📦 Processing GLB binary format...');
-        const arrayBuffer = await response.arrayBuffer();
-        gltfData = this.parseGLB(arrayBuffer);
-      } else {
-        // Handle GLTF JSON format
-        console.log('📄 Processing GLTF JSON format...');
-        gltfData = await response.json();
-      }
-      
-      console.log('📊 GLTF data loaded:', {
-        meshes: gltfData.meshes?.length || 0,
-        nodes: gltfData.nodes?.length || 0,
-        accessors: gltfData.accessors?.length || 0,
-        buffers: gltfData.buffers?.length || 0
-      });
-      
-      // Extract mesh data and convert to STL
-      const stlContent = this.generateSTLFromGLTF(gltfData, useViewerScale);
-      console.log('✅ STL conversion completed');
-      
-      return stlContent;
-    } catch (error) {
-      console.error('❌ GLTF to STL conversion failed:', error);
-      throw new Error(`Failed to convert GLTF to STL: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  private parseGLB(arrayBuffer: ArrayBuffer): any {
-    // Basic GLB parser - extracts JSON chunk
-    const view = new DataView(arrayBuffer);
-    
-    // Check GLB header
-    const magic = view.getUint32(0, true);
-    if (magic !== 0x46546C67) { // "glTF" in little-endian
-      throw new Error('Invalid GLB file format');
-    }
-    
-    const version = view.getUint32(4, true);
-    const length = view.getUint32(8, true);
-    
-    console.log('📦 GLB header:', { version, length });
-    
-    // Read JSON chunk
-    let offset = 12;
-    const chunkLength = view.getUint32(offset, true);
-    const chunkType = view.getUint32(offset + 4, true);
-    
-    if (chunkType !== 0x4E4F534A) { // "JSON" in little-endian
-      throw new Error('Expected JSON chunk in GLB');
-    }
-    
-    const jsonBytes = new Uint8Array(arrayBuffer, offset + 8, chunkLength);
-    const jsonString = new TextDecoder().decode(jsonBytes);
-    
-    return JSON.parse(jsonString);
-  }
-
-  private generateSTLFromGLTF(gltfData: any, useViewerScale: boolean = false): string {
-    console.log('🔄 Generating STL from GLTF mesh data...');
-    console.log('🔧 FIX: Viewer scale option enabled:', useViewerScale);
-    
-    if (!gltfData.meshes || gltfData.meshes.length === 0) {
-      throw new Error('No meshes found in GLTF data');
-    }
-    
-    // Calculate viewer scale if needed (same logic as ModelViewer3D)
-    let viewerScale = 1;
-    let centerOffset = [0, 0, 0];
-    
-    if (useViewerScale) {
-      console.log('📏 Calculating viewer scale transformations...');
-      const bounds = this.calculateGLTFBounds(gltfData);
-      const maxDimension = Math.max(bounds.width, bounds.height, bounds.depth);
-      viewerScale = maxDimension > 0 ? 4 / maxDimension : 1;
-      centerOffset = [
-        -bounds.center[0] * viewerScale,
-        -bounds.center[1] * viewerScale,
-        -bounds.center[2] * viewerScale
-      ];
-      console.log('📐 Viewer transformations:', { viewerScale, centerOffset });
-    }
-    
-    let stlContent = 'solid model\n';
-    let triangleCount = 0;
-    
-    // Process each mesh
-    for (let meshIndex = 0; meshIndex < gltfData.meshes.length; meshIndex++) {
-      const mesh = gltfData.meshes[meshIndex];
-      console.log(`📐 Processing mesh ${meshIndex}:`, mesh.name || `mesh_${meshIndex}`);
-      
-      // Process each primitive in the mesh
-      for (let primIndex = 0; primIndex < mesh.primitives.length; primIndex++) {
-        const primitive = mesh.primitives[primIndex];
-        
-        try {
-          const vertices = this.extractVertices(gltfData, primitive);
-          const indices = this.extractIndices(gltfData, primitive);
-          
-          console.log(`📊 Primitive ${primIndex}: ${vertices.length/3} vertices, ${indices ? indices.length/3 : vertices.length/9} triangles`);
-          
-          // Generate triangles
-          if (indices) {
-            // Indexed geometry
-            for (let i = 0; i < indices.length; i += 3) {
-              const i1 = indices[i] * 3;
-              const i2 = indices[i + 1] * 3;
-              const i3 = indices[i + 2] * 3;
-              
-              let v1 = [vertices[i1], vertices[i1 + 1], vertices[i1 + 2]];
-              let v2 = [vertices[i2], vertices[i2 + 1], vertices[i2 + 2]];
-              let v3 = [vertices[i3], vertices[i3 + 1], vertices[i3 + 2]];
-              
-              // Apply viewer transformations if enabled
-              if (useViewerScale) {
-                v1 = this.applyViewerTransform(v1, viewerScale, centerOffset);
-                v2 = this.applyViewerTransform(v2, viewerScale, centerOffset);
-                v3 = this.applyViewerTransform(v3, viewerScale, centerOffset);
-              }
-              
-              const normal = this.calculateNormal(v1, v2, v3);
-              stlContent += this.formatSTLTriangle(normal, v1, v2, v3);
-              triangleCount++;
-            }
-          } else {
-            // Non-indexed geometry
-            for (let i = 0; i < vertices.length; i += 9) {
-              let v1 = [vertices[i], vertices[i + 1], vertices[i + 2]];
-              let v2 = [vertices[i + 3], vertices[i + 4], vertices[i + 5]];
-              let v3 = [vertices[i + 6], vertices[i + 7], vertices[i + 8]];
-              
-              // Apply viewer transformations if enabled
-              if (useViewerScale) {
-                v1 = this.applyViewerTransform(v1, viewerScale, centerOffset);
-                v2 = this.applyViewerTransform(v2, viewerScale, centerOffset);
-                v3 = this.applyViewerTransform(v3, viewerScale, centerOffset);
-              }
-              
-              const normal = this.calculateNormal(v1, v2, v3);
-              stlContent += this.formatSTLTriangle(normal, v1, v2, v3);
-              triangleCount++;
-            }
-          }
-        } catch (primitiveError) {
-          console.warn(`⚠️  Failed to process primitive ${primIndex}:`, primitiveError);
-        }
-      }
-    }
-    
-    stlContent += 'endsolid model\n';
-    
-    console.log(`✅ STL generation complete: ${triangleCount} triangles`);
-    return stlContent;
-  }
-
-  private extractVertices(gltfData: any, primitive: any): Float32Array {
-    const positionAccessorIndex = primitive.attributes.POSITION;
-    if (positionAccessorIndex === undefined) {
-      throw new Error('No POSITION attribute found in primitive');
-    }
-    
-    const accessor = gltfData.accessors[positionAccessorIndex];
-    const bufferView = gltfData.bufferViews[accessor.bufferView];
-    
-    // For blob URLs, we need to get the data differently
-    if (gltfData.buffers[bufferView.buffer].uri?.startsWith('data:')) {
-      // Handle embedded buffer data
-      const buffer = gltfData.buffers[bufferView.buffer];
-      const dataUri = buffer.uri;
-      const base64Data = dataUri.split(',')[1];
-      const binaryData = atob(base64Data);
-      const arrayBuffer = new ArrayBuffer(binaryData.length);
-      const view = new Uint8Array(arrayBuffer);
-      for (let i = 0; i < binaryData.length; i++) {
-        view[i] = binaryData.charCodeAt(i);
-      }
-      
-      const start = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
-      const vertices = new Float32Array(arrayBuffer, start, accessor.count * 3);
-      return vertices;
-    } else {
-      // For now, return empty array if we can't access buffer data
-      console.warn('⚠️  Cannot access buffer data for vertex extraction');
-      return new Float32Array([]);
-    }
-  }
-
-  private extractIndices(gltfData: any, primitive: any): Uint16Array | Uint32Array | null {
-    if (primitive.indices === undefined) {
-      return null; // Non-indexed geometry
-    }
-    
-    const accessor = gltfData.accessors[primitive.indices];
-    const bufferView = gltfData.bufferViews[accessor.bufferView];
-    
-    // Similar buffer access logic as vertices
-    if (gltfData.buffers[bufferView.buffer].uri?.startsWith('data:')) {
-      const buffer = gltfData.buffers[bufferView.buffer];
-      const dataUri = buffer.uri;
-      const base64Data = dataUri.split(',')[1];
-      const binaryData = atob(base64Data);
-      const arrayBuffer = new ArrayBuffer(binaryData.length);
-      const view = new Uint8Array(arrayBuffer);
-      for (let i = 0; i < binaryData.length; i++) {
-        view[i] = binaryData.charCodeAt(i);
-      }
-      
-      const start = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
-      
-      // Choose appropriate array type based on component type
-      if (accessor.componentType === 5123) { // UNSIGNED_SHORT
-        return new Uint16Array(arrayBuffer, start, accessor.count);
-      } else if (accessor.componentType === 5125) { // UNSIGNED_INT
-        return new Uint32Array(arrayBuffer, start, accessor.count);
-      }
-    }
-    
-    console.warn('⚠️  Cannot access buffer data for index extraction');
-    return null;
-  }
-
-  private calculateNormal(v1: number[], v2: number[], v3: number[]): number[] {
-    // Calculate normal vector using cross product
-    const edge1 = [v2[0] - v1[0], v2[1] - v1[1], v2[2] - v1[2]];
-    const edge2 = [v3[0] - v1[0], v3[1] - v1[1], v3[2] - v1[2]];
-    
-    const normal = [
-      edge1[1] * edge2[2] - edge1[2] * edge2[1],
-      edge1[2] * edge2[0] - edge1[0] * edge2[2],
-      edge1[0] * edge2[1] - edge1[1] * edge2[0]
-    ];
-    
-    // Normalize
-    const length = Math.sqrt(normal[0] * normal[0] + normal[1] * normal[1] + normal[2] * normal[2]);
-    if (length > 0) {
-      normal[0] /= length;
-      normal[1] /= length;
-      normal[2] /= length;
-    }
-    
-    return normal;
-  }
-
-  private formatSTLTriangle(normal: number[], v1: number[], v2: number[], v3: number[]): string {
-    return `  facet normal ${normal[0].toFixed(6)} ${normal[1].toFixed(6)} ${normal[2].toFixed(6)}
-    outer loop
-      vertex ${v1[0].toFixed(6)} ${v1[1].toFixed(6)} ${v1[2].toFixed(6)}
-      vertex ${v2[0].toFixed(6)} ${v2[1].toFixed(6)} ${v2[2].toFixed(6)}
-      vertex ${v3[0].toFixed(6)} ${v3[1].toFixed(6)} ${v3[2].toFixed(6)}
-    endloop
-  endfacet
-`;
-  }
-
   async estimateManufacturingCost(model: CADModel, material: string = 'PLA'): Promise<{
     material: string;
     volume: number;
     cost: number;
     currency: string;
   }> {
+    if (model.properties.analysisFailed) {
+      throw new Error('Cost estimate unavailable: the model geometry could not be measured');
+    }
+
     // Simplified cost estimation - in real implementation, this would use Zoo API or third-party service
-    const volumeInCm3 = model.properties.volume / 1000; // Convert mm³ to cm³
+    const volumeInCm3 = convertVolume(model.properties.volume, model.units || DEFAULT_MODEL_UNITS, 'cm');
     const materialCosts = {
       'PLA': 0.025, // USD per cm³
       'ABS': 0.03,
@@ -1697,7 +1721,7 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
         };
 
         // Skip enhancement for verified examples to test Zoo API directly
-        const result = await this.generateAndWaitForCAD(request, true);
+        const result = await this.generateAndWaitForCAD(request, true, undefined, undefined, { fresh: true });
         console.log(`✅ Test successful for: "${example}" - GLTF URL: ${result.gltfUrl}`);
         
         break; // Stop after first successful test
@@ -1712,7 +1736,7 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
    */
   async testPromptEnhancement(): Promise<void> {
     console.log('🧪 Testing prompt enhancement system...');
-    
+
     const testPrompts = [
       "long board with long edges and ribbons",
       "phone case",
@@ -1731,11 +1755,6 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
         const enhancement = await this.enhancePromptForCAD(prompt);
         console.log(`   ✅ Enhanced to: "${enhancement.enhancedPrompt}"`);
         console.log(`   📊 Source: ${enhancement.source}, Confidence: ${enhancement.confidence}`);
-        
-                  // Check if enhanced prompt is AgenticadML-compatible
-          const isCompatible = this.isAgenticadCompatiblePrompt(enhancement.enhancedPrompt.toLowerCase());
-          console.log(`   🎯 AgenticadML-compatible: ${isCompatible ? '✅ Yes' : '❌ No'}`);
-        
       } catch (error) {
         console.error(`   ❌ Enhancement failed:`, error);
       }
@@ -1787,8 +1806,54 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     }
   }
 
+  /**
+   * Compare a model's measured size with the sizes its prompt asked for and record the result
+   * on the model. Substitutes were not generated from the prompt, so they are not checked.
+   */
+  checkDimensions(model: CADModel, prompt: string): CADModel {
+    if (model.fallback || model.properties.analysisFailed) return model;
+    const units = model.units || DEFAULT_MODEL_UNITS;
+    const dimensionCheck = verifyDimensions(parsePromptSpec(prompt, units), model.properties.dimensions, units);
+    if (dimensionCheck?.mismatched) {
+      console.log('📏 Generated size differs from the prompt:', dimensionCheck.checks);
+    }
+    return { ...model, dimensionCheck: dimensionCheck ?? undefined };
+  }
+
+  /**
+   * Scale a model uniformly, e.g. to the size its prompt asked for. The stored file is kept
+   * as generated; exports apply the scale.
+   */
+  rescaleModel(model: CADModel, factor: number): CADModel {
+    const { dimensions, volume, surfaceArea } = model.properties;
+    return {
+      ...model,
+      scale: (model.scale ?? 1) * factor,
+      properties: {
+        ...model.properties,
+        dimensions: {
+          width: dimensions.width * factor,
+          height: dimensions.height * factor,
+          depth: dimensions.depth * factor
+        },
+        volume: volume * factor ** 3,
+        surfaceArea: surfaceArea * factor ** 2
+      },
+      dimensionCheck: undefined
+    };
+  }
+
   // Enhanced prompt validation based on Zoo ML-ephant best practices
-  validatePrompt(prompt: string): { valid: boolean; suggestions?: string[] } {
+  validatePrompt(prompt: string): { valid: boolean; suggestions?: string[]; spec: PromptSpec } {
+    const spec = parsePromptSpec(prompt);
+    const result = this.validatePromptText(prompt);
+    if (spec.dimensions.length > 0 && spec.units === null) {
+      result.suggestions = [...(result.suggestions || []), 'Add units to your dimensions (e.g. "200mm" rather than "200")'];
+    }
+    return { ...result, spec };
+  }
+
+  private validatePromptText(prompt: string): { valid: boolean; suggestions?: string[] } {
     const minLength = 15; // Increased for more detailed prompts
     const maxLength = 500;
     
@@ -2057,182 +2122,6 @@ Keep prompts under 20 words. Focus on the main object type and 1-2 key features.
     console.log('🔧 GLTF structure enhancement complete');
     return enhanced;
   }
-
-  // NEW FIX: Helper methods for viewer scale transformations  
-  private calculateGLTFBounds(gltfData: any): { width: number; height: number; depth: number; center: number[] } {
-    console.log('📏 Calculating GLTF bounds for viewer scaling...');
-    
-    let minX = Infinity, minY = Infinity, minZ = Infinity;
-    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-    let hasValidBounds = false;
-    
-    // IMPROVED: Consider node transforms and mesh hierarchy
-    const processNode = (nodeIndex: number, parentTransform: number[] = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]) => {
-      if (!gltfData.nodes || nodeIndex >= gltfData.nodes.length) return;
-      
-      const node = gltfData.nodes[nodeIndex];
-      
-      // Apply node transform if present
-      let nodeTransform = parentTransform;
-      if (node.matrix) {
-        nodeTransform = this.multiplyMatrices(parentTransform, node.matrix);
-      } else if (node.translation || node.rotation || node.scale) {
-        // Build transform from TRS components
-        const transform = this.buildTRSMatrix(
-          node.translation || [0, 0, 0],
-          node.rotation || [0, 0, 0, 1],
-          node.scale || [1, 1, 1]
-        );
-        nodeTransform = this.multiplyMatrices(parentTransform, transform);
-      }
-      
-      // Process mesh if node has one
-      if (node.mesh !== undefined && gltfData.meshes) {
-        const mesh = gltfData.meshes[node.mesh];
-        if (mesh && mesh.primitives) {
-          for (const primitive of mesh.primitives) {
-            try {
-              const vertices = this.extractVertices(gltfData, primitive);
-              
-              // Apply node transforms to vertices
-              for (let i = 0; i < vertices.length; i += 3) {
-                const transformedVertex = this.transformVertex(
-                  [vertices[i], vertices[i + 1], vertices[i + 2]],
-                  nodeTransform
-                );
-                
-                minX = Math.min(minX, transformedVertex[0]);
-                minY = Math.min(minY, transformedVertex[1]);
-                minZ = Math.min(minZ, transformedVertex[2]);
-                maxX = Math.max(maxX, transformedVertex[0]);
-                maxY = Math.max(maxY, transformedVertex[1]);
-                maxZ = Math.max(maxZ, transformedVertex[2]);
-                hasValidBounds = true;
-              }
-            } catch (error) {
-              console.warn('⚠️  Failed to extract vertices from mesh:', error);
-            }
-          }
-        }
-      }
-      
-      // Process child nodes
-      if (node.children) {
-        for (const childIndex of node.children) {
-          processNode(childIndex, nodeTransform);
-        }
-      }
-    };
-    
-    // Start processing from scene root nodes
-    if (gltfData.scenes && gltfData.scenes.length > 0) {
-      const scene = gltfData.scenes[gltfData.scene || 0];
-      if (scene.nodes) {
-        for (const nodeIndex of scene.nodes) {
-          processNode(nodeIndex);
-        }
-      }
-    } else {
-      // Fallback: process all meshes without transforms (old approach)
-      console.log('⚠️  No scene found, falling back to direct mesh processing');
-      if (gltfData.meshes) {
-        for (const mesh of gltfData.meshes) {
-          for (const primitive of mesh.primitives) {
-            try {
-              const vertices = this.extractVertices(gltfData, primitive);
-              for (let i = 0; i < vertices.length; i += 3) {
-                minX = Math.min(minX, vertices[i]);
-                minY = Math.min(minY, vertices[i + 1]);
-                minZ = Math.min(minZ, vertices[i + 2]);
-                maxX = Math.max(maxX, vertices[i]);
-                maxY = Math.max(maxY, vertices[i + 1]);
-                maxZ = Math.max(maxZ, vertices[i + 2]);
-                hasValidBounds = true;
-              }
-            } catch (error) {
-              console.warn('⚠️  Failed to extract vertices for bounds calculation:', error);
-            }
-          }
-        }
-      }
-    }
-    
-    if (!hasValidBounds) {
-      console.warn('⚠️  No valid bounds found, using default values');
-      return { width: 1, height: 1, depth: 1, center: [0, 0, 0] };
-    }
-    
-    // Calculate dimensions and center
-    const width = Math.abs(maxX - minX);
-    const height = Math.abs(maxY - minY);
-    const depth = Math.abs(maxZ - minZ);
-    const center = [
-      (minX + maxX) / 2,
-      (minY + maxY) / 2,
-      (minZ + maxZ) / 2
-    ];
-    
-    console.log('📐 GLTF bounds calculated:', { 
-      bounds: { minX, minY, minZ, maxX, maxY, maxZ },
-      dimensions: { width, height, depth }, 
-      center 
-    });
-    return { width, height, depth, center };
-  }
-
-  private applyViewerTransform(vertex: number[], scale: number, centerOffset: number[]): number[] {
-    return [
-      (vertex[0] * scale) + centerOffset[0],
-      (vertex[1] * scale) + centerOffset[1],
-      (vertex[2] * scale) + centerOffset[2]
-    ];
-  }
-
-  // Matrix math helpers for GLTF node transforms
-  private multiplyMatrices(a: number[], b: number[]): number[] {
-    const result = new Array(16);
-    
-    for (let i = 0; i < 4; i++) {
-      for (let j = 0; j < 4; j++) {
-        result[i * 4 + j] = 
-          a[i * 4 + 0] * b[0 * 4 + j] +
-          a[i * 4 + 1] * b[1 * 4 + j] +
-          a[i * 4 + 2] * b[2 * 4 + j] +
-          a[i * 4 + 3] * b[3 * 4 + j];
-      }
-    }
-    
-    return result;
-  }
-
-  private buildTRSMatrix(translation: number[], rotation: number[], scale: number[]): number[] {
-    const [x, y, z] = translation;
-    const [qx, qy, qz, qw] = rotation;
-    const [sx, sy, sz] = scale;
-    
-    // Build rotation matrix from quaternion
-    const x2 = qx * 2, y2 = qy * 2, z2 = qz * 2;
-    const xx = qx * x2, xy = qx * y2, xz = qx * z2;
-    const yy = qy * y2, yz = qy * z2, zz = qz * z2;
-    const wx = qw * x2, wy = qw * y2, wz = qw * z2;
-    
-    return [
-      sx * (1 - (yy + zz)), sx * (xy + wz),       sx * (xz - wy),       x,
-      sy * (xy - wz),       sy * (1 - (xx + zz)), sy * (yz + wx),       y,
-      sz * (xz + wy),       sz * (yz - wx),       sz * (1 - (xx + yy)), z,
-      0,                    0,                    0,                    1
-    ];
-  }
-
-  private transformVertex(vertex: number[], matrix: number[]): number[] {
-    const [x, y, z] = vertex;
-    
-    return [
-      matrix[0] * x + matrix[4] * y + matrix[8]  * z + matrix[12],
-      matrix[1] * x + matrix[5] * y + matrix[9]  * z + matrix[13],
-      matrix[2] * x + matrix[6] * y + matrix[10] * z + matrix[14]
-    ];
-  }
 }
 
 export const cadAI = new CADAIService(); 
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { supabase } from '../lib/supabase';
+import { errorFromResponse } from './generationErrors';
+import { EdgeFunctionProgressChannel, type GenerationProgressChannel } from './generationProgress';
+import { LocalCADProvider } from './localCADProvider';
+import { zooRequestScheduler, type QueuedSubmission, type QueueStatusListener } from './requestScheduler';
+import type { CADGenerationRequest, CADGenerationResponse, CADModel, GenerationJob } from './cadAI';
+
+/**
+ * Backends that turn a text prompt into a CAD model.
+ *
+ * CADAIService talks to generation backends only through this interface: submit a job, follow
+ * its status, fetch its outputs once completed and convert them. The Zoo provider proxies the
+ * zoo-text-to-cad edge function; the local provider (localCADProvider.ts) builds deterministic
+ * models in the browser so the app runs without network access.
+ */
+
+// Job metadata recorded alongside a submission
+export interface GenerationContext {
+  originalPrompt?: string;
+  enhancement?: CADModel['enhancementInfo'];
+}
+
+// generation_jobs row as returned by the zoo-text-to-cad function
+export interface GenerationJobRow {
+  id: string;
+  zoo_job_id: string;
+  status: GenerationJob['status'];
+  prompt: string;
+  original_prompt: string | null;
+  enhancement: CADModel['enhancementInfo'] | null;
+  output_format: GenerationJob['outputFormat'] | null;
+  units: GenerationJob['units'] | null;
+  scale: number | string | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface CADGenerationProvider {
+  readonly name: string;
+  // Push channel for job status, when the provider has one
+  readonly progressChannel?: GenerationProgressChannel;
+
+  /**
+   * Start a generation job; resolves once the job is accepted, not when it finishes. onQueued
+   * hears about waits before the provider accepts the job.
+   */
+  submit(
+    request: CADGenerationRequest,
+    context?: GenerationContext,
+    signal?: AbortSignal,
+    onQueued?: QueueStatusListener
+  ): Promise<CADGenerationResponse>;
+  /** Current status of a job */
+  getStatus(id: string, signal?: AbortSignal): Promise<CADGenerationResponse>;
+  /** Completed job including its model outputs */
+  fetchOutputs(id: string, signal?: AbortSignal): Promise<CADGenerationResponse>;
+  /** Download URL for a completed job in another format */
+  convert(id: string, outputFormat: string): Promise<{ download_url: string }>;
+  /** Stop a running job and refund its design credit where the provider charges one */
+  cancel(id: string): Promise<{ cancelled: boolean; refunded: boolean }>;
+  /** Refund a completed job generated from the fallback template the user chose not to keep */
+  declineSubstitute?(id: string): Promise<{ refunded: boolean }>;
+  /** Keep a job generated from the fallback template; unaccepted ones are refunded after a while */
+  acceptSubstitute?(id: string): Promise<{ accepted: boolean }>;
+  /** The caller's resumable jobs, for providers that persist them */
+  listJobs?(): Promise<GenerationJobRow[]>;
+}
+
+// Use Supabase Edge Function as proxy to AgenticadML API
+const getSupabaseFunction = async () => {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  // Send the user's session token when signed in so jobs are recorded against their account
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    url: `${supabaseUrl}/functions/v1/zoo-text-to-cad`,
+    headers: {
+      'Authorization': `Bearer ${session?.access_token || supabaseAnonKey}`,
+      'Content-Type': 'application/json'
+    }
+  };
+};
+
+// Body of a generate request the edge function queued (HTTP 202)
+interface QueuedResponse {
+  queued: true;
+  lane?: string;
+  queue_position: number;
+  user_position: number;
+  retry_after_seconds: number;
+  estimated_wait_seconds?: number;
+}
+
+/**
+ * Zoo text-to-CAD through the zoo-text-to-cad edge function, which also meters design usage,
+ * persists jobs, streams their progress and handles cancellation refunds. Requests are paced by
+ * zooRequestScheduler so queued submissions and rate limits are waited out.
+ */
+export class ZooCADProvider implements CADGenerationProvider {
+  readonly name = 'zoo';
+  readonly progressChannel: GenerationProgressChannel = new EdgeFunctionProgressChannel(getSupabaseFunction);
+
+  private async callSupabaseFunction<T>(action: string, payload: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const { url, headers } = await getSupabaseFunction();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        action,
+        ...payload
+      }),
+      signal
+    });
+
+    // Failures come back as a typed error envelope
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw errorFromResponse(response.status, errorData, response.headers.get('Retry-After'));
+    }
+
+    return response.json();
+  }
+
+  async submit(
+    request: CADGenerationRequest,
+    context?: GenerationContext,
+    signal?: AbortSignal,
+    onQueued?: QueueStatusListener
+  ): Promise<CADGenerationResponse> {
+    // A queued submission keeps its place only when it is sent again with the same key
+    const idempotencyKey = request.idempotencyKey || crypto.randomUUID();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const data = await zooRequestScheduler.submit(session?.user.id ?? 'anonymous', async (): Promise<CADGenerationResponse | QueuedSubmission> => {
+      const response = await this.callSupabaseFunction<CADGenerationResponse | QueuedResponse>('generate', {
+        prompt: request.prompt,
+        originalPrompt: context?.originalPrompt,
+        enhancement: context?.enhancement,
+        outputFormat: request.outputFormat || 'gltf',
+        units: request.units || 'mm',
+        scale: request.scale || 1,
+        idempotencyKey
+      }, signal);
+      if (!('queued' in response)) return response;
+      return {
+        queued: true,
+        lane: response.lane,
+        queuePosition: response.queue_position,
+        userPosition: response.user_position,
+        retryAfterMs: response.retry_after_seconds * 1000,
+        estimatedWaitMs: response.estimated_wait_seconds !== undefined ? response.estimated_wait_seconds * 1000 : undefined
+      };
+    }, onQueued, signal);
+
+    return {
+      id: data.id,
+      status: data.status || 'queued',
+      prompt: request.prompt,
+      outputs: data.outputs,
+      created_at: data.created_at || new Date().toISOString(),
+      job_id: data.job_id
+    };
+  }
+
+  getStatus(id: string, signal?: AbortSignal): Promise<CADGenerationResponse> {
+    return zooRequestScheduler.request(() => this.callSupabaseFunction<CADGenerationResponse>('status', { id }, signal), signal);
+  }
+
+  // Completed jobs are answered from generation_jobs, so this is the same call as a status check
+  fetchOutputs(id: string, signal?: AbortSignal): Promise<CADGenerationResponse> {
+    return this.getStatus(id, signal);
+  }
+
+  convert(id: string, outputFormat: string): Promise<{ download_url: string }> {
+    return this.callSupabaseFunction<{ download_url: string }>('convert', {
+      id,
+      convertFormat: outputFormat
+    });
+  }
+
+  async cancel(id: string): Promise<{ cancelled: boolean; refunded: boolean }> {
+    const data = await this.callSupabaseFunction<{ cancelled?: boolean; refunded?: boolean }>('cancel', { id });
+    return { cancelled: !!data.cancelled, refunded: !!data.refunded };
+  }
+
+  async declineSubstitute(id: string): Promise<{ refunded: boolean }> {
+    const data = await this.callSupabaseFunction<{ refunded?: boolean }>('decline_substitute', { id });
+    return { refunded: !!data.refunded };
+  }
+
+  async acceptSubstitute(id: string): Promise<{ accepted: boolean }> {
+    const data = await this.callSupabaseFunction<{ accepted?: boolean }>('accept_substitute', { id });
+    return { accepted: !!data.accepted };
+  }
+
+  async listJobs(): Promise<GenerationJobRow[]> {
+    const data = await this.callSupabaseFunction<{ jobs?: GenerationJobRow[] }>('list_jobs', {});
+    return data.jobs || [];
+  }
+}
+
+/**
+ * Provider for a configured name: 'local' for the offline fixture provider, Zoo otherwise
+ */
+export const createCADGenerationProvider = (name?: string): CADGenerationProvider => {
+  if (name === 'local') return new LocalCADProvider();
+  return new ZooCADProvider();
+};
@@ -0,0 +1,142 @@
+import { supabase } from '../lib/supabase';
+import { enhanceWithRules } from './promptRules';
+
+/**
+ * Outcomes of prompt enhancement strategies.
+ *
+ * The zoo-text-to-cad function records, for every generation job that finishes, which strategy
+ * rewrote its prompt ('ai', 'rules' or 'original'), how the rewritten prompt fared and which
+ * fallback, if any, produced the model; the browser only sends EnhancementTracking. The aggregated
+ * success rates per strategy and prompt category let enhancePromptForCAD use the strategy the
+ * generator rejects least for the kind of part being asked for.
+ */
+
+export type EnhancementStrategy = 'ai' | 'rules' | 'original';
+
+export const ENHANCEMENT_STRATEGIES: EnhancementStrategy[] = ['ai', 'rules', 'original'];
+
+/**
+ * Sent with a generation's enhancement so the zoo-text-to-cad function can record how the job
+ * fared once it finishes. A fallback job names the rejected job it stands in for.
+ */
+export interface EnhancementTracking {
+  category: string;
+  enhancerVersion: number | null;
+  fallbackPolicy: string;
+  // Fallback prompt used in place of the enhanced prompt (the enhancer's own template included)
+  fallbackStrategy?: 'design_prefix' | 'template';
+  // Zoo job id of the rejected job this fallback job replaces
+  fallbackOf?: string;
+}
+
+export interface StrategyStats {
+  source: EnhancementStrategy;
+  category: string;
+  attempts: number;
+  completed: number;
+  rejected: number;
+  failed: number;
+  // Rejected prompts whose generation a fallback still completed
+  rescued: number;
+  successRate: number;
+}
+
+// Fewer attempts than this say too little about a strategy to act on
+export const MIN_STRATEGY_ATTEMPTS = 20;
+
+// Another strategy is only chosen when it beats the default's success rate by this much
+const STRATEGY_SWITCH_MARGIN = 0.05;
+
+// Aggregates change slowly; fetch them at most this often
+const STATS_TTL_MS = 10 * 60 * 1000;
+
+export const ADAPTIVE_ENHANCEMENT = import.meta.env.VITE_ADAPTIVE_ENHANCEMENT !== 'false';
+
+interface StatsRow {
+  enhancement_source: EnhancementStrategy;
+  prompt_category: string;
+  attempts: number | string;
+  completed: number | string;
+  rejected: number | string;
+  failed: number | string;
+  rescued: number | string;
+  success_rate: number | string;
+}
+
+/**
+ * Kind of part a prompt asks for, named after the enhancer rule that matches it
+ * ("gear", "case", "specialized"); "other" when only a catch-all rule matches
+ */
+export function categorizePrompt(prompt: string): string {
+  const result = enhanceWithRules(prompt);
+  if (result.skipsAI) return 'specialized';
+  const patterns = result.trace.find(stage => stage.stage === 'pattern');
+  const ruleId = patterns?.applied?.id ?? 'pattern.default';
+  return ruleId === 'pattern.default' ? 'other' : ruleId.replace(/^pattern\./, '');
+}
+
+/**
+ * Strategy with the best success rate for a category, or null to keep the default (AI with rules
+ * as fallback) when the numbers are too thin or too close to justify a change
+ */
+export function pickStrategy(
+  stats: StrategyStats[],
+  category: string
+): { strategy: EnhancementStrategy; stats: StrategyStats } | null {
+  const candidates = stats.filter(row => row.category === category && row.attempts >= MIN_STRATEGY_ATTEMPTS);
+  const current = candidates.find(row => row.source === 'ai');
+  if (!current) return null;
+
+  const best = candidates.reduce((a, b) => (b.successRate > a.successRate ? b : a));
+  if (best.source === 'ai' || best.successRate - current.successRate < STRATEGY_SWITCH_MARGIN) return null;
+  return { strategy: best.source, stats: best };
+}
+
+class EnhancementStatsService {
+  private stats: StrategyStats[] | null = null;
+  private fetchedAt = 0;
+  private pending: Promise<StrategyStats[]> | null = null;
+
+  /**
+   * Success rates per strategy and prompt category over the last 30 days, cached for a while
+   */
+  async getStats(force: boolean = false): Promise<StrategyStats[]> {
+    if (!force && this.stats && Date.now() - this.fetchedAt < STATS_TTL_MS) return this.stats;
+    if (this.pending) return this.pending;
+
+    this.pending = (async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_enhancement_stats');
+        if (error) throw error;
+        this.stats = ((data || []) as StatsRow[]).map(row => ({
+          source: row.enhancement_source,
+          category: row.prompt_category,
+          attempts: Number(row.attempts),
+          completed: Number(row.completed),
+          rejected: Number(row.rejected),
+          failed: Number(row.failed),
+          rescued: Number(row.rescued),
+          successRate: Number(row.success_rate)
+        }));
+      } catch (error) {
+        console.warn('Could not load enhancement stats:', error);
+        this.stats = this.stats ?? [];
+      }
+      this.fetchedAt = Date.now();
+      return this.stats;
+    })().finally(() => {
+      this.pending = null;
+    });
+
+    return this.pending;
+  }
+
+  /**
+   * Strategy to use for a category based on the current stats; see pickStrategy
+   */
+  async chooseStrategy(category: string): Promise<{ strategy: EnhancementStrategy; stats: StrategyStats } | null> {
+    return pickStrategy(await this.getStats(), category);
+  }
+}
+
+export const enhancementStats = new EnhancementStatsService();
@@ -0,0 +1,297 @@
+import {
+  exportTransform,
+  extractTriangleMeshes,
+  loadGLTFDocumentFromUrl,
+  type ExportPlacement,
+  type TriangleMesh
+} from './geometryAnalysis';
+import { writeOBJ, writePLY } from './meshWriters';
+import { exportSTL } from './stlExport';
+import { STEP_MIME_TYPE, writeSTEP } from './stepWriter';
+import { STL_MIME_TYPE, type STLEncoding } from './stlWriter';
+import { THREE_MF_MIME_TYPE, write3MF, type ThreeMFComponent } from './threeMFWriter';
+import { DEFAULT_MODEL_UNITS, lengthConversionFactor, type LengthUnit } from './units';
+
+/**
+ * Exports of generated models.
+ *
+ * Every export UI goes through this service. Each format registers a writer with its name,
+ * extension, MIME type and the options it takes (described so UIs can render controls for them).
+ * The service turns the model's units and scale and the chosen export units into one placement,
+ * and the writers place the geometry decoded from the glTF accessors with it (node transforms
+ * included), so every format carries identical geometry.
+ */
+
+export interface ExportProgress {
+  // 'loading': fetching and decoding the model; 'writing': writing the file
+  stage: 'loading' | 'writing';
+  // 0..1 within the stage
+  fraction: number;
+}
+
+export type ExportProgressListener = (progress: ExportProgress) => void;
+
+export type ExportOptionValue = string | boolean;
+
+// An option a format takes
+export interface ExportOptionField {
+  key: string;
+  label: string;
+  type: 'select' | 'boolean';
+  choices?: Array<{ value: string; label: string }>;
+  default: ExportOptionValue;
+}
+
+// The design being exported, for formats that record more than geometry
+export interface ExportDesign {
+  id: string;
+  prompt: string;
+  title?: string;
+  // Parts from productSpecs.components
+  components?: ThreeMFComponent[];
+}
+
+export interface ExportRequest extends ExportPlacement {
+  // glTF/GLB source of the model
+  url: string;
+  // Units the file is written in
+  units: LengthUnit;
+  design: ExportDesign;
+  // The format's options, defaults filled in
+  options: Record<string, ExportOptionValue>;
+  onProgress?: ExportProgressListener;
+}
+
+export interface ExportFormat {
+  id: string;
+  name: string;
+  extension: string;
+  mimeType: string;
+  description: string;
+  options: ExportOptionField[];
+  // false for formats downloaded as stored, which ignore units and scale
+  convertsGeometry: boolean;
+  write(request: ExportRequest): Promise<Blob>;
+}
+
+// What the service needs of a model (CADModel and CADModelData both fit)
+export interface ExportableModel {
+  id: string;
+  prompt: string;
+  gltfUrl: string;
+  units?: LengthUnit;
+  scale?: number;
+}
+
+export interface ExportSettings {
+  units: LengthUnit;
+  scale?: number;
+  useViewerScale?: boolean;
+  options?: Record<string, ExportOptionValue>;
+  title?: string;
+  components?: ThreeMFComponent[];
+  // Download name without extension; the model id when unset
+  baseName?: string;
+}
+
+export interface ExportResult {
+  downloadUrl: string;
+  filename: string;
+  // The written file (not set for formats downloaded as stored)
+  blob?: Blob;
+}
+
+// Decode the model into placed meshes, reporting the loading stage
+async function loadMeshes(request: ExportRequest): Promise<{ meshes: TriangleMesh[]; transform: number[] }> {
+  request.onProgress?.({ stage: 'loading', fraction: 0 });
+  const meshes = extractTriangleMeshes(await loadGLTFDocumentFromUrl(request.url));
+  request.onProgress?.({ stage: 'writing', fraction: 0 });
+  return { meshes, transform: exportTransform(meshes, request) };
+}
+
+class ExportService {
+  private registry = new Map<string, ExportFormat>();
+
+  /** Add a format (replacing one registered under the same id) */
+  register(format: ExportFormat): void {
+    this.registry.set(format.id, format);
+  }
+
+  get(id: string): ExportFormat | undefined {
+    return this.registry.get(id);
+  }
+
+  /** Registered formats in registration order */
+  get formats(): ExportFormat[] {
+    return [...this.registry.values()];
+  }
+
+  defaultOptions(format: ExportFormat): Record<string, ExportOptionValue> {
+    return Object.fromEntries(format.options.map(option => [option.key, option.default]));
+  }
+
+  /**
+   * Write the model in a registered format. Files that cannot record their units carry them
+   * in the filename, as do all converted files for consistency.
+   */
+  async exportModel(
+    model: ExportableModel,
+    formatId: string,
+    settings: ExportSettings,
+    onProgress?: ExportProgressListener
+  ): Promise<ExportResult> {
+    const format = this.get(formatId);
+    if (!format) {
+      throw new Error(`Unsupported export format: ${formatId}`);
+    }
+    const baseName = (settings.baseName || model.id).replace(/\.[^/.]+$/, '');
+
+    if (!format.convertsGeometry) {
+      return { downloadUrl: model.gltfUrl, filename: `${baseName}${format.extension}` };
+    }
+
+    console.log(`🔄 Exporting model ${model.id} as ${format.name} in ${settings.units}...`);
+    const blob = await format.write({
+      url: model.gltfUrl,
+      units: settings.units,
+      useViewerScale: settings.useViewerScale,
+      // Original-size exports are converted from the model's units; the viewer scale is unitless
+      unitScale: lengthConversionFactor(model.units || DEFAULT_MODEL_UNITS, settings.units) *
+        (model.scale ?? 1) * (settings.scale ?? 1),
+      design: {
+        id: model.id,
+        prompt: model.prompt,
+        title: settings.title,
+        components: settings.components
+      },
+      options: { ...this.defaultOptions(format), ...settings.options },
+      onProgress
+    });
+    console.log(`✅ ${format.name} export complete: ${blob.size} bytes`);
+
+    const scaleNote = settings.useViewerScale ? '_viewer_scale' : `_${settings.units}`;
+    return {
+      downloadUrl: URL.createObjectURL(blob),
+      filename: `${baseName}${scaleNote}${format.extension}`,
+      blob
+    };
+  }
+}
+
+export const exportService = new ExportService();
+
+exportService.register({
+  id: 'gltf',
+  name: 'GLTF',
+  extension: '.gltf',
+  mimeType: 'model/gltf+json',
+  description: '3D Graphics Language',
+  options: [],
+  convertsGeometry: false,
+  write: async ({ url }) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model: ${response.status} ${response.statusText}`);
+    }
+    return response.blob();
+  }
+});
+
+exportService.register({
+  id: 'stl',
+  name: 'STL',
+  extension: '.stl',
+  mimeType: STL_MIME_TYPE,
+  description: '3D Printing Format',
+  options: [{
+    key: 'encoding',
+    label: 'STL Encoding',
+    type: 'select',
+    choices: [
+      { value: 'binary', label: 'Binary (compact, recommended)' },
+      { value: 'ascii', label: 'ASCII (human readable, about 5x larger)' }
+    ],
+    default: 'binary'
+  }],
+  convertsGeometry: true,
+  // Written in a Web Worker, with progress
+  write: async request => {
+    const { blob } = await exportSTL(request.url, {
+      encoding: request.options.encoding as STLEncoding,
+      useViewerScale: request.useViewerScale,
+      unitScale: request.unitScale
+    }, request.onProgress);
+    return blob;
+  }
+});
+
+exportService.register({
+  id: '3mf',
+  name: '3MF',
+  extension: '.3mf',
+  mimeType: THREE_MF_MIME_TYPE,
+  description: '3D Manufacturing Format',
+  options: [],
+  convertsGeometry: true,
+  write: async request => {
+    request.onProgress?.({ stage: 'loading', fraction: 0 });
+    const blob = write3MF(await loadGLTFDocumentFromUrl(request.url), {
+      units: request.units,
+      useViewerScale: request.useViewerScale,
+      unitScale: request.unitScale,
+      components: request.design.components,
+      metadata: { designId: request.design.id, prompt: request.design.prompt, title: request.design.title }
+    });
+    request.onProgress?.({ stage: 'writing', fraction: 1 });
+    return blob;
+  }
+});
+
+exportService.register({
+  id: 'obj',
+  name: 'OBJ',
+  extension: '.obj',
+  mimeType: 'text/plain',
+  description: 'Wavefront OBJ',
+  options: [],
+  convertsGeometry: true,
+  write: async request => {
+    const { meshes, transform } = await loadMeshes(request);
+    return writeOBJ(meshes, transform, request.units);
+  }
+});
+
+exportService.register({
+  id: 'ply',
+  name: 'PLY',
+  extension: '.ply',
+  mimeType: 'application/octet-stream',
+  description: 'Polygon File Format',
+  options: [],
+  convertsGeometry: true,
+  write: async request => {
+    const { meshes, transform } = await loadMeshes(request);
+    return writePLY(meshes, transform, request.units);
+  }
+});
+
+exportService.register({
+  id: 'step',
+  name: 'STEP',
+  extension: '.step',
+  mimeType: STEP_MIME_TYPE,
+  description: 'Faceted solid for CAD software',
+  options: [],
+  convertsGeometry: true,
+  write: async request => {
+    request.onProgress?.({ stage: 'loading', fraction: 0 });
+    const doc = await loadGLTFDocumentFromUrl(request.url);
+    request.onProgress?.({ stage: 'writing', fraction: 0 });
+    return writeSTEP(doc, {
+      units: request.units,
+      useViewerScale: request.useViewerScale,
+      unitScale: request.unitScale,
+      metadata: { designId: request.design.id, prompt: request.design.prompt, title: request.design.title }
+    });
+  }
+});
@@ -0,0 +1,294 @@
+/**
+ * Typed errors for the text-to-CAD generation pipeline.
+ *
+ * The zoo-text-to-cad edge function answers failures with a JSON error envelope
+ * ({ error: { code, message, status, retry_after_seconds?, details? } }) and tags failed jobs
+ * with the same codes. This module turns envelopes, status codes and job failures into error
+ * classes so callers can branch on the kind of failure instead of on message text, and
+ * describes the recovery action the UI should offer for each.
+ */
+
+export type GenerationErrorCode =
+  | 'prompt_rejected'
+  | 'rate_limited'
+  | 'auth_failed'
+  | 'quota_exceeded'
+  | 'upstream_unavailable'
+  | 'timeout'
+  | 'output_missing'
+  | 'invalid_request'
+  | 'not_found'
+  | 'internal';
+
+export interface GenerationErrorEnvelope {
+  error: {
+    code: GenerationErrorCode;
+    message: string;
+    status?: number;
+    retry_after_seconds?: number;
+    details?: string;
+  };
+}
+
+interface GenerationErrorOptions {
+  status?: number;
+  details?: string;
+}
+
+// Wait used when a rate limit response does not say how long to back off
+export const DEFAULT_RETRY_AFTER_MS = 30 * 1000;
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly status?: number;
+  readonly details?: string;
+
+  constructor(code: GenerationErrorCode, message: string, options: GenerationErrorOptions = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.status = options.status;
+    this.details = options.details;
+  }
+
+  /** Whether the same request may succeed if it is simply tried again later */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** The generator could not turn the prompt into a model */
+export class PromptRejectedError extends GenerationError {
+  constructor(message = 'The prompt could not be turned into a CAD model', options?: GenerationErrorOptions) {
+    super('prompt_rejected', message, options);
+    this.name = 'PromptRejectedError';
+  }
+}
+
+/** Too many requests; retryAfterMs says how long to wait before the next one */
+export class RateLimitedError extends GenerationError {
+  constructor(public readonly retryAfterMs = DEFAULT_RETRY_AFTER_MS, message = 'Too many generation requests', options?: GenerationErrorOptions) {
+    super('rate_limited', message, options);
+    this.name = 'RateLimitedError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** The caller's session was missing, expired or rejected */
+export class AuthFailedError extends GenerationError {
+  constructor(message = 'Authentication failed', options?: GenerationErrorOptions) {
+    super('auth_failed', message, options);
+    this.name = 'AuthFailedError';
+  }
+}
+
+/** The caller has used every design their subscription tier allows this period */
+export class QuotaExceededError extends GenerationError {
+  constructor(message = 'Monthly design limit reached', options?: GenerationErrorOptions) {
+    super('quota_exceeded', message, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** The generation service (or the network to it) is down or misconfigured */
+export class UpstreamUnavailableError extends GenerationError {
+  constructor(message = 'The CAD generation service is unavailable', options?: GenerationErrorOptions) {
+    super('upstream_unavailable', message, options);
+    this.name = 'UpstreamUnavailableError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** A request or the whole job took longer than allowed */
+export class GenerationTimeoutError extends GenerationError {
+  constructor(message = 'CAD generation timed out', options?: GenerationErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'GenerationTimeoutError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** The job completed but produced no model output that could be loaded */
+export class OutputMissingError extends GenerationError {
+  constructor(message = 'The generation finished without a model output', options?: GenerationErrorOptions) {
+    super('output_missing', message, options);
+    this.name = 'OutputMissingError';
+  }
+}
+
+/**
+ * Error class for a code. retryAfterMs only applies to rate limiting.
+ */
+export const createGenerationError = (
+  code: GenerationErrorCode,
+  message: string,
+  options: GenerationErrorOptions & { retryAfterMs?: number } = {}
+): GenerationError => {
+  switch (code) {
+    case 'prompt_rejected':
+      return new PromptRejectedError(message, options);
+    case 'rate_limited':
+      return new RateLimitedError(options.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS, message, options);
+    case 'auth_failed':
+      return new AuthFailedError(message, options);
+    case 'quota_exceeded':
+      return new QuotaExceededError(message, options);
+    case 'upstream_unavailable':
+      return new UpstreamUnavailableError(message, options);
+    case 'timeout':
+      return new GenerationTimeoutError(message, options);
+    case 'output_missing':
+      return new OutputMissingError(message, options);
+    default:
+      return new GenerationError(code, message, options);
+  }
+};
+
+const isEnvelope = (body: unknown): body is GenerationErrorEnvelope => {
+  const error = (body as GenerationErrorEnvelope | null)?.error;
+  return !!error && typeof error === 'object' && typeof error.code === 'string';
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Error for a failed edge function response. Uses the error envelope when there is one; other
+ * bodies (e.g. the Supabase gateway rejecting an expired JWT) are classified by status code.
+ */
+export const errorFromResponse = (status: number, body: unknown, retryAfterHeader: string | null = null): GenerationError => {
+  const headerRetryMs = parseRetryAfter(retryAfterHeader);
+
+  if (isEnvelope(body)) {
+    const { code, message, retry_after_seconds, details } = body.error;
+    return createGenerationError(code, message, {
+      status,
+      details,
+      retryAfterMs: retry_after_seconds !== undefined ? retry_after_seconds * 1000 : headerRetryMs
+    });
+  }
+
+  const raw = body as { error?: unknown; message?: unknown; msg?: unknown } | null;
+  const text = [raw?.error, raw?.message, raw?.msg].find(value => typeof value === 'string') as string | undefined;
+  const message = text || `Request failed with status ${status}`;
+
+  if (status === 401 || status === 403) return new AuthFailedError(message, { status });
+  if (status === 402) return new QuotaExceededError(message, { status });
+  if (status === 422) return new PromptRejectedError(message, { status });
+  if (status === 429) return new RateLimitedError(headerRetryMs, message, { status });
+  if (status === 408 || status === 504) return new GenerationTimeoutError(message, { status });
+  if (status >= 500) return new UpstreamUnavailableError(message, { status });
+  if (status === 404) return new GenerationError('not_found', message, { status });
+  return new GenerationError('invalid_request', message, { status });
+};
+
+/**
+ * Normalize anything thrown by the pipeline. Fetch network failures count as the service being
+ * unavailable; `context` prefixes the message of errors that were not already typed.
+ */
+export const toGenerationError = (error: unknown, context?: string): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const prefixed = context ? `${context}: ${message}` : message;
+
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new GenerationTimeoutError(prefixed);
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) {
+    return new UpstreamUnavailableError(prefixed);
+  }
+  return new GenerationError('internal', prefixed);
+};
+
+export type GenerationRecoveryAction =
+  | 'rephrase'       // change the prompt; retrying it unchanged will fail again
+  | 'wait_and_retry' // retry once retryAfterMs has passed
+  | 'sign_in'        // refresh the session, then retry
+  | 'upgrade'        // out of designs this period; upgrade or wait for the next one
+  | 'retry_later'    // the service is down; retry in a few minutes
+  | 'check_jobs'     // the job may still finish server-side; look for it before retrying
+  | 'regenerate'     // generate again, the failure was specific to that run
+  | 'retry';
+
+export interface GenerationRecovery {
+  title: string;
+  message: string;
+  action: GenerationRecoveryAction;
+  retryAfterMs?: number;
+}
+
+/**
+ * What to tell the user about a failed generation and what to offer them next
+ */
+export const describeGenerationError = (error: unknown): GenerationRecovery => {
+  const typed = toGenerationError(error);
+
+  switch (typed.code) {
+    case 'prompt_rejected':
+      return {
+        title: 'Prompt Needs More Detail',
+        message: 'The AI could not turn this description into a model. Be specific about the shape, dimensions and features.',
+        action: 'rephrase'
+      };
+    case 'rate_limited':
+      return {
+        title: 'Rate Limit Exceeded',
+        message: 'Too many generation requests. You can try again shortly.',
+        action: 'wait_and_retry',
+        retryAfterMs: (typed as RateLimitedError).retryAfterMs
+      };
+    case 'auth_failed':
+      return {
+        title: 'Session Expired',
+        message: 'Your sign-in could not be verified. Refresh your session and try again.',
+        action: 'sign_in'
+      };
+    case 'quota_exceeded':
+      return {
+        title: 'Design Limit Reached',
+        message: 'You have used all the designs included in your plan this month. Upgrade to keep generating.',
+        action: 'upgrade'
+      };
+    case 'upstream_unavailable':
+      return {
+        title: 'Service Unavailable',
+        message: 'The 3D modeling service is temporarily unavailable. Please try again in a few minutes.',
+        action: 'retry_later'
+      };
+    case 'timeout':
+      return {
+        title: 'Generation Timeout',
+        message: 'The CAD generation took too long. It may still finish, so check your recent generations before trying again.',
+        action: 'check_jobs'
+      };
+    case 'output_missing':
+      return {
+        title: 'Model Output Missing',
+        message: 'The generation finished but returned no usable model. Generating again usually fixes this.',
+        action: 'regenerate'
+      };
+    default:
+      return {
+        title: 'Generation Failed',
+        message: 'Unable to generate CAD model. Please try again.',
+        action: 'retry'
+      };
+  }
+};
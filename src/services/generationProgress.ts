@@ -0,0 +1,236 @@
+import type { GenerationErrorCode } from './generationErrors';
+
+/**
+ * Push-based progress for text-to-CAD jobs.
+ *
+ * Channels deliver typed status events for a job as they happen. The edge function channel
+ * reads the server-sent event stream opened by the zoo-text-to-cad `watch` action; the local
+ * channel is an in-memory stand-in that in-browser producers publish to directly. When no
+ * channel can serve a job, callers fall back to polling with adaptive backoff.
+ */
+
+export type GenerationStatus = 'queued' | 'in_progress' | 'completed' | 'failed';
+
+export interface GenerationStatusEvent {
+  jobId: string;
+  status: GenerationStatus;
+  // Why the job failed (only set for 'failed')
+  reason?: string;
+  code?: GenerationErrorCode;
+  timestamp: string;
+}
+
+export type GenerationStatusListener = (event: GenerationStatusEvent) => void;
+
+export interface GenerationProgressChannel {
+  readonly name: string;
+  /** Whether this channel can deliver events for the given job */
+  canWatch(jobId: string): boolean;
+  /**
+   * Deliver status events for a job until it finishes or the channel closes.
+   * Resolves with the last event seen (null if none); rejects when the channel is unusable
+   * or the signal aborts.
+   */
+  watch(jobId: string, onEvent: GenerationStatusListener, signal?: AbortSignal): Promise<GenerationStatusEvent | null>;
+}
+
+export const isTerminalStatus = (status: GenerationStatus): boolean =>
+  status === 'completed' || status === 'failed';
+
+// Zoo reports 'uploaded' before a job is picked up; progress consumers only see queued/in_progress
+export const toGenerationStatus = (status: string): GenerationStatus => {
+  if (status === 'completed' || status === 'failed' || status === 'in_progress') return status;
+  return 'queued';
+};
+
+interface EdgeFunctionEndpoint {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Reads the server-sent event stream of the zoo-text-to-cad `watch` action.
+ * The request is a POST with the caller's Authorization header, so the stream is read with
+ * fetch rather than EventSource.
+ */
+export class EdgeFunctionProgressChannel implements GenerationProgressChannel {
+  readonly name = 'edge-function-sse';
+
+  constructor(private getEndpoint: () => Promise<EdgeFunctionEndpoint>) {}
+
+  canWatch(): boolean {
+    return typeof ReadableStream !== 'undefined' && typeof TextDecoder !== 'undefined';
+  }
+
+  async watch(jobId: string, onEvent: GenerationStatusListener, signal?: AbortSignal): Promise<GenerationStatusEvent | null> {
+    const { url, headers } = await this.getEndpoint();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Accept': 'text/event-stream' },
+      body: JSON.stringify({ action: 'watch', id: jobId }),
+      signal
+    });
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+      throw new Error(`Progress stream unavailable: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let lastEvent: GenerationStatusEvent | null = null;
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let separator = buffer.indexOf('\n\n');
+        while (separator !== -1) {
+          const rawEvent = buffer.slice(0, separator);
+          buffer = buffer.slice(separator + 2);
+          separator = buffer.indexOf('\n\n');
+
+          const parsed = this.parseEvent(rawEvent);
+          if (!parsed) continue;
+
+          if (parsed.event === 'error') {
+            throw new Error(`Progress stream error: ${parsed.data.message || 'unknown'}`);
+          }
+          if (parsed.event === 'status') {
+            lastEvent = {
+              jobId: parsed.data.jobId || jobId,
+              status: toGenerationStatus(parsed.data.status || 'queued'),
+              reason: parsed.data.reason,
+              code: parsed.data.code as GenerationErrorCode | undefined,
+              timestamp: parsed.data.timestamp || new Date().toISOString()
+            };
+            onEvent(lastEvent);
+            if (isTerminalStatus(lastEvent.status)) return lastEvent;
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+
+    return lastEvent;
+  }
+
+  private parseEvent(rawEvent: string): { event: string; data: Record<string, string | undefined> } | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+
+    if (dataLines.length === 0) return null;
+    try {
+      return { event, data: JSON.parse(dataLines.join('\n')) };
+    } catch {
+      console.warn('Ignoring malformed progress event:', rawEvent);
+      return null;
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for the server push channel.
+ * A producer registers a job and publishes its status events; watchers receive them in order,
+ * including any published before they subscribed.
+ */
+export class LocalProgressChannel implements GenerationProgressChannel {
+  readonly name = 'local';
+  private history = new Map<string, GenerationStatusEvent[]>();
+  private listeners = new Map<string, Set<GenerationStatusListener>>();
+
+  register(jobId: string): void {
+    if (!this.history.has(jobId)) this.history.set(jobId, []);
+  }
+
+  publish(event: GenerationStatusEvent): void {
+    this.register(event.jobId);
+    this.history.get(event.jobId)!.push(event);
+    this.listeners.get(event.jobId)?.forEach(listener => listener(event));
+  }
+
+  canWatch(jobId: string): boolean {
+    return this.history.has(jobId);
+  }
+
+  watch(jobId: string, onEvent: GenerationStatusListener, signal?: AbortSignal): Promise<GenerationStatusEvent | null> {
+    if (!this.canWatch(jobId)) {
+      return Promise.reject(new Error(`No local producer registered for job ${jobId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.listeners.get(jobId)?.delete(listener);
+        reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+      };
+
+      const finish = (event: GenerationStatusEvent) => {
+        this.listeners.get(jobId)?.delete(listener);
+        this.history.delete(jobId);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(event);
+      };
+
+      const listener: GenerationStatusListener = event => {
+        onEvent(event);
+        if (isTerminalStatus(event.status)) finish(event);
+      };
+
+      // Replay what was published before this watcher arrived
+      for (const event of this.history.get(jobId) || []) {
+        onEvent(event);
+        if (isTerminalStatus(event.status)) {
+          finish(event);
+          return;
+        }
+      }
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (!this.listeners.has(jobId)) this.listeners.set(jobId, new Set());
+      this.listeners.get(jobId)!.add(listener);
+    });
+  }
+}
+
+export const localProgressChannel = new LocalProgressChannel();
+
+export interface WaitOptions {
+  // Give up once the job has not finished after this long
+  timeoutMs: number;
+  // Polling fallback: first interval, growth per unchanged poll, and ceiling
+  initialIntervalMs: number;
+  backoffFactor: number;
+  maxIntervalMs: number;
+}
+
+export const DEFAULT_WAIT_OPTIONS: WaitOptions = {
+  timeoutMs: 180 * 1000,
+  initialIntervalMs: 1000,
+  backoffFactor: 1.5,
+  maxIntervalMs: 10 * 1000
+};
+
+/**
+ * Next polling delay: reset to the initial interval when the status moved, otherwise back off
+ */
+export const nextPollInterval = (currentMs: number, statusChanged: boolean, options: WaitOptions): number =>
+  statusChanged
+    ? options.initialIntervalMs
+    : Math.min(Math.round(currentMs * options.backoffFactor), options.maxIntervalMs);
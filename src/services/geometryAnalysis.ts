@@ -0,0 +1,606 @@
+// Geometry analysis for generated CAD models
+// Decodes glTF/GLB payloads and measures the actual mesh so that model
+// properties (and everything priced from them) reflect the real geometry.
+
+const GLB_MAGIC = 0x46546C67; // "glTF"
+const GLB_CHUNK_JSON = 0x4E4F534A; // "JSON"
+const GLB_CHUNK_BIN = 0x004E4942; // "BIN\0"
+
+const COMPONENT_TYPE_SIZES: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4  // FLOAT
+};
+
+const TYPE_COMPONENT_COUNTS: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT4: 16
+};
+
+const IDENTITY_MATRIX = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+// Minimal glTF 2.0 JSON shapes used by the analysis and exporters
+export interface GLTFAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+}
+
+export interface GLTFBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+export interface GLTFPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+export interface GLTFMesh {
+  name?: string;
+  primitives: GLTFPrimitive[];
+}
+
+export interface GLTFNode {
+  name?: string;
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+export interface GLTFJson {
+  asset?: { version: string; generator?: string };
+  scene?: number;
+  scenes?: Array<{ nodes?: number[] }>;
+  nodes?: GLTFNode[];
+  meshes?: GLTFMesh[];
+  accessors?: GLTFAccessor[];
+  bufferViews?: GLTFBufferView[];
+  buffers?: Array<{ byteLength: number; uri?: string }>;
+  materials?: Array<{ name?: string; pbrMetallicRoughness?: { baseColorFactor?: number[] } }>;
+  [key: string]: unknown;
+}
+
+export interface GLTFDocument {
+  json: GLTFJson;
+  buffers: ArrayBuffer[];
+}
+
+export interface TriangleMesh {
+  name: string;
+  nodeIndex: number;
+  meshIndex: number;
+  // Column-major world transform of the owning node
+  matrix: number[];
+  // Local-space vertex positions (xyz triplets)
+  positions: Float32Array;
+  // Triangle list indices into positions (always triangles, strips/fans are expanded)
+  indices: Uint32Array;
+  material?: number;
+}
+
+export interface BoundingBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export interface GeometryAnalysis {
+  boundingBox: BoundingBox;
+  dimensions: {
+    width: number;
+    height: number;
+    depth: number;
+  };
+  volume: number;
+  surfaceArea: number;
+  triangleCount: number;
+  meshCount: number;
+  complexityScore: number;
+  complexity: 'simple' | 'moderate' | 'complex';
+}
+
+/**
+ * Decode a base64 string into an ArrayBuffer
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Check whether a buffer starts with the GLB magic header
+ */
+export function isGLB(data: ArrayBuffer): boolean {
+  return data.byteLength >= 12 && new DataView(data).getUint32(0, true) === GLB_MAGIC;
+}
+
+/**
+ * Split a GLB container into its JSON and BIN chunks
+ */
+export function parseGLBContainer(data: ArrayBuffer): { json: GLTFJson; bin: ArrayBuffer | null } {
+  const view = new DataView(data);
+  if (view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Invalid GLB file format');
+  }
+
+  const length = Math.min(view.getUint32(8, true), data.byteLength);
+  let offset = 12;
+  let json: GLTFJson | null = null;
+  let bin: ArrayBuffer | null = null;
+
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkType === GLB_CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(new Uint8Array(data, chunkStart, chunkLength)));
+    } else if (chunkType === GLB_CHUNK_BIN && !bin) {
+      bin = data.slice(chunkStart, chunkStart + chunkLength);
+    }
+
+    // Chunks are 4-byte aligned
+    offset = chunkStart + Math.ceil(chunkLength / 4) * 4;
+  }
+
+  if (!json) {
+    throw new Error('Expected JSON chunk in GLB');
+  }
+
+  return { json, bin };
+}
+
+/**
+ * Resolve every buffer referenced by a glTF document into memory.
+ * Handles GLB binary chunks, embedded data URIs and (when a base URL is
+ * available) external .bin files.
+ */
+export async function loadGLTFDocument(source: ArrayBuffer | string | GLTFJson, baseUrl?: string): Promise<GLTFDocument> {
+  let json: GLTFJson;
+  let glbBin: ArrayBuffer | null = null;
+
+  if (source instanceof ArrayBuffer) {
+    if (isGLB(source)) {
+      const container = parseGLBContainer(source);
+      json = container.json;
+      glbBin = container.bin;
+    } else {
+      json = JSON.parse(new TextDecoder().decode(source));
+    }
+  } else if (typeof source === 'string') {
+    json = JSON.parse(source);
+  } else {
+    json = source;
+  }
+
+  const buffers: ArrayBuffer[] = [];
+  const bufferDefs = json.buffers || [];
+
+  for (let i = 0; i < bufferDefs.length; i++) {
+    const def = bufferDefs[i];
+
+    if (!def.uri) {
+      // GLB-stored buffer is always buffer 0 without a uri
+      if (!glbBin) {
+        throw new Error(`Buffer ${i} has no URI and no GLB binary chunk is available`);
+      }
+      buffers.push(glbBin);
+    } else if (def.uri.startsWith('data:')) {
+      buffers.push(base64ToArrayBuffer(def.uri.substring(def.uri.indexOf(',') + 1)));
+    } else {
+      if (!baseUrl || baseUrl.startsWith('blob:')) {
+        throw new Error(`Cannot resolve external buffer "${def.uri}" without a base URL`);
+      }
+      const response = await fetch(new URL(def.uri, baseUrl).toString());
+      if (!response.ok) {
+        throw new Error(`Failed to fetch buffer "${def.uri}": ${response.status}`);
+      }
+      buffers.push(await response.arrayBuffer());
+    }
+  }
+
+  return { json, buffers };
+}
+
+/**
+ * Fetch a model URL (blob or remote) and load it as a glTF document
+ */
+export async function loadGLTFDocumentFromUrl(url: string): Promise<GLTFDocument> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch model: ${response.status} ${response.statusText}`);
+  }
+  return loadGLTFDocument(await response.arrayBuffer(), url);
+}
+
+/**
+ * Read an accessor into a flat Float64Array, honouring byteStride and sparse-free layouts
+ */
+function readAccessor(doc: GLTFDocument, accessorIndex: number): { data: Float64Array; componentCount: number } {
+  const accessor = doc.json.accessors?.[accessorIndex];
+  if (!accessor) {
+    throw new Error(`Accessor ${accessorIndex} not found`);
+  }
+
+  const componentCount = TYPE_COMPONENT_COUNTS[accessor.type] || 1;
+  const componentSize = COMPONENT_TYPE_SIZES[accessor.componentType];
+  if (!componentSize) {
+    throw new Error(`Unsupported accessor component type ${accessor.componentType}`);
+  }
+
+  const data = new Float64Array(accessor.count * componentCount);
+
+  // Accessors without a bufferView are all zeros per the spec
+  if (accessor.bufferView === undefined) {
+    return { data, componentCount };
+  }
+
+  const bufferView = doc.json.bufferViews?.[accessor.bufferView];
+  if (!bufferView) {
+    throw new Error(`Buffer view ${accessor.bufferView} not found`);
+  }
+  const buffer = doc.buffers[bufferView.buffer];
+  if (!buffer) {
+    throw new Error(`Buffer ${bufferView.buffer} not loaded`);
+  }
+
+  const view = new DataView(buffer, bufferView.byteOffset || 0, bufferView.byteLength);
+  const elementSize = componentSize * componentCount;
+  const stride = bufferView.byteStride || elementSize;
+  const baseOffset = accessor.byteOffset || 0;
+
+  for (let i = 0; i < accessor.count; i++) {
+    const elementOffset = baseOffset + i * stride;
+    for (let c = 0; c < componentCount; c++) {
+      const offset = elementOffset + c * componentSize;
+      let value: number;
+      switch (accessor.componentType) {
+        case 5120: value = view.getInt8(offset); break;
+        case 5121: value = view.getUint8(offset); break;
+        case 5122: value = view.getInt16(offset, true); break;
+        case 5123: value = view.getUint16(offset, true); break;
+        case 5125: value = view.getUint32(offset, true); break;
+        default: value = view.getFloat32(offset, true);
+      }
+      data[i * componentCount + c] = value;
+    }
+  }
+
+  return { data, componentCount };
+}
+
+/**
+ * Multiply two column-major 4x4 matrices (a * b)
+ */
+export function multiplyMatrices(a: number[], b: number[]): number[] {
+  const result = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      result[col * 4 + row] = sum;
+    }
+  }
+  return result;
+}
+
+/**
+ * Build a column-major matrix from glTF translation / rotation (quaternion) / scale
+ */
+export function composeTRS(translation: number[], rotation: number[], scale: number[]): number[] {
+  const [x, y, z] = translation;
+  const [qx, qy, qz, qw] = rotation;
+  const [sx, sy, sz] = scale;
+
+  const x2 = qx + qx, y2 = qy + qy, z2 = qz + qz;
+  const xx = qx * x2, xy = qx * y2, xz = qx * z2;
+  const yy = qy * y2, yz = qy * z2, zz = qz * z2;
+  const wx = qw * x2, wy = qw * y2, wz = qw * z2;
+
+  return [
+    (1 - (yy + zz)) * sx, (xy + wz) * sx,       (xz - wy) * sx,       0,
+    (xy - wz) * sy,       (1 - (xx + zz)) * sy, (yz + wx) * sy,       0,
+    (xz + wy) * sz,       (yz - wx) * sz,       (1 - (xx + yy)) * sz, 0,
+    x,                    y,                    z,                    1
+  ];
+}
+
+/**
+ * Apply a column-major matrix to a point
+ */
+export function transformPoint(matrix: number[], x: number, y: number, z: number): [number, number, number] {
+  return [
+    matrix[0] * x + matrix[4] * y + matrix[8] * z + matrix[12],
+    matrix[1] * x + matrix[5] * y + matrix[9] * z + matrix[13],
+    matrix[2] * x + matrix[6] * y + matrix[10] * z + matrix[14]
+  ];
+}
+
+function nodeLocalMatrix(node: GLTFNode): number[] {
+  if (node.matrix) {
+    return node.matrix;
+  }
+  return composeTRS(
+    node.translation || [0, 0, 0],
+    node.rotation || [0, 0, 0, 1],
+    node.scale || [1, 1, 1]
+  );
+}
+
+function primitiveIndices(doc: GLTFDocument, primitive: GLTFPrimitive, vertexCount: number): Uint32Array {
+  let raw: ArrayLike<number>;
+  if (primitive.indices !== undefined) {
+    raw = readAccessor(doc, primitive.indices).data;
+  } else {
+    const sequential = new Uint32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) sequential[i] = i;
+    raw = sequential;
+  }
+
+  const mode = primitive.mode ?? 4;
+  if (mode === 4) {
+    const count = raw.length - (raw.length % 3);
+    return Uint32Array.from({ length: count }, (_, i) => raw[i]);
+  }
+
+  // Expand strips and fans into a plain triangle list
+  const triangles: number[] = [];
+  if (mode === 5) {
+    for (let i = 0; i + 2 < raw.length; i++) {
+      if (i % 2 === 0) {
+        triangles.push(raw[i], raw[i + 1], raw[i + 2]);
+      } else {
+        triangles.push(raw[i + 1], raw[i], raw[i + 2]);
+      }
+    }
+  } else if (mode === 6) {
+    for (let i = 1; i + 1 < raw.length; i++) {
+      triangles.push(raw[0], raw[i], raw[i + 1]);
+    }
+  }
+  return Uint32Array.from(triangles);
+}
+
+/**
+ * Walk the default scene and collect every triangle primitive with its world transform.
+ * Documents without scenes fall back to each mesh with an identity transform.
+ */
+export function extractTriangleMeshes(doc: GLTFDocument): TriangleMesh[] {
+  const { json } = doc;
+  const meshes: TriangleMesh[] = [];
+
+  const collectMesh = (meshIndex: number, nodeIndex: number, matrix: number[]) => {
+    const mesh = json.meshes?.[meshIndex];
+    if (!mesh?.primitives) return;
+
+    mesh.primitives.forEach((primitive, primitiveIndex) => {
+      const mode = primitive.mode ?? 4;
+      if (primitive.attributes?.POSITION === undefined || (mode !== 4 && mode !== 5 && mode !== 6)) {
+        return;
+      }
+
+      const { data } = readAccessor(doc, primitive.attributes.POSITION);
+      const positions = Float32Array.from(data);
+      meshes.push({
+        name: mesh.name || `mesh_${meshIndex}${mesh.primitives.length > 1 ? `_${primitiveIndex}` : ''}`,
+        nodeIndex,
+        meshIndex,
+        matrix,
+        positions,
+        indices: primitiveIndices(doc, primitive, positions.length / 3),
+        material: primitive.material
+      });
+    });
+  };
+
+  const visitNode = (nodeIndex: number, parentMatrix: number[], visited: Set<number>) => {
+    const node = json.nodes?.[nodeIndex];
+    if (!node || visited.has(nodeIndex)) return;
+    visited.add(nodeIndex);
+
+    const matrix = multiplyMatrices(parentMatrix, nodeLocalMatrix(node));
+    if (node.mesh !== undefined) {
+      collectMesh(node.mesh, nodeIndex, matrix);
+    }
+    for (const child of node.children || []) {
+      visitNode(child, matrix, visited);
+    }
+  };
+
+  const scene = json.scenes?.[json.scene ?? 0];
+  if (scene?.nodes?.length) {
+    const visited = new Set<number>();
+    for (const nodeIndex of scene.nodes) {
+      visitNode(nodeIndex, IDENTITY_MATRIX, visited);
+    }
+  } else {
+    (json.meshes || []).forEach((_, meshIndex) => collectMesh(meshIndex, -1, IDENTITY_MATRIX));
+  }
+
+  return meshes;
+}
+
+/**
+ * Iterate every world-space triangle of the given meshes
+ */
+export function forEachWorldTriangle(
+  meshes: TriangleMesh[],
+  callback: (a: [number, number, number], b: [number, number, number], c: [number, number, number], mesh: TriangleMesh) => void
+): void {
+  for (const mesh of meshes) {
+    const { positions, indices, matrix } = mesh;
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const ia = indices[i] * 3, ib = indices[i + 1] * 3, ic = indices[i + 2] * 3;
+      callback(
+        transformPoint(matrix, positions[ia], positions[ia + 1], positions[ia + 2]),
+        transformPoint(matrix, positions[ib], positions[ib + 1], positions[ib + 2]),
+        transformPoint(matrix, positions[ic], positions[ic + 1], positions[ic + 2]),
+        mesh
+      );
+    }
+  }
+}
+
+// How exporters place the model: fitted into the viewer's cube, or scaled into the export units
+export interface ExportPlacement {
+  // Fit the model into the cube ModelViewer3D shows it in, centred on the origin
+  useViewerScale?: boolean;
+  // Factor applied to world coordinates otherwise (unit conversion and export scale)
+  unitScale?: number;
+}
+
+// Edge length of the cube the viewer fits models into
+const VIEWER_SIZE = 4;
+
+/**
+ * Column-major scale and offset every exporter applies on top of the node transforms, so all
+ * formats carry identical geometry
+ */
+export function exportTransform(meshes: TriangleMesh[], placement: ExportPlacement): number[] {
+  if (!placement.useViewerScale) {
+    const s = placement.unitScale ?? 1;
+    return [s, 0, 0, 0, 0, s, 0, 0, 0, 0, s, 0, 0, 0, 0, 1];
+  }
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const { positions, matrix: m } of meshes) {
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+      for (let axis = 0; axis < 3; axis++) {
+        const value = m[axis] * x + m[axis + 4] * y + m[axis + 8] * z + m[axis + 12];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+  }
+
+  const maxDimension = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+  const s = maxDimension > 0 && Number.isFinite(maxDimension) ? VIEWER_SIZE / maxDimension : 1;
+  const center = [0, 1, 2].map(axis => (Number.isFinite(min[axis]) ? (min[axis] + max[axis]) / 2 : 0));
+  return [s, 0, 0, 0, 0, s, 0, 0, 0, 0, s, 0, -center[0] * s, -center[1] * s, -center[2] * s, 1];
+}
+
+/**
+ * Whether a column-major transform mirrors geometry (negative determinant of its linear part),
+ * which turns triangles inside out unless their winding is reversed
+ */
+export function mirrorsGeometry(m: number[]): boolean {
+  return m[0] * (m[5] * m[10] - m[9] * m[6]) -
+    m[4] * (m[1] * m[10] - m[9] * m[2]) +
+    m[8] * (m[1] * m[6] - m[5] * m[2]) < 0;
+}
+
+/**
+ * Score how involved a mesh is on a 0..1 scale from its tessellation density
+ * and how much surface it carries relative to its bounding box.
+ */
+function scoreComplexity(triangleCount: number, surfaceArea: number, dimensions: GeometryAnalysis['dimensions']): number {
+  const { width, height, depth } = dimensions;
+  const boxArea = 2 * (width * height + height * depth + width * depth);
+  const tessellation = Math.min(1, Math.log10(Math.max(triangleCount, 1)) / 5);
+  const surfaceRatio = boxArea > 0 ? surfaceArea / boxArea : 1;
+  const detail = Math.min(1, Math.max(0, (surfaceRatio - 0.5) / 2.5));
+  return Math.round((tessellation * 0.6 + detail * 0.4) * 100) / 100;
+}
+
+function classifyComplexity(score: number): GeometryAnalysis['complexity'] {
+  if (score < 0.4) return 'simple';
+  if (score < 0.7) return 'moderate';
+  return 'complex';
+}
+
+/**
+ * Measure bounding box, enclosed volume, surface area and complexity of a glTF document.
+ * Volume uses the signed tetrahedron sum, so it is exact for closed meshes and
+ * independent of triangle winding direction overall. Meshes placed by a mirroring transform
+ * come out inside out and are counted with their sign flipped, so they add to the rest.
+ */
+export function analyzeGeometry(doc: GLTFDocument): GeometryAnalysis {
+  const meshes = extractTriangleMeshes(doc);
+
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  let signedVolume = 0;
+  let surfaceArea = 0;
+  let triangleCount = 0;
+  const mirrored = new Set(meshes.filter(mesh => mirrorsGeometry(mesh.matrix)));
+
+  forEachWorldTriangle(meshes, (a, b, c, mesh) => {
+    for (const v of [a, b, c]) {
+      for (let k = 0; k < 3; k++) {
+        if (v[k] < min[k]) min[k] = v[k];
+        if (v[k] > max[k]) max[k] = v[k];
+      }
+    }
+
+    const e1x = b[0] - a[0], e1y = b[1] - a[1], e1z = b[2] - a[2];
+    const e2x = c[0] - a[0], e2y = c[1] - a[1], e2z = c[2] - a[2];
+    const cx = e1y * e2z - e1z * e2y;
+    const cy = e1z * e2x - e1x * e2z;
+    const cz = e1x * e2y - e1y * e2x;
+    surfaceArea += Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+
+    const tetrahedron = (
+      a[0] * (b[1] * c[2] - b[2] * c[1]) -
+      a[1] * (b[0] * c[2] - b[2] * c[0]) +
+      a[2] * (b[0] * c[1] - b[1] * c[0])
+    ) / 6;
+    signedVolume += mirrored.has(mesh) ? -tetrahedron : tetrahedron;
+
+    triangleCount++;
+  });
+
+  if (triangleCount === 0) {
+    throw new Error('No triangle geometry found in model');
+  }
+
+  const dimensions = {
+    width: max[0] - min[0],
+    height: max[1] - min[1],
+    depth: max[2] - min[2]
+  };
+  const complexityScore = scoreComplexity(triangleCount, surfaceArea, dimensions);
+
+  return {
+    boundingBox: { min, max },
+    dimensions,
+    volume: Math.abs(signedVolume),
+    surfaceArea,
+    triangleCount,
+    meshCount: meshes.length,
+    complexityScore,
+    complexity: classifyComplexity(complexityScore)
+  };
+}
+
+/**
+ * Convenience wrapper: fetch a model URL and analyze it
+ */
+export async function analyzeGeometryFromUrl(url: string): Promise<GeometryAnalysis> {
+  return analyzeGeometry(await loadGLTFDocumentFromUrl(url));
+}
@@ -0,0 +1,376 @@
+import { localProgressChannel, type GenerationProgressChannel, type GenerationStatus } from './generationProgress';
+import { GenerationError, OutputMissingError } from './generationErrors';
+import type { CADGenerationProvider, GenerationContext } from './cadProviders';
+import type { CADGenerationRequest, CADGenerationResponse } from './cadAI';
+
+/**
+ * Offline CAD generation provider.
+ *
+ * Picks a fixture model by matching keywords in the prompt (or, failing that, by hashing it),
+ * builds it as an embedded glTF and walks the job through queued → in_progress → completed on
+ * the local progress channel. The same prompt always yields the same geometry, so the wizard,
+ * export and analysis pipeline can be exercised without network access.
+ */
+
+// Time spent in each simulated job state
+const LOCAL_STEP_DELAY_MS = 600;
+
+type Vec3 = [number, number, number];
+
+// One mesh node of a fixture; dimensions are millimetres, Y is up
+interface FixturePart {
+  name: string;
+  positions: number[];
+  normals: number[];
+  indices: number[];
+  translation?: Vec3;
+  color: [number, number, number, number];
+}
+
+interface CADFixture {
+  id: string;
+  keywords: string[];
+  build: () => FixturePart[];
+}
+
+// Append a flat-shaded quad (corners in counter-clockwise order seen from outside)
+const pushQuad = (part: FixturePart, a: Vec3, b: Vec3, c: Vec3, d: Vec3) => {
+  pushTriangle(part, a, b, c);
+  pushTriangle(part, a, c, d);
+};
+
+const pushTriangle = (part: FixturePart, a: Vec3, b: Vec3, c: Vec3) => {
+  const ux = b[0] - a[0], uy = b[1] - a[1], uz = b[2] - a[2];
+  const vx = c[0] - a[0], vy = c[1] - a[1], vz = c[2] - a[2];
+  let nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+  const length = Math.hypot(nx, ny, nz) || 1;
+  nx /= length; ny /= length; nz /= length;
+
+  const base = part.positions.length / 3;
+  for (const vertex of [a, b, c]) {
+    part.positions.push(...vertex);
+    part.normals.push(nx, ny, nz);
+  }
+  part.indices.push(base, base + 1, base + 2);
+};
+
+const createPart = (name: string, color: FixturePart['color'], translation?: Vec3): FixturePart => ({
+  name, color, translation, positions: [], normals: [], indices: []
+});
+
+// Axis-aligned box centred on the origin
+const buildBox = (part: FixturePart, width: number, height: number, depth: number): FixturePart => {
+  const x = width / 2, y = height / 2, z = depth / 2;
+  pushQuad(part, [-x, -y, z], [x, -y, z], [x, y, z], [-x, y, z]);     // front
+  pushQuad(part, [x, -y, -z], [-x, -y, -z], [-x, y, -z], [x, y, -z]); // back
+  pushQuad(part, [x, -y, z], [x, -y, -z], [x, y, -z], [x, y, z]);     // right
+  pushQuad(part, [-x, -y, -z], [-x, -y, z], [-x, y, z], [-x, y, -z]); // left
+  pushQuad(part, [-x, y, z], [x, y, z], [x, y, -z], [-x, y, -z]);     // top
+  pushQuad(part, [-x, -y, -z], [x, -y, -z], [x, -y, z], [-x, -y, z]); // bottom
+  return part;
+};
+
+/**
+ * Extrude a closed outline in the XZ plane along Y. The outline must be counter-clockwise seen
+ * from above and star-shaped around the origin so the caps can be triangle fans from the centre.
+ */
+const buildExtrusion = (part: FixturePart, outline: Array<[number, number]>, height: number): FixturePart => {
+  const top = height / 2, bottom = -height / 2;
+  for (let i = 0; i < outline.length; i++) {
+    const [x0, z0] = outline[i];
+    const [x1, z1] = outline[(i + 1) % outline.length];
+    pushQuad(part, [x0, bottom, z0], [x1, bottom, z1], [x1, top, z1], [x0, top, z0]);
+    pushTriangle(part, [0, top, 0], [x0, top, z0], [x1, top, z1]);
+    pushTriangle(part, [0, bottom, 0], [x1, bottom, z1], [x0, bottom, z0]);
+  }
+  return part;
+};
+
+// Hollow cylinder (tube, washer) along Y
+const buildRing = (part: FixturePart, outerRadius: number, innerRadius: number, height: number, segments = 48): FixturePart => {
+  const top = height / 2, bottom = -height / 2;
+  for (let i = 0; i < segments; i++) {
+    const a0 = (i / segments) * Math.PI * 2;
+    const a1 = ((i + 1) / segments) * Math.PI * 2;
+    const o0: [number, number] = [Math.cos(a0) * outerRadius, -Math.sin(a0) * outerRadius];
+    const o1: [number, number] = [Math.cos(a1) * outerRadius, -Math.sin(a1) * outerRadius];
+    const i0: [number, number] = [Math.cos(a0) * innerRadius, -Math.sin(a0) * innerRadius];
+    const i1: [number, number] = [Math.cos(a1) * innerRadius, -Math.sin(a1) * innerRadius];
+
+    pushQuad(part, [o0[0], bottom, o0[1]], [o1[0], bottom, o1[1]], [o1[0], top, o1[1]], [o0[0], top, o0[1]]);
+    pushQuad(part, [i1[0], bottom, i1[1]], [i0[0], bottom, i0[1]], [i0[0], top, i0[1]], [i1[0], top, i1[1]]);
+    pushQuad(part, [i0[0], top, i0[1]], [o0[0], top, o0[1]], [o1[0], top, o1[1]], [i1[0], top, i1[1]]);
+    pushQuad(part, [i1[0], bottom, i1[1]], [o1[0], bottom, o1[1]], [o0[0], bottom, o0[1]], [i0[0], bottom, i0[1]]);
+  }
+  return part;
+};
+
+const circleOutline = (radius: number, segments = 48): Array<[number, number]> =>
+  Array.from({ length: segments }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return [Math.cos(angle) * radius, -Math.sin(angle) * radius];
+  });
+
+const gearOutline = (teeth: number, rootRadius: number, tipRadius: number): Array<[number, number]> => {
+  const points: Array<[number, number]> = [];
+  const pitch = (Math.PI * 2) / teeth;
+  for (let t = 0; t < teeth; t++) {
+    // Root, rising flank, tip land, falling flank
+    const profile: Array<[number, number]> = [[0, rootRadius], [0.3, tipRadius], [0.55, tipRadius], [0.85, rootRadius]];
+    for (const [fraction, radius] of profile) {
+      const angle = (t + fraction) * pitch;
+      points.push([Math.cos(angle) * radius, -Math.sin(angle) * radius]);
+    }
+  }
+  return points;
+};
+
+export const LOCAL_CAD_FIXTURES: CADFixture[] = [
+  {
+    id: 'gear',
+    keywords: ['gear', 'sprocket', 'cog', 'pinion'],
+    build: () => [buildExtrusion(createPart('Gear', [0.75, 0.75, 0.8, 1]), gearOutline(20, 18, 22), 8)]
+  },
+  {
+    id: 'bracket',
+    keywords: ['bracket', 'l-shape', 'angle', 'bookend', 'mount', 'stand'],
+    build: () => [
+      buildBox(createPart('Base', [0.55, 0.6, 0.7, 1], [0, 2.5, 0]), 80, 5, 40),
+      buildBox(createPart('Upright', [0.55, 0.6, 0.7, 1], [-37.5, 35, 0]), 5, 60, 40)
+    ]
+  },
+  {
+    id: 'tube',
+    keywords: ['pipe', 'tube', 'ring', 'washer', 'bushing', 'spacer', 'pot', 'cup', 'sleeve'],
+    build: () => [buildRing(createPart('Tube', [0.8, 0.55, 0.3, 1]), 20, 15, 40)]
+  },
+  {
+    id: 'cylinder',
+    keywords: ['cylinder', 'shaft', 'pin', 'rod', 'peg', 'knob', 'dowel'],
+    build: () => [buildExtrusion(createPart('Cylinder', [0.6, 0.7, 0.6, 1]), circleOutline(10), 50)]
+  },
+  {
+    id: 'plate',
+    keywords: ['plate', 'panel', 'sheet', 'base', 'tray', 'lid'],
+    build: () => [buildBox(createPart('Plate', [0.5, 0.65, 0.8, 1]), 100, 5, 60)]
+  },
+  {
+    id: 'block',
+    keywords: ['cube', 'block', 'box', 'enclosure', 'housing'],
+    build: () => [buildBox(createPart('Block', [0.7, 0.6, 0.5, 1]), 50, 50, 50)]
+  }
+];
+
+// Stable 32-bit FNV-1a hash so unmatched prompts still map to the same fixture every time
+const hashPrompt = (prompt: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const selectLocalFixture = (prompt: string): CADFixture => {
+  const normalized = prompt.toLowerCase();
+  const matched = LOCAL_CAD_FIXTURES.find(fixture =>
+    fixture.keywords.some(keyword => new RegExp(`\\b${keyword}`).test(normalized))
+  );
+  return matched || LOCAL_CAD_FIXTURES[hashPrompt(normalized.trim()) % LOCAL_CAD_FIXTURES.length];
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Serialise fixture parts as a glTF 2.0 document with its buffer embedded as a data URI
+ */
+export const buildFixtureGLTF = (parts: FixturePart[], title: string): string => {
+  const chunks: Uint8Array[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let byteLength = 0;
+
+  const addView = (data: Float32Array | Uint32Array, target: number) => {
+    chunks.push(new Uint8Array(data.buffer));
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+    byteLength += data.byteLength; // 4-byte components keep every view aligned
+    return bufferViews.length - 1;
+  };
+
+  const meshes = parts.map((part, index) => {
+    const positions = new Float32Array(part.positions);
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], positions[i + axis]);
+        max[axis] = Math.max(max[axis], positions[i + axis]);
+      }
+    }
+
+    accessors.push({ bufferView: addView(positions, 34962), componentType: 5126, count: positions.length / 3, type: 'VEC3', min, max });
+    accessors.push({ bufferView: addView(new Float32Array(part.normals), 34962), componentType: 5126, count: part.normals.length / 3, type: 'VEC3' });
+    accessors.push({ bufferView: addView(new Uint32Array(part.indices), 34963), componentType: 5125, count: part.indices.length, type: 'SCALAR' });
+
+    return {
+      name: part.name,
+      primitives: [{
+        attributes: { POSITION: index * 3, NORMAL: index * 3 + 1 },
+        indices: index * 3 + 2,
+        material: index,
+        mode: 4
+      }]
+    };
+  });
+
+  const buffer = new Uint8Array(byteLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'AgentiCAD local provider' },
+    extras: { title },
+    scene: 0,
+    scenes: [{ nodes: parts.map((_, index) => index) }],
+    nodes: parts.map((part, index) => ({
+      name: part.name,
+      mesh: index,
+      ...(part.translation && { translation: part.translation })
+    })),
+    meshes,
+    materials: parts.map(part => ({
+      name: `${part.name} Material`,
+      pbrMetallicRoughness: { baseColorFactor: part.color, metallicFactor: 0.1, roughnessFactor: 0.6 }
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength, uri: `data:application/octet-stream;base64,${bytesToBase64(buffer)}` }]
+  };
+
+  return JSON.stringify(gltf);
+};
+
+interface LocalJob {
+  id: string;
+  prompt: string;
+  status: GenerationStatus;
+  createdAt: string;
+  completedAt?: string;
+  error?: string;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+export class LocalCADProvider implements CADGenerationProvider {
+  readonly name = 'local';
+  readonly progressChannel: GenerationProgressChannel = localProgressChannel;
+  private jobs = new Map<string, LocalJob>();
+  // Job ids by idempotency key, so a repeated submission returns the first job
+  private jobsByKey = new Map<string, string>();
+  private sequence = 0;
+
+  async submit(request: CADGenerationRequest, _context?: GenerationContext, signal?: AbortSignal): Promise<CADGenerationResponse> {
+    signal?.throwIfAborted();
+
+    const existingId = request.idempotencyKey && this.jobsByKey.get(request.idempotencyKey);
+    if (existingId && this.jobs.has(existingId)) {
+      console.log(`🧩 Local provider returning job ${existingId} for a repeated submission`);
+      return this.toResponse(this.getJob(existingId));
+    }
+
+    const job: LocalJob = {
+      id: `local-${Date.now().toString(36)}-${++this.sequence}`,
+      prompt: request.prompt,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      timers: []
+    };
+    this.jobs.set(job.id, job);
+    if (request.idempotencyKey) this.jobsByKey.set(request.idempotencyKey, job.id);
+    console.log(`🧩 Local provider job ${job.id} → fixture "${selectLocalFixture(job.prompt).id}"`);
+
+    localProgressChannel.register(job.id);
+    this.advance(job, 'queued');
+    job.timers.push(
+      setTimeout(() => this.advance(job, 'in_progress'), LOCAL_STEP_DELAY_MS),
+      setTimeout(() => this.advance(job, 'completed'), LOCAL_STEP_DELAY_MS * 2)
+    );
+
+    return this.toResponse(job);
+  }
+
+  async getStatus(id: string): Promise<CADGenerationResponse> {
+    return this.toResponse(this.getJob(id));
+  }
+
+  async fetchOutputs(id: string): Promise<CADGenerationResponse> {
+    const job = this.getJob(id);
+    if (job.status !== 'completed') {
+      throw new OutputMissingError(`Local job ${id} has no outputs yet (${job.status})`);
+    }
+    return this.toResponse(job);
+  }
+
+  async convert(): Promise<{ download_url: string }> {
+    throw new GenerationError('invalid_request', 'The local provider only produces glTF. Use browser-based conversion instead.');
+  }
+
+  async cancel(id: string): Promise<{ cancelled: boolean; refunded: boolean }> {
+    const job = this.jobs.get(id);
+    if (!job || job.status === 'completed' || job.status === 'failed') {
+      return { cancelled: false, refunded: false };
+    }
+    job.timers.forEach(timer => clearTimeout(timer));
+    job.error = 'Generation was cancelled';
+    this.advance(job, 'failed');
+    // Nothing is metered server-side for local jobs
+    return { cancelled: true, refunded: false };
+  }
+
+  private advance(job: LocalJob, status: GenerationStatus) {
+    job.status = status;
+    if (status === 'completed' || status === 'failed') {
+      job.completedAt = new Date().toISOString();
+    }
+    localProgressChannel.publish({
+      jobId: job.id,
+      status,
+      reason: job.error,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private getJob(id: string): LocalJob {
+    const job = this.jobs.get(id);
+    if (!job) throw new GenerationError('not_found', `Unknown local generation job: ${id}`);
+    return job;
+  }
+
+  private toResponse(job: LocalJob): CADGenerationResponse {
+    let outputs: CADGenerationResponse['outputs'];
+    if (job.status === 'completed') {
+      const fixture = selectLocalFixture(job.prompt);
+      const gltf = buildFixtureGLTF(fixture.build(), job.prompt);
+      outputs = { 'source.gltf': bytesToBase64(new TextEncoder().encode(gltf)) };
+    }
+
+    return {
+      id: job.id,
+      status: job.status,
+      prompt: job.prompt,
+      outputs,
+      error: job.error,
+      created_at: job.createdAt,
+      completed_at: job.completedAt
+    };
+  }
+}
@@ -0,0 +1,360 @@
+import type { ArchitecturalModel, CADModelData } from '../types/architectural';
+import { cadAI } from './cadAI';
+import { exportService } from './exportService';
+import { modelStorage } from './modelStorage';
+import { renderPreviews } from './previewRenderer';
+import {
+  DEFAULT_MODEL_UNITS,
+  LENGTH_UNIT_NAMES,
+  convertArea,
+  convertLength,
+  convertVolume,
+  type LengthUnit
+} from './units';
+import { createZip, type ZipEntry } from './zipWriter';
+
+/**
+ * Manufacturer packages.
+ *
+ * A package is one ZIP with everything a manufacturer needs to quote and make a design: the
+ * model as STL, 3MF, OBJ and STEP in the ordered units, a spec sheet (JSON for their systems,
+ * HTML to read and print) with dimensions, materials, quantity, tolerances and the cost estimate,
+ * and preview renders. Packages are numbered per design; each version is recorded on the model
+ * (CADModelData.manufacturerPackages) and stored next to its files, so it can be downloaded
+ * again later exactly as it was sent.
+ */
+
+// What the manufacturer is asked to make
+export interface ManufacturerOrder {
+  quantity: number;
+  material: string;
+  // Id of a TOLERANCE_CLASSES entry
+  tolerance: string;
+  // Units of the model files and the spec sheet
+  units: LengthUnit;
+  notes?: string;
+}
+
+export interface ManufacturerPackageVersion {
+  version: number;
+  createdAt: string;
+  filename: string;
+  order: ManufacturerOrder;
+  estimatedCost: { unitCost: number; totalCost: number; currency: string };
+  // Paths inside the ZIP
+  files: string[];
+  // Storage path of the ZIP (see modelStorage.persistPackage); unset for unstored models
+  path?: string;
+}
+
+export interface ToleranceClass {
+  id: string;
+  label: string;
+  // General linear tolerance for features of 6-30 mm, in millimetres
+  linearMm: number;
+}
+
+// General tolerances of ISO 2768-1, the default for drawings without toleranced features
+export const TOLERANCE_CLASSES: ToleranceClass[] = [
+  { id: 'iso2768-f', label: 'ISO 2768-f (fine)', linearMm: 0.1 },
+  { id: 'iso2768-m', label: 'ISO 2768-m (medium)', linearMm: 0.2 },
+  { id: 'iso2768-c', label: 'ISO 2768-c (coarse)', linearMm: 0.5 },
+  { id: 'iso2768-v', label: 'ISO 2768-v (very coarse)', linearMm: 1 }
+];
+
+// Materials cadAI.estimateManufacturingCost prices
+export const PACKAGE_MATERIALS = ['PLA', 'ABS', 'PETG', 'Aluminum', 'Steel'];
+
+export const DEFAULT_ORDER: ManufacturerOrder = {
+  quantity: 1,
+  material: 'PLA',
+  tolerance: 'iso2768-m',
+  units: 'mm'
+};
+
+// Model files in the package; STL is the one every manufacturer takes, so it is required
+const PACKAGE_FORMATS = [
+  { id: 'stl', required: true },
+  { id: '3mf', required: false },
+  { id: 'obj', required: false },
+  { id: 'step', required: false }
+];
+
+const SPEC_SHEET_FORMAT = 'agenticad-manufacturer-spec/1';
+
+export type ManufacturingEstimate = Awaited<ReturnType<typeof cadAI.estimateManufacturingCost>>;
+
+export type PackageStepListener = (step: string) => void;
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'design';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Six significant digits, so small parts in large units keep their precision
+const round = (value: number) => Number(value.toPrecision(6));
+
+type SpecSheet = ReturnType<typeof buildSpecSheet>;
+
+function buildSpecSheet(
+  design: ArchitecturalModel,
+  cadModel: CADModelData,
+  order: ManufacturerOrder,
+  version: number,
+  createdAt: string,
+  cost: ManufacturerPackageVersion['estimatedCost'] & { material: string },
+  files: Array<{ path: string; format: string; bytes: number }>
+) {
+  const modelUnits = cadModel.units || DEFAULT_MODEL_UNITS;
+  const { dimensions, volume, surfaceArea, triangleCount } = cadModel.properties;
+  const tolerance = TOLERANCE_CLASSES.find(t => t.id === order.tolerance) ?? TOLERANCE_CLASSES[1];
+  const specs = design.productSpecs;
+
+  return {
+    format: SPEC_SHEET_FORMAT,
+    version,
+    createdAt,
+    design: {
+      id: cadModel.id,
+      name: specs?.name || design.name,
+      description: specs?.description || design.description,
+      prompt: cadModel.prompt
+    },
+    order: {
+      quantity: order.quantity,
+      material: order.material,
+      units: order.units,
+      notes: order.notes || ''
+    },
+    dimensions: {
+      units: order.units,
+      width: round(convertLength(dimensions.width, modelUnits, order.units)),
+      height: round(convertLength(dimensions.height, modelUnits, order.units)),
+      depth: round(convertLength(dimensions.depth, modelUnits, order.units)),
+      volume: round(convertVolume(volume, modelUnits, order.units)),
+      surfaceArea: round(convertArea(surfaceArea, modelUnits, order.units)),
+      triangleCount
+    },
+    tolerances: {
+      general: tolerance.label,
+      linear: round(convertLength(tolerance.linearMm, 'mm', order.units)),
+      units: order.units
+    },
+    materials: {
+      selected: order.material,
+      suggested: specs?.manufacturing?.materials ?? [],
+      method: specs?.manufacturing?.method ?? ''
+    },
+    components: (specs?.components ?? []).map(component => ({
+      name: String(component?.name ?? ''),
+      material: String(component?.material ?? ''),
+      ...(component?.color && { color: String(component.color) })
+    })),
+    estimatedCost: {
+      material: cost.material,
+      unitCost: cost.unitCost,
+      quantity: order.quantity,
+      totalCost: cost.totalCost,
+      currency: cost.currency
+    },
+    files
+  };
+}
+
+function specSheetHtml(sheet: SpecSheet, previews: string[]): string {
+  const { design, order, dimensions, tolerances, materials, estimatedCost } = sheet;
+  const row = (label: string, value: string | number) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`;
+  const unit = dimensions.units;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(design.name)} - Spec sheet v${sheet.version}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { width: 35%; color: #4b5563; font-weight: 600; }
+  .meta { color: #6b7280; }
+  .previews { display: grid; grid-template-columns: repeat(2, 1fr); gap: 0.75rem; }
+  .previews img { width: 100%; border: 1px solid #e5e7eb; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(design.name)}</h1>
+<p class="meta">Spec sheet v${sheet.version} &middot; ${escapeHtml(new Date(sheet.createdAt).toLocaleString())} &middot; Design ${escapeHtml(design.id)}</p>
+<p>${escapeHtml(design.description || design.prompt)}</p>
+
+<h2>Order</h2>
+<table>
+${row('Quantity', order.quantity)}
+${row('Material', order.material)}
+${row('Manufacturing method', materials.method || 'Manufacturer\'s choice')}
+${row('Suggested materials', materials.suggested.join(', ') || '-')}
+${row('Units', `${LENGTH_UNIT_NAMES[unit]} (${unit})`)}
+${order.notes ? row('Notes', order.notes) : ''}
+</table>
+
+<h2>Dimensions</h2>
+<table>
+${row('Overall size (W × H × D)', `${dimensions.width} × ${dimensions.height} × ${dimensions.depth} ${unit}`)}
+${row('Volume', `${dimensions.volume} ${unit}³`)}
+${row('Surface area', `${dimensions.surfaceArea} ${unit}²`)}
+${row('Mesh triangles', dimensions.triangleCount.toLocaleString())}
+</table>
+
+<h2>Tolerances</h2>
+<table>
+${row('General tolerance', tolerances.general)}
+${row('Linear (6-30 mm features)', `±${tolerances.linear} ${unit}`)}
+</table>
+${sheet.components.length > 0 ? `
+<h2>Components</h2>
+<table>
+${sheet.components.map(component => row(component.name || 'Part', [component.material, component.color].filter(Boolean).join(', ') || '-')).join('\n')}
+</table>
+` : ''}
+<h2>Cost estimate</h2>
+<table>
+${row('Per unit', `${estimatedCost.unitCost.toFixed(2)} ${estimatedCost.currency}`)}
+${row(`Total (${estimatedCost.quantity} ×)`, `${estimatedCost.totalCost.toFixed(2)} ${estimatedCost.currency}`)}
+</table>
+
+<h2>Files</h2>
+<table>
+${sheet.files.map(file => row(file.path, `${file.format.toUpperCase()}, ${(file.bytes / 1024).toFixed(1)} KB`)).join('\n')}
+</table>
+${previews.length > 0 ? `
+<h2>Previews</h2>
+<div class="previews">
+${previews.map(path => `<img src="${escapeHtml(path)}" alt="${escapeHtml(path)}">`).join('\n')}
+</div>
+` : ''}
+</body>
+</html>
+`;
+}
+
+class ManufacturerPackageService {
+  // Object URLs of packages of models that are not stored, for re-download during this session
+  private sessionPackages = new Map<string, string>();
+
+  /**
+   * Build the next package version of a design. Returns the ZIP, the version record to add to
+   * the model's manufacturerPackages and the per-unit cost estimate. Throws for models without
+   * measured dimensions.
+   */
+  async createPackage(
+    design: ArchitecturalModel,
+    order: ManufacturerOrder,
+    onStep?: PackageStepListener
+  ): Promise<{ blob: Blob; record: ManufacturerPackageVersion; estimate: ManufacturingEstimate }> {
+    if (!design.cadModel) {
+      throw new Error('No CAD model available');
+    }
+    // A spec sheet with zero dimensions would be quoted and made wrong
+    const { dimensions, analysisFailed } = design.cadModel.properties ?? {};
+    if (analysisFailed || !dimensions || !(dimensions.width > 0 && dimensions.height > 0 && dimensions.depth > 0)) {
+      throw new Error('The model could not be measured, so it cannot be sent to a manufacturer. Generate it again and retry.');
+    }
+    const cadModel = await modelStorage.refreshUrls(design.cadModel);
+    const version = Math.max(0, ...(cadModel.manufacturerPackages ?? []).map(p => p.version)) + 1;
+    const createdAt = new Date().toISOString();
+    const name = design.productSpecs?.name || design.name || 'design';
+    const baseName = slugify(name);
+    console.log(`📦 Building manufacturer package v${version} of model ${cadModel.id}...`);
+
+    onStep?.('Estimating cost...');
+    const estimate = await cadAI.estimateManufacturingCost(cadModel, order.material);
+    const cost = {
+      material: estimate.material,
+      unitCost: estimate.cost,
+      totalCost: Math.round(estimate.cost * order.quantity * 100) / 100,
+      currency: estimate.currency
+    };
+
+    const entries: ZipEntry[] = [];
+    const files: Array<{ path: string; format: string; bytes: number }> = [];
+    for (const { id, required } of PACKAGE_FORMATS) {
+      const format = exportService.get(id);
+      if (!format) continue;
+      onStep?.(`Writing ${format.name}...`);
+      try {
+        const result = await exportService.exportModel(cadModel, id, {
+          units: order.units,
+          title: name,
+          components: design.productSpecs?.components,
+          baseName
+        });
+        if (!result.blob) continue;
+        URL.revokeObjectURL(result.downloadUrl);
+        const path = `models/${result.filename}`;
+        entries.push({ path, data: await result.blob.arrayBuffer() });
+        files.push({ path, format: id, bytes: result.blob.size });
+      } catch (error) {
+        if (required) throw error;
+        console.warn(`⚠️ Leaving ${format.name} out of the manufacturer package:`, error);
+      }
+    }
+
+    onStep?.('Rendering previews...');
+    const previews: string[] = [];
+    try {
+      for (const image of await renderPreviews(cadModel.gltfUrl)) {
+        const path = `previews/${image.name}.png`;
+        entries.push({ path, data: await image.blob.arrayBuffer() });
+        previews.push(path);
+      }
+    } catch (error) {
+      console.warn('⚠️ Preview renders unavailable, packaging without them:', error);
+    }
+
+    const sheet = buildSpecSheet(design, cadModel, order, version, createdAt, cost, files);
+    entries.push(
+      { path: 'spec-sheet.json', data: JSON.stringify(sheet, null, 2) },
+      { path: 'spec-sheet.html', data: specSheetHtml(sheet, previews) }
+    );
+
+    onStep?.('Packaging...');
+    const blob = createZip(entries);
+    const filename = `${baseName}_manufacturer_v${version}.zip`;
+    const path = await modelStorage.persistPackage(cadModel, version, blob);
+    if (!path) {
+      this.sessionPackages.set(`${cadModel.id}_v${version}`, URL.createObjectURL(blob));
+    }
+
+    console.log(`✅ Manufacturer package v${version} ready: ${entries.length} files, ${blob.size} bytes`);
+    return {
+      blob,
+      estimate,
+      record: {
+        version,
+        createdAt,
+        filename,
+        order,
+        estimatedCost: { unitCost: cost.unitCost, totalCost: cost.totalCost, currency: cost.currency },
+        files: entries.map(entry => entry.path),
+        ...(path && { path })
+      }
+    };
+  }
+
+  /**
+   * URL to download an earlier package version from, or null when it was neither stored nor
+   * built during this session
+   */
+  async downloadUrl(cadModel: CADModelData, record: ManufacturerPackageVersion): Promise<string | null> {
+    if (record.path) {
+      return modelStorage.storedFileUrl(cadModel, record.path);
+    }
+    return this.sessionPackages.get(`${cadModel.id}_v${record.version}`) ?? null;
+  }
+}
+
+export const manufacturerPackageService = new ManufacturerPackageService();
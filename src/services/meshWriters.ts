@@ -0,0 +1,106 @@
+import { mirrorsGeometry, multiplyMatrices, type TriangleMesh } from './geometryAnalysis';
+import { addUnitMetadata, type LengthUnit } from './units';
+
+// Text writers for the interchange formats (OBJ, ASCII PLY). Like the STL and 3MF writers they
+// take the triangles decoded from the glTF accessors and place them with the shared export
+// transform, so every format carries the same geometry.
+
+export interface PlacedMesh {
+  name: string;
+  // World-space positions after the export transform
+  positions: Float64Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Apply the export transform and node transforms to the meshes, keeping mirrored faces outward
+ */
+export function placeMeshes(meshes: TriangleMesh[], transform: number[]): PlacedMesh[] {
+  return meshes.map(({ name, positions, indices, matrix }) => {
+    const m = multiplyMatrices(transform, matrix);
+    const placed = new Float64Array(positions.length);
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+      for (let axis = 0; axis < 3; axis++) {
+        placed[i + axis] = m[axis] * x + m[axis + 4] * y + m[axis + 8] * z + m[axis + 12];
+      }
+    }
+
+    // Reverse the winding of mirrored meshes so their faces keep pointing out
+    let placedIndices = indices;
+    if (mirrorsGeometry(m)) {
+      placedIndices = indices.slice();
+      for (let i = 0; i + 2 < placedIndices.length; i += 3) {
+        placedIndices[i + 1] = indices[i + 2];
+        placedIndices[i + 2] = indices[i + 1];
+      }
+    }
+    return { name, positions: placed, indices: placedIndices };
+  });
+}
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(7)));
+
+/**
+ * Write the meshes as Wavefront OBJ, one object per mesh, with the units in a comment
+ */
+export function writeOBJ(meshes: TriangleMesh[], transform: number[], units: LengthUnit): Blob {
+  const parts: string[] = [];
+  let base = 1;
+  for (const { name, positions, indices } of placeMeshes(meshes, transform)) {
+    const lines = [`o ${name.replace(/\s+/g, '_')}`];
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      lines.push(`v ${formatNumber(positions[i])} ${formatNumber(positions[i + 1])} ${formatNumber(positions[i + 2])}`);
+    }
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      lines.push(`f ${base + indices[i]} ${base + indices[i + 1]} ${base + indices[i + 2]}`);
+    }
+    parts.push(lines.join('\n') + '\n');
+    base += positions.length / 3;
+  }
+  return new Blob([addUnitMetadata('obj', parts.join(''), units)], { type: 'text/plain' });
+}
+
+/**
+ * Write the meshes as ASCII PLY, merged into one vertex and face list, with the units in a
+ * header comment
+ */
+export function writePLY(meshes: TriangleMesh[], transform: number[], units: LengthUnit): Blob {
+  const placed = placeMeshes(meshes, transform);
+  const vertexCount = placed.reduce((sum, mesh) => sum + mesh.positions.length / 3, 0);
+  const faceCount = placed.reduce((sum, mesh) => sum + Math.floor(mesh.indices.length / 3), 0);
+
+  const header = [
+    'ply',
+    'format ascii 1.0',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header'
+  ].join('\n') + '\n';
+
+  const vertexParts: string[] = [];
+  const faceParts: string[] = [];
+  let base = 0;
+  for (const { positions, indices } of placed) {
+    const vertexLines: string[] = [];
+    for (let i = 0; i + 2 < positions.length; i += 3) {
+      vertexLines.push(`${formatNumber(positions[i])} ${formatNumber(positions[i + 1])} ${formatNumber(positions[i + 2])}\n`);
+    }
+    const faceLines: string[] = [];
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      faceLines.push(`3 ${base + indices[i]} ${base + indices[i + 1]} ${base + indices[i + 2]}\n`);
+    }
+    vertexParts.push(vertexLines.join(''));
+    faceParts.push(faceLines.join(''));
+    base += positions.length / 3;
+  }
+
+  return new Blob(
+    [addUnitMetadata('ply', header, units), ...vertexParts, ...faceParts],
+    { type: 'application/octet-stream' }
+  );
+}
@@ -0,0 +1,348 @@
+import { supabase } from '../lib/supabase';
+import type { LengthUnit } from './units';
+
+/**
+ * Durable storage for generated model files.
+ *
+ * Generated glTF/GLB outputs, thumbnails and converted exports are uploaded under
+ * `<user id>/<model id>/` in the private cad-models bucket, where storage policies only let the
+ * owner read or write. Models reference their files by storage path (CADModel.storage) and carry
+ * signed URLs that expire, so saved models are re-signed with refreshUrls before use. The local
+ * backend keeps files in IndexedDB so the app works offline and without a Supabase project.
+ */
+
+export const MODEL_STORAGE_BUCKET = 'cad-models';
+
+// Signed URLs stay valid for a day; refreshUrls issues new ones after that
+const SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+// Re-sign a little before expiry so a URL does not lapse while a model is loading
+const SIGNED_URL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Storage paths of a model's files, saved with the model in place of its (expiring) URLs
+export interface StoredModelFiles {
+  backend: string;
+  model: string;
+  thumbnail?: string;
+  // Converted exports by format and units, e.g. { stl_in: '<user>/<model>/exports/model-in.stl' }
+  exports: Record<string, string>;
+}
+
+// The parts of a model this service reads and rewrites
+export interface StorableModel {
+  id: string;
+  gltfUrl: string;
+  thumbnailUrl?: string;
+  formats: Record<string, string>;
+  storage?: StoredModelFiles;
+}
+
+export interface ModelStorageBackend {
+  readonly name: string;
+  /** Folder the current user may write to, or null when nobody is signed in */
+  ownerFolder(): Promise<string | null>;
+  upload(path: string, file: Blob): Promise<void>;
+  /** URL the browser can load the file from, valid for about ttlSeconds */
+  signedUrl(path: string, ttlSeconds: number): Promise<string>;
+}
+
+/**
+ * Supabase Storage; uploads run with the user's session so the bucket policies apply
+ */
+export class SupabaseModelStorage implements ModelStorageBackend {
+  readonly name = 'supabase';
+
+  async ownerFolder(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  async upload(path: string, file: Blob): Promise<void> {
+    const { error } = await supabase.storage
+      .from(MODEL_STORAGE_BUCKET)
+      .upload(path, file, { contentType: file.type || 'application/octet-stream', upsert: true });
+    if (error) throw error;
+  }
+
+  async signedUrl(path: string, ttlSeconds: number): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(MODEL_STORAGE_BUCKET)
+      .createSignedUrl(path, ttlSeconds);
+    if (error || !data) throw error || new Error(`No signed URL for ${path}`);
+    return data.signedUrl;
+  }
+}
+
+/**
+ * IndexedDB stand-in for Supabase Storage. "Signed" URLs are object URLs of the stored blobs,
+ * valid until the page is closed.
+ */
+export class LocalModelStorage implements ModelStorageBackend {
+  readonly name = 'local';
+  private dbName = 'agenticad-model-files';
+  private db: Promise<IDBDatabase> | null = null;
+  private objectUrls = new Map<string, string>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains('files')) {
+            request.result.createObjectStore('files');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  async ownerFolder(): Promise<string | null> {
+    return 'local';
+  }
+
+  async upload(path: string, file: Blob): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction('files', 'readwrite');
+      transaction.objectStore('files').put(file, path);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    // A re-uploaded file needs a new object URL
+    const previous = this.objectUrls.get(path);
+    if (previous) {
+      URL.revokeObjectURL(previous);
+      this.objectUrls.delete(path);
+    }
+  }
+
+  async signedUrl(path: string): Promise<string> {
+    const cached = this.objectUrls.get(path);
+    if (cached) return cached;
+
+    const db = await this.open();
+    const file = await new Promise<Blob | undefined>((resolve, reject) => {
+      const request = db.transaction('files', 'readonly').objectStore('files').get(path);
+      request.onsuccess = () => resolve(request.result as Blob | undefined);
+      request.onerror = () => reject(request.error);
+    });
+    if (!file) throw new Error(`Stored model file not found: ${path}`);
+
+    const url = URL.createObjectURL(file);
+    this.objectUrls.set(path, url);
+    return url;
+  }
+}
+
+// GLB files start with the ASCII magic "glTF"
+const isBinaryGLTF = async (file: Blob) =>
+  new TextDecoder().decode(await file.slice(0, 4).arrayBuffer()) === 'glTF';
+
+const fetchBlob = async (url: string): Promise<Blob> => {
+  if (url.startsWith('data:') || url.startsWith('blob:') || url.startsWith('http')) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch ${url.substring(0, 100)}: ${response.status}`);
+    return response.blob();
+  }
+  // Zoo returns thumbnails as bare base64
+  return new Blob([Uint8Array.from(atob(url), c => c.charCodeAt(0))], { type: 'image/png' });
+};
+
+const extensionFor = (file: Blob, fallback: string) => {
+  const subtype = file.type.split('/')[1];
+  return subtype && /^[a-z0-9]+$/.test(subtype) ? subtype : fallback;
+};
+
+class ModelStorageService {
+  // Expiry of every URL this service signed during this page load
+  private issuedUrls = new Map<string, number>();
+
+  constructor(private backend: ModelStorageBackend) {}
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  private async sign(path: string): Promise<string> {
+    const url = await this.backend.signedUrl(path, SIGNED_URL_TTL_SECONDS);
+    this.issuedUrls.set(url, Date.now() + SIGNED_URL_TTL_SECONDS * 1000);
+    return url;
+  }
+
+  /** Whether a URL was signed during this page load and has not expired yet */
+  isLive(url: string | undefined): boolean {
+    const expiresAt = url ? this.issuedUrls.get(url) : undefined;
+    return expiresAt !== undefined && expiresAt - Date.now() > SIGNED_URL_REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Upload a freshly generated model (and its thumbnail) and point its URLs at the stored
+   * copies. Returns the model unchanged when nobody is signed in or the upload fails, so the
+   * session keeps working with its temporary URLs.
+   */
+  async persistModel<T extends StorableModel>(model: T): Promise<T> {
+    try {
+      const owner = await this.backend.ownerFolder();
+      if (!owner) {
+        console.log('💾 Not signed in, keeping model in memory only');
+        return model;
+      }
+
+      const folder = `${owner}/${model.id}`;
+      const modelFile = await fetchBlob(model.gltfUrl);
+      const binary = await isBinaryGLTF(modelFile);
+      const modelPath = `${folder}/model.${binary ? 'glb' : 'gltf'}`;
+      await this.backend.upload(modelPath, new Blob([modelFile], {
+        type: binary ? 'model/gltf-binary' : 'model/gltf+json'
+      }));
+
+      let thumbnailPath: string | undefined;
+      if (model.thumbnailUrl) {
+        try {
+          const thumbnail = await fetchBlob(model.thumbnailUrl);
+          thumbnailPath = `${folder}/thumbnail.${extensionFor(thumbnail, 'png')}`;
+          await this.backend.upload(thumbnailPath, thumbnail);
+        } catch (error) {
+          console.warn('Failed to store model thumbnail:', error);
+          thumbnailPath = undefined;
+        }
+      }
+
+      const gltfUrl = await this.sign(modelPath);
+      const thumbnailUrl = thumbnailPath ? await this.sign(thumbnailPath) : model.thumbnailUrl;
+      console.log(`💾 Stored model ${model.id} in ${this.backend.name} storage:`, modelPath);
+
+      // The temporary object URL is no longer referenced
+      if (model.gltfUrl.startsWith('blob:')) URL.revokeObjectURL(model.gltfUrl);
+
+      return {
+        ...model,
+        gltfUrl,
+        thumbnailUrl,
+        formats: {
+          ...model.formats,
+          gltf: gltfUrl,
+          ...(thumbnailUrl && { thumbnail: thumbnailUrl })
+        },
+        storage: {
+          backend: this.backend.name,
+          model: modelPath,
+          ...(thumbnailPath && { thumbnail: thumbnailPath }),
+          exports: model.storage?.exports || {}
+        }
+      };
+    } catch (error) {
+      console.warn('Failed to store model files, using temporary URLs:', error);
+      return model;
+    }
+  }
+
+  // Folder of a stored model's files on this backend, or null when it is not stored here
+  private folderOf(model: StorableModel): string | null {
+    if (!model.storage || model.storage.backend !== this.backend.name) return null;
+    return model.storage.model.substring(0, model.storage.model.lastIndexOf('/'));
+  }
+
+  /**
+   * Store a converted export of a stored model. Returns its signed URL, storage path and the
+   * model's storage record with the export added (for the caller to save with the model), or
+   * null when the model is not stored (the caller keeps using its own object URL).
+   */
+  async persistExport(
+    model: StorableModel,
+    format: string,
+    units: LengthUnit,
+    file: Blob
+  ): Promise<{ url: string; path: string; storage: StoredModelFiles } | null> {
+    const folder = this.folderOf(model);
+    if (!folder || !model.storage) return null;
+    try {
+      const path = `${folder}/exports/model-${units}.${format}`;
+      await this.backend.upload(path, file);
+      const url = await this.sign(path);
+      console.log(`💾 Stored ${format.toUpperCase()} (${units}) export of model ${model.id}:`, path);
+      return {
+        url,
+        path,
+        storage: { ...model.storage, exports: { ...model.storage.exports, [`${format}_${units}`]: path } }
+      };
+    } catch (error) {
+      console.warn(`Failed to store ${format} export:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a version of a stored model's manufacturer package next to the model. Returns its
+   * storage path, or null when the model is not stored or the upload fails.
+   */
+  async persistPackage(model: StorableModel, version: number, file: Blob): Promise<string | null> {
+    const folder = this.folderOf(model);
+    if (!folder) return null;
+    try {
+      const path = `${folder}/packages/v${version}.zip`;
+      await this.backend.upload(path, file);
+      console.log(`💾 Stored manufacturer package v${version} of model ${model.id}:`, path);
+      return path;
+    } catch (error) {
+      console.warn(`Failed to store manufacturer package v${version}:`, error);
+      return null;
+    }
+  }
+
+  /** Signed URL of a file stored with the model, or null when the model is not stored here */
+  async storedFileUrl(model: StorableModel, path: string): Promise<string | null> {
+    const folder = this.folderOf(model);
+    return folder && path.startsWith(`${folder}/`) ? this.sign(path) : null;
+  }
+
+  /**
+   * Fresh signed URLs for a stored model whose URLs expired or come from an earlier session.
+   * Models without stored files are returned as they are.
+   */
+  async refreshUrls<T extends StorableModel>(model: T): Promise<T> {
+    const { storage } = model;
+    if (!storage || storage.backend !== this.backend.name || this.isLive(model.gltfUrl)) return model;
+
+    try {
+      const gltfUrl = await this.sign(storage.model);
+      const thumbnailUrl = storage.thumbnail ? await this.sign(storage.thumbnail) : model.thumbnailUrl;
+      const exports: Record<string, string> = {};
+      for (const [format, path] of Object.entries(storage.exports)) {
+        exports[format] = await this.sign(path);
+      }
+
+      return {
+        ...model,
+        gltfUrl,
+        thumbnailUrl,
+        formats: {
+          ...model.formats,
+          ...exports,
+          gltf: gltfUrl,
+          ...(thumbnailUrl && { thumbnail: thumbnailUrl })
+        }
+      };
+    } catch (error) {
+      console.error('Failed to refresh stored model URLs:', error);
+      return model;
+    }
+  }
+}
+
+/**
+ * Backend for a configured name: 'local' for IndexedDB, Supabase Storage otherwise
+ */
+export const createModelStorageBackend = (name?: string): ModelStorageBackend => {
+  if (name === 'local') return new LocalModelStorage();
+  return new SupabaseModelStorage();
+};
+
+// Offline generation stores its models offline too unless configured otherwise
+export const modelStorage = new ModelStorageService(createModelStorageBackend(
+  import.meta.env.VITE_MODEL_STORAGE || (import.meta.env.VITE_CAD_PROVIDER === 'local' ? 'local' : 'supabase')
+));
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { extractTriangleMeshes, loadGLTFDocumentFromUrl } from './geometryAnalysis';
+
+// Still renders of a model for spec sheets and packages. The geometry is decoded from the glTF
+// accessors like every export, so the previews show exactly what the exported files contain.
+
+export interface PreviewView {
+  name: string;
+  // Direction from the model's centre towards the camera
+  direction: [number, number, number];
+  // Camera up vector, +Y when unset
+  up?: [number, number, number];
+}
+
+export interface PreviewImage {
+  name: string;
+  blob: Blob;
+}
+
+export const PREVIEW_VIEWS: PreviewView[] = [
+  { name: 'isometric', direction: [1, 0.8, 1] },
+  { name: 'front', direction: [0, 0, 1] },
+  { name: 'side', direction: [1, 0, 0] },
+  { name: 'top', direction: [0, 1, 0], up: [0, 0, -1] }
+];
+
+const PREVIEW_SIZE = 800;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Preview capture failed'))), 'image/png')
+  );
+
+/**
+ * Render PNG views of a glTF/GLB model on a white background. Needs WebGL; throws without it.
+ */
+export async function renderPreviews(url: string, views: PreviewView[] = PREVIEW_VIEWS): Promise<PreviewImage[]> {
+  const meshes = extractTriangleMeshes(await loadGLTFDocumentFromUrl(url));
+  if (meshes.length === 0) {
+    throw new Error('No meshes found in model');
+  }
+
+  const canvas = document.createElement('canvas');
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, preserveDrawingBuffer: true });
+  const scene = new THREE.Scene();
+  const material = new THREE.MeshStandardMaterial({ color: 0x8a9bb0, metalness: 0.1, roughness: 0.6, side: THREE.DoubleSide });
+  const geometries: THREE.BufferGeometry[] = [];
+
+  try {
+    renderer.setSize(PREVIEW_SIZE, PREVIEW_SIZE, false);
+    renderer.setClearColor(0xffffff, 1);
+    scene.add(new THREE.AmbientLight(0xffffff, 0.6));
+    const light = new THREE.DirectionalLight(0xffffff, 0.9);
+    scene.add(light);
+
+    for (const { positions, indices, matrix } of meshes) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+      geometry.computeVertexNormals();
+      geometries.push(geometry);
+
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.matrixAutoUpdate = false;
+      mesh.matrix.fromArray(matrix);
+      scene.add(mesh);
+    }
+    scene.updateMatrixWorld(true);
+
+    const bounds = new THREE.Box3().setFromObject(scene);
+    const center = bounds.getCenter(new THREE.Vector3());
+    const radius = Math.max(bounds.getBoundingSphere(new THREE.Sphere()).radius, 1e-6);
+    const camera = new THREE.PerspectiveCamera(30, 1, radius / 100, radius * 100);
+    // Far enough back for the bounding sphere to fill most of the frame
+    const distance = radius / Math.sin(THREE.MathUtils.degToRad(camera.fov / 2)) * 1.1;
+
+    const images: PreviewImage[] = [];
+    for (const view of views) {
+      const direction = new THREE.Vector3(...view.direction).normalize();
+      camera.position.copy(center).addScaledVector(direction, distance);
+      camera.up.fromArray(view.up ?? [0, 1, 0]);
+      camera.lookAt(center);
+      light.position.copy(camera.position).add(new THREE.Vector3(radius, radius * 2, 0));
+      renderer.render(scene, camera);
+      images.push({ name: view.name, blob: await canvasToBlob(canvas) });
+    }
+    return images;
+  } finally {
+    geometries.forEach(geometry => geometry.dispose());
+    material.dispose();
+    renderer.dispose();
+  }
+}
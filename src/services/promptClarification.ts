@@ -0,0 +1,123 @@
+import type { PromptSpec } from './promptSpecs';
+import type { LengthUnit } from './units';
+
+/**
+ * Questions asked before generation when a prompt leaves out details the CAD model needs
+ * (overall size, wall thickness, hole sizes, mounting method). The answers are appended to the
+ * prompt as plain phrases, so the composed prompt goes through enhancement and dimension
+ * verification like a typed one.
+ */
+
+export type ClarificationTopic = 'overall_size' | 'wall_thickness' | 'hole_size' | 'mounting';
+
+export interface ClarifyingQuestion {
+  topic: ClarificationTopic;
+  question: string;
+  // Why the question is asked, shown under it
+  reason: string;
+  field: 'size' | 'length' | 'choice';
+  options?: string[];
+}
+
+export interface SizeAnswer {
+  width?: number;
+  length?: number;
+  height?: number;
+}
+
+export type ClarificationAnswers = Partial<{
+  overall_size: SizeAnswer;
+  wall_thickness: number;
+  hole_size: number;
+  mounting: string;
+}>;
+
+export const MOUNTING_OPTIONS = ['screws', 'bolts', 'adhesive', 'snap-fit clips', 'magnets', 'free-standing'];
+
+// Parts that are hollow, so their wall thickness matters
+const HOLLOW_PART = /\b(enclosure|case|housing|box|shell|cover|container|tube|pipe|cup|bowl|vase|pot|planter|tray|bin|holder|sleeve)\b/;
+const WALL_THICKNESS_GIVEN = /\bwalls?\b|\bthick(ness)?\b/;
+
+// Parts that attach to something, so how they attach matters
+const MOUNTED_PART = /\b(bracket|mount|holder|hook|clip|enclosure|housing|shelf|hanger|clamp)\b/;
+const MOUNTING_GIVEN = /\b(screws?|bolts?|nuts?|adhesive|glue[ds]?|tape|snap|clips?|magnets?|magnetic|free[- ]?standing|wall[- ]mounted|rivets?|weld(ed)?|zip[- ]ties?|mounting holes?)\b/;
+
+const HOLES = /\bholes?\b/;
+// Metric screw sizes ("M3 holes") name the hole size too
+const SCREW_SIZE = /\bm\d+(\.\d+)?\b/;
+
+/**
+ * Questions for the details a prompt leaves out; empty when it is specific enough
+ */
+export function findMissingDetails(prompt: string, spec: PromptSpec): ClarifyingQuestion[] {
+  const text = prompt.toLowerCase();
+  const questions: ClarifyingQuestion[] = [];
+
+  if (!spec.dimensions.some(dimension => dimension.role === 'extent')) {
+    questions.push({
+      topic: 'overall_size',
+      question: 'How big should the part be?',
+      reason: 'Without a size the model is generated at an arbitrary scale.',
+      field: 'size'
+    });
+  }
+
+  if (HOLLOW_PART.test(text) && !WALL_THICKNESS_GIVEN.test(text)) {
+    questions.push({
+      topic: 'wall_thickness',
+      question: 'How thick should the walls be?',
+      reason: 'Hollow parts need a wall thickness that can be printed or machined.',
+      field: 'length'
+    });
+  }
+
+  const mentionsHoles = HOLES.test(text) || spec.counts.some(count => count.feature === 'hole');
+  const holeSizeGiven = SCREW_SIZE.test(text) || spec.dimensions.some(
+    dimension => dimension.role === 'feature' && dimension.label !== 'thickness'
+  );
+  if (mentionsHoles && !holeSizeGiven) {
+    questions.push({
+      topic: 'hole_size',
+      question: 'What diameter should the holes be?',
+      reason: 'Hole sizes decide which screws, pins or shafts fit.',
+      field: 'length'
+    });
+  }
+
+  if (MOUNTED_PART.test(text) && !MOUNTING_GIVEN.test(text)) {
+    questions.push({
+      topic: 'mounting',
+      question: 'How will the part be mounted?',
+      reason: 'The mounting method adds holes, clips or flat faces to the design.',
+      field: 'choice',
+      options: MOUNTING_OPTIONS
+    });
+  }
+
+  return questions;
+}
+
+const isAnswered = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * The prompt with the answered questions appended, e.g. "phone stand, 80mm wide, 2mm thick walls"
+ */
+export function composeClarifiedPrompt(prompt: string, answers: ClarificationAnswers, unit: LengthUnit): string {
+  const phrases: string[] = [];
+
+  const size = answers.overall_size;
+  if (size) {
+    if (isAnswered(size.width)) phrases.push(`${size.width}${unit} wide`);
+    if (isAnswered(size.length)) phrases.push(`${size.length}${unit} long`);
+    if (isAnswered(size.height)) phrases.push(`${size.height}${unit} tall`);
+  }
+  if (isAnswered(answers.wall_thickness)) phrases.push(`${answers.wall_thickness}${unit} thick walls`);
+  if (isAnswered(answers.hole_size)) phrases.push(`${answers.hole_size}${unit} diameter holes`);
+  if (answers.mounting) {
+    phrases.push(answers.mounting === 'free-standing' ? 'free-standing' : `mounted with ${answers.mounting}`);
+  }
+
+  const base = prompt.trim().replace(/[.\s]+$/, '');
+  return phrases.length > 0 ? `${base}, ${phrases.join(', ')}` : base;
+}
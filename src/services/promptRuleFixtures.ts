@@ -0,0 +1,49 @@
+import type { RuleFixture } from './promptRules';
+
+/**
+ * Prompts and what the rules turn them into, checked by promptRules.test.ts (`npm test`). A change
+ * to the rules that alters one of these needs a new PROMPT_RULES_VERSION and updated fixtures.
+ */
+export const PROMPT_RULE_FIXTURES: RuleFixture[] = [
+  { prompt: 'long board with long edges and ribbons', enhancedPrompt: 'design skateboard with mounting holes', rule: 'pattern.skateboard' },
+  { prompt: 'phone case', enhancedPrompt: 'design protective case with rounded corners', rule: 'pattern.case' },
+  { prompt: 'box for tools', enhancedPrompt: 'design rectangular housing', rule: 'pattern.housing' },
+  { prompt: 'gear', enhancedPrompt: 'design gear with teeth', rule: 'pattern.gear' },
+  { prompt: 'plate with holes', enhancedPrompt: 'design plate with rounded corners', rule: 'pattern.plate' },
+  { prompt: 'involute helical gear with 36 teeth', enhancedPrompt: 'design gear with teeth', rule: 'pattern.gear' },
+  { prompt: 'cutting board', enhancedPrompt: 'design cutting board with rounded corners', rule: 'pattern.cutting-board' },
+  { prompt: 'circuit board', enhancedPrompt: 'design circuit board with mounting holes', rule: 'pattern.circuit-board' },
+  { prompt: 'skateboard', enhancedPrompt: 'design skateboard with mounting holes', rule: 'pattern.skateboard' },
+  { prompt: 'surgical drill guide for knee', enhancedPrompt: 'design a cylindrical guide with center hole, 50mm long, 15mm diameter, 3mm center hole', rule: 'specialized.drill-guide' },
+  { prompt: 'assembly jig', enhancedPrompt: 'design a rectangular plate with 4 holes near each corner and rounded corners, 100mm × 80mm × 10mm thick', rule: 'specialized.fixture-plate' },
+  { prompt: 'thickness gauge', enhancedPrompt: 'design a graduated measuring plate with markings, 150mm × 50mm × 5mm thick', rule: 'specialized.gauge' },
+  { prompt: 'dental implant', enhancedPrompt: 'design a curved anatomical piece with smooth surface, 80mm × 40mm × 15mm thick', rule: 'specialized.anatomical' },
+  { prompt: 'medical template for x', enhancedPrompt: 'design a rectangular plate with 4 holes near each corner and rounded corners, 100mm × 80mm × 10mm thick', rule: 'specialized.fixture-plate' },
+  { prompt: 'wooden cat toy', enhancedPrompt: 'design cat-shaped figure', rule: 'pattern.cat' },
+  { prompt: 'a wooden toy dog', enhancedPrompt: 'design dog-shaped figure', rule: 'pattern.dog' },
+  { prompt: 'christmas tree ornament', enhancedPrompt: 'design decorative figure', rule: 'pattern.figure' },
+  { prompt: '5 pointed star', enhancedPrompt: 'design a 9 pointed star', rule: 'template.star' },
+  { prompt: 'steering wheel', enhancedPrompt: 'design circular disc with center hole', rule: 'pattern.disc' },
+  { prompt: 'spring loaded latch', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.complex' },
+  { prompt: 'cog', enhancedPrompt: 'design an involute helical gear with 36 teeth', rule: 'template.gear' },
+  { prompt: 'vase', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'a doll', enhancedPrompt: 'design decorative figure', rule: 'pattern.figure' },
+  { prompt: 'carved wooden spoon', enhancedPrompt: 'design a decorative ornamental piece with curved edges, 80mm × 60mm × 12mm thick', rule: 'template.ornament' },
+  { prompt: 'headphone stand', enhancedPrompt: 'design cylindrical holder', rule: 'pattern.holder' },
+  { prompt: 'wall bracket', enhancedPrompt: 'design L-shaped bracket', rule: 'pattern.bracket' },
+  { prompt: 'storage container', enhancedPrompt: 'design rectangular housing', rule: 'pattern.housing' },
+  { prompt: 'cable clip', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'door handle', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'usb adapter', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'pet bowl', enhancedPrompt: 'design animal-shaped figure', rule: 'pattern.animal' },
+  { prompt: 'cover for a lamp', enhancedPrompt: 'design protective case with rounded corners', rule: 'pattern.case' },
+  { prompt: 'fixture plate', enhancedPrompt: 'design a rectangular plate with 4 holes near each corner and rounded corners, 100mm × 80mm × 10mm thick', rule: 'specialized.fixture-plate' },
+  { prompt: 'random thing', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'shelf', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'figure of a knight', enhancedPrompt: 'design decorative figure', rule: 'pattern.figure' },
+  { prompt: 'decoration for the table', enhancedPrompt: 'design a decorative ornamental piece with curved edges, 80mm × 60mm × 12mm thick', rule: 'template.ornament' },
+  { prompt: 'bike wheel', enhancedPrompt: 'design circular disc with center hole', rule: 'pattern.disc' },
+  { prompt: 'hose connector', enhancedPrompt: 'design a plate with 4 holes near each corner and rounded corners', rule: 'template.default' },
+  { prompt: 'toy car', enhancedPrompt: 'design decorative figure', rule: 'pattern.figure' },
+  { prompt: 'chopping plank', enhancedPrompt: 'design cutting board with rounded corners', rule: 'pattern.cutting-board' }
+];
@@ -0,0 +1,16 @@
+import { checkRuleFixtures, PROMPT_RULES_VERSION } from './promptRules';
+import { PROMPT_RULE_FIXTURES } from './promptRuleFixtures';
+
+// Every fixture must still come out of the rules unchanged; run with `npm test`
+
+const failures = checkRuleFixtures(PROMPT_RULE_FIXTURES);
+
+for (const failure of failures) {
+  console.error(`❌ "${failure.prompt}": expected "${failure.enhancedPrompt}" (${failure.rule}), got "${failure.actualPrompt}" (${failure.actualRule})`);
+}
+
+if (failures.length > 0) {
+  throw new Error(`${failures.length} of ${PROMPT_RULE_FIXTURES.length} rule fixtures changed (rules v${PROMPT_RULES_VERSION}); bump PROMPT_RULES_VERSION and update the fixtures if the change is intended`);
+}
+
+console.log(`✅ ${PROMPT_RULE_FIXTURES.length} rule fixtures unchanged (rules v${PROMPT_RULES_VERSION})`);
@@ -0,0 +1,378 @@
+/**
+ * Rule-based prompt enhancement.
+ *
+ * Prompts the AI enhancer is not used for (specialized terms) or could not handle are rewritten
+ * by the rules below. Rules are data: a condition on the prompt, the prompt it is rewritten to
+ * and a confidence. Each stage applies its first matching rule; the last rule of every stage
+ * matches anything. Bump PROMPT_RULES_VERSION whenever a rule changes what a prompt becomes and
+ * update the fixtures in promptRuleFixtures.ts to match.
+ */
+
+export const PROMPT_RULES_VERSION = 1;
+
+// Known-good prompt used by the 'template' fallback; its geometry has nothing to do with the user's request
+export const FALLBACK_TEMPLATE_PROMPT = 'design a plate with 4 holes near each corner and rounded corners';
+
+export interface RuleCondition {
+  // At least one of these appears anywhere in the lowercased prompt
+  contains?: string[];
+  // Each list needs at least one of its words among the prompt's space-separated words
+  words?: string[][];
+  // Every pattern matches the prompt
+  patterns?: RegExp[];
+}
+
+export interface PromptRule {
+  id: string;
+  description: string;
+  when: RuleCondition;
+  rewrite: string;
+  confidence: number;
+}
+
+export type RuleStageId = 'specialized' | 'pattern' | 'template';
+
+export interface RuleStage {
+  id: RuleStageId;
+  description: string;
+  // Prompts the stage runs for; every prompt when unset
+  appliesWhen?: RuleCondition;
+  // Results at or below this confidence fall through to the next stage
+  minConfidence?: number;
+  // Rewrites are object names that still need "design" in front
+  designPrefix?: boolean;
+  // Specialized prompts are never sent to the AI enhancer
+  skipsAI?: boolean;
+  rules: PromptRule[];
+}
+
+export const PROMPT_RULE_STAGES: RuleStage[] = [
+  {
+    id: 'specialized',
+    description: 'Medical and tooling terms the generator does not know, mapped to simple mechanical parts',
+    appliesWhen: {
+      contains: [
+        'surgical', 'medical', 'prosthetic', 'orthopedic', 'dental', 'implant',
+        'catheter', 'stent', 'biopsy', 'endoscopic', 'laparoscopic', 'drill guide',
+        'jig', 'fixture', 'template', 'gauge'
+      ]
+    },
+    skipsAI: true,
+    rules: [
+      {
+        id: 'specialized.drill-guide',
+        description: 'Surgical drill guides become a cylindrical guide',
+        when: { words: [['surgical', 'drill', 'guide']] },
+        rewrite: 'design a cylindrical guide with center hole, 50mm long, 15mm diameter, 3mm center hole',
+        confidence: 0.7
+      },
+      {
+        id: 'specialized.fixture-plate',
+        description: 'Jigs, fixtures and templates become a plate with corner holes',
+        when: { words: [['jig', 'fixture', 'template']] },
+        rewrite: 'design a rectangular plate with 4 holes near each corner and rounded corners, 100mm × 80mm × 10mm thick',
+        confidence: 0.8
+      },
+      {
+        id: 'specialized.gauge',
+        description: 'Gauges become a graduated measuring plate',
+        when: { words: [['gauge', 'measure']] },
+        rewrite: 'design a graduated measuring plate with markings, 150mm × 50mm × 5mm thick',
+        confidence: 0.7
+      },
+      {
+        id: 'specialized.anatomical',
+        description: 'Prosthetics and implants become a curved anatomical piece',
+        when: { words: [['prosthetic', 'implant', 'medical']] },
+        rewrite: 'design a curved anatomical piece with smooth surface, 80mm × 40mm × 15mm thick',
+        confidence: 0.6
+      },
+      {
+        id: 'specialized.default',
+        description: 'Any other specialized prompt uses the verified plate template',
+        when: {},
+        rewrite: FALLBACK_TEMPLATE_PROMPT,
+        confidence: 0.7
+      }
+    ]
+  },
+  {
+    id: 'pattern',
+    description: 'Everyday objects mapped to the simple part descriptions the generator handles best',
+    minConfidence: 0.7,
+    designPrefix: true,
+    rules: [
+      { id: 'pattern.cat', description: 'Cats become a cat-shaped figure', when: { patterns: [/cat/i] }, rewrite: 'cat-shaped figure', confidence: 0.9 },
+      { id: 'pattern.dog', description: 'Dogs become a dog-shaped figure', when: { patterns: [/dog/i] }, rewrite: 'dog-shaped figure', confidence: 0.9 },
+      {
+        id: 'pattern.animal',
+        description: 'Other animals become an animal-shaped figure',
+        when: { patterns: [/animal|pet|creature/i] },
+        rewrite: 'animal-shaped figure',
+        confidence: 0.9
+      },
+      {
+        id: 'pattern.figure',
+        description: 'Toys and characters become a decorative figure',
+        when: { patterns: [/toy|figure|character|doll|ornament/i] },
+        rewrite: 'decorative figure',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.cutting-board',
+        description: 'Cutting boards keep their rounded corners',
+        when: { patterns: [/board|plank/i, /cutting|chopping/i] },
+        rewrite: 'cutting board with rounded corners',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.circuit-board',
+        description: 'Circuit boards get mounting holes',
+        when: { patterns: [/board|plank/i, /circuit|pcb/i] },
+        rewrite: 'circuit board with mounting holes',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.skateboard',
+        description: 'Long boards and skateboards become a skateboard deck',
+        when: { patterns: [/board|plank/i, /long|skate/i] },
+        rewrite: 'skateboard with mounting holes',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.board',
+        description: 'Other boards become a rectangular board',
+        when: { patterns: [/board|plank/i] },
+        rewrite: 'rectangular board with rounded corners',
+        confidence: 0.8
+      },
+      { id: 'pattern.plate', description: 'Plates get rounded corners', when: { patterns: [/plate/i] }, rewrite: 'plate with rounded corners', confidence: 0.8 },
+      { id: 'pattern.gear', description: 'Gears get teeth', when: { patterns: [/gear/i] }, rewrite: 'gear with teeth', confidence: 0.9 },
+      {
+        id: 'pattern.case',
+        description: 'Cases and covers become a protective case',
+        when: { patterns: [/case|cover|shell/i] },
+        rewrite: 'protective case with rounded corners',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.holder',
+        description: 'Holders and stands become a cylindrical holder',
+        when: { patterns: [/holder|stand|mount/i] },
+        rewrite: 'cylindrical holder',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.bracket',
+        description: 'Brackets and clamps become an L-shaped bracket',
+        when: { patterns: [/bracket|clamp/i] },
+        rewrite: 'L-shaped bracket',
+        confidence: 0.8
+      },
+      {
+        id: 'pattern.housing',
+        description: 'Boxes and containers become a rectangular housing',
+        when: { patterns: [/box|container|housing/i] },
+        rewrite: 'rectangular housing',
+        confidence: 0.8
+      },
+      { id: 'pattern.clip', description: 'Clips and fasteners become a spring clip', when: { patterns: [/clip|fastener/i] }, rewrite: 'spring clip', confidence: 0.7 },
+      {
+        id: 'pattern.disc',
+        description: 'Wheels and discs become a disc with a center hole',
+        when: { patterns: [/wheel|disc/i] },
+        rewrite: 'circular disc with center hole',
+        confidence: 0.8
+      },
+      { id: 'pattern.handle', description: 'Handles and grips become a cylindrical handle', when: { patterns: [/handle|grip/i] }, rewrite: 'cylindrical handle', confidence: 0.7 },
+      {
+        id: 'pattern.connector',
+        description: 'Connectors and adapters become a cylindrical connector',
+        when: { patterns: [/connector|adapter/i] },
+        rewrite: 'cylindrical connector',
+        confidence: 0.7
+      },
+      {
+        id: 'pattern.default',
+        description: 'Anything else becomes a plate with rounded corners',
+        when: {},
+        rewrite: 'plate with rounded corners',
+        confidence: 0.6
+      }
+    ]
+  },
+  {
+    id: 'template',
+    description: "Verified generator examples, used when nothing better matched",
+    rules: [
+      {
+        id: 'template.cat-ornament',
+        description: 'Animal toys become a cat-shaped ornament',
+        when: { words: [['cat', 'dog', 'animal', 'pet', 'creature'], ['toy', 'wooden', 'figure', 'model']] },
+        rewrite: 'design a cat-shaped ornament with curved body outline, pointed ears, 80mm tall, 60mm wide, 10mm thick',
+        confidence: 0.9
+      },
+      {
+        id: 'template.figure',
+        description: 'Toys and characters become a figure on a rounded base',
+        when: { words: [['toy', 'figure', 'character', 'doll']] },
+        rewrite: 'design a decorative figure with rounded base, 100mm tall, 40mm wide, 15mm thick',
+        confidence: 0.8
+      },
+      {
+        id: 'template.ornament',
+        description: 'Carved and wooden items become an ornamental piece',
+        when: { words: [['wooden', 'carved', 'ornament', 'decoration']] },
+        rewrite: 'design a decorative ornamental piece with curved edges, 80mm × 60mm × 12mm thick',
+        confidence: 0.8
+      },
+      {
+        id: 'template.star',
+        description: 'Stars use the verified star example',
+        when: { words: [['star', 'pointed']] },
+        rewrite: 'design a 9 pointed star',
+        confidence: 0.9
+      },
+      {
+        id: 'template.christmas-tree',
+        description: 'Trees use the verified christmas tree example',
+        when: { words: [['tree', 'christmas']] },
+        rewrite: 'design a sketch of a christmas tree with a star on top',
+        confidence: 0.9
+      },
+      {
+        id: 'template.gear',
+        description: 'Gears use the verified helical gear example',
+        when: { words: [['gear', 'cog', 'tooth', 'teeth']] },
+        rewrite: 'design an involute helical gear with 36 teeth',
+        confidence: 0.9
+      },
+      {
+        id: 'template.complex',
+        description: 'Mechanisms too complex to generate use the plate template',
+        when: { words: [['steering', 'wheel', 'spring', 'complex', 'intricate', 'moving', 'articulated']] },
+        rewrite: FALLBACK_TEMPLATE_PROMPT,
+        confidence: 0.8
+      },
+      {
+        id: 'template.default',
+        description: 'Anything else uses the plate template',
+        when: {},
+        rewrite: FALLBACK_TEMPLATE_PROMPT,
+        confidence: 0.7
+      }
+    ]
+  }
+];
+
+export interface StageTrace {
+  stage: RuleStageId;
+  // Ids of every rule whose condition matched, in order
+  matched: string[];
+  // The first match, which the stage applies
+  applied: PromptRule | null;
+  // Whether the stage's result was used rather than falling through
+  accepted: boolean;
+}
+
+export interface RuleEnhancement {
+  enhancedPrompt: string;
+  confidence: number;
+  source: 'rules';
+  // Ids of the rules that produced the prompt
+  rules: string[];
+  stage: RuleStageId;
+  skipsAI: boolean;
+  trace: StageTrace[];
+  version: number;
+}
+
+export function matchesCondition(prompt: string, condition: RuleCondition): boolean {
+  const lowered = prompt.toLowerCase();
+  const words = lowered.split(' ');
+  if (condition.contains && !condition.contains.some(term => lowered.includes(term))) return false;
+  if (condition.words && !condition.words.every(list => words.some(word => list.includes(word)))) return false;
+  if (condition.patterns && !condition.patterns.every(pattern => pattern.test(prompt))) return false;
+  return true;
+}
+
+/**
+ * "design ..." phrasing the generator responds to best
+ */
+export function withDesignPrefix(prompt: string): string {
+  const trimmed = prompt.trim();
+  const lowered = trimmed.toLowerCase();
+  if (lowered.startsWith('design ')) return trimmed;
+  if (lowered.startsWith('create ') || lowered.startsWith('make ')) {
+    return trimmed.replace(/^(create|make)\s+/i, 'design ');
+  }
+  return 'design ' + trimmed;
+}
+
+/**
+ * Rewrite a prompt with the rule set, recording which rules matched in every stage that ran
+ */
+export function enhanceWithRules(prompt: string, stages: RuleStage[] = PROMPT_RULE_STAGES): RuleEnhancement {
+  const trimmed = prompt.trim();
+  const trace: StageTrace[] = [];
+
+  for (const [index, stage] of stages.entries()) {
+    if (stage.appliesWhen && !matchesCondition(trimmed, stage.appliesWhen)) continue;
+
+    const matched = stage.rules.filter(rule => matchesCondition(trimmed, rule.when));
+    const applied = matched[0] ?? null;
+    const isLast = index === stages.length - 1;
+    const accepted = applied !== null &&
+      (isLast || stage.minConfidence === undefined || applied.confidence > stage.minConfidence);
+    trace.push({ stage: stage.id, matched: matched.map(rule => rule.id), applied, accepted });
+
+    if (applied && accepted) {
+      return {
+        enhancedPrompt: stage.designPrefix ? withDesignPrefix(applied.rewrite) : applied.rewrite,
+        confidence: applied.confidence,
+        source: 'rules',
+        rules: [applied.id],
+        stage: stage.id,
+        skipsAI: stage.skipsAI === true,
+        trace,
+        version: PROMPT_RULES_VERSION
+      };
+    }
+  }
+
+  // Only reached with a rule set whose last stage has no catch-all rule
+  return {
+    enhancedPrompt: FALLBACK_TEMPLATE_PROMPT,
+    confidence: 0.5,
+    source: 'rules',
+    rules: [],
+    stage: 'template',
+    skipsAI: false,
+    trace,
+    version: PROMPT_RULES_VERSION
+  };
+}
+
+export interface RuleFixture {
+  prompt: string;
+  enhancedPrompt: string;
+  rule: string;
+}
+
+export interface RuleFixtureFailure extends RuleFixture {
+  actualPrompt: string;
+  actualRule: string;
+}
+
+/**
+ * Run prompt → enhanced-prompt fixtures through the rules, returning the ones that changed
+ */
+export function checkRuleFixtures(fixtures: RuleFixture[], stages: RuleStage[] = PROMPT_RULE_STAGES): RuleFixtureFailure[] {
+  return fixtures.flatMap(fixture => {
+    const result = enhanceWithRules(fixture.prompt, stages);
+    const actualRule = result.rules[0] ?? '';
+    return result.enhancedPrompt === fixture.enhancedPrompt && actualRule === fixture.rule
+      ? []
+      : [{ ...fixture, actualPrompt: result.enhancedPrompt, actualRule }];
+  });
+}
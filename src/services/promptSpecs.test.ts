@@ -0,0 +1,49 @@
+import { parsePromptSpec, verifyDimensions, type PromptSpec } from './promptSpecs';
+
+// Sizes and units read from prompts that were misread before; run with `npm test`
+
+interface ParserCase {
+  prompt: string;
+  units: PromptSpec['units'];
+  extents: string[];
+  measured?: { width: number; height: number; depth: number };
+}
+
+const CASES: ParserCase[] = [
+  {
+    prompt: 'mounting bracket 100 x 50 x 5 with 4 m3 holes',
+    units: null,
+    extents: ['100mm', '50mm', '5mm'],
+    measured: { width: 100, height: 5, depth: 50 }
+  },
+  { prompt: 'plate 200mm x 100mm x 5mm with m6 x 20 bolts', units: 'mm', extents: ['200mm', '100mm', '5mm'] },
+  { prompt: 'a 2 m3 tank', units: null, extents: [] },
+  { prompt: 'shelf 2m long with 4 holes of 5 mm', units: 'm', extents: ['2m'] },
+  { prompt: 'box 4 x 3 x 2 in with 6mm holes', units: 'in', extents: ['4in', '3in', '2in'] }
+];
+
+const failures: string[] = [];
+for (const { prompt, units, extents, measured } of CASES) {
+  const spec = parsePromptSpec(prompt);
+  const actual = spec.dimensions
+    .filter(dimension => dimension.role === 'extent')
+    .map(dimension => `${dimension.value}${dimension.unit}`);
+  if (spec.units !== units || actual.join(' ') !== extents.join(' ')) {
+    failures.push(`"${prompt}": expected ${extents.join(' × ') || 'no sizes'} (${units}), got ${actual.join(' × ') || 'no sizes'} (${spec.units})`);
+  }
+  if (!measured) continue;
+  const check = verifyDimensions(spec, measured, 'mm');
+  if (check?.mismatched) {
+    failures.push(`"${prompt}": a ${measured.width} × ${measured.height} × ${measured.depth} mm model was flagged (scale ${check.suggestedScale})`);
+  }
+}
+
+for (const failure of failures) {
+  console.error(`❌ ${failure}`);
+}
+
+if (failures.length > 0) {
+  throw new Error(`${failures.length} of ${CASES.length} prompt spec cases failed`);
+}
+
+console.log(`✅ ${CASES.length} prompt spec cases parsed as expected`);
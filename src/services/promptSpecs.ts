@@ -0,0 +1,309 @@
+import { convertLength, type LengthUnit } from './units';
+
+/**
+ * Requested sizes and feature counts read from a generation prompt.
+ *
+ * parsePromptSpec picks out "200mm × 100mm × 5mm" boxes, labeled sizes ("5mm thick", "diameter
+ * of 40mm") and counts ("4 holes", "36 teeth"). verifyDimensions compares the overall sizes with
+ * the generated model's bounding box; sizes of features (hole diameters, fillet radii) cannot be
+ * checked that way and are only reported.
+ */
+
+// Relative difference between a requested and a measured size that still counts as a match
+export const DIMENSION_TOLERANCE = 0.1;
+
+export type DimensionLabel =
+  | 'width'
+  | 'length'
+  | 'height'
+  | 'thickness'
+  | 'depth'
+  | 'diameter'
+  | 'radius'
+  | 'size';
+
+export interface PromptDimension {
+  value: number;
+  unit: LengthUnit;
+  // Whether the unit was written or assumed from the rest of the prompt
+  unitGiven: boolean;
+  label: DimensionLabel;
+  // Overall sizes are compared with the bounding box; feature sizes (holes, fillets) are not
+  role: 'extent' | 'feature';
+  // Position in a "A × B × C" box, when part of one
+  boxIndex?: number;
+  text: string;
+}
+
+export interface PromptCount {
+  feature: string;
+  count: number;
+  text: string;
+}
+
+export interface PromptSpec {
+  dimensions: PromptDimension[];
+  counts: PromptCount[];
+  // Unit used most on the prompt's overall sizes, or null when none was written
+  units: LengthUnit | null;
+}
+
+export interface DimensionCheck {
+  label: DimensionLabel;
+  requested: number;
+  measured: number;
+  // Unit of requested and measured, as written in the prompt
+  unit: LengthUnit;
+  ok: boolean;
+}
+
+export interface DimensionVerification {
+  checks: DimensionCheck[];
+  mismatched: boolean;
+  // Uniform scale that brings every checked size within tolerance, when one exists
+  suggestedScale: number | null;
+  tolerance: number;
+}
+
+const UNIT_ALIASES: Array<[RegExp, LengthUnit]> = [
+  [/^(mm|millimet(er|re)s?)$/, 'mm'],
+  [/^(cm|centimet(er|re)s?)$/, 'cm'],
+  [/^(m|met(er|re)s?)$/, 'm'],
+  [/^(in|inch(es)?|")$/, 'in'],
+  [/^(ft|foot|feet|')$/, 'ft']
+];
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+// Longer spellings first so "mm" is not read as "m"
+const UNIT = `(millimet(?:er|re)s?|centimet(?:er|re)s?|met(?:er|re)s?|inch(?:es)?|feet|foot|mm|cm|ft|in|m|"|')(?![a-z0-9])`;
+const BY = '\\s*(?:x|×|\\*|by)\\s*';
+
+const BOX_PATTERN = new RegExp(
+  `${NUMBER}\\s*(?:${UNIT})?${BY}${NUMBER}\\s*(?:${UNIT})?(?:${BY}${NUMBER}\\s*(?:${UNIT})?)?`,
+  'g'
+);
+const SIZE_PATTERN = new RegExp(`${NUMBER}\\s*${UNIT}(?:\\s+([a-z]+))?`, 'g');
+const LABEL_FIRST_PATTERN = new RegExp(
+  `(width|length|height|thickness|depth|diameter|radius)\\s+(?:of\\s+|is\\s+|=\\s*)?${NUMBER}\\s*${UNIT}`,
+  'g'
+);
+
+const LABEL_WORDS: Record<string, DimensionLabel> = {
+  wide: 'width',
+  width: 'width',
+  long: 'length',
+  length: 'length',
+  tall: 'height',
+  high: 'height',
+  height: 'height',
+  thick: 'thickness',
+  thickness: 'thickness',
+  deep: 'depth',
+  depth: 'depth',
+  diameter: 'diameter',
+  dia: 'diameter',
+  radius: 'radius'
+};
+
+// Words next to a size that make it the size of a feature rather than of the whole part
+const FEATURE_WORDS = /\b(holes?|bores?|screws?|bolts?|countersinks?|slots?|fillets?|chamfers?|radius|teeth|tooth|pins?|threads?|spacing|apart|pitch|walls?)\b/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const COUNT_PATTERN = new RegExp(
+  `(?<![\\d.])\\b(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s+(?:([\\w.-]+)\\s+)?` +
+    '(holes?|teeth|tooth|slots?|spokes?|fins?|ribs?|legs?|pins?|posts?|tabs?|sides?|compartments?|grooves?|notches|notch|bolts?|screws?|threads?)\\b',
+  'g'
+);
+
+const toUnit = (text: string | undefined): LengthUnit | null => {
+  if (!text) return null;
+  return UNIT_ALIASES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+};
+
+// "in" is only a unit when nothing but a label, separator or the end follows it ("5 in wide")
+const isInchesAt = (prompt: string, end: number) =>
+  /^\s*(?:$|[,.;)x×*]|by\b|wide|long|tall|high|thick|deep|diameter|dia\b)/.test(prompt.slice(end));
+
+// Metric screw sizes ("m3", "m6 x 20") are not lengths
+const isScrewSizeAt = (prompt: string, start: number) => /\bm$/.test(prompt.slice(0, start));
+
+const singular = (feature: string) =>
+  feature === 'teeth' ? 'tooth' : feature === 'notches' ? 'notch' : feature.replace(/s$/, '');
+
+// Clause boundaries; a decimal point is not one
+const CLAUSE_BREAK = /[,;]|\.(?!\d)/;
+
+// A size is a feature's when a feature word is among the two words on either side of it in
+// the same clause ("6mm holes", "hole diameter 6mm")
+const roleFor = (prompt: string, start: number, end: number, label: DimensionLabel): PromptDimension['role'] => {
+  if (label === 'radius') return 'feature';
+  const before = prompt.slice(0, start).split(CLAUSE_BREAK).pop()!.trim().split(/\s+/).slice(-2);
+  const after = prompt.slice(end).split(CLAUSE_BREAK)[0].trim().split(/\s+/).slice(0, 2);
+  return FEATURE_WORDS.test([...before, ...after].join(' ')) ? 'feature' : 'extent';
+};
+
+/**
+ * Read the sizes, counts and units a prompt asks for. Sizes without a unit take the prompt's
+ * most used unit, or defaultUnit when it names none.
+ */
+export function parsePromptSpec(prompt: string, defaultUnit: LengthUnit = 'mm'): PromptSpec {
+  const text = prompt.toLowerCase();
+  const taken: Array<[number, number]> = [];
+  const isTaken = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+  const found: Array<Omit<PromptDimension, 'unit' | 'unitGiven'> & { unit: LengthUnit | null }> = [];
+
+  for (const match of text.matchAll(BOX_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (isScrewSizeAt(text, start)) continue;
+    const values = [match[1], match[3], match[5]].filter(Boolean).map(Number);
+    const units = [match[2], match[4], match[6]];
+    // A unit written after the last number applies to the ones before it ("200 x 100 x 5 mm")
+    const trailing = toUnit(units[values.length - 1]);
+    taken.push([start, end]);
+    values.forEach((value, index) => {
+      found.push({
+        value,
+        unit: toUnit(units[index]) ?? trailing,
+        label: 'size',
+        role: 'extent',
+        boxIndex: index,
+        text: match[0].trim()
+      });
+    });
+  }
+
+  for (const match of text.matchAll(LABEL_FIRST_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (isTaken(start, end) || isScrewSizeAt(text, start + match[0].indexOf(match[2]))) continue;
+    if (match[3] === 'in' && !isInchesAt(text, end)) continue;
+    const label = LABEL_WORDS[match[1]];
+    taken.push([start, end]);
+    found.push({
+      value: Number(match[2]),
+      unit: toUnit(match[3]),
+      label,
+      role: roleFor(text, start, end, label),
+      text: match[0].trim()
+    });
+  }
+
+  for (const match of text.matchAll(SIZE_PATTERN)) {
+    const start = match.index ?? 0;
+    const unitEnd = start + match[0].length - (match[3] ? match[3].length : 0);
+    if (isTaken(start, unitEnd) || isScrewSizeAt(text, start)) continue;
+    if (match[2] === 'in' && !isInchesAt(text, unitEnd)) continue;
+    const label = (match[3] && LABEL_WORDS[match[3]]) || 'size';
+    const end = label === 'size' ? unitEnd : start + match[0].length;
+    taken.push([start, end]);
+    found.push({
+      value: Number(match[1]),
+      unit: toUnit(match[2]),
+      label,
+      role: roleFor(text, start, end, label),
+      text: text.slice(start, end).trim()
+    });
+  }
+
+  // The unit written most often on overall sizes stands in for sizes that have none; feature
+  // sizes ("m4 bolts", "3mm fillet") often use other units than the part
+  const tally = new Map<LengthUnit, number>();
+  for (const dimension of found) {
+    if (dimension.unit && dimension.role === 'extent') tally.set(dimension.unit, (tally.get(dimension.unit) || 0) + 1);
+  }
+  const units = [...tally.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const counts: PromptCount[] = [];
+  for (const match of text.matchAll(COUNT_PATTERN)) {
+    // "5 mm holes" is a hole size, not five holes
+    if (toUnit(match[2])) continue;
+    const count = NUMBER_WORDS[match[1]] ?? Number(match[1]);
+    const feature = singular(match[3]);
+    if (count > 0 && !counts.some(existing => existing.feature === feature)) {
+      counts.push({ feature, count, text: match[0] });
+    }
+  }
+
+  return {
+    dimensions: found.map(dimension => ({
+      ...dimension,
+      unit: dimension.unit ?? units ?? defaultUnit,
+      unitGiven: dimension.unit !== null
+    })),
+    counts,
+    units
+  };
+}
+
+const withinTolerance = (requested: number, measured: number, tolerance: number) =>
+  measured > 0 && Math.abs(measured / requested - 1) <= tolerance;
+
+/**
+ * Compare the overall sizes a prompt asked for with a model's measured bounding box (in
+ * modelUnits). Box sizes are matched largest to largest, since the model may be oriented
+ * differently; labeled sizes are matched to the closest side, thickness to the thinnest.
+ * Returns null when the prompt names no overall size or the model could not be measured.
+ */
+export function verifyDimensions(
+  spec: PromptSpec,
+  measured: { width: number; height: number; depth: number },
+  modelUnits: LengthUnit,
+  tolerance: number = DIMENSION_TOLERANCE
+): DimensionVerification | null {
+  const sides = [measured.width, measured.height, measured.depth].sort((a, b) => b - a);
+  if (sides[0] <= 0) return null;
+
+  const extents = spec.dimensions.filter(dimension => dimension.role === 'extent' && dimension.value > 0);
+  const checks: DimensionCheck[] = [];
+  const inUnit = (value: number, unit: LengthUnit) => convertLength(value, modelUnits, unit);
+
+  const box = extents.filter(dimension => dimension.boxIndex !== undefined);
+  [...box].sort((a, b) => convertLength(b.value, b.unit, modelUnits) - convertLength(a.value, a.unit, modelUnits))
+    .forEach((dimension, index) => {
+      const side = inUnit(sides[index], dimension.unit);
+      checks.push({
+        label: dimension.label,
+        requested: dimension.value,
+        measured: side,
+        unit: dimension.unit,
+        ok: withinTolerance(dimension.value, side, tolerance)
+      });
+    });
+
+  for (const dimension of extents.filter(d => d.boxIndex === undefined)) {
+    const candidates = dimension.label === 'thickness' ? [sides[2]] : sides;
+    const side = inUnit(
+      candidates.reduce((best, value) => {
+        const requested = convertLength(dimension.value, dimension.unit, modelUnits);
+        return Math.abs(value - requested) < Math.abs(best - requested) ? value : best;
+      }),
+      dimension.unit
+    );
+    checks.push({
+      label: dimension.label,
+      requested: dimension.value,
+      measured: side,
+      unit: dimension.unit,
+      ok: withinTolerance(dimension.value, side, tolerance)
+    });
+  }
+
+  if (checks.length === 0) return null;
+
+  const mismatched = checks.some(check => !check.ok);
+  let suggestedScale: number | null = null;
+  if (mismatched) {
+    const ratios = checks.map(check => check.requested / check.measured).sort((a, b) => a - b);
+    // Only offer a rescale when one factor fixes every size
+    if (ratios[ratios.length - 1] / ratios[0] <= 1 + tolerance) {
+      suggestedScale = Math.round(ratios[Math.floor(ratios.length / 2)] * 10000) / 10000;
+    }
+  }
+
+  return { checks, mismatched, suggestedScale, tolerance };
+}
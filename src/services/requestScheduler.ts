@@ -0,0 +1,175 @@
+import { RateLimitedError } from './generationErrors';
+
+/**
+ * Pacing of requests to the zoo-text-to-cad function.
+ *
+ * The function queues generate requests in priority lanes by subscription tier (one per user per
+ * round within a lane, within per-lane concurrency and per-minute limits) and answers 429 with a
+ * Retry-After while Zoo is rate limiting us. The scheduler keeps the browser in step with it: a
+ * rate limit pauses every request until its Retry-After has passed, submissions go out one at a
+ * time per user in the order they were made, and a submission the server queued is sent again
+ * with the same idempotency key (keeping its place) when the server says, reporting its queue
+ * position and expected wait meanwhile.
+ */
+
+export interface QueueStatus {
+  // 'local': behind this browser's earlier submissions; 'queued': in the server's queue;
+  // 'rate_limited': waiting for Zoo's rate limit to pass
+  reason: 'local' | 'queued' | 'rate_limited';
+  // Submissions ahead of this one plus one, when known
+  position?: number;
+  // The user's own submissions up to and including this one (server queue only)
+  userPosition?: number;
+  // Priority lane of the user's subscription tier and the expected wait in it (server queue only)
+  lane?: string;
+  estimatedWaitMs?: number;
+  // When the submission is sent again
+  retryAfterMs: number;
+}
+
+export type QueueStatusListener = (status: QueueStatus) => void;
+
+// Answer of a generate request the server put in its queue
+export interface QueuedSubmission {
+  queued: true;
+  lane?: string;
+  queuePosition: number;
+  userPosition: number;
+  retryAfterMs: number;
+  estimatedWaitMs?: number;
+}
+
+export const isQueuedSubmission = (value: unknown): value is QueuedSubmission =>
+  typeof value === 'object' && value !== null && (value as QueuedSubmission).queued === true;
+
+// A submission that has waited this long for its turn fails with the last rate limit error
+export const MAX_SUBMISSION_WAIT_MS = 10 * 60 * 1000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Settle with the promise, or reject as soon as the signal aborts
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export class RequestScheduler {
+  private pausedUntil = 0;
+  // Last submission in each user's chain, and how many are in it
+  private chains = new Map<string, { tail: Promise<void>; length: number }>();
+
+  /** Hold every request until retryAfterMs from now (a longer pause already in place wins) */
+  pause(retryAfterMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+    console.log(`⏸️ Pausing generation requests for ${Math.ceil(retryAfterMs / 1000)}s (rate limited)`);
+  }
+
+  get remainingPauseMs(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  /**
+   * Run a request once any pause has passed. A rate limited answer pauses the scheduler and is
+   * rethrown, so pollers back off on it.
+   */
+  async request<T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (this.remainingPauseMs > 0) await wait(this.remainingPauseMs, signal);
+    try {
+      return await run();
+    } catch (error) {
+      if (error instanceof RateLimitedError) this.pause(error.retryAfterMs);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a generate request after the user's earlier submissions, repeating it while the server
+   * keeps it queued or Zoo rate limits it. `send` must reuse one idempotency key across calls.
+   */
+  async submit<T>(
+    userKey: string,
+    send: () => Promise<T | QueuedSubmission>,
+    onQueued?: QueueStatusListener,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const chain = this.chains.get(userKey);
+    const previous = chain?.tail ?? Promise.resolve();
+    let release!: () => void;
+    const turn = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => turn);
+    this.chains.set(userKey, { tail, length: (chain?.length ?? 0) + 1 });
+
+    try {
+      if (chain) onQueued?.({ reason: 'local', position: chain.length + 1, retryAfterMs: 0 });
+      await untilAborted(previous, signal);
+      return await this.sendUntilAdmitted(send, onQueued, signal);
+    } finally {
+      release();
+      const current = this.chains.get(userKey);
+      if (current?.tail === tail) {
+        this.chains.delete(userKey);
+      } else if (current) {
+        current.length--;
+      }
+    }
+  }
+
+  private async sendUntilAdmitted<T>(
+    send: () => Promise<T | QueuedSubmission>,
+    onQueued: QueueStatusListener | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    const deadline = Date.now() + MAX_SUBMISSION_WAIT_MS;
+
+    for (;;) {
+      let result: T | QueuedSubmission;
+      try {
+        result = await this.request(send, signal);
+      } catch (error) {
+        if (!(error instanceof RateLimitedError) || Date.now() + error.retryAfterMs > deadline) throw error;
+        onQueued?.({ reason: 'rate_limited', retryAfterMs: error.retryAfterMs });
+        continue;
+      }
+
+      if (!isQueuedSubmission(result)) return result;
+
+      if (Date.now() + result.retryAfterMs > deadline) {
+        throw new RateLimitedError(result.retryAfterMs, 'The generation queue is too long right now. Please try again later.');
+      }
+      onQueued?.({
+        reason: 'queued',
+        position: result.queuePosition,
+        userPosition: result.userPosition,
+        lane: result.lane,
+        estimatedWaitMs: result.estimatedWaitMs,
+        retryAfterMs: result.retryAfterMs
+      });
+      await wait(result.retryAfterMs, signal);
+    }
+  }
+}
+
+// Shared by every request to the zoo-text-to-cad function from this browser
+export const zooRequestScheduler = new RequestScheduler();
@@ -0,0 +1,259 @@
+import {
+  exportTransform,
+  extractTriangleMeshes,
+  type ExportPlacement,
+  type GLTFDocument,
+  type TriangleMesh
+} from './geometryAnalysis';
+import { placeMeshes } from './meshWriters';
+import type { LengthUnit } from './units';
+
+// STEP (ISO 10303-21, AP214) writer for exported models. Generated models only exist as
+// triangle meshes, so each glTF node becomes a faceted solid: a FACETED_BREP whose planar faces
+// are the node's triangles, with coincident vertices welded so faces share their corners. Nodes
+// whose mesh is not closed cannot bound a solid and are written as surface models instead.
+// Every CAD package imports faceted B-reps, and the conversion needs no network round-trip.
+
+export const STEP_MIME_TYPE = 'model/step';
+
+export interface STEPOptions extends ExportPlacement {
+  // Unit the coordinates are declared in
+  units: LengthUnit;
+  metadata: {
+    designId: string;
+    prompt: string;
+    title?: string;
+  };
+}
+
+const SCHEMA = 'AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }';
+
+// SI prefix of the metric units; inches and feet are defined from millimetres
+const SI_PREFIXES: Partial<Record<LengthUnit, string>> = {
+  mm: '.MILLI.',
+  cm: '.CENTI.',
+  m: '$'
+};
+
+const CONVERTED_UNITS: Partial<Record<LengthUnit, { name: string; millimeters: number }>> = {
+  in: { name: 'INCH', millimeters: 25.4 },
+  ft: { name: 'FOOT', millimeters: 304.8 }
+};
+
+// Part 21 strings: quotes and backslashes doubled, anything beyond ASCII as UTF-16 hex
+function stepString(value: string): string {
+  const escaped = value
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "''")
+    .replace(/[^\x20-\x7E]+/g, run =>
+      `\\X2\\${[...run].map(c => {
+        const code = c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0');
+        return c.length > 1 ? code + c.charCodeAt(1).toString(16).toUpperCase().padStart(4, '0') : code;
+      }).join('')}\\X0\\`
+    );
+  return `'${escaped}'`;
+}
+
+// Part 21 reals always carry a decimal point ("1.", "2.5", "1.E-07")
+function stepReal(value: number): string {
+  const [mantissa, exponent] = String(Number(value.toPrecision(7)) || 0).split('e');
+  const real = mantissa.includes('.') ? mantissa : `${mantissa}.`;
+  return exponent ? `${real}E${exponent}` : real;
+}
+
+class EntityWriter {
+  private lines: string[] = [];
+  private nextId = 1;
+
+  /** Add an entity and return its reference */
+  add(entity: string): string {
+    const ref = `#${this.nextId++}`;
+    this.lines.push(`${ref}=${entity};\n`);
+    return ref;
+  }
+
+  get data(): string[] {
+    return this.lines;
+  }
+}
+
+// Length, angle and solid angle units plus the uncertainty of the geometry context
+function writeContext(out: EntityWriter, units: LengthUnit): string {
+  let length: string;
+  const converted = CONVERTED_UNITS[units];
+  if (converted) {
+    const millimeter = out.add('( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.) )');
+    const measure = out.add(`LENGTH_MEASURE_WITH_UNIT(LENGTH_MEASURE(${stepReal(converted.millimeters)}),${millimeter})`);
+    const exponents = out.add('DIMENSIONAL_EXPONENTS(1.,0.,0.,0.,0.,0.,0.)');
+    length = out.add(`( CONVERSION_BASED_UNIT('${converted.name}',${measure}) LENGTH_UNIT() NAMED_UNIT(${exponents}) )`);
+  } else {
+    length = out.add(`( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(${SI_PREFIXES[units]},.METRE.) )`);
+  }
+  const angle = out.add('( NAMED_UNIT(*) PLANE_ANGLE_UNIT() SI_UNIT($,.RADIAN.) )');
+  const solidAngle = out.add('( NAMED_UNIT(*) SI_UNIT($,.STERADIAN.) SOLID_ANGLE_UNIT() )');
+  const uncertainty = out.add(
+    `UNCERTAINTY_MEASURE_WITH_UNIT(LENGTH_MEASURE(1.E-07),${length},'distance_accuracy_value','confusion accuracy')`
+  );
+  return out.add(
+    `( GEOMETRIC_REPRESENTATION_CONTEXT(3) GLOBAL_UNCERTAINTY_ASSIGNED_CONTEXT((${uncertainty})) ` +
+    `GLOBAL_UNIT_ASSIGNED_CONTEXT((${length},${angle},${solidAngle})) ` +
+    `REPRESENTATION_CONTEXT('Context #1','3D Context with UNIT and UNCERTAINTY') )`
+  );
+}
+
+/**
+ * Write one node's triangles as a faceted solid (or an open surface model), returning the item
+ * and whether it is closed
+ */
+function writeShell(out: EntityWriter, name: string, meshes: TriangleMesh[], transform: number[]): { item: string; closed: boolean } | null {
+  // Weld vertices that print identically, so neighbouring faces share points and edges
+  const pointIds = new Map<string, number>();
+  const points: Array<[number, number, number]> = [];
+  const triangles: number[] = [];
+  for (const { positions, indices } of placeMeshes(meshes, transform)) {
+    const welded = new Int32Array(positions.length / 3);
+    for (let v = 0; v < welded.length; v++) {
+      const point: [number, number, number] = [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+      const key = point.map(stepReal).join(',');
+      let id = pointIds.get(key);
+      if (id === undefined) {
+        id = points.length;
+        pointIds.set(key, id);
+        points.push(point);
+      }
+      welded[v] = id;
+    }
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const a = welded[indices[i]], b = welded[indices[i + 1]], c = welded[indices[i + 2]];
+      // Triangles collapsed by welding have no face
+      if (a !== b && b !== c && a !== c) triangles.push(a, b, c);
+    }
+  }
+
+  // Slivers too thin to orient a plane by get no face
+  const facets: Array<{ corners: [number, number, number]; normal: number[]; u: number[] }> = [];
+  for (let i = 0; i < triangles.length; i += 3) {
+    const [a, b, c] = [points[triangles[i]], points[triangles[i + 1]], points[triangles[i + 2]]];
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const normalLength = Math.hypot(normal[0], normal[1], normal[2]);
+    const uLength = Math.hypot(u[0], u[1], u[2]);
+    if (normalLength <= 1e-12 * uLength * uLength || uLength === 0) continue;
+    facets.push({
+      corners: [triangles[i], triangles[i + 1], triangles[i + 2]],
+      normal: normal.map(n => n / normalLength),
+      u: u.map(n => n / uLength)
+    });
+  }
+  if (facets.length === 0) return null;
+
+  // Closed when every edge of the faces written is used once in each direction
+  const edges = new Map<string, number>();
+  for (const { corners } of facets) {
+    for (let k = 0; k < 3; k++) {
+      const from = corners[k], to = corners[(k + 1) % 3];
+      const key = from < to ? `${from}_${to}` : `${to}_${from}`;
+      edges.set(key, (edges.get(key) ?? 0) + (from < to ? 1 : 1 << 16));
+    }
+  }
+  const closed = [...edges.values()].every(count => count === 1 + (1 << 16));
+
+  const pointRefs = points.map(p => out.add(`CARTESIAN_POINT('',(${p.map(stepReal).join(',')}))`));
+  const faces = facets.map(({ corners, normal, u }) => {
+    const axis = out.add(`DIRECTION('',(${normal.map(stepReal).join(',')}))`);
+    const reference = out.add(`DIRECTION('',(${u.map(stepReal).join(',')}))`);
+    const placement = out.add(`AXIS2_PLACEMENT_3D('',${pointRefs[corners[0]]},${axis},${reference})`);
+    const plane = out.add(`PLANE('',${placement})`);
+    const loop = out.add(`POLY_LOOP('',(${corners.map(corner => pointRefs[corner]).join(',')}))`);
+    const bound = out.add(`FACE_OUTER_BOUND('',${loop},.T.)`);
+    return out.add(`FACE_SURFACE('',(${bound}),${plane},.T.)`);
+  });
+
+  if (closed) {
+    const shell = out.add(`CLOSED_SHELL('',(${faces.join(',')}))`);
+    return { item: out.add(`FACETED_BREP(${stepString(name)},${shell})`), closed };
+  }
+  const shell = out.add(`OPEN_SHELL('',(${faces.join(',')}))`);
+  return { item: out.add(`SHELL_BASED_SURFACE_MODEL(${stepString(name)},(${shell}))`), closed };
+}
+
+/**
+ * Write a decoded glTF document as a STEP file, one faceted solid per mesh node
+ */
+export function writeSTEP(doc: GLTFDocument, options: STEPOptions): Blob {
+  const meshes = extractTriangleMeshes(doc);
+  // The primitives of a node make up one part, named like the node
+  const nodes = new Map<string, { name: string; meshes: TriangleMesh[] }>();
+  for (const mesh of meshes) {
+    const key = mesh.nodeIndex >= 0 ? `node_${mesh.nodeIndex}` : `mesh_${mesh.meshIndex}`;
+    const existing = nodes.get(key);
+    if (existing) {
+      existing.meshes.push(mesh);
+      continue;
+    }
+    const nodeName = mesh.nodeIndex >= 0 ? doc.json.nodes?.[mesh.nodeIndex]?.name : undefined;
+    nodes.set(key, {
+      name: nodeName || doc.json.meshes?.[mesh.meshIndex]?.name || `part_${nodes.size + 1}`,
+      meshes: [mesh]
+    });
+  }
+  if (nodes.size === 0) {
+    throw new Error('No meshes found in model');
+  }
+
+  const { designId, prompt, title } = options.metadata;
+  const productName = title || prompt.slice(0, 80) || designId;
+  const out = new EntityWriter();
+
+  const application = out.add("APPLICATION_CONTEXT('automotive design')");
+  out.add(`APPLICATION_PROTOCOL_DEFINITION('international standard','automotive_design',2000,${application})`);
+  const productContext = out.add(`PRODUCT_CONTEXT('',${application},'mechanical')`);
+  const product = out.add(`PRODUCT(${stepString(designId)},${stepString(productName)},${stepString(prompt)},(${productContext}))`);
+  out.add(`PRODUCT_RELATED_PRODUCT_CATEGORY('part',$,(${product}))`);
+  const formation = out.add(`PRODUCT_DEFINITION_FORMATION('','',${product})`);
+  const definitionContext = out.add(`PRODUCT_DEFINITION_CONTEXT('part definition',${application},'design')`);
+  const definition = out.add(`PRODUCT_DEFINITION('design','',${formation},${definitionContext})`);
+  const definitionShape = out.add(`PRODUCT_DEFINITION_SHAPE('','',${definition})`);
+
+  const context = writeContext(out, options.units);
+  const origin = out.add(
+    `AXIS2_PLACEMENT_3D('',${out.add("CARTESIAN_POINT('',(0.,0.,0.))")},` +
+    `${out.add("DIRECTION('',(0.,0.,1.))")},${out.add("DIRECTION('',(1.,0.,0.))")})`
+  );
+
+  const transform = exportTransform(meshes, options);
+  const solids: string[] = [];
+  const surfaces: string[] = [];
+  for (const node of nodes.values()) {
+    const shell = writeShell(out, node.name, node.meshes, transform);
+    if (shell) (shell.closed ? solids : surfaces).push(shell.item);
+  }
+  if (solids.length === 0 && surfaces.length === 0) {
+    throw new Error('Model has no faces to write');
+  }
+
+  const shape = out.add(`SHAPE_REPRESENTATION(${stepString(productName)},(${origin}),${context})`);
+  out.add(`SHAPE_DEFINITION_REPRESENTATION(${definitionShape},${shape})`);
+  if (solids.length > 0) {
+    const faceted = out.add(`FACETED_BREP_SHAPE_REPRESENTATION('',(${[...solids, origin].join(',')}),${context})`);
+    out.add(`SHAPE_REPRESENTATION_RELATIONSHIP('','',${shape},${faceted})`);
+  }
+  if (surfaces.length > 0) {
+    const surface = out.add(`MANIFOLD_SURFACE_SHAPE_REPRESENTATION('',(${[...surfaces, origin].join(',')}),${context})`);
+    out.add(`SHAPE_REPRESENTATION_RELATIONSHIP('','',${shape},${surface})`);
+  }
+
+  const header = [
+    'ISO-10303-21;',
+    'HEADER;',
+    `FILE_DESCRIPTION((${stepString(prompt.slice(0, 256))}),'2;1');`,
+    `FILE_NAME(${stepString(designId)},'${new Date().toISOString().slice(0, 19)}',(''),(''),'AgentiCAD','AgentiCAD','');`,
+    `FILE_SCHEMA(('${SCHEMA}'));`,
+    'ENDSEC;',
+    'DATA;'
+  ].join('\n') + '\n';
+
+  return new Blob([header, ...out.data, 'ENDSEC;\nEND-ISO-10303-21;\n'], { type: STEP_MIME_TYPE });
+}
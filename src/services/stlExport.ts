@@ -0,0 +1,83 @@
+import type { ExportProgress, ExportProgressListener } from './exportService';
+import {
+  exportTransform,
+  extractTriangleMeshes,
+  loadGLTFDocumentFromUrl,
+  type ExportPlacement
+} from './geometryAnalysis';
+import { writeSTL, type STLEncoding, type STLWriteResult } from './stlWriter';
+
+export interface STLExportOptions extends ExportPlacement {
+  encoding: STLEncoding;
+}
+
+// Messages between exportSTL and the export worker
+export interface STLWorkerRequest {
+  url: string;
+  options: STLExportOptions;
+}
+
+export type STLWorkerMessage =
+  | { type: 'progress'; progress: ExportProgress }
+  | { type: 'done'; blob: Blob; triangleCount: number }
+  | { type: 'error'; message: string };
+
+/**
+ * Load a glTF/GLB model and write it as STL on the calling thread
+ */
+export async function buildSTL(
+  url: string,
+  options: STLExportOptions,
+  onProgress?: ExportProgressListener
+): Promise<STLWriteResult> {
+  onProgress?.({ stage: 'loading', fraction: 0 });
+  const meshes = extractTriangleMeshes(await loadGLTFDocumentFromUrl(url));
+  return writeSTL(meshes, {
+    encoding: options.encoding,
+    transform: exportTransform(meshes, options),
+    onProgress: (written, total) => onProgress?.({ stage: 'writing', fraction: written / total })
+  });
+}
+
+/**
+ * Convert a glTF/GLB model to STL in a Web Worker so the page stays responsive.
+ * Falls back to the main thread where module workers are unavailable.
+ */
+export function exportSTL(
+  url: string,
+  options: STLExportOptions,
+  onProgress?: ExportProgressListener
+): Promise<STLWriteResult> {
+  // The worker resolves relative URLs against its own script, so hand it an absolute one
+  const absoluteUrl = new URL(url, window.location.href).toString();
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('../workers/stlExport.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('⚠️ STL export worker unavailable, converting on the main thread:', error);
+    return buildSTL(absoluteUrl, options, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<STLWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve({ blob: message.blob, triangleCount: message.triangleCount });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'STL export worker failed'));
+    };
+    const request: STLWorkerRequest = { url: absoluteUrl, options };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,132 @@
+import { mirrorsGeometry, multiplyMatrices, type TriangleMesh } from './geometryAnalysis';
+
+// STL writers for exported models. Triangles are read straight from the typed arrays the glTF
+// accessors were decoded into and written to the output as they are transformed, so dense meshes
+// are never held as per-vertex arrays or one giant string.
+
+export type STLEncoding = 'binary' | 'ascii';
+
+export interface STLWriteOptions {
+  encoding: STLEncoding;
+  // Applied on top of the node transforms (see exportTransform)
+  transform: number[];
+  // Called with the number of triangles written so far
+  onProgress?: (written: number, total: number) => void;
+}
+
+export interface STLWriteResult {
+  blob: Blob;
+  triangleCount: number;
+}
+
+export const STL_MIME_TYPE = 'application/vnd.ms-pki.stl';
+
+// Binary layout: 80 byte header, uint32 triangle count, then per triangle a normal and three
+// vertices as float32 and a uint16 attribute byte count
+const HEADER_BYTES = 80;
+const TRIANGLE_BYTES = 50;
+
+// Progress is reported about this many times per export
+const PROGRESS_STEPS = 100;
+// ASCII triangles are joined into one string per this many
+const ASCII_CHUNK_TRIANGLES = 1000;
+
+interface TriangleSink {
+  write(normal: Float64Array, vertices: Float64Array): void;
+  finish(): Blob;
+}
+
+function binarySink(triangleCount: number): TriangleSink {
+  const buffer = new ArrayBuffer(HEADER_BYTES + 4 + triangleCount * TRIANGLE_BYTES);
+  const view = new DataView(buffer);
+  // The header must not start with "solid", or readers take the file for ASCII
+  new Uint8Array(buffer, 0, HEADER_BYTES).set(new TextEncoder().encode('binary STL exported from glTF').subarray(0, HEADER_BYTES));
+  view.setUint32(HEADER_BYTES, triangleCount, true);
+  let offset = HEADER_BYTES + 4;
+
+  return {
+    write(normal, vertices) {
+      for (let i = 0; i < 3; i++, offset += 4) view.setFloat32(offset, normal[i], true);
+      for (let i = 0; i < 9; i++, offset += 4) view.setFloat32(offset, vertices[i], true);
+      view.setUint16(offset, 0, true);
+      offset += 2;
+    },
+    finish: () => new Blob([buffer], { type: STL_MIME_TYPE })
+  };
+}
+
+function asciiSink(): TriangleSink {
+  const parts: string[] = ['solid model\n'];
+  let pending: string[] = [];
+  const f = (values: Float64Array, start: number) =>
+    `${values[start].toFixed(6)} ${values[start + 1].toFixed(6)} ${values[start + 2].toFixed(6)}`;
+
+  return {
+    write(normal, vertices) {
+      pending.push(
+        `  facet normal ${f(normal, 0)}\n    outer loop\n` +
+        `      vertex ${f(vertices, 0)}\n      vertex ${f(vertices, 3)}\n      vertex ${f(vertices, 6)}\n` +
+        '    endloop\n  endfacet\n'
+      );
+      if (pending.length === ASCII_CHUNK_TRIANGLES) {
+        parts.push(pending.join(''));
+        pending = [];
+      }
+    },
+    finish() {
+      parts.push(pending.join(''), 'endsolid model\n');
+      return new Blob(parts, { type: STL_MIME_TYPE });
+    }
+  };
+}
+
+/**
+ * Write every triangle of the meshes, in world space, as STL
+ */
+export function writeSTL(meshes: TriangleMesh[], options: STLWriteOptions): STLWriteResult {
+  const total = meshes.reduce((sum, mesh) => sum + Math.floor(mesh.indices.length / 3), 0);
+  if (total === 0) {
+    throw new Error('No triangles found in model');
+  }
+
+  const sink = options.encoding === 'ascii' ? asciiSink() : binarySink(total);
+  const progressEvery = Math.max(1, Math.ceil(total / PROGRESS_STEPS));
+  const vertices = new Float64Array(9);
+  const normal = new Float64Array(3);
+  let written = 0;
+
+  for (const { positions, indices, matrix } of meshes) {
+    const m = multiplyMatrices(options.transform, matrix);
+    // Swapping two corners keeps mirrored triangles facing out
+    const flip = mirrorsGeometry(m);
+
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      for (let corner = 0; corner < 3; corner++) {
+        const p = indices[i + (flip && corner > 0 ? 3 - corner : corner)] * 3;
+        const x = positions[p], y = positions[p + 1], z = positions[p + 2];
+        for (let axis = 0; axis < 3; axis++) {
+          vertices[corner * 3 + axis] = m[axis] * x + m[axis + 4] * y + m[axis + 8] * z + m[axis + 12];
+        }
+      }
+
+      const e1x = vertices[3] - vertices[0], e1y = vertices[4] - vertices[1], e1z = vertices[5] - vertices[2];
+      const e2x = vertices[6] - vertices[0], e2y = vertices[7] - vertices[1], e2z = vertices[8] - vertices[2];
+      normal[0] = e1y * e2z - e1z * e2y;
+      normal[1] = e1z * e2x - e1x * e2z;
+      normal[2] = e1x * e2y - e1y * e2x;
+      const length = Math.hypot(normal[0], normal[1], normal[2]);
+      if (length > 0) {
+        normal[0] /= length;
+        normal[1] /= length;
+        normal[2] /= length;
+      }
+
+      sink.write(normal, vertices);
+      written++;
+      if (written % progressEvery === 0) options.onProgress?.(written, total);
+    }
+  }
+
+  if (total % progressEvery !== 0) options.onProgress?.(total, total);
+  return { blob: sink.finish(), triangleCount: total };
+}
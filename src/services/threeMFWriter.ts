@@ -0,0 +1,230 @@
+import {
+  exportTransform,
+  extractTriangleMeshes,
+  multiplyMatrices,
+  type ExportPlacement,
+  type GLTFDocument,
+  type TriangleMesh
+} from './geometryAnalysis';
+import type { LengthUnit } from './units';
+import { createZip } from './zipWriter';
+
+// 3MF writer for exported models. Every glTF node with a mesh becomes its own object (in the
+// node's local coordinates) placed by a build item carrying the node's world transform, so print
+// software keeps the parts apart. The model declares its unit, objects take their name, material
+// and color from the design's components, and the design's id and prompt go in the metadata.
+
+export const THREE_MF_MIME_TYPE = 'model/3mf';
+
+// Part of the design as described in productSpecs.components
+export interface ThreeMFComponent {
+  name?: string;
+  material?: string;
+  color?: string;
+}
+
+export interface ThreeMFOptions extends ExportPlacement {
+  // Unit the model is declared in
+  units: LengthUnit;
+  components?: ThreeMFComponent[];
+  metadata: {
+    designId: string;
+    prompt: string;
+    title?: string;
+  };
+}
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+// Namespace of the design metadata; 3MF requires one for anything beyond its own metadata names
+const DESIGN_NAMESPACE = 'urn:agenticad:3mf:design';
+const MODEL_PATH = '3D/3dmodel.model';
+
+const UNIT_NAMES: Record<LengthUnit, string> = {
+  mm: 'millimeter',
+  cm: 'centimeter',
+  m: 'meter',
+  in: 'inch',
+  ft: 'foot'
+};
+
+// Colors for parts without one of their own, so neighbouring parts stay apart in the slicer
+const PART_COLORS = ['#4A90E2', '#50C878', '#FF6B6B', '#FFA500', '#9370DB', '#FFD700', '#8B4513', '#FF69B4'];
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const ROOT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${MODEL_PATH}" Id="rel0" Type="${MODEL_RELATIONSHIP}"/>
+</Relationships>
+`;
+
+interface BuildObject {
+  name: string;
+  // Local-space primitives of the node, all sharing its world transform
+  meshes: TriangleMesh[];
+  matrix: number[];
+  material?: number;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Float32 geometry carries about 7 significant digits; small unit scales need them too
+const formatNumber = (value: number) => String(Number(value.toPrecision(7)));
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// "#RGB" / "#RRGGBB" to 3MF's "#RRGGBBAA"
+function toDisplayColor(color: string | undefined): string | undefined {
+  const match = color?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return `#${hex.toUpperCase()}FF`;
+}
+
+function gltfMaterialColor(doc: GLTFDocument, material: number | undefined): string | undefined {
+  const factor = material !== undefined ? doc.json.materials?.[material]?.pbrMetallicRoughness?.baseColorFactor : undefined;
+  if (!factor) return undefined;
+  const hex = factor.slice(0, 3).map(c => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, '0')).join('');
+  return `#${hex.toUpperCase()}FF`;
+}
+
+// One object per mesh node; documents without a scene give one per mesh
+function collectObjects(doc: GLTFDocument, meshes: TriangleMesh[]): BuildObject[] {
+  const objects = new Map<string, BuildObject>();
+  for (const mesh of meshes) {
+    const key = mesh.nodeIndex >= 0 ? `node_${mesh.nodeIndex}` : `mesh_${mesh.meshIndex}`;
+    const existing = objects.get(key);
+    if (existing) {
+      existing.meshes.push(mesh);
+      continue;
+    }
+    const nodeName = mesh.nodeIndex >= 0 ? doc.json.nodes?.[mesh.nodeIndex]?.name : undefined;
+    const meshName = doc.json.meshes?.[mesh.meshIndex]?.name;
+    objects.set(key, {
+      name: nodeName || meshName || `part_${objects.size + 1}`,
+      meshes: [mesh],
+      matrix: mesh.matrix,
+      material: mesh.material
+    });
+  }
+  return [...objects.values()];
+}
+
+/**
+ * Match objects to the design's components: by name where an object is named after one,
+ * otherwise in order when there are as many components as objects, otherwise the first
+ * (main) component for everything
+ */
+function matchComponents(objects: BuildObject[], components: ThreeMFComponent[]): Array<ThreeMFComponent | undefined> {
+  if (components.length === 0) return objects.map(() => undefined);
+  const byName = new Map(components.filter(c => c.name).map(c => [normalizeName(c.name!), c]));
+  return objects.map((object, index) => {
+    const name = normalizeName(object.name);
+    const named = byName.get(name) ??
+      [...byName.entries()].find(([componentName]) => componentName && name.includes(componentName))?.[1];
+    if (named) return named;
+    return components.length === objects.length ? components[index] : components[0];
+  });
+}
+
+function modelXml(doc: GLTFDocument, options: ThreeMFOptions): string {
+  const meshes = extractTriangleMeshes(doc);
+  const objects = collectObjects(doc, meshes);
+  if (objects.length === 0) {
+    throw new Error('No meshes found in model');
+  }
+
+  const matched = matchComponents(objects, options.components ?? []);
+  // One base material per distinct name and color
+  const materials: Array<{ name: string; color: string }> = [];
+  const materialIndex = objects.map((object, index) => {
+    const component = matched[index];
+    const name = component?.material || component?.name || object.name;
+    const color = toDisplayColor(component?.color) ??
+      gltfMaterialColor(doc, object.material) ??
+      toDisplayColor(PART_COLORS[index % PART_COLORS.length])!;
+    const existing = materials.findIndex(m => m.name === name && m.color === color);
+    if (existing >= 0) return existing;
+    materials.push({ name, color });
+    return materials.length - 1;
+  });
+
+  const { designId, prompt, title } = options.metadata;
+  const metadata: Array<[string, string]> = [
+    ['Title', title || prompt.slice(0, 80)],
+    ['Description', prompt],
+    ['Application', 'AgentiCAD'],
+    ['CreationDate', new Date().toISOString().slice(0, 10)],
+    ['design:id', designId],
+    ['design:prompt', prompt]
+  ];
+
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<model unit="${UNIT_NAMES[options.units]}" xml:lang="en-US" xmlns="${CORE_NAMESPACE}" xmlns:design="${DESIGN_NAMESPACE}">\n`,
+    ...metadata.map(([name, value]) =>
+      `  <metadata name="${name}"${name.startsWith('design:') ? ' preserve="1"' : ''}>${escapeXml(value)}</metadata>\n`
+    ),
+    '  <resources>\n',
+    '    <basematerials id="1">\n',
+    ...materials.map(m => `      <base name="${escapeXml(m.name)}" displaycolor="${m.color}"/>\n`),
+    '    </basematerials>\n'
+  ];
+
+  objects.forEach((object, index) => {
+    out.push(
+      `    <object id="${index + 2}" type="model" name="${escapeXml(object.name)}" pid="1" pindex="${materialIndex[index]}">\n`,
+      '      <mesh>\n        <vertices>\n'
+    );
+    for (const { positions } of object.meshes) {
+      const lines: string[] = [];
+      for (let i = 0; i + 2 < positions.length; i += 3) {
+        lines.push(`          <vertex x="${formatNumber(positions[i])}" y="${formatNumber(positions[i + 1])}" z="${formatNumber(positions[i + 2])}"/>\n`);
+      }
+      out.push(lines.join(''));
+    }
+    out.push('        </vertices>\n        <triangles>\n');
+    let base = 0;
+    for (const { positions, indices } of object.meshes) {
+      const lines: string[] = [];
+      for (let i = 0; i + 2 < indices.length; i += 3) {
+        lines.push(`          <triangle v1="${base + indices[i]}" v2="${base + indices[i + 1]}" v3="${base + indices[i + 2]}"/>\n`);
+      }
+      out.push(lines.join(''));
+      base += positions.length / 3;
+    }
+    out.push('        </triangles>\n      </mesh>\n    </object>\n');
+  });
+
+  out.push('  </resources>\n  <build>\n');
+  const outer = exportTransform(meshes, options);
+  objects.forEach((object, index) => {
+    // 3MF transforms are row-major for row vectors: the glTF column-major matrix read in order,
+    // without its last row
+    const m = multiplyMatrices(outer, object.matrix);
+    const transform = [0, 1, 2, 4, 5, 6, 8, 9, 10, 12, 13, 14].map(i => formatNumber(m[i])).join(' ');
+    out.push(`    <item objectid="${index + 2}" transform="${transform}"/>\n`);
+  });
+  out.push('  </build>\n</model>\n');
+
+  return out.join('');
+}
+
+/**
+ * Write a decoded glTF document as a 3MF package
+ */
+export function write3MF(doc: GLTFDocument, options: ThreeMFOptions): Blob {
+  return createZip([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES },
+    { path: '_rels/.rels', data: ROOT_RELATIONSHIPS },
+    { path: MODEL_PATH, data: modelXml(doc, options) }
+  ], THREE_MF_MIME_TYPE);
+}
+
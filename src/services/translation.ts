@@ -0,0 +1,283 @@
+/**
+ * Prompts written in languages other than English.
+ *
+ * The generator only handles English well, so German and Spanish prompts (typed or spoken) are
+ * detected locally and translated to English before enhancement. The LLM provider translates
+ * through the Pica OpenAI passthrough; the dictionary provider is a word-for-word stand-in for
+ * common part and feature vocabulary that works offline and backs up the LLM when it fails. The
+ * prompt as written is kept on the model (CADModel.translatedFrom).
+ */
+
+export type PromptLanguage = 'en' | 'de' | 'es';
+
+export const PROMPT_LANGUAGES: PromptLanguage[] = ['en', 'de', 'es'];
+
+export const LANGUAGE_NAMES: Record<PromptLanguage, string> = {
+  en: 'English',
+  de: 'German',
+  es: 'Spanish'
+};
+
+// Web Speech API recognition locale for each language
+export const SPEECH_LOCALES: Record<PromptLanguage, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  es: 'es-ES'
+};
+
+export interface LanguageDetection {
+  language: PromptLanguage;
+  // Share of the language hints found that point to this language
+  confidence: number;
+}
+
+export interface PromptTranslation {
+  // English prompt to generate from
+  text: string;
+  original: string;
+  language: PromptLanguage;
+  provider: string;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  /** English translation of a prompt written in `from` */
+  translate(text: string, from: PromptLanguage, signal?: AbortSignal): Promise<string>;
+}
+
+// Common words of each language; the language with the most of them wins
+const LANGUAGE_HINTS: Record<PromptLanguage, string[]> = {
+  en: [
+    'and', 'with', 'the', 'a', 'an', 'of', 'for', 'to', 'in', 'on', 'is', 'that', 'holes', 'hole',
+    'wide', 'thick', 'tall', 'long', 'high', 'corners', 'rounded', 'plate', 'box', 'design', 'make'
+  ],
+  de: [
+    'und', 'mit', 'der', 'die', 'das', 'ein', 'eine', 'einer', 'einem', 'einen', 'für', 'von', 'zu',
+    'ist', 'auf', 'aus', 'oder', 'löcher', 'loch', 'breit', 'dick', 'hoch', 'lang', 'ecken',
+    'platte', 'gehäuse', 'halterung', 'abgerundeten', 'abgerundete', 'durchmesser', 'zwei', 'vier'
+  ],
+  es: [
+    'y', 'con', 'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del', 'para', 'por', 'en', 'que',
+    'es', 'agujeros', 'agujero', 'ancho', 'grueso', 'alto', 'largo', 'esquinas', 'placa', 'caja',
+    'soporte', 'redondeadas', 'diámetro', 'dos', 'cuatro'
+  ]
+};
+
+/**
+ * Language of a prompt from its common words and accented letters. Short or ambiguous prompts
+ * are taken to be English.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const lowered = text.toLowerCase();
+  const words = lowered.split(/[^a-zäöüßñáéíóú]+/).filter(Boolean);
+  const scores: Record<PromptLanguage, number> = { en: 0, de: 0, es: 0 };
+
+  for (const word of words) {
+    for (const language of PROMPT_LANGUAGES) {
+      if (LANGUAGE_HINTS[language].includes(word)) scores[language] += 1;
+    }
+  }
+  scores.de += 2 * (lowered.match(/[äöüß]/g)?.length ?? 0);
+  scores.es += 2 * (lowered.match(/[ñ¿¡]/g)?.length ?? 0) + (lowered.match(/[áéíóú]/g)?.length ?? 0);
+
+  const total = scores.en + scores.de + scores.es;
+  const [best, bestScore] = (Object.entries(scores) as Array<[PromptLanguage, number]>)
+    .reduce((a, b) => (b[1] > a[1] ? b : a));
+  if (best === 'en' || bestScore < 2 || bestScore === scores.en) {
+    return { language: 'en', confidence: total > 0 ? scores.en / total : 1 };
+  }
+  return { language: best, confidence: bestScore / total };
+}
+
+interface PicaConfig {
+  secretKey: string;
+  openaiConnectionKey: string;
+}
+
+const getPicaConfig = (): PicaConfig => ({
+  secretKey: import.meta.env.VITE_PICA_SECRET_KEY || '',
+  openaiConnectionKey: import.meta.env.VITE_PICA_OPENAI_CONNECTION_KEY || ''
+});
+
+/**
+ * Translation by the OpenAI model behind the Pica passthrough, the same one prompt enhancement uses
+ */
+export class LLMTranslationProvider implements TranslationProvider {
+  readonly name = 'llm';
+
+  async translate(text: string, from: PromptLanguage, signal?: AbortSignal): Promise<string> {
+    const config = getPicaConfig();
+    if (!config.secretKey || !config.openaiConnectionKey) {
+      throw new Error('OpenAI configuration missing');
+    }
+
+    const response = await fetch('https://api.picaos.com/v1/passthrough/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-pica-secret': config.secretKey,
+        'x-pica-connection-key': config.openaiConnectionKey,
+        'x-pica-action-id': 'conn_mod_def::GDzgi1QfvM4::4OjsWvZhRxmAVuLAuWgfVA'
+      },
+      body: JSON.stringify({
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's ${LANGUAGE_NAMES[from]} description of a mechanical part into English.
+Keep every number and unit exactly as written, using a decimal point instead of a decimal comma.
+Use standard engineering terms (plate, bracket, housing, hole, fillet, chamfer, thread).
+Reply with the translation only.`
+          },
+          { role: 'user', content: text }
+        ],
+        model: 'gpt-4o',
+        temperature: 0,
+        max_completion_tokens: 300
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const translation = data?.choices?.[0]?.message?.content?.trim().replace(/^"|"$/g, '');
+    if (!translation) throw new Error('Empty translation');
+    return translation;
+  }
+}
+
+// Phrases translated before single words, since their word order differs from English
+const PHRASES: Record<Exclude<PromptLanguage, 'en'>, Array<[RegExp, string]>> = {
+  de: [
+    [/\babgerundete[nm]?\s+ecken\b/g, 'rounded corners'],
+    [/\bim durchmesser\b/g, 'diameter'],
+    [/\bin jeder ecke\b/g, 'in each corner']
+  ],
+  es: [
+    [/\besquinas redondeadas\b/g, 'rounded corners'],
+    [/\bbordes redondeados\b/g, 'rounded edges'],
+    [/\bsoporte de pared\b/g, 'wall bracket'],
+    [/\bsoporte para ([a-zñáéíóú]+)/g, '$1 holder'],
+    [/\bde ancho\b/g, 'wide'],
+    [/\bde largo\b/g, 'long'],
+    [/\bde alto\b/g, 'tall'],
+    [/\bde altura\b/g, 'tall'],
+    [/\bde (grosor|espesor)\b/g, 'thick'],
+    [/\bde diámetro\b/g, 'diameter'],
+    [/\ben cada esquina\b/g, 'in each corner']
+  ]
+};
+
+const WORDS: Record<Exclude<PromptLanguage, 'en'>, Record<string, string>> = {
+  de: {
+    ein: 'a', eine: 'a', einen: 'a', einem: 'a', einer: 'a', der: 'the', die: 'the', das: 'the',
+    den: 'the', dem: 'the', und: 'and', mit: 'with', für: 'for', von: 'of', aus: 'made of', oder: 'or',
+    in: 'in', an: 'on', auf: 'on', jeder: 'each', jede: 'each', pro: 'per',
+    zwei: 'two', drei: 'three', vier: 'four', fünf: 'five', sechs: 'six', acht: 'eight',
+    platte: 'plate', grundplatte: 'base plate', halterung: 'bracket', wandhalterung: 'wall bracket',
+    halter: 'holder', handyhalter: 'phone holder', ständer: 'stand', gehäuse: 'housing', kasten: 'box',
+    box: 'box', deckel: 'lid', abdeckung: 'cover', zahnrad: 'gear', zähne: 'teeth', zähnen: 'teeth',
+    welle: 'shaft', flansch: 'flange', rohr: 'tube', ring: 'ring', scheibe: 'washer', buchse: 'bushing',
+    haken: 'hook', griff: 'handle', klammer: 'clip', schraube: 'screw', schrauben: 'screws',
+    mutter: 'nut', loch: 'hole', löcher: 'holes', löchern: 'holes', bohrung: 'hole', bohrungen: 'holes',
+    schraubenlöcher: 'screw holes', schraubenlöchern: 'screw holes', befestigungslöcher: 'mounting holes',
+    befestigungslöchern: 'mounting holes', montagelöcher: 'mounting holes', montagelöchern: 'mounting holes',
+    schlitz: 'slot', nut: 'groove', rippe: 'rib', rippen: 'ribs', wand: 'wall', wände: 'walls',
+    wandstärke: 'wall thickness', ecke: 'corner', ecken: 'corners', kante: 'edge', kanten: 'edges',
+    fase: 'chamfer', fasen: 'chamfers', rundung: 'fillet', gewinde: 'thread', mitte: 'center',
+    breit: 'wide', lang: 'long', hoch: 'tall', dick: 'thick', tief: 'deep', durchmesser: 'diameter',
+    radius: 'radius', breite: 'width', länge: 'length', höhe: 'height', dicke: 'thickness', stärke: 'thickness',
+    rund: 'round', runde: 'round', runden: 'round', rechteckig: 'rectangular', rechteckige: 'rectangular',
+    rechteckigen: 'rectangular', abgerundet: 'rounded', abgerundete: 'rounded', abgerundeten: 'rounded',
+    zylindrisch: 'cylindrical', zylindrische: 'cylindrical', hohl: 'hollow', kleine: 'small',
+    kleinen: 'small', große: 'large', großen: 'large', zentrale: 'central', zentralen: 'central',
+    handy: 'phone', telefon: 'phone'
+  },
+  es: {
+    un: 'a', una: 'a', unos: 'some', el: 'the', la: 'the', los: 'the', las: 'the', y: 'and',
+    con: 'with', para: 'for', de: 'of', del: 'of the', en: 'in', o: 'or', cada: 'each', por: 'per',
+    dos: 'two', tres: 'three', cuatro: 'four', cinco: 'five', seis: 'six', ocho: 'eight',
+    placa: 'plate', soporte: 'bracket', base: 'base', caja: 'box', carcasa: 'housing', tapa: 'lid',
+    cubierta: 'cover', engranaje: 'gear', dientes: 'teeth', eje: 'shaft', brida: 'flange', tubo: 'tube',
+    anillo: 'ring', arandela: 'washer', gancho: 'hook', mango: 'handle', asa: 'handle', clip: 'clip',
+    tornillo: 'screw', tornillos: 'screws', tuerca: 'nut', agujero: 'hole', agujeros: 'holes',
+    orificio: 'hole', orificios: 'holes', ranura: 'slot', nervio: 'rib', nervios: 'ribs', pared: 'wall',
+    paredes: 'walls', esquina: 'corner', esquinas: 'corners', borde: 'edge', bordes: 'edges',
+    chaflán: 'chamfer', chaflanes: 'chamfers', rosca: 'thread', centro: 'center', central: 'central',
+    ancho: 'wide', largo: 'long', alto: 'tall', grueso: 'thick', profundo: 'deep', diámetro: 'diameter',
+    radio: 'radius', anchura: 'width', longitud: 'length', altura: 'height', grosor: 'thickness',
+    espesor: 'thickness', redondo: 'round', redonda: 'round', rectangular: 'rectangular',
+    redondeado: 'rounded', redondeada: 'rounded', redondeadas: 'rounded', redondeados: 'rounded',
+    cilíndrico: 'cylindrical', cilíndrica: 'cylindrical', hueco: 'hollow', hueca: 'hollow',
+    pequeño: 'small', pequeña: 'small', pequeños: 'small', grande: 'large', grandes: 'large',
+    teléfono: 'phone', móvil: 'phone'
+  }
+};
+
+/**
+ * Word-for-word stand-in for the LLM. Numbers and units pass through; words it does not know are
+ * kept as written.
+ */
+export class DictionaryTranslationProvider implements TranslationProvider {
+  readonly name = 'dictionary';
+
+  async translate(text: string, from: PromptLanguage): Promise<string> {
+    if (from === 'en') return text.trim();
+
+    let translated = text.trim().toLowerCase()
+      // Decimal commas ("2,5 mm") become decimal points
+      .replace(/(\d),(\d)/g, '$1.$2')
+      .replace(/[¿¡]/g, '');
+    for (const [pattern, replacement] of PHRASES[from]) {
+      translated = translated.replace(pattern, replacement);
+    }
+
+    const words = WORDS[from];
+    return translated
+      .replace(/[a-zäöüßñáéíóú]+/g, word => words[word] ?? word)
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+export const createTranslationProvider = (name?: string): TranslationProvider => {
+  if (name === 'local') return new DictionaryTranslationProvider();
+  return new LLMTranslationProvider();
+};
+
+class TranslationService {
+  private fallback = new DictionaryTranslationProvider();
+
+  constructor(private provider: TranslationProvider) {}
+
+  setProvider(provider: TranslationProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * English version of a prompt, translated from `language` (detected when not given). English
+   * prompts come back unchanged; the dictionary steps in when the provider fails.
+   */
+  async toEnglish(text: string, language?: PromptLanguage, signal?: AbortSignal): Promise<PromptTranslation> {
+    const original = text.trim();
+    const from = language ?? detectLanguage(original).language;
+    if (from === 'en') return { text: original, original, language: 'en', provider: 'none' };
+
+    try {
+      const translated = await this.provider.translate(original, from, signal);
+      console.log(`🌐 Translated ${LANGUAGE_NAMES[from]} prompt (${this.provider.name}):`, translated);
+      return { text: translated, original, language: from, provider: this.provider.name };
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(`Translation with ${this.provider.name} failed, using the dictionary:`, error);
+      const translated = await this.fallback.translate(original, from);
+      return { text: translated, original, language: from, provider: this.fallback.name };
+    }
+  }
+}
+
+export const translationService = new TranslationService(createTranslationProvider(
+  import.meta.env.VITE_TRANSLATION_PROVIDER || (import.meta.env.VITE_CAD_PROVIDER === 'local' ? 'local' : 'llm')
+));
@@ -0,0 +1,104 @@
+/**
+ * Length units for generated models.
+ *
+ * A model's file coordinates are in the units its generation was requested in (CADModel.units,
+ * millimetres when unset). Measurements are converted from those units for display in the user's
+ * unit system (GenerationRequest.preferences.units) and geometry is scaled into the chosen units
+ * on export.
+ */
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft'];
+
+export const LENGTH_UNIT_NAMES: Record<LengthUnit, string> = {
+  mm: 'Millimeters',
+  cm: 'Centimeters',
+  m: 'Meters',
+  in: 'Inches',
+  ft: 'Feet'
+};
+
+// Units of models that do not record their own (everything generated before units were tracked)
+export const DEFAULT_MODEL_UNITS: LengthUnit = 'mm';
+
+// Unit measurements and exports use by default in each system
+export const DISPLAY_UNITS: Record<UnitSystem, LengthUnit> = {
+  metric: 'mm',
+  imperial: 'in'
+};
+
+const MILLIMETERS_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8
+};
+
+// Decimal places worth showing for a part-sized measurement in each unit
+const DISPLAY_DECIMALS: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 2,
+  m: 3,
+  in: 2,
+  ft: 3
+};
+
+export const isLengthUnit = (value: unknown): value is LengthUnit =>
+  LENGTH_UNITS.includes(value as LengthUnit);
+
+export const unitSystemOf = (unit: LengthUnit): UnitSystem =>
+  unit === 'in' || unit === 'ft' ? 'imperial' : 'metric';
+
+/** Factor that converts a length in `from` units into `to` units */
+export const lengthConversionFactor = (from: LengthUnit, to: LengthUnit): number =>
+  MILLIMETERS_PER_UNIT[from] / MILLIMETERS_PER_UNIT[to];
+
+export const convertLength = (value: number, from: LengthUnit, to: LengthUnit): number =>
+  value * lengthConversionFactor(from, to);
+
+export const convertArea = (value: number, from: LengthUnit, to: LengthUnit): number =>
+  value * lengthConversionFactor(from, to) ** 2;
+
+export const convertVolume = (value: number, from: LengthUnit, to: LengthUnit): number =>
+  value * lengthConversionFactor(from, to) ** 3;
+
+const formatNumber = (value: number, unit: LengthUnit) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: DISPLAY_DECIMALS[unit] });
+
+export const formatLength = (value: number, from: LengthUnit, to: LengthUnit = from): string =>
+  `${formatNumber(convertLength(value, from, to), to)} ${to}`;
+
+export const formatArea = (value: number, from: LengthUnit, to: LengthUnit = from): string =>
+  `${formatNumber(convertArea(value, from, to), to)} ${to}²`;
+
+export const formatVolume = (value: number, from: LengthUnit, to: LengthUnit = from): string =>
+  `${formatNumber(convertVolume(value, from, to), to)} ${to}³`;
+
+/** "W × H × D unit" for a model's bounding box */
+export const formatDimensions = (
+  dimensions: { width: number; height: number; depth: number },
+  from: LengthUnit,
+  to: LengthUnit = from
+): string => {
+  const { width, height, depth } = dimensions;
+  return [width, height, depth].map(value => formatNumber(convertLength(value, from, to), to)).join(' × ') + ` ${to}`;
+};
+
+/**
+ * Record the units of an exported text file where the format has a place for it: a comment in
+ * OBJ and a header comment in ASCII PLY. STL has no such field, so its units go in the filename.
+ */
+export const addUnitMetadata = (format: string, content: string, unit: LengthUnit): string => {
+  switch (format) {
+    case 'obj':
+      return `# Units: ${unit}\n${content}`;
+    case 'ply':
+      return content.replace(/^(format [^\n]*\n)/m, `$1comment units ${unit}\n`);
+    default:
+      return content;
+  }
+};
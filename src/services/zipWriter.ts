@@ -0,0 +1,102 @@
+// Minimal ZIP writer for export packages (3MF and friends). Entries are stored uncompressed,
+// which every ZIP and OPC reader accepts and keeps the writer dependency free.
+
+export interface ZipEntry {
+  // Path inside the archive, forward slashes, no leading slash
+  path: string;
+  data: ArrayBuffer | string;
+}
+
+export const ZIP_MIME_TYPE = 'application/zip';
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_RECORD_BYTES = 22;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS time and date fields of a ZIP header
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Package the entries into a ZIP archive
+ */
+export function createZip(entries: ZipEntry[], type: string = ZIP_MIME_TYPE, modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let offset = 0;
+  let centralSize = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : new Uint8Array(entry.data);
+    const crc = crc32(data);
+
+    // version 2.0, flag bit 11: UTF-8 names, method 0: stored
+    const header = new Uint8Array(LOCAL_HEADER_BYTES + name.length);
+    const local = new DataView(header.buffer);
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    header.set(name, LOCAL_HEADER_BYTES);
+
+    const record = new Uint8Array(CENTRAL_HEADER_BYTES + name.length);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, 0x02014B50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, 20, true);
+    view.setUint16(8, 0x0800, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, data.length, true);
+    view.setUint32(24, data.length, true);
+    view.setUint16(28, name.length, true);
+    view.setUint32(42, offset, true);
+    record.set(name, CENTRAL_HEADER_BYTES);
+
+    parts.push(header, data);
+    central.push(record);
+    centralSize += record.length;
+    offset += header.length + data.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(END_RECORD_BYTES));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type });
+}
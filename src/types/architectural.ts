@@ -1,3 +1,10 @@
+import type { StoredModelFiles } from '../services/modelStorage';
+import type { LengthUnit, UnitSystem } from '../services/units';
+import type { PromptLanguage } from '../services/translation';
+import type { ExportOptionValue } from '../services/exportService';
+import type { ManufacturerPackageVersion } from '../services/manufacturerPackage';
+import type { ThreeMFComponent } from '../services/threeMFWriter';
+
 // Core architectural model types
 export interface Room {
   id: string;
@@ -94,6 +101,12 @@ export interface CADModelData {
   gltfUrl: string;
   thumbnailUrl?: string;
   formats: Record<string, string>;
+  // Storage paths of the model's files (see services/modelStorage.ts)
+  storage?: StoredModelFiles;
+  // Units of the model's coordinates and properties (millimeters when unset)
+  units?: LengthUnit;
+  // Uniform scale applied on export (see cadAI.rescaleModel)
+  scale?: number;
   properties: {
     dimensions: {
       width: number;
@@ -102,7 +115,11 @@ export interface CADModelData {
     };
     volume: number;
     surfaceArea: number;
+    triangleCount: number;
+    complexityScore: number;
     complexity: 'simple' | 'moderate' | 'complex';
+    // Set when the geometry could not be measured (see CADModel in services/cadAI.ts)
+    analysisFailed?: boolean;
   };
   manufacturingCost?: {
     material: string;
@@ -111,22 +128,32 @@ export interface CADModelData {
     currency: string;
   };
   exportOptions?: CADExportOptions;
+  // Manufacturer packages built for the design, oldest first
+  manufacturerPackages?: ManufacturerPackageVersion[];
 }
 
 export interface CADExportOptions {
-  format: 'stl' | 'obj' | 'ply' | 'step' | 'fbx' | 'gltf';
-  units: 'mm' | 'cm' | 'm' | 'in' | 'ft';
+  format: 'stl' | '3mf' | 'obj' | 'ply' | 'step' | 'fbx' | 'gltf';
+  units: LengthUnit;
   quality: 'low' | 'medium' | 'high';
   scale?: number;
   // NEW FIX: Add viewer scale option
   useViewerScale?: boolean;
+  // Options of the format's writer (see exportService), defaults where unset
+  formatOptions?: Record<string, ExportOptionValue>;
+  // 3MF only: the design's parts (productSpecs.components) its objects are named and colored after
+  components?: ThreeMFComponent[];
 }
 
 export interface CADGenerationRequest {
   prompt: string;
   outputFormat?: 'gltf' | 'stl' | 'obj' | 'ply' | 'step' | 'fbx';
-  units?: 'mm' | 'cm' | 'm' | 'in' | 'ft';
+  units?: LengthUnit;
   scale?: number;
+  // Repeats with the same key return the first job instead of starting another
+  idempotencyKey?: string;
+  // The prompt as the user wrote it, when `prompt` is its English translation
+  translatedFrom?: { language: PromptLanguage; prompt: string };
 }
 
 export interface CADGenerationResponse {
@@ -146,6 +173,8 @@ export interface CADGenerationResponse {
 export interface TextInput {
   type: 'text';
   content: string;
+  // Language the content is written in, when known
+  language?: PromptLanguage;
   timestamp: Date;
 }
 
@@ -153,6 +182,8 @@ export interface VoiceInput {
   type: 'voice';
   audioBlob: Blob;
   transcript: string;
+  // Language the transcript was recognized in
+  language?: PromptLanguage;
   duration: number;
   timestamp: Date;
 }
@@ -255,7 +286,7 @@ export interface GenerationRequest {
   inputs: MultimodalInput;
   preferences: {
     style: 'modern' | 'traditional' | 'minimalist' | 'industrial';
-    units: 'metric' | 'imperial';
+    units: UnitSystem;
     complexity: 'simple' | 'detailed' | 'complex';
   };
   constraints?: {
@@ -0,0 +1,16 @@
+import { buildSTL, type STLWorkerMessage, type STLWorkerRequest } from '../services/stlExport';
+
+// Converts one model to STL off the main thread for exportSTL, then is terminated
+
+const post = (message: STLWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<STLWorkerRequest>) => {
+  try {
+    const { blob, triangleCount } = await buildSTL(event.data.url, event.data.options, progress =>
+      post({ type: 'progress', progress })
+    );
+    post({ type: 'done', blob, triangleCount });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
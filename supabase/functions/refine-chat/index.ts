@@ -0,0 +1,115 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RefineChatRequest {
+  message?: string;
+  designSessionId?: string | null;
+}
+
+// Kinds of failure reported in error envelopes (a subset of src/services/generationErrors.ts)
+type RefineChatErrorCode = 'auth_failed' | 'quota_exceeded' | 'invalid_request' | 'not_found' | 'upstream_unavailable' | 'internal';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Failure response: { error: { code, message, status, details? } }, like zoo-text-to-cad
+function errorResponse(code: RefineChatErrorCode, message: string, status: number, details?: string) {
+  return jsonResponse({ error: { code, message, status, ...(details && { details }) } }, status);
+}
+
+/**
+ * Start a refine chat turn: records the message in refine_chats and charges one refine chat to
+ * the caller through the consume_usage RPC. Everything runs with the caller's JWT, so their tier
+ * limit and the table policies apply. Answers { chat_id, used, limit }; the browser writes the
+ * AI response onto the chat once it has one.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json().catch(() => null) as RefineChatRequest | null;
+    const message = typeof body?.message === 'string' ? body.message.trim() : '';
+    if (!message) {
+      return errorResponse('invalid_request', 'Message is required', 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    if (!supabaseUrl || !anonKey) {
+      return errorResponse('upstream_unavailable', 'Usage metering is not configured', 503);
+    }
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('auth_failed', 'Sign in to refine designs', 401);
+    }
+
+    const caller = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false }
+    });
+    const { data: { user }, error: userError } = await caller.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (userError || !user) {
+      return errorResponse('auth_failed', 'Sign in to refine designs', 401);
+    }
+
+    const designSessionId = body?.designSessionId || null;
+    if (designSessionId) {
+      const { data: session, error } = await caller
+        .from('design_sessions')
+        .select('id')
+        .eq('id', designSessionId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!session) {
+        return errorResponse('not_found', 'Design session not found', 404);
+      }
+    }
+
+    // Recorded first so a charge is never left without its chat
+    const { data: chat, error: chatError } = await caller
+      .from('refine_chats')
+      .insert({ user_id: user.id, design_session_id: designSessionId, message })
+      .select('id')
+      .single();
+    if (chatError) throw chatError;
+
+    const { data, error } = await caller.rpc('consume_usage', { p_kind: 'refine_chat', p_amount: 1 });
+    const usage = data as { allowed: boolean; used: number; limit: number } | null;
+    if (error || !usage?.allowed) {
+      const { error: deleteError } = await caller.from('refine_chats').delete().eq('id', chat.id);
+      if (deleteError) console.error('Failed to remove uncharged refine chat:', deleteError);
+    }
+    if (error) {
+      console.error('Usage metering failed:', error);
+      // 28000: the RPC found no signed-in user behind the JWT
+      if (error.code === '28000') {
+        return errorResponse('auth_failed', 'Sign in to refine designs', 401);
+      }
+      return errorResponse('internal', 'Usage could not be recorded', 500);
+    }
+    if (!usage?.allowed) {
+      return errorResponse(
+        'quota_exceeded',
+        `Monthly refine chat limit reached (${usage?.used} of ${usage?.limit}). Upgrade your plan for more refine chats.`,
+        402
+      );
+    }
+
+    console.log('Started refine chat:', chat.id, `(${usage.used} of ${usage.limit} used)`);
+    return jsonResponse({ chat_id: chat.id, used: usage.used, limit: usage.limit });
+  } catch (error) {
+    console.error('Refine chat error:', error);
+    return errorResponse('internal', 'Internal server error', 500, error instanceof Error ? error.message : String(error));
+  }
+})
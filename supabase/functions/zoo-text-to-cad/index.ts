@@ -1,4 +1,5 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.49.1'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,13 +7,700 @@ const corsHeaders = {
 }
 
 interface ZooAPIRequest {
-  action: 'generate' | 'status' | 'convert';
+  action: 'generate' | 'status' | 'watch' | 'cancel' | 'decline_substitute' | 'accept_substitute' | 'charge_design' | 'convert' | 'list_jobs' | 'get_job';
   prompt?: string;
+  originalPrompt?: string;
+  enhancement?: {
+    source: string;
+    confidence: number;
+    wasEnhanced: boolean;
+    rules?: string[];
+    // What the outcome of the job is recorded under (mirrors EnhancementTracking in src/services/enhancementStats.ts)
+    tracking?: {
+      category: string;
+      enhancerVersion: number | null;
+      fallbackPolicy: string;
+      fallbackStrategy?: 'design_prefix' | 'template';
+      // Zoo job id of the rejected job a fallback job replaces
+      fallbackOf?: string;
+    };
+  };
   outputFormat?: string;
   units?: string;
   scale?: number;
   id?: string;
+  jobId?: string;
   convertFormat?: string;
+  // Repeated generate requests with the same key return the job created by the first one
+  idempotencyKey?: string;
+}
+
+// Fields of a Zoo text-to-cad status payload that are stored on the job record
+interface ZooJobStatus {
+  status: string;
+  outputs?: Record<string, string>;
+  error?: string;
+  completed_at?: string;
+}
+
+interface GenerationJobRow {
+  id: string;
+  user_id: string | null;
+  zoo_job_id: string | null;
+  status: string;
+  prompt: string;
+  original_prompt: string | null;
+  enhancement: ZooAPIRequest['enhancement'] | null;
+  output_format: string;
+  units: string;
+  scale: number;
+  outputs: Record<string, string> | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  idempotency_key: string | null;
+  credit_charged: boolean;
+  credit_refunded: boolean;
+  lane: string | null;
+  substitute_accepted_at: string | null;
+}
+
+// Kinds of failure reported in error envelopes and on failed jobs (mirrors src/services/generationErrors.ts)
+type GenerationErrorCode =
+  | 'prompt_rejected'
+  | 'rate_limited'
+  | 'auth_failed'
+  | 'quota_exceeded'
+  | 'upstream_unavailable'
+  | 'timeout'
+  | 'output_missing'
+  | 'invalid_request'
+  | 'not_found'
+  | 'internal';
+
+// Thrown inside the handler and answered as an error envelope by the catch-all
+class RequestError extends Error {
+  constructor(public code: GenerationErrorCode, message: string, public status: number) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// Jobs in these states are still running at Zoo and can be reattached to
+const IN_FLIGHT_STATUSES = ['queued', 'uploaded', 'in_progress'];
+
+// Completed jobs stay resumable for a day so a reload right after completion loses nothing
+const RESUMABLE_COMPLETED_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// A watch stream stays open at most this long; the client reconnects if the job is still running
+const WATCH_MAX_DURATION_MS = 120 * 1000;
+
+// Server-side polling of Zoo while a watch stream is open: fast at first, slower while nothing changes
+const WATCH_MIN_INTERVAL_MS = 1000;
+const WATCH_MAX_INTERVAL_MS = 5000;
+
+// Zoo requests that take longer than this are answered with a timeout error
+const ZOO_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// A duplicate generate request waits this long for the original one to reach Zoo
+const DUPLICATE_SUBMISSION_WAIT_MS = ZOO_REQUEST_TIMEOUT_MS + 5 * 1000;
+const DUPLICATE_SUBMISSION_POLL_MS = 500;
+// A 'submitting' job older than this lost its request before Zoo's id was recorded
+const STALE_SUBMISSION_MS = 2 * DUPLICATE_SUBMISSION_WAIT_MS;
+
+// Tries at recording the Zoo id on a reserved job before the reservation is given up
+const ZOO_JOB_RECORD_ATTEMPTS = 3;
+
+// Back-off suggested to clients when Zoo rate limits without a Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// Submissions let through to Zoo per minute, across all users and per user (see claim_generation_slot)
+const ZOO_SUBMISSIONS_PER_MINUTE = Number(Deno.env.get('ZOO_SUBMISSIONS_PER_MINUTE')) || 20;
+const ZOO_USER_SUBMISSIONS_PER_MINUTE = Number(Deno.env.get('ZOO_USER_SUBMISSIONS_PER_MINUTE')) || 5;
+
+// Generic part the client substitutes for prompts it cannot use (mirrors FALLBACK_TEMPLATE_PROMPT
+// in src/services/cadAI.ts); a model generated from it is only paid for once the user accepts it
+const FALLBACK_TEMPLATE_PROMPT = 'design a plate with 4 holes near each corner and rounded corners';
+
+// Substituted models not accepted this long after completing are refunded (see refund_unaccepted_substitutes)
+const SUBSTITUTE_ACCEPT_WINDOW_SECONDS = 60 * 60;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Failure response: { error: { code, message, status, retry_after_seconds?, details? } }.
+ * Rate limit responses also carry a Retry-After header.
+ */
+function errorResponse(
+  code: GenerationErrorCode,
+  message: string,
+  status: number,
+  options: { retryAfterSeconds?: number; details?: string } = {}
+) {
+  return new Response(JSON.stringify({
+    error: {
+      code,
+      message,
+      status,
+      ...(options.retryAfterSeconds !== undefined && { retry_after_seconds: options.retryAfterSeconds }),
+      ...(options.details && { details: options.details })
+    }
+  }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(options.retryAfterSeconds !== undefined && { 'Retry-After': String(options.retryAfterSeconds) })
+    }
+  });
+}
+
+// Map a failed Zoo response onto our error codes. A rejected Zoo token is our configuration
+// problem, not the caller's, so it is reported as the service being unavailable.
+function classifyZooError(zooStatus: number): { code: GenerationErrorCode; message: string; status: number } {
+  if (zooStatus === 422) {
+    return {
+      code: 'prompt_rejected',
+      message: 'Text-to-CAD could not turn this prompt into a model. Try describing the shape, dimensions and features more specifically.',
+      status: 422
+    };
+  }
+  if (zooStatus === 429) {
+    return { code: 'rate_limited', message: 'Rate limit exceeded. Please wait before trying again.', status: 429 };
+  }
+  if (zooStatus === 401 || zooStatus === 403) {
+    return { code: 'upstream_unavailable', message: 'The CAD generation service rejected our credentials.', status: 502 };
+  }
+  if (zooStatus === 404) {
+    return { code: 'not_found', message: 'The CAD generation job was not found.', status: 404 };
+  }
+  if (zooStatus === 408 || zooStatus === 504) {
+    return { code: 'timeout', message: 'The CAD generation service timed out.', status: 504 };
+  }
+  if (zooStatus >= 500) {
+    return { code: 'upstream_unavailable', message: 'The CAD generation service is temporarily unavailable.', status: 502 };
+  }
+  return { code: 'invalid_request', message: `The CAD generation service rejected the request (${zooStatus}).`, status: 400 };
+}
+
+// Retry-After from Zoo in seconds (it may also be an HTTP date)
+function retryAfterSeconds(zooResponse: Response): number {
+  const header = zooResponse.headers.get('Retry-After');
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+function getAdminClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.warn('Supabase service credentials missing - generation jobs will not be persisted');
+    return null;
+  }
+  return createClient(supabaseUrl, serviceRoleKey);
+}
+
+// Client acting as the caller, so database functions see their auth.uid()
+function getCallerClient(req: Request): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  const authHeader = req.headers.get('Authorization');
+  if (!supabaseUrl || !anonKey || !authHeader) return null;
+  return createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authHeader } },
+    auth: { persistSession: false }
+  });
+}
+
+/**
+ * Charge one design to the caller through the consume_usage RPC, which checks their tier limit
+ * and increments usage_tracking atomically. Throws when the caller is out of designs.
+ */
+async function consumeDesignCredit(req: Request): Promise<void> {
+  const caller = getCallerClient(req);
+  if (!caller) {
+    throw new RequestError('upstream_unavailable', 'Usage metering is not configured', 503);
+  }
+
+  const { data, error } = await caller.rpc('consume_usage', { p_kind: 'design', p_amount: 1 });
+  if (error) {
+    console.error('Usage metering failed:', error);
+    // 28000: the RPC found no signed-in user behind the JWT
+    if (error.code === '28000') {
+      throw new RequestError('auth_failed', 'Sign in to generate designs', 401);
+    }
+    throw new RequestError('internal', 'Usage could not be recorded', 500);
+  }
+
+  const usage = data as { allowed: boolean; used: number; limit: number };
+  if (!usage.allowed) {
+    throw new RequestError(
+      'quota_exceeded',
+      `Monthly design limit reached (${usage.used} of ${usage.limit}). Upgrade your plan for more designs.`,
+      402
+    );
+  }
+}
+
+// Resolve the signed-in caller from the Authorization header (anon-key callers resolve to null)
+async function getRequestUserId(req: Request, admin: SupabaseClient | null): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!admin || !authHeader) return null;
+
+  const { data: { user }, error } = await admin.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+  return user.id;
+}
+
+// Shape a stored job like a Zoo status payload so the client can treat both the same
+function jobToStatusResponse(job: GenerationJobRow) {
+  return {
+    id: job.zoo_job_id,
+    job_id: job.id,
+    status: job.status,
+    prompt: job.prompt,
+    outputs: job.outputs || undefined,
+    error: job.error || undefined,
+    created_at: job.created_at,
+    completed_at: job.completed_at || undefined,
+    _debug: {
+      action: 'status',
+      source: 'generation_jobs',
+      timestamp: new Date().toISOString()
+    }
+  };
+}
+
+// Store the latest Zoo status on the job record; returns the generation_jobs id when one exists.
+// A job Zoo could not model produced nothing, so its design credit is given back (once).
+async function recordZooStatus(admin: SupabaseClient, zooJobId: string, zooData: ZooJobStatus): Promise<string | undefined> {
+  const isFinished = zooData.status === 'completed' || zooData.status === 'failed';
+  const { data: job, error } = await admin
+    .from('generation_jobs')
+    .update({
+      status: zooData.status,
+      ...(zooData.status === 'completed' && { outputs: zooData.outputs || null }),
+      ...(zooData.error && { error: zooData.error }),
+      ...(isFinished && { completed_at: zooData.completed_at || new Date().toISOString() })
+    })
+    .eq('zoo_job_id', zooJobId)
+    .neq('status', 'cancelled')
+    .select('id, user_id, zoo_job_id, enhancement')
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to update generation job:', error);
+    return undefined;
+  }
+  if (job && zooData.status === 'failed') {
+    await refundJobCredit(admin, job.id);
+  }
+  if (job && isFinished) {
+    await recordEnhancementOutcome(admin, job, zooData.status as 'completed' | 'failed');
+  }
+  return job?.id;
+}
+
+/**
+ * Record how a finished job's enhancement strategy fared, for the strategy stats every user's
+ * prompts are enhanced with (see get_enhancement_stats). A fallback job instead settles the
+ * final status of the rejected job it replaced. Recording is best effort and never fails the request.
+ */
+async function recordEnhancementOutcome(
+  admin: SupabaseClient,
+  job: Pick<GenerationJobRow, 'id' | 'user_id' | 'zoo_job_id' | 'enhancement'>,
+  jobStatus: 'completed' | 'failed' | 'cancelled'
+): Promise<void> {
+  const enhancement = job.enhancement;
+  const tracking = enhancement?.tracking;
+  if (!enhancement || !tracking || !job.user_id) return;
+  // Zoo fails a text-to-cad job when it cannot model the prompt
+  const status = jobStatus === 'failed' ? 'rejected' : jobStatus;
+
+  if (tracking.fallbackOf) {
+    if (status === 'rejected') return;
+    const { error } = await admin
+      .from('enhancement_outcomes')
+      .update({
+        final_status: status,
+        ...(status === 'completed' && { fallback_strategy: tracking.fallbackStrategy ?? null })
+      })
+      .eq('user_id', job.user_id)
+      .eq('zoo_job_id', tracking.fallbackOf)
+      .eq('final_status', 'rejected');
+    if (error) console.error('Failed to settle enhancement outcome:', error);
+    return;
+  }
+
+  const { error } = await admin
+    .from('enhancement_outcomes')
+    .upsert({
+      job_id: job.id,
+      user_id: job.user_id,
+      zoo_job_id: job.zoo_job_id,
+      prompt_category: tracking.category,
+      enhancement_source: enhancement.source,
+      confidence: enhancement.confidence,
+      rules: enhancement.rules ?? null,
+      enhancer_version: tracking.enhancerVersion,
+      status,
+      error_code: status === 'rejected' ? 'prompt_rejected' : null,
+      fallback_policy: tracking.fallbackPolicy,
+      fallback_strategy: tracking.fallbackStrategy ?? null,
+      final_status: status
+    }, { onConflict: 'job_id', ignoreDuplicates: true });
+  if (error) console.error('Failed to record enhancement outcome:', error);
+}
+
+// Refund the design credit charged for a job unless it was refunded already. The
+// credit_refunded flag is claimed first so concurrent requests cannot refund twice.
+async function refundJobCredit(admin: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data: job, error } = await admin
+    .from('generation_jobs')
+    .update({ credit_refunded: true })
+    .eq('id', jobId)
+    .eq('credit_charged', true)
+    .eq('credit_refunded', false)
+    .not('user_id', 'is', null)
+    .select('id, user_id')
+    .maybeSingle();
+  if (error || !job) return false;
+
+  const refunded = await refundDesignCredit(admin, job.user_id);
+  if (!refunded) {
+    await admin.from('generation_jobs').update({ credit_refunded: false }).eq('id', job.id);
+  }
+  return refunded;
+}
+
+// Refund substituted models nobody accepted in time, e.g. because the tab was closed while the
+// substitution was on screen. Best effort: failures are logged and the next sweep retries.
+async function refundUnacceptedSubstitutes(admin: SupabaseClient): Promise<void> {
+  const { data, error } = await admin.rpc('refund_unaccepted_substitutes', {
+    p_template_prompt: FALLBACK_TEMPLATE_PROMPT,
+    p_accept_window: `${SUBSTITUTE_ACCEPT_WINDOW_SECONDS} seconds`
+  });
+  if (error) {
+    console.error('Failed to refund unaccepted substitutes:', error);
+  } else if (data) {
+    console.log('Refunded unaccepted substituted models:', data);
+  }
+}
+
+// Give back one design credit in the user's current usage period
+async function refundDesignCredit(admin: SupabaseClient, userId: string): Promise<boolean> {
+  const { error } = await admin.rpc('refund_usage', { p_user_id: userId, p_kind: 'design', p_amount: 1 });
+  if (error) {
+    console.error('Failed to refund design credit:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Claim an idempotency key by recording a 'submitting' job. Returns null when another request
+ * already holds the key.
+ */
+async function reserveGenerationJob(
+  admin: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  job: Pick<GenerationJobRow, 'prompt' | 'original_prompt' | 'enhancement' | 'output_format' | 'units' | 'scale' | 'lane'>
+): Promise<GenerationJobRow | null> {
+  const { data, error } = await admin
+    .from('generation_jobs')
+    .insert({ ...job, user_id: userId, idempotency_key: idempotencyKey, status: 'submitting' })
+    .select('*')
+    .single();
+  if (error) {
+    // 23505: unique violation on (user_id, idempotency_key)
+    if (error.code === '23505') return null;
+    throw error;
+  }
+  return data as GenerationJobRow;
+}
+
+/**
+ * The job of an earlier request with the same idempotency key, once that request got it
+ * accepted by Zoo. Null when the earlier request failed and gave the key up, or was abandoned
+ * before the Zoo id was recorded (its reservation is released here).
+ */
+async function awaitDuplicateSubmission(admin: SupabaseClient, userId: string, idempotencyKey: string): Promise<GenerationJobRow | null> {
+  const deadline = Date.now() + DUPLICATE_SUBMISSION_WAIT_MS;
+  while (Date.now() < deadline) {
+    const { data: job, error } = await admin
+      .from('generation_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+    if (error) throw error;
+    if (!job) return null;
+    if (job.zoo_job_id) return job as GenerationJobRow;
+    if (isStaleSubmission(job as GenerationJobRow)) {
+      console.log('Releasing abandoned generation job reservation:', job.id);
+      await releaseReservation({ admin, jobId: job.id, userId, idempotencyKey }, false);
+      return null;
+    }
+    await new Promise(resolve => setTimeout(resolve, DUPLICATE_SUBMISSION_POLL_MS));
+  }
+  throw new RequestError('timeout', 'An earlier request with the same idempotency key is still being submitted', 504);
+}
+
+const isStaleSubmission = (job: GenerationJobRow) =>
+  job.status === 'submitting' && !job.zoo_job_id && Date.now() - new Date(job.created_at).getTime() > STALE_SUBMISSION_MS;
+
+// Refund and free the caller's submissions whose request ended before Zoo's id was recorded
+async function releaseStaleSubmissions(admin: SupabaseClient, userId: string): Promise<void> {
+  const { data: jobs, error } = await admin
+    .from('generation_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'submitting')
+    .is('zoo_job_id', null)
+    .lt('created_at', new Date(Date.now() - STALE_SUBMISSION_MS).toISOString());
+  if (error) {
+    console.error('Failed to look up abandoned generation jobs:', error);
+    return;
+  }
+  for (const job of (jobs || []) as GenerationJobRow[]) {
+    console.log('Releasing abandoned generation job reservation:', job.id);
+    await releaseReservation({ admin, jobId: job.id, userId, idempotencyKey: job.idempotency_key || '' }, false);
+  }
+}
+
+/**
+ * Record the id Zoo gave a reserved job, retrying briefly. False when it could not be recorded.
+ */
+async function recordZooJobId(admin: SupabaseClient, jobId: string, zooJobId: string, status: string): Promise<boolean> {
+  for (let attempt = 1; attempt <= ZOO_JOB_RECORD_ATTEMPTS; attempt++) {
+    const { error } = await admin
+      .from('generation_jobs')
+      .update({ zoo_job_id: zooJobId, status })
+      .eq('id', jobId);
+    if (!error) return true;
+    console.error(`Failed to record generation job (attempt ${attempt} of ${ZOO_JOB_RECORD_ATTEMPTS}):`, error);
+    if (attempt < ZOO_JOB_RECORD_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+    }
+  }
+  return false;
+}
+
+/**
+ * A submission Zoo never accepted: refund its credit and free the idempotency key for a retry.
+ * A submission Zoo rate limited keeps its place in the queue; any other failure leaves it.
+ */
+async function releaseReservation(reservation: Reservation, requeue: boolean): Promise<void> {
+  const { admin, jobId, userId, idempotencyKey } = reservation;
+  await refundJobCredit(admin, jobId);
+  const { error } = await admin.from('generation_jobs').delete().eq('id', jobId).eq('status', 'submitting');
+  if (error) console.error('Failed to release generation job reservation:', error);
+
+  const ticket = admin.from('generation_queue');
+  const { error: ticketError } = requeue
+    ? await ticket
+      .update({ status: 'waiting', admitted_at: null, last_seen_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('idempotency_key', idempotencyKey)
+    : await ticket.delete().eq('user_id', userId).eq('idempotency_key', idempotencyKey);
+  if (ticketError) console.error('Failed to release generation queue ticket:', ticketError);
+}
+
+// Result of claim_generation_slot; positions and the wait are 0 once the submission is admitted
+interface SubmissionSlot {
+  admitted: boolean;
+  // Priority lane of the user's subscription tier (see generation_lanes)
+  lane: string;
+  queue_position: number;
+  user_position: number;
+  retry_after_seconds: number;
+  estimated_wait_seconds: number;
+}
+
+// Job reserved by a generate request until Zoo accepts it, with the queue ticket that admitted it
+interface Reservation {
+  admin: SupabaseClient;
+  jobId: string;
+  userId: string;
+  idempotencyKey: string;
+}
+
+/**
+ * Take or refresh the caller's ticket in the submission queue. Tickets wait in the lane of the
+ * user's subscription tier and are admitted one per user per round while the lane has jobs to
+ * spare, the per-minute limits allow and Zoo is not rate limiting us.
+ */
+async function claimSubmissionSlot(admin: SupabaseClient, userId: string, idempotencyKey: string): Promise<SubmissionSlot> {
+  const { data, error } = await admin.rpc('claim_generation_slot', {
+    p_user_id: userId,
+    p_idempotency_key: idempotencyKey,
+    p_global_per_minute: ZOO_SUBMISSIONS_PER_MINUTE,
+    p_user_per_minute: ZOO_USER_SUBMISSIONS_PER_MINUTE
+  });
+  if (error) throw error;
+  const slot = (Array.isArray(data) ? data[0] : data) as SubmissionSlot | undefined;
+  if (!slot) throw new Error('claim_generation_slot returned no slot');
+  return slot;
+}
+
+/**
+ * A submission that is waiting for its turn: 202 with its lane, its place in the lane, the
+ * expected wait and a Retry-After telling the client when to send the same request (same
+ * idempotency key) again
+ */
+function queuedResponse(slot: SubmissionSlot) {
+  return new Response(JSON.stringify({
+    queued: true,
+    status: 'waiting',
+    lane: slot.lane,
+    queue_position: slot.queue_position,
+    user_position: slot.user_position,
+    retry_after_seconds: slot.retry_after_seconds,
+    estimated_wait_seconds: slot.estimated_wait_seconds
+  }), {
+    status: 202,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Retry-After': String(slot.retry_after_seconds)
+    }
+  });
+}
+
+// Zoo answered 429: hold every request to Zoo, from every user, until its Retry-After passes
+async function recordZooRateLimit(admin: SupabaseClient | null, seconds: number): Promise<void> {
+  if (!admin) return;
+  const { error } = await admin.rpc('record_zoo_rate_limit', { p_retry_after_seconds: seconds });
+  if (error) console.error('Failed to record Zoo rate limit:', error);
+}
+
+// Seconds until Zoo may be called again after a 429 (0 when it may be called now)
+async function zooBlockedSeconds(admin: SupabaseClient | null): Promise<number> {
+  if (!admin) return 0;
+  const { data, error } = await admin.rpc('zoo_blocked_seconds');
+  if (error) {
+    console.error('Failed to read Zoo rate limit:', error);
+    return 0;
+  }
+  return Number(data) || 0;
+}
+
+// Zoo reports 'uploaded' before a job is picked up; clients only distinguish queued from running
+function toProgressStatus(zooStatus: string): string {
+  return zooStatus === 'uploaded' ? 'queued' : zooStatus;
+}
+
+/**
+ * Stream status changes of a Zoo job as server-sent events.
+ * Emits `status` events ({ jobId, status, reason?, timestamp }) whenever the status changes
+ * and closes once the job finishes or WATCH_MAX_DURATION_MS elapses.
+ */
+function watchZooJob(zooJobId: string, zooHeaders: Record<string, string>, admin: SupabaseClient | null): Response {
+  const encoder = new TextEncoder();
+  let clientGone = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const startedAt = Date.now();
+      let intervalMs = WATCH_MIN_INTERVAL_MS;
+      let lastStatus: string | null = null;
+
+      try {
+        while (!clientGone && Date.now() - startedAt < WATCH_MAX_DURATION_MS) {
+          // Another request was rate limited: wait it out instead of adding to the pile
+          const blockedSeconds = await zooBlockedSeconds(admin);
+          if (blockedSeconds > 0) {
+            controller.enqueue(encoder.encode(': rate limited\n\n'));
+            await new Promise(resolve => setTimeout(resolve, Math.max(blockedSeconds * 1000, intervalMs)));
+            continue;
+          }
+
+          const zooResponse = await fetch(`https://api.zoo.dev/user/text-to-cad/${zooJobId}`, {
+            method: 'GET',
+            headers: zooHeaders,
+            signal: AbortSignal.timeout(ZOO_REQUEST_TIMEOUT_MS)
+          });
+          const zooData = await zooResponse.json().catch(() => ({}));
+
+          if (!zooResponse.ok) {
+            // Anything but rate limiting or an upstream outage will not fix itself
+            if (zooResponse.status !== 429 && zooResponse.status < 500) {
+              send('status', {
+                jobId: zooJobId,
+                status: 'failed',
+                reason: `Zoo API error: ${zooResponse.status} ${zooData.error || zooData.message || zooResponse.statusText}`,
+                code: classifyZooError(zooResponse.status).code,
+                timestamp: new Date().toISOString()
+              });
+              break;
+            }
+            if (zooResponse.status === 429) {
+              await recordZooRateLimit(admin, retryAfterSeconds(zooResponse));
+            }
+            intervalMs = zooResponse.status === 429
+              ? Math.max(retryAfterSeconds(zooResponse) * 1000, WATCH_MAX_INTERVAL_MS)
+              : Math.min(intervalMs * 2, WATCH_MAX_INTERVAL_MS);
+          } else if (zooData.status !== lastStatus) {
+            lastStatus = zooData.status;
+            intervalMs = WATCH_MIN_INTERVAL_MS;
+            if (admin) await recordZooStatus(admin, zooJobId, zooData);
+
+            send('status', {
+              jobId: zooJobId,
+              status: toProgressStatus(zooData.status),
+              // Zoo fails a text-to-cad job when it cannot model the prompt
+              ...(zooData.status === 'failed' && { reason: zooData.error || 'Unknown error', code: 'prompt_rejected' }),
+              timestamp: new Date().toISOString()
+            });
+
+            if (zooData.status === 'completed' || zooData.status === 'failed') break;
+          } else {
+            // Comment line keeps proxies from closing an idle stream
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            intervalMs = Math.min(intervalMs * 1.5, WATCH_MAX_INTERVAL_MS);
+          }
+
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        }
+      } catch (error) {
+        if (clientGone) return;
+        console.error('Watch stream error:', error);
+        send('error', {
+          code: error instanceof DOMException && error.name === 'TimeoutError' ? 'timeout' : 'upstream_unavailable',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      } finally {
+        if (!clientGone) controller.close();
+      }
+    },
+    cancel() {
+      // The client stopped listening (navigated away or cancelled the generation)
+      clientGone = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    }
+  });
 }
 
 serve(async (req) => {
@@ -21,13 +709,158 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  // Job reserved by a generate request until Zoo accepts it; released if the submission fails
+  let reservation: Reservation | null = null;
+
   try {
-    const { action, prompt, outputFormat = 'gltf', units = 'mm', scale = 1, id, convertFormat } = await req.json() as ZooAPIRequest;
+    const body = await req.json().catch(() => {
+      throw new RequestError('invalid_request', 'Request body must be JSON', 400);
+    }) as ZooAPIRequest;
+    const { action, prompt, originalPrompt, enhancement, outputFormat = 'gltf', units = 'mm', scale = 1, id, jobId, convertFormat, idempotencyKey } = body;
+
+    const admin = getAdminClient();
+    const userId = await getRequestUserId(req, admin);
+
+    // Job lookups are answered from the database and never reach Zoo
+    if (action === 'list_jobs' || action === 'get_job') {
+      if (!admin || !userId) {
+        return errorResponse('auth_failed', 'Authentication required', 401, { details: 'Sign in to view generation jobs' });
+      }
+
+      if (action === 'get_job') {
+        if (!jobId) {
+          throw new RequestError('invalid_request', 'Job ID is required to fetch a generation job', 400);
+        }
+        const { data: job, error } = await admin
+          .from('generation_jobs')
+          .select('*')
+          .eq('id', jobId)
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (error) throw error;
+        if (!job) {
+          return errorResponse('not_found', 'Generation job not found', 404);
+        }
+        return jsonResponse({ job });
+      }
+
+      await refundUnacceptedSubstitutes(admin);
+      await releaseStaleSubmissions(admin, userId);
+      const completedSince = new Date(Date.now() - RESUMABLE_COMPLETED_WINDOW_MS).toISOString();
+      const { data: jobs, error } = await admin
+        .from('generation_jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .or(`status.in.(${IN_FLIGHT_STATUSES.join(',')}),and(status.eq.completed,completed_at.gte.${completedSince})`)
+        .order('created_at', { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return jsonResponse({ jobs: jobs || [] });
+    }
     
+    // Zoo has no cancel endpoint for text-to-cad jobs, so cancelling stops tracking the job on
+    // our side: the record is marked cancelled (later Zoo updates are ignored) and the design
+    // credit is refunded once
+    if (action === 'cancel') {
+      if (!id) {
+        throw new RequestError('invalid_request', 'ID is required to cancel a generation', 400);
+      }
+      if (!admin) {
+        return jsonResponse({ cancelled: false, refunded: false, reason: 'Generation jobs are not persisted' });
+      }
+
+      let cancelQuery = admin
+        .from('generation_jobs')
+        .update({
+          status: 'cancelled',
+          error: 'Cancelled by user',
+          completed_at: new Date().toISOString()
+        })
+        .eq('zoo_job_id', id)
+        .in('status', IN_FLIGHT_STATUSES);
+      cancelQuery = userId ? cancelQuery.eq('user_id', userId) : cancelQuery.is('user_id', null);
+
+      const { data: cancelledJob, error: cancelError } = await cancelQuery
+        .select('id, user_id, zoo_job_id, enhancement')
+        .maybeSingle();
+      if (cancelError) throw cancelError;
+
+      if (!cancelledJob) {
+        // Already finished, already cancelled or not the caller's job
+        return jsonResponse({ cancelled: false, refunded: false, reason: 'Job is not running' });
+      }
+
+      console.log('Cancelled generation job:', cancelledJob.id);
+      const refunded = await refundJobCredit(admin, cancelledJob.id);
+      await recordEnhancementOutcome(admin, cancelledJob, 'cancelled');
+
+      return jsonResponse({ cancelled: true, refunded, job_id: cancelledJob.id });
+    }
+
+    // A template model the user would not have asked for is only paid for once they accept it;
+    // declining refunds it right away, otherwise it is refunded when the accept window runs out
+    if (action === 'decline_substitute' || action === 'accept_substitute') {
+      const verb = action === 'accept_substitute' ? 'accept' : 'decline';
+      if (!id) {
+        throw new RequestError('invalid_request', `ID is required to ${verb} a generation`, 400);
+      }
+      if (!admin || !userId) {
+        return errorResponse('auth_failed', 'Authentication required', 401);
+      }
+
+      const { data: job, error } = await admin
+        .from('generation_jobs')
+        .select('id, prompt, original_prompt, status, substitute_accepted_at')
+        .eq('zoo_job_id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!job) {
+        return errorResponse('not_found', 'Generation job not found', 404);
+      }
+
+      const isSubstitute = job.prompt === FALLBACK_TEMPLATE_PROMPT &&
+        (job.original_prompt || '').trim().toLowerCase() !== FALLBACK_TEMPLATE_PROMPT;
+      if (!isSubstitute || job.status !== 'completed') {
+        return jsonResponse({
+          ...(action === 'accept_substitute' ? { accepted: false } : { refunded: false }),
+          reason: `Only completed template substitutions can be ${verb}d`
+        });
+      }
+
+      if (action === 'accept_substitute') {
+        // A substitution already refunded for running out of time stays free
+        const { error: acceptError } = await admin
+          .from('generation_jobs')
+          .update({ substitute_accepted_at: new Date().toISOString() })
+          .eq('id', job.id)
+          .is('substitute_accepted_at', null);
+        if (acceptError) throw acceptError;
+        console.log('Accepted substituted model:', job.id);
+        return jsonResponse({ accepted: true, job_id: job.id });
+      }
+
+      if (job.substitute_accepted_at) {
+        return jsonResponse({ refunded: false, reason: 'The substituted model was already accepted' });
+      }
+      const refunded = await refundJobCredit(admin, job.id);
+      console.log('Declined substituted model:', job.id, refunded ? '(refunded)' : '(already refunded)');
+      return jsonResponse({ refunded, job_id: job.id });
+    }
+
+    // Designs served without a Zoo job (cached results, design sessions) are charged here too
+    if (action === 'charge_design') {
+      if (!userId) {
+        return errorResponse('auth_failed', 'Sign in to generate designs', 401);
+      }
+      await consumeDesignCredit(req);
+      return jsonResponse({ charged: true });
+    }
+
     // Get Zoo API token from environment
     const zooApiToken = Deno.env.get('ZOO_API_TOKEN');
     if (!zooApiToken) {
-      throw new Error('Zoo API token not configured');
+      throw new RequestError('upstream_unavailable', 'The CAD generation service is not configured', 503);
     }
 
     const zooHeaders = {
@@ -36,13 +869,91 @@ serve(async (req) => {
       'User-Agent': 'AgentiCAD-Supabase/1.0'
     };
 
+    // Progress is pushed over a server-sent event stream instead of answering once
+    if (action === 'watch') {
+      if (!id) {
+        throw new RequestError('invalid_request', 'ID is required to watch a generation', 400);
+      }
+      console.log('Opening progress stream for CAD model:', id);
+      return watchZooJob(id, zooHeaders, admin);
+    }
+
     let zooResponse: Response;
     let responseData: any;
     
     switch (action) {
       case 'generate':
         if (!prompt) {
-          throw new Error('Prompt is required for generation');
+          throw new RequestError('invalid_request', 'Prompt is required for generation', 400);
+        }
+
+        if (!admin) {
+          throw new RequestError('upstream_unavailable', 'Generation jobs cannot be recorded', 503);
+        }
+        if (!userId) {
+          throw new RequestError('auth_failed', 'Sign in to generate designs', 401);
+        }
+        await refundUnacceptedSubstitutes(admin);
+
+        {
+          // Without a key every request is a new job
+          const key = idempotencyKey || crypto.randomUUID();
+          // Wait for a turn to submit, unless an earlier request with this key already got one
+          const { data: keyedJob, error: keyedJobError } = await admin
+            .from('generation_jobs')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('idempotency_key', key)
+            .maybeSingle();
+          if (keyedJobError) throw keyedJobError;
+          let lane: string | null = null;
+          if (!keyedJob) {
+            const slot = await claimSubmissionSlot(admin, userId, key);
+            if (!slot.admitted) {
+              console.log(`Generate request queued in the ${slot.lane} lane at position ${slot.queue_position} (retry in ${slot.retry_after_seconds}s, ~${slot.estimated_wait_seconds}s wait)`);
+              return queuedResponse(slot);
+            }
+            lane = slot.lane;
+          }
+
+          const submission = {
+            prompt,
+            original_prompt: originalPrompt || prompt,
+            enhancement: enhancement || null,
+            output_format: outputFormat,
+            units,
+            scale,
+            lane
+          };
+
+          let job = await reserveGenerationJob(admin, userId, key, submission);
+          if (!job) {
+            const existing = await awaitDuplicateSubmission(admin, userId, key);
+            if (existing) {
+              console.log('Duplicate generate request, returning existing job:', existing.id);
+              return jsonResponse({ ...jobToStatusResponse(existing), deduplicated: true });
+            }
+            // The earlier request failed and gave the key up
+            job = await reserveGenerationJob(admin, userId, key, submission);
+            if (!job) {
+              throw new RequestError('invalid_request', 'A generation with this idempotency key is already being submitted', 409);
+            }
+          }
+          reservation = { admin, jobId: job.id, userId, idempotencyKey: key };
+
+          // Charged before submitting so concurrent requests cannot overspend the quota; the
+          // charge is recorded on the job so refunds go back to the job that paid
+          await consumeDesignCredit(req);
+          const { error: chargeError } = await admin
+            .from('generation_jobs')
+            .update({ credit_charged: true })
+            .eq('id', job.id);
+          if (chargeError) {
+            // Without the flag the reservation release cannot refund the charge, so give it back here
+            console.error('Failed to record design credit charge:', chargeError);
+            await refundDesignCredit(admin, userId);
+            throw chargeError;
+          }
         }
         
         console.log('Generating CAD model with prompt:', prompt);
@@ -55,26 +966,59 @@ serve(async (req) => {
             output_format: outputFormat,
             units,
             scale
-          })
+          }),
+          signal: AbortSignal.timeout(ZOO_REQUEST_TIMEOUT_MS)
         });
         break;
 
       case 'status':
         if (!id) {
-          throw new Error('ID is required for status check');
+          throw new RequestError('invalid_request', 'ID is required for status check', 400);
         }
         
         console.log('Checking status for CAD model:', id);
+
+        // Finished jobs are served from the stored record, to the user who owns it
+        if (admin && userId) {
+          const { data: storedJob } = await admin
+            .from('generation_jobs')
+            .select('*')
+            .eq('zoo_job_id', id)
+            .eq('user_id', userId)
+            .maybeSingle();
+          if (storedJob && storedJob.status === 'completed' && storedJob.outputs) {
+            console.log('Serving completed job from generation_jobs:', storedJob.id);
+            return jsonResponse(jobToStatusResponse(storedJob as GenerationJobRow));
+          }
+          if (storedJob && storedJob.status === 'cancelled') {
+            return jsonResponse({
+              ...jobToStatusResponse(storedJob as GenerationJobRow),
+              status: 'failed',
+              error: 'Generation was cancelled'
+            });
+          }
+        }
+
+        {
+          // Polls while Zoo is rate limiting us would only extend the limit
+          const blockedSeconds = await zooBlockedSeconds(admin);
+          if (blockedSeconds > 0) {
+            return errorResponse('rate_limited', 'Rate limit exceeded. Please wait before trying again.', 429, {
+              retryAfterSeconds: blockedSeconds
+            });
+          }
+        }
         
         zooResponse = await fetch(`https://api.zoo.dev/user/text-to-cad/${id}`, {
           method: 'GET',
-          headers: zooHeaders
+          headers: zooHeaders,
+          signal: AbortSignal.timeout(ZOO_REQUEST_TIMEOUT_MS)
         });
         break;
 
       case 'convert':
         if (!id || !convertFormat) {
-          throw new Error('ID and convert format are required for conversion');
+          throw new RequestError('invalid_request', 'ID and convert format are required for conversion', 400);
         }
         
         console.log(`Getting download URL for CAD model ${id} in format ${convertFormat}`);
@@ -83,22 +1027,9 @@ serve(async (req) => {
         // STL conversion should be handled client-side using GLTF data
         if (convertFormat === 'stl') {
           console.log('STL format requested - Zoo API does not support direct STL download');
-          return new Response(
-            JSON.stringify({
-              error: 'STL conversion not supported by Zoo API',
-              message: 'Zoo API does not provide direct STL download endpoints. Use client-side GLTF-to-STL conversion.',
-              suggested_approach: 'Convert GLTF model to STL format in the browser',
-              _debug: {
-                action: 'convert',
-                format: convertFormat,
-                timestamp: new Date().toISOString()
-              }
-            }),
-            { 
-              status: 400,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-            }
-          );
+          return errorResponse('invalid_request', 'STL conversion not supported by Zoo API', 400, {
+            details: 'Zoo API does not provide direct STL download endpoints. Convert the GLTF model to STL in the browser.'
+          });
         }
         
         // Try different approaches to get the model file
@@ -180,10 +1111,10 @@ serve(async (req) => {
         break;
 
       default:
-        throw new Error(`Unknown action: ${action}`);
+        throw new RequestError('invalid_request', `Unknown action: ${action}`, 400);
     }
 
-    responseData = await zooResponse.json();
+    responseData = await zooResponse.json().catch(() => ({}));
     
     // Log the full response for debugging
     console.log('Zoo API Response:', {
@@ -196,37 +1127,54 @@ serve(async (req) => {
     if (!zooResponse.ok) {
       const errorText = responseData.error || responseData.message || JSON.stringify(responseData);
       console.error('Zoo API error:', zooResponse.status, errorText);
-      
-      // Enhanced error messaging for common Zoo API issues
-      let userFriendlyError = errorText;
-      if (zooResponse.status === 422) {
-        userFriendlyError = "Text-to-CAD server: 422 Unprocessable Entity. Text-to-CAD is still improving, and some prompts may fail. Try adjusting your prompt for better results. We review failures to enhance the model over time. For prompt tips and best practices, check out our community on [Discord](https://discord.gg/JQEpHR7Nt2) or [Discourse](https://community.zoo.dev).";
-      } else if (zooResponse.status === 429) {
-        userFriendlyError = "Rate limit exceeded. Please wait a moment before trying again.";
-      } else if (zooResponse.status === 401) {
-        userFriendlyError = "Authentication failed. Please check your Zoo API token.";
-      } else if (zooResponse.status >= 500) {
-        userFriendlyError = "Zoo API server error. Please try again later.";
+      if (zooResponse.status === 429) {
+        await recordZooRateLimit(admin, retryAfterSeconds(zooResponse));
       }
-      
-      return new Response(
-        JSON.stringify({ 
-          error: `Zoo API error: ${zooResponse.status}`,
-          details: userFriendlyError,
-          action,
-          status: zooResponse.status
-        }),
-        { 
-          status: zooResponse.status,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      const { code, message, status } = classifyZooError(zooResponse.status);
+      if (reservation) {
+        // A prompt Zoo refuses outright counts against its enhancement like a failed job
+        if (code === 'prompt_rejected') {
+          await recordEnhancementOutcome(reservation.admin, {
+            id: reservation.jobId,
+            user_id: reservation.userId,
+            zoo_job_id: null,
+            enhancement: enhancement || null
+          }, 'failed');
         }
-      );
+        await releaseReservation(reservation, zooResponse.status === 429);
+        reservation = null;
+      }
+
+      return errorResponse(code, message, status, {
+        details: `Zoo API error ${zooResponse.status} during ${action}: ${errorText}`,
+        ...(code === 'rate_limited' && { retryAfterSeconds: retryAfterSeconds(zooResponse) })
+      });
+    }
+
+    // Persist the job so the browser can reattach to it after a reload. Zoo accepted it, so the
+    // reserved record gets the Zoo id and keeps its credit.
+    let persistedJobId: string | undefined;
+    if (reservation) {
+      const accepted = reservation;
+      reservation = null;
+      if (await recordZooJobId(accepted.admin, accepted.jobId, responseData.id, responseData.status || 'queued')) {
+        persistedJobId = accepted.jobId;
+      } else {
+        // Nothing could find the job by its Zoo id again, so it cannot be resumed or refunded
+        // later: refund it now and answer with the Zoo id for the browser to poll
+        await releaseReservation(accepted, false);
+      }
+    } else if (admin && action === 'status' && id) {
+      persistedJobId = await recordZooStatus(admin, id, responseData);
     }
 
     // Return the response data with enhanced structure
     return new Response(
       JSON.stringify({
         ...responseData,
+        ...(persistedJobId && { job_id: persistedJobId }),
+        // Zoo fails a text-to-cad job when it cannot model the prompt
+        ...(responseData.status === 'failed' && { error_code: 'prompt_rejected' }),
         _debug: {
           action,
           timestamp: new Date().toISOString(),
@@ -241,16 +1189,24 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Edge function error:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: 'Internal server error',
-        details: error.message 
-      }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    if (reservation) {
+      await releaseReservation(reservation, false);
+    }
+
+    if (error instanceof RequestError) {
+      return errorResponse(error.code, error.message, error.status);
+    }
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return errorResponse('timeout', 'The CAD generation service did not respond in time', 504);
+    }
+    // fetch rejects with a TypeError when Zoo cannot be reached at all
+    if (error instanceof TypeError) {
+      return errorResponse('upstream_unavailable', 'The CAD generation service could not be reached', 502, {
+        details: error.message
+      });
+    }
+    return errorResponse('internal', 'Internal server error', 500, {
+      details: error instanceof Error ? error.message : String(error)
+    });
   }
 }) 
\ No newline at end of file
@@ -0,0 +1,66 @@
+-- migration: create generation jobs table for persistent text-to-cad jobs
+-- description: records every zoo text-to-cad job submitted through the zoo-text-to-cad
+-- edge function so the browser can list in-flight jobs and reattach after a reload
+
+-- create generation jobs table
+create table if not exists public.generation_jobs (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade,
+  zoo_job_id text unique,
+  status text not null default 'queued' check (status in ('queued', 'uploaded', 'in_progress', 'completed', 'failed')),
+  prompt text not null,
+  original_prompt text,
+  enhancement jsonb,
+  output_format text not null default 'gltf',
+  units text not null default 'mm',
+  scale numeric not null default 1,
+  outputs jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+-- create indexes for the in-flight job lookups done by the wizard
+create index if not exists idx_generation_jobs_user_id on public.generation_jobs(user_id);
+create index if not exists idx_generation_jobs_user_status on public.generation_jobs(user_id, status);
+create index if not exists idx_generation_jobs_created_at on public.generation_jobs(created_at);
+
+-- add updated_at trigger
+create or replace function update_generation_jobs_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trigger_generation_jobs_updated_at on public.generation_jobs;
+create trigger trigger_generation_jobs_updated_at
+  before update on public.generation_jobs
+  for each row
+  execute function update_generation_jobs_updated_at();
+
+-- enable row level security
+alter table public.generation_jobs enable row level security;
+
+-- rows are written by the zoo-text-to-cad edge function with the service role;
+-- signed-in users may only read their own jobs
+
+-- policy: users can select their own generation jobs
+create policy "users can select their own generation jobs"
+on public.generation_jobs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- add table comment
+comment on table public.generation_jobs is 'text-to-cad jobs submitted through the zoo-text-to-cad edge function, kept so generations survive page reloads';
+
+-- add column comments
+comment on column public.generation_jobs.zoo_job_id is 'id of the job in the zoo text-to-cad api';
+comment on column public.generation_jobs.status is 'last known zoo job status';
+comment on column public.generation_jobs.prompt is 'prompt actually sent to zoo (after enhancement)';
+comment on column public.generation_jobs.original_prompt is 'prompt as typed by the user';
+comment on column public.generation_jobs.enhancement is 'enhancement info: source, confidence, wasEnhanced';
+comment on column public.generation_jobs.outputs is 'zoo outputs captured when the job completed';
@@ -0,0 +1,14 @@
+-- migration: allow generation jobs to be cancelled
+-- description: adds the 'cancelled' status and records whether the design credit spent on a
+-- job was refunded when it was cancelled, so a job is never refunded twice
+
+-- allow the cancelled status
+alter table public.generation_jobs drop constraint if exists generation_jobs_status_check;
+alter table public.generation_jobs add constraint generation_jobs_status_check
+  check (status in ('queued', 'uploaded', 'in_progress', 'completed', 'failed', 'cancelled'));
+
+-- track refunds of the design credit
+alter table public.generation_jobs add column if not exists credit_refunded boolean not null default false;
+
+-- add column comments
+comment on column public.generation_jobs.credit_refunded is 'true once the design credit spent on this job was refunded after cancellation';
@@ -0,0 +1,137 @@
+-- migration: meter design and refine usage on the server
+-- description: replaces the browser's read-modify-write of usage_tracking with rpcs that check
+-- the caller's subscription tier limit and increment the current period atomically. clients may
+-- only read usage_tracking; consume_usage runs as the caller (auth.uid()) and refund_usage is
+-- reserved for edge functions using the service role
+
+-- monthly allowance per tier (keep in sync with getUsageLimits in src/hooks/useUsage.ts)
+create or replace function public.usage_limit(p_tier text, p_kind text)
+returns integer as $$
+begin
+  if p_kind = 'design' then
+    return case p_tier when 'pro' then 100 when 'plus' then 10 else 2 end;
+  elsif p_kind = 'refine_chat' then
+    return case p_tier when 'pro' then 1000 when 'plus' then 100 else 5 end;
+  end if;
+  raise exception 'unknown usage kind: %', p_kind using errcode = '22023';
+end;
+$$ language plpgsql immutable;
+
+-- usage_tracking row for the current month, created when missing. callers serialize on a
+-- per-user advisory lock so two concurrent requests cannot both create or overspend a period
+create or replace function public.lock_current_usage(p_user_id uuid)
+returns public.usage_tracking as $$
+declare
+  v_usage public.usage_tracking;
+begin
+  perform pg_advisory_xact_lock(hashtext('usage_tracking:' || p_user_id::text));
+
+  select * into v_usage
+  from public.usage_tracking
+  where user_id = p_user_id
+    and period_start <= now()
+    and period_end >= now()
+  order by period_start desc
+  limit 1;
+
+  if not found then
+    insert into public.usage_tracking (user_id, designs_used, refine_chats_used, period_start, period_end)
+    values (
+      p_user_id,
+      0,
+      0,
+      date_trunc('month', now()),
+      date_trunc('month', now()) + interval '1 month' - interval '1 millisecond'
+    )
+    returning * into v_usage;
+  end if;
+
+  return v_usage;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- current period usage of the signed-in caller
+create or replace function public.get_current_usage()
+returns public.usage_tracking as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  return public.lock_current_usage(auth.uid());
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- charge p_amount designs ('design') or refine chats ('refine_chat') to the caller if their tier
+-- allows it. returns { allowed, kind, used, limit }; nothing is charged when allowed is false
+create or replace function public.consume_usage(p_kind text, p_amount integer default 1)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_tier text;
+  v_limit integer;
+  v_usage public.usage_tracking;
+  v_used integer;
+begin
+  if v_user_id is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_amount is null or p_amount < 1 then
+    raise exception 'usage amount must be positive' using errcode = '22023';
+  end if;
+
+  select coalesce(subscription_tier::text, 'free') into v_tier
+  from public.user_profiles
+  where id = v_user_id;
+  v_limit := public.usage_limit(coalesce(v_tier, 'free'), p_kind);
+
+  v_usage := public.lock_current_usage(v_user_id);
+  v_used := case p_kind when 'design' then v_usage.designs_used else v_usage.refine_chats_used end;
+
+  if v_used + p_amount > v_limit then
+    return jsonb_build_object('allowed', false, 'kind', p_kind, 'used', v_used, 'limit', v_limit);
+  end if;
+
+  update public.usage_tracking
+  set designs_used = designs_used + case when p_kind = 'design' then p_amount else 0 end,
+      refine_chats_used = refine_chats_used + case when p_kind = 'refine_chat' then p_amount else 0 end,
+      updated_at = now()
+  where id = v_usage.id;
+
+  return jsonb_build_object('allowed', true, 'kind', p_kind, 'used', v_used + p_amount, 'limit', v_limit);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- give back usage charged for work that produced nothing (cancelled or failed generations)
+create or replace function public.refund_usage(p_user_id uuid, p_kind text, p_amount integer default 1)
+returns boolean as $$
+declare
+  v_usage public.usage_tracking;
+begin
+  perform public.usage_limit('free', p_kind);
+  v_usage := public.lock_current_usage(p_user_id);
+
+  update public.usage_tracking
+  set designs_used = greatest(0, designs_used - case when p_kind = 'design' then p_amount else 0 end),
+      refine_chats_used = greatest(0, refine_chats_used - case when p_kind = 'refine_chat' then p_amount else 0 end),
+      updated_at = now()
+  where id = v_usage.id;
+
+  return true;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- usage can no longer be written from the browser
+drop policy if exists "Users can insert own usage" on public.usage_tracking;
+drop policy if exists "Users can update own usage" on public.usage_tracking;
+revoke insert, update, delete on public.usage_tracking from anon, authenticated;
+
+revoke all on function public.lock_current_usage(uuid) from public, anon, authenticated;
+revoke all on function public.refund_usage(uuid, text, integer) from public, anon, authenticated;
+revoke all on function public.get_current_usage() from public, anon;
+revoke all on function public.consume_usage(text, integer) from public, anon;
+
+grant execute on function public.usage_limit(text, text) to authenticated, service_role;
+grant execute on function public.get_current_usage() to authenticated;
+grant execute on function public.consume_usage(text, integer) to authenticated;
+grant execute on function public.lock_current_usage(uuid) to service_role;
+grant execute on function public.refund_usage(uuid, text, integer) to service_role;
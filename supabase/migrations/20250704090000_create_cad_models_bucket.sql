@@ -0,0 +1,38 @@
+-- migration: create private storage bucket for generated model files
+-- description: generated gltf/glb outputs, thumbnails and converted exports are stored under
+-- <user id>/<model id>/ in the cad-models bucket. the bucket is private; users can only read
+-- and write objects in their own folder and load them through signed urls
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('cad-models', 'cad-models', false, 104857600)
+on conflict (id) do update set public = false, file_size_limit = excluded.file_size_limit;
+
+-- the first path segment is the owner's user id
+drop policy if exists "Users can read own model files" on storage.objects;
+create policy "Users can read own model files"
+  on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'cad-models' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can upload own model files" on storage.objects;
+create policy "Users can upload own model files"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (bucket_id = 'cad-models' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can update own model files" on storage.objects;
+create policy "Users can update own model files"
+  on storage.objects
+  for update
+  to authenticated
+  using (bucket_id = 'cad-models' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'cad-models' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can delete own model files" on storage.objects;
+create policy "Users can delete own model files"
+  on storage.objects
+  for delete
+  to authenticated
+  using (bucket_id = 'cad-models' and (storage.foldername(name))[1] = auth.uid()::text);
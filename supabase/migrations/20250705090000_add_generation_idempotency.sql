@@ -0,0 +1,26 @@
+-- migration: deduplicate generation requests by idempotency key
+-- description: the client sends an idempotency key with each generation. the zoo-text-to-cad
+-- function claims the key by inserting a 'submitting' job before charging a design credit and
+-- calling zoo, so a double click or a retried request gets the existing job instead of a second
+-- job and a second charge. the credit is recorded on the job it paid for
+
+-- allow the submitting status (reserved key, not yet accepted by zoo)
+alter table public.generation_jobs drop constraint if exists generation_jobs_status_check;
+alter table public.generation_jobs add constraint generation_jobs_status_check
+  check (status in ('submitting', 'queued', 'uploaded', 'in_progress', 'completed', 'failed', 'cancelled'));
+
+-- one job per key and user
+alter table public.generation_jobs add column if not exists idempotency_key text;
+create unique index if not exists idx_generation_jobs_idempotency_key
+  on public.generation_jobs(user_id, idempotency_key)
+  where idempotency_key is not null;
+
+-- track the design credit charged for each job
+alter table public.generation_jobs add column if not exists credit_charged boolean not null default false;
+
+-- jobs recorded before server-side metering were charged by the browser
+update public.generation_jobs set credit_charged = true where user_id is not null;
+
+-- add column comments
+comment on column public.generation_jobs.idempotency_key is 'client supplied key; repeated generate requests with the same key return this job';
+comment on column public.generation_jobs.credit_charged is 'true once a design credit was charged for this job';
@@ -0,0 +1,10 @@
+-- migration: remember each user's preferred unit system
+-- description: dimensions are shown (and exports default to) metric or imperial units per user.
+-- the app sends the preference as GenerationRequest.preferences.units and reads it back from the
+-- profile on sign-in; users already may update their own profile row
+
+alter table public.user_profiles add column if not exists preferred_units text not null default 'metric';
+
+alter table public.user_profiles drop constraint if exists user_profiles_preferred_units_check;
+alter table public.user_profiles add constraint user_profiles_preferred_units_check
+  check (preferred_units in ('metric', 'imperial'));
@@ -0,0 +1,88 @@
+-- migration: record how each prompt enhancement strategy fares
+-- description: one row per generation with the enhancement strategy used ('ai', 'rules' or
+-- 'original'), its confidence, the outcome of the enhanced prompt and the fallback that
+-- produced the model, if any. users insert and read their own rows; get_enhancement_stats
+-- aggregates everyone's rows so the app can pick the strategy that gets rejected least
+
+create table if not exists public.enhancement_outcomes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  zoo_job_id text,
+  prompt_category text not null,
+  enhancement_source text not null check (enhancement_source in ('ai', 'rules', 'original')),
+  confidence numeric not null,
+  rules text[],
+  enhancer_version integer,
+  status text not null check (status in ('completed', 'rejected', 'failed', 'cancelled', 'timed_out')),
+  error_code text,
+  fallback_policy text,
+  fallback_strategy text check (fallback_strategy in ('design_prefix', 'template')),
+  final_status text not null check (final_status in ('completed', 'rejected', 'failed', 'cancelled', 'timed_out')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_enhancement_outcomes_created_at on public.enhancement_outcomes(created_at);
+create index if not exists idx_enhancement_outcomes_strategy on public.enhancement_outcomes(enhancement_source, prompt_category);
+
+-- enable row level security
+alter table public.enhancement_outcomes enable row level security;
+
+-- policy: users can record outcomes of their own generations
+create policy "users can insert their own enhancement outcomes"
+on public.enhancement_outcomes
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- policy: users can select their own enhancement outcomes
+create policy "users can select their own enhancement outcomes"
+on public.enhancement_outcomes
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- success rates per strategy and prompt category since p_since, across all users. cancelled
+-- generations say nothing about the prompt and are left out of the rate
+create or replace function public.get_enhancement_stats(p_since timestamptz default now() - interval '30 days')
+returns table (
+  enhancement_source text,
+  prompt_category text,
+  attempts bigint,
+  completed bigint,
+  rejected bigint,
+  failed bigint,
+  rescued bigint,
+  success_rate numeric
+) as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  return query
+  select
+    o.enhancement_source,
+    o.prompt_category,
+    count(*) as attempts,
+    count(*) filter (where o.status = 'completed') as completed,
+    count(*) filter (where o.status = 'rejected') as rejected,
+    count(*) filter (where o.status in ('failed', 'timed_out')) as failed,
+    count(*) filter (where o.status = 'rejected' and o.final_status = 'completed') as rescued,
+    round(count(*) filter (where o.status = 'completed')::numeric / count(*), 4) as success_rate
+  from public.enhancement_outcomes o
+  where o.created_at >= p_since
+    and o.status <> 'cancelled'
+  group by o.enhancement_source, o.prompt_category;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+grant execute on function public.get_enhancement_stats(timestamptz) to authenticated;
+
+-- add table comment
+comment on table public.enhancement_outcomes is 'enhancement strategy and outcome of each generation, used to choose strategies that the generator accepts';
+
+-- add column comments
+comment on column public.enhancement_outcomes.prompt_category is 'kind of part the prompt asks for, from the enhancer rule that matches it';
+comment on column public.enhancement_outcomes.status is 'outcome of the enhanced prompt itself';
+comment on column public.enhancement_outcomes.fallback_strategy is 'fallback prompt that produced the model after the enhanced prompt failed or was substituted';
+comment on column public.enhancement_outcomes.final_status is 'outcome of the whole generation, fallbacks included';
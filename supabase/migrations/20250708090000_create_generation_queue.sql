@@ -0,0 +1,173 @@
+-- migration: queue generation submissions and share zoo rate limits between requests
+-- description: zoo limits how often we may submit text-to-cad jobs. the zoo-text-to-cad function
+-- now takes a ticket in generation_queue before submitting and only calls zoo once
+-- claim_generation_slot admits the ticket: tickets are admitted in turn (one per user per round,
+-- so one user's batch cannot starve everyone else) while the global and per-user submissions per
+-- minute stay within their limits. a 429 from zoo pauses all requests to zoo until its
+-- retry-after passes. waiting clients come back with the same idempotency key and keep their
+-- place; tickets nobody asks about for a minute are dropped. both tables are service role only
+
+create table if not exists public.zoo_rate_limits (
+  scope text primary key,
+  blocked_until timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.generation_queue (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  idempotency_key text not null,
+  status text not null default 'waiting' check (status in ('waiting', 'admitted')),
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  admitted_at timestamptz,
+  unique (user_id, idempotency_key)
+);
+
+create index if not exists idx_generation_queue_status on public.generation_queue(status, created_at);
+
+-- enable row level security; no policies, only the service role reads and writes these tables
+alter table public.zoo_rate_limits enable row level security;
+alter table public.generation_queue enable row level security;
+
+-- zoo answered 429: hold every request to zoo until retry-after has passed
+create or replace function public.record_zoo_rate_limit(p_retry_after_seconds integer)
+returns timestamptz as $$
+declare
+  v_blocked_until timestamptz;
+begin
+  insert into public.zoo_rate_limits (scope, blocked_until)
+  values ('global', now() + make_interval(secs => p_retry_after_seconds))
+  on conflict (scope) do update
+  set blocked_until = greatest(public.zoo_rate_limits.blocked_until, excluded.blocked_until),
+      updated_at = now()
+  returning blocked_until into v_blocked_until;
+
+  return v_blocked_until;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- seconds until zoo may be called again (0 when it may be called now)
+create or replace function public.zoo_blocked_seconds()
+returns integer as $$
+  select coalesce(max(ceil(extract(epoch from blocked_until - now())))::integer, 0)
+  from public.zoo_rate_limits
+  where scope = 'global' and blocked_until > now();
+$$ language sql stable security definer set search_path = public;
+
+-- take or refresh the caller's ticket and admit it when its turn has come. queue_position
+-- counts the waiting tickets up to and including this one in admission order; user_position
+-- counts the caller's own. retry_after_seconds says when to ask again
+create or replace function public.claim_generation_slot(
+  p_user_id uuid,
+  p_idempotency_key text,
+  p_global_per_minute integer,
+  p_user_per_minute integer
+)
+returns table (
+  admitted boolean,
+  queue_position integer,
+  user_position integer,
+  retry_after_seconds integer
+) as $$
+declare
+  v_ticket public.generation_queue;
+  v_blocked integer;
+  v_global_recent integer;
+  v_user_recent integer;
+  v_position integer;
+  v_user_position integer;
+  v_eligible_rank integer;
+  v_oldest_admission timestamptz;
+  v_retry integer;
+begin
+  -- admissions are decided one at a time
+  perform pg_advisory_xact_lock(hashtext('generation_queue'));
+
+  delete from public.generation_queue
+  where (status = 'waiting' and last_seen_at < now() - interval '1 minute')
+     or (status = 'admitted' and admitted_at < now() - interval '1 minute');
+
+  insert into public.generation_queue (user_id, idempotency_key)
+  values (p_user_id, p_idempotency_key)
+  on conflict (user_id, idempotency_key) do update set last_seen_at = now()
+  returning * into v_ticket;
+
+  if v_ticket.status = 'admitted' then
+    return query select true, 0, 0, 0;
+    return;
+  end if;
+
+  select count(*) into v_global_recent from public.generation_queue q where q.status = 'admitted';
+  select count(*) into v_user_recent from public.generation_queue q where q.status = 'admitted' and q.user_id = p_user_id;
+
+  -- round robin: every user's oldest waiting ticket comes before anyone's second
+  with waiting as (
+    select q.id, q.user_id, q.created_at,
+      row_number() over (partition by q.user_id order by q.created_at) as user_rank
+    from public.generation_queue q
+    where q.status = 'waiting'
+  ), ordered as (
+    select w.id, w.user_rank, row_number() over (order by w.user_rank, w.created_at) as queue_rank
+    from waiting w
+  )
+  select o.queue_rank, o.user_rank into v_position, v_user_position
+  from ordered o
+  where o.id = v_ticket.id;
+
+  -- rank among the tickets that could be admitted now: first in line for users under their limit
+  with heads as (
+    select distinct on (q.user_id) q.id, q.user_id, q.created_at
+    from public.generation_queue q
+    where q.status = 'waiting'
+    order by q.user_id, q.created_at
+  )
+  select count(*) into v_eligible_rank
+  from heads h
+  where h.created_at <= v_ticket.created_at
+    and (select count(*) from public.generation_queue a
+         where a.status = 'admitted' and a.user_id = h.user_id) < p_user_per_minute;
+
+  v_blocked := public.zoo_blocked_seconds();
+
+  if v_blocked = 0
+     and v_user_position = 1
+     and v_user_recent < p_user_per_minute
+     and v_eligible_rank <= p_global_per_minute - v_global_recent then
+    update public.generation_queue set status = 'admitted', admitted_at = now() where id = v_ticket.id;
+    return query select true, 0, 0, 0;
+    return;
+  end if;
+
+  -- ask again once the oldest admission holding up this ticket leaves the one minute window, and
+  -- at least every 10 seconds so the ticket stays alive and its position current
+  if v_user_recent >= p_user_per_minute then
+    select min(q.admitted_at) into v_oldest_admission
+    from public.generation_queue q
+    where q.status = 'admitted' and q.user_id = p_user_id;
+  elsif v_global_recent >= p_global_per_minute then
+    select min(q.admitted_at) into v_oldest_admission
+    from public.generation_queue q
+    where q.status = 'admitted';
+  end if;
+  v_retry := coalesce(ceil(extract(epoch from v_oldest_admission + interval '1 minute' - now()))::integer, 2);
+
+  return query select false, v_position, v_user_position, greatest(v_blocked, least(greatest(v_retry, 1), 10));
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.record_zoo_rate_limit(integer) from public, anon, authenticated;
+revoke all on function public.zoo_blocked_seconds() from public, anon, authenticated;
+revoke all on function public.claim_generation_slot(uuid, text, integer, integer) from public, anon, authenticated;
+
+grant execute on function public.record_zoo_rate_limit(integer) to service_role;
+grant execute on function public.zoo_blocked_seconds() to service_role;
+grant execute on function public.claim_generation_slot(uuid, text, integer, integer) to service_role;
+
+-- add table comments
+comment on table public.zoo_rate_limits is 'until when zoo may not be called after it answered 429';
+comment on table public.generation_queue is 'generation submissions waiting for, or recently given, a slot to submit to zoo';
+
+-- add column comments
+comment on column public.generation_queue.last_seen_at is 'last time the client asked about this ticket; silent tickets are dropped after a minute';
+comment on column public.generation_queue.admitted_at is 'when the submission was let through; admitted tickets count against the per minute limits for a minute';
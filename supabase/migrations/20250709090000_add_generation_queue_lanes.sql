@@ -0,0 +1,210 @@
+-- migration: priority lanes for generation submissions by subscription tier
+-- description: every queue ticket and generation job belongs to the lane of its user's
+-- subscription_tier. each lane lets a configurable number of jobs run at zoo at once; within a
+-- lane users take turns (one ticket per user per round) and across lanes the per-minute budget
+-- goes to higher priority lanes first. claim_generation_slot also estimates how long a waiting
+-- ticket will take from its place in the lane and the lane's recent job durations
+
+create table if not exists public.generation_lanes (
+  lane text primary key,
+  -- lower goes first
+  priority integer not null,
+  -- jobs of the lane that may be running at zoo at the same time
+  concurrency integer not null check (concurrency > 0),
+  description text
+);
+
+insert into public.generation_lanes (lane, priority, concurrency, description) values
+  ('pro', 0, 4, 'pro subscribers'),
+  ('plus', 1, 2, 'plus subscribers'),
+  ('free', 2, 1, 'free tier and anyone without a known tier')
+on conflict (lane) do nothing;
+
+-- enable row level security; no policies, lanes are configured with the service role
+alter table public.generation_lanes enable row level security;
+
+alter table public.generation_queue add column if not exists lane text not null default 'free' references public.generation_lanes(lane);
+alter table public.generation_jobs add column if not exists lane text references public.generation_lanes(lane);
+
+create index if not exists idx_generation_jobs_lane_status on public.generation_jobs(lane, status);
+
+-- lane of a user's subscription tier; tiers without a lane of their own use the free lane
+create or replace function public.generation_lane(p_user_id uuid)
+returns text as $$
+  select coalesce(
+    (select l.lane
+     from public.user_profiles p
+     join public.generation_lanes l on l.lane = p.subscription_tier::text
+     where p.id = p_user_id),
+    'free'
+  );
+$$ language sql stable security definer set search_path = public;
+
+-- the result gains the lane and the wait estimate, so the function is recreated
+drop function if exists public.claim_generation_slot(uuid, text, integer, integer);
+
+-- take or refresh the caller's ticket and admit it when its turn has come. queue_position counts
+-- the waiting tickets of the lane up to and including this one in admission order;
+-- user_position counts the caller's own. retry_after_seconds says when to ask again
+create or replace function public.claim_generation_slot(
+  p_user_id uuid,
+  p_idempotency_key text,
+  p_global_per_minute integer,
+  p_user_per_minute integer
+)
+returns table (
+  admitted boolean,
+  lane text,
+  queue_position integer,
+  user_position integer,
+  retry_after_seconds integer,
+  estimated_wait_seconds integer
+) as $$
+declare
+  v_lane public.generation_lanes;
+  v_ticket public.generation_queue;
+  v_blocked integer;
+  v_global_recent integer;
+  v_user_recent integer;
+  v_position integer;
+  v_user_position integer;
+  v_admissible boolean;
+  v_global_rank integer;
+  v_oldest_admission timestamptz;
+  v_retry integer;
+  v_job_seconds numeric;
+begin
+  -- admissions are decided one at a time
+  perform pg_advisory_xact_lock(hashtext('generation_queue'));
+
+  select * into v_lane from public.generation_lanes l where l.lane = public.generation_lane(p_user_id);
+
+  delete from public.generation_queue
+  where (status = 'waiting' and last_seen_at < now() - interval '1 minute')
+     or (status = 'admitted' and admitted_at < now() - interval '1 minute');
+
+  -- a tier change moves waiting tickets to the new lane
+  insert into public.generation_queue (user_id, idempotency_key, lane)
+  values (p_user_id, p_idempotency_key, v_lane.lane)
+  on conflict (user_id, idempotency_key) do update
+  set last_seen_at = now(), lane = excluded.lane
+  returning * into v_ticket;
+
+  if v_ticket.status = 'admitted' then
+    return query select true, v_lane.lane, 0, 0, 0, 0;
+    return;
+  end if;
+
+  select count(*) into v_global_recent from public.generation_queue q where q.status = 'admitted';
+  select count(*) into v_user_recent from public.generation_queue q where q.status = 'admitted' and q.user_id = p_user_id;
+
+  -- round robin within the lane: every user's oldest waiting ticket comes before anyone's second
+  with waiting as (
+    select q.id, q.user_id, q.lane, q.created_at,
+      row_number() over (partition by q.user_id order by q.created_at) as user_rank
+    from public.generation_queue q
+    where q.status = 'waiting'
+  ), ordered as (
+    select w.id, w.user_rank,
+      row_number() over (partition by w.lane order by w.user_rank, w.created_at) as lane_rank
+    from waiting w
+  )
+  select o.lane_rank, o.user_rank into v_position, v_user_position
+  from ordered o
+  where o.id = v_ticket.id;
+
+  -- tickets that could be admitted now: the first of each user under their limit, as many per
+  -- lane as the lane has jobs to spare. jobs untouched for 15 minutes no longer count as running;
+  -- admitted tickets whose job is not recorded yet hold their slot until it is
+  with lane_load as (
+    select l.lane, l.priority,
+      l.concurrency - (
+        select count(*) from public.generation_jobs j
+        where j.lane = l.lane
+          and j.status in ('submitting', 'queued', 'uploaded', 'in_progress')
+          and j.updated_at > now() - interval '15 minutes'
+      ) - (
+        select count(*) from public.generation_queue a
+        where a.lane = l.lane
+          and a.status = 'admitted'
+          and not exists (
+            select 1 from public.generation_jobs j
+            where j.user_id = a.user_id and j.idempotency_key = a.idempotency_key
+          )
+      ) as free_slots
+    from public.generation_lanes l
+  ), heads as (
+    select distinct on (q.user_id) q.id, q.user_id, q.lane, q.created_at
+    from public.generation_queue q
+    where q.status = 'waiting'
+    order by q.user_id, q.created_at
+  ), eligible as (
+    select h.id, ll.priority, h.created_at, ll.free_slots,
+      row_number() over (partition by h.lane order by h.created_at) as lane_rank
+    from heads h
+    join lane_load ll on ll.lane = h.lane
+    where (select count(*) from public.generation_queue a
+           where a.status = 'admitted' and a.user_id = h.user_id) < p_user_per_minute
+  ), admissible as (
+    select e.id, e.priority, e.created_at from eligible e where e.lane_rank <= e.free_slots
+  )
+  select
+    coalesce(bool_or(a.id = v_ticket.id), false),
+    count(*) filter (where (a.priority, a.created_at) <= (v_lane.priority, v_ticket.created_at))
+  into v_admissible, v_global_rank
+  from admissible a;
+
+  v_blocked := public.zoo_blocked_seconds();
+
+  -- the per-minute budget goes to higher priority lanes first
+  if v_blocked = 0
+     and v_admissible
+     and v_global_rank <= p_global_per_minute - v_global_recent then
+    update public.generation_queue set status = 'admitted', admitted_at = now() where id = v_ticket.id;
+    return query select true, v_lane.lane, 0, 0, 0, 0;
+    return;
+  end if;
+
+  -- ask again once the oldest admission holding up this ticket leaves the one minute window, and
+  -- at least every 10 seconds so the ticket stays alive and its position current
+  if v_user_recent >= p_user_per_minute then
+    select min(q.admitted_at) into v_oldest_admission
+    from public.generation_queue q
+    where q.status = 'admitted' and q.user_id = p_user_id;
+  elsif v_global_recent >= p_global_per_minute then
+    select min(q.admitted_at) into v_oldest_admission
+    from public.generation_queue q
+    where q.status = 'admitted';
+  end if;
+  v_retry := coalesce(ceil(extract(epoch from v_oldest_admission + interval '1 minute' - now()))::integer, 2);
+
+  -- each round of `concurrency` tickets ahead takes about as long as the lane's recent jobs
+  select coalesce(extract(epoch from avg(j.completed_at - j.created_at)), 90) into v_job_seconds
+  from public.generation_jobs j
+  where j.lane = v_lane.lane
+    and j.status = 'completed'
+    and j.completed_at > now() - interval '1 day';
+
+  return query select
+    false,
+    v_lane.lane,
+    v_position,
+    v_user_position,
+    greatest(v_blocked, least(greatest(v_retry, 1), 10)),
+    greatest(v_blocked, ceil(ceil(v_position::numeric / v_lane.concurrency) * v_job_seconds)::integer);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.generation_lane(uuid) from public, anon, authenticated;
+revoke all on function public.claim_generation_slot(uuid, text, integer, integer) from public, anon, authenticated;
+
+grant execute on function public.generation_lane(uuid) to service_role;
+grant execute on function public.claim_generation_slot(uuid, text, integer, integer) to service_role;
+
+-- add table comments
+comment on table public.generation_lanes is 'priority and concurrency of each subscription tier''s generation lane';
+
+-- add column comments
+comment on column public.generation_lanes.concurrency is 'jobs of the lane that may run at zoo at the same time';
+comment on column public.generation_queue.lane is 'lane of the user''s subscription tier when the ticket was last refreshed';
+comment on column public.generation_jobs.lane is 'lane the job was admitted through';
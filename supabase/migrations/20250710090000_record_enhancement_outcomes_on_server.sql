@@ -0,0 +1,57 @@
+-- migration: record enhancement outcomes on the server
+-- description: outcomes used to be inserted by the browser, so any user could skew the
+-- strategy stats every user's prompts are enhanced with. the zoo-text-to-cad function now
+-- records one row per generation job when the job finishes, with the status zoo reported;
+-- users can no longer insert rows and get_enhancement_stats only counts server rows
+
+drop policy if exists "users can insert their own enhancement outcomes" on public.enhancement_outcomes;
+
+-- generation job the row was recorded for; null on rows the browser wrote. not a foreign key:
+-- jobs zoo rejected at submission are deleted once their reservation is released
+alter table public.enhancement_outcomes
+  add column if not exists job_id uuid;
+
+-- one outcome per job, so a finished job reported twice (watch stream and status poll) is
+-- recorded once
+create unique index if not exists idx_enhancement_outcomes_job_id on public.enhancement_outcomes(job_id);
+
+-- success rates per strategy and prompt category since p_since, across all users. only rows
+-- the server recorded count; cancelled generations say nothing about the prompt and are left
+-- out of the rate
+create or replace function public.get_enhancement_stats(p_since timestamptz default now() - interval '30 days')
+returns table (
+  enhancement_source text,
+  prompt_category text,
+  attempts bigint,
+  completed bigint,
+  rejected bigint,
+  failed bigint,
+  rescued bigint,
+  success_rate numeric
+) as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  return query
+  select
+    o.enhancement_source,
+    o.prompt_category,
+    count(*) as attempts,
+    count(*) filter (where o.status = 'completed') as completed,
+    count(*) filter (where o.status = 'rejected') as rejected,
+    count(*) filter (where o.status in ('failed', 'timed_out')) as failed,
+    count(*) filter (where o.status = 'rejected' and o.final_status = 'completed') as rescued,
+    round(count(*) filter (where o.status = 'completed')::numeric / count(*), 4) as success_rate
+  from public.enhancement_outcomes o
+  where o.created_at >= p_since
+    and o.job_id is not null
+    and o.status <> 'cancelled'
+  group by o.enhancement_source, o.prompt_category;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+grant execute on function public.get_enhancement_stats(timestamptz) to authenticated;
+
+comment on column public.enhancement_outcomes.job_id is 'generation job the zoo-text-to-cad function recorded this outcome for; null on rows written by the browser, which are not counted';
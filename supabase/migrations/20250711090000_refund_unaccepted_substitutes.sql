@@ -0,0 +1,65 @@
+-- migration: refund template substitutions the user never accepted
+-- description: a model generated from the fallback template instead of the user's prompt used
+-- to stay charged unless the user explicitly declined it, so closing the tab kept the charge.
+-- substitutions are now only paid for once accepted: accepting records substitute_accepted_at,
+-- and refund_unaccepted_substitutes gives back the credit of completed substitutions left
+-- unaccepted for longer than the accept window
+
+alter table public.generation_jobs add column if not exists substitute_accepted_at timestamptz;
+
+create index if not exists idx_generation_jobs_unaccepted_substitutes
+  on public.generation_jobs(completed_at)
+  where status = 'completed' and credit_charged and not credit_refunded and substitute_accepted_at is null;
+
+-- refund every completed job generated from p_template_prompt in place of another prompt that
+-- was not accepted within p_accept_window. the credit_refunded flag is claimed in the same
+-- statement, so concurrent sweeps never refund a job twice. refunds go to the current usage
+-- period, so jobs charged in an earlier, closed period are left as they are. returns the number
+-- of refunds
+create or replace function public.refund_unaccepted_substitutes(
+  p_template_prompt text,
+  p_accept_window interval default interval '1 hour'
+)
+returns integer as $$
+declare
+  v_users uuid[];
+  v_user_id uuid;
+begin
+  with claimed as (
+    update public.generation_jobs
+    set credit_refunded = true,
+        updated_at = now()
+    where status = 'completed'
+      and credit_charged
+      and not credit_refunded
+      and substitute_accepted_at is null
+      and user_id is not null
+      and prompt = p_template_prompt
+      and lower(trim(coalesce(original_prompt, ''))) <> p_template_prompt
+      and completed_at < now() - p_accept_window
+      and exists (
+        select 1 from public.usage_tracking u
+        where u.user_id = generation_jobs.user_id
+          and u.period_start <= generation_jobs.created_at
+          and u.period_end >= now()
+      )
+    returning user_id
+  )
+  select array_agg(user_id) into v_users from claimed;
+
+  foreach v_user_id in array coalesce(v_users, '{}') loop
+    perform public.refund_usage(v_user_id, 'design', 1);
+  end loop;
+
+  return coalesce(array_length(v_users, 1), 0);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.refund_unaccepted_substitutes(text, interval) from public, anon, authenticated;
+grant execute on function public.refund_unaccepted_substitutes(text, interval) to service_role;
+
+-- the zoo-text-to-cad function sweeps on every generate and job list request; with pg_cron the
+-- sweep can also run on a schedule
+-- select cron.schedule('refund-unaccepted-substitutes', '*/15 * * * *', $$select public.refund_unaccepted_substitutes('design a plate with 4 holes near each corner and rounded corners');$$);
+
+comment on column public.generation_jobs.substitute_accepted_at is 'when the user kept a model generated from the fallback template; unaccepted substitutions are refunded';